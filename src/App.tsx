@@ -2,12 +2,16 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import LandingPage from './components/LandingPage';
 import ProjectionDashboard from './components/dashboard/ProjectionDashboard';
+import CaseListPage from './components/dashboard/CaseListPage';
+import AssumptionLibraryPage from './components/dashboard/AssumptionLibraryPage';
 
 const App: React.FC = () => (
   <Router basename="/HealthcareAI">
     <Routes>
       <Route path="/" element={<LandingPage />} />
       <Route path="/dashboard" element={<ProjectionDashboard />} />
+      <Route path="/cases" element={<CaseListPage />} />
+      <Route path="/assumptions" element={<AssumptionLibraryPage />} />
     </Routes>
   </Router>
 );
@@ -0,0 +1,97 @@
+import { runProjection } from '../utils/projectionRunner';
+import { getCarrierPlugin } from '../components/carriers';
+import { listAssumptionSets, publishAssumptionSet, resolveAssumptionSet } from '.';
+
+describe('assumption library', () => {
+  const monthly = Array.from({ length: 12 }, (_, i) => ({
+    Month: `2024-${String(i + 1).padStart(2, '0')}`,
+    'Medical Claims': 400000,
+    'Pharmacy Claims': 100000,
+    memberMonthsMedical: 1000,
+    memberMonthsRx: 1000
+  }));
+  const rows = [{ caseId: 'LIB-1', renewalStart: '2025-07-01', renewalEnd: '2026-06-30' }, ...monthly];
+
+  const publish2025 = (medicalTrend: number) => publishAssumptionSet({
+    effectiveQuarter: '2025-Q2',
+    notes: 'Q2 trend study',
+    entries: [
+      { carrier: '*', line: 'medical', segment: 'large', trend: 0.1, retention: 0.2, manualLoad: 0.15 },
+      { carrier: '*', line: 'rx', segment: 'large', trend: 0.11, retention: 0.2, manualLoad: 0.15 },
+      { carrier: 'UHC', line: 'medical', segment: 'large', trend: medicalTrend, poolingLevel: 150000 }
+    ]
+  });
+
+  beforeEach(() => localStorage.clear());
+
+  test('the built-in set keeps the carrier defaults and is recorded on the result', async () => {
+    const { params, result, assumptions } = await runProjection(rows, 'UHC');
+
+    expect(listAssumptionSets().map(set => set.version)).toEqual(['2024-Q1.0']);
+    expect(params.medicalTrend).toBe(0.0969);
+    expect(params.poolingThreshold).toBe(125000);
+    expect(assumptions.renewalQuarter).toBe('2025-Q3');
+    expect(result.assumptionSet).toEqual({ version: '2024-Q1.0', effectiveQuarter: '2024-Q1', segment: 'large' });
+  });
+
+  test('applies the latest revision in force at renewal, with firm-wide values behind carrier entries', async () => {
+    publish2025(0.12);
+    const revised = publish2025(0.13);
+    expect(revised.version).toBe('2025-Q2.2');
+
+    const uhc = await runProjection(rows, 'UHC');
+    expect(uhc.result.assumptionSet!.version).toBe('2025-Q2.2');
+    expect(uhc.params.medicalTrend).toBe(0.13);
+    expect(uhc.params.rxTrend).toBe(0.11);
+    expect(uhc.params.poolingThreshold).toBe(150000);
+    expect(uhc.input.estimateLoads!.retention).toEqual({ medical: 0.2, rx: 0.2 });
+
+    const aetna = await runProjection(rows, 'AETNA');
+    expect(aetna.params.medicalTrendFactor).toBe(1.1);
+
+    // Cigna's current premium, manual rate and prior claims basis take the published loads
+    const cigna = await runProjection(rows, 'CIGNA');
+    const cignaLine = (description: string) =>
+      cigna.result.detailedResults!.cigna.calculations.find((line: any) => line.description === description).pmpm;
+    expect(cigna.result.currentPremiumPMPM).toBeCloseTo(600);
+    expect(cignaLine('Manual Claim Cost')).toBeCloseTo(575);
+    expect(cignaLine('Prior Year Claims Basis')).toBeCloseTo(500);
+
+    const bcbs = await runProjection(rows, 'BCBS');
+    expect(bcbs.params.rxTrend).toBe(1.11);
+    const trend = getCarrierPlugin('BCBS').adaptInput(bcbs.input, bcbs.params).carrierSpecificParameters.plans[0].trendFactors.pharmacy;
+    expect(trend.annualCurrent).toBe(1.11);
+    expect(trend.annualRenewal).toBe(1.11);
+
+    // Renewals before the published quarter keep the built-in set
+    expect(resolveAssumptionSet('2025-Q1').version).toBe('2024-Q1.0');
+  });
+
+  test('pins a version and segment and leaves explicit parameters alone', async () => {
+    publish2025(0.12);
+    publish2025(0.13);
+    const pinned = [{ ...rows[0], assumptionSet: '2025-Q2.1', medicalTrend: 0.09 }, ...monthly];
+
+    const { params, assumptions } = await runProjection(pinned, 'UHC');
+    expect(assumptions.version).toBe('2025-Q2.1');
+    expect(params.medicalTrend).toBe(0.09);
+    expect(assumptions.parameters.find(parameter => parameter.key === 'medicalTrend')!.applied).toBe(false);
+
+    // The published set has no small group entries, so the carrier defaults stay
+    const small = await runProjection([{ ...rows[0], marketSegment: 'Small' }, ...monthly], 'UHC');
+    expect(small.assumptions.segment).toBe('small');
+    expect(small.params.medicalTrend).toBe(0.0969);
+  });
+
+  test('refuses an invalid set with every problem listed', () => {
+    expect(() => publishAssumptionSet({
+      effectiveQuarter: '2025-3',
+      notes: '',
+      entries: [
+        { carrier: 'NOPE', line: 'medical', segment: 'large' },
+        { carrier: 'UHC', line: 'medical', segment: 'large', trend: 0.9 }
+      ]
+    })).toThrow(/^Invalid assumption set: effective quarter .*; entry 1 \(NOPE medical large\): unknown carrier; entry 2 .*trend must be between -0.2 and 0.5, got 0.9$/);
+    expect(listAssumptionSets()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { CoverageLine, listCarrierPlugins } from '../components/carriers';
+import { DEFAULT_ESTIMATE_LOADS } from '../utils/experienceEstimates';
+import { AssumptionEntry, AssumptionSet, MarketSegment } from './types';
+
+export const ASSUMPTION_ALL_CARRIERS = '*';
+export const COVERAGE_LINES: CoverageLine[] = ['medical', 'rx'];
+export const MARKET_SEGMENTS: MarketSegment[] = ['small', 'large'];
+export const SMALL_GROUP_MAX_EMPLOYEES = 100;
+export const BUILT_IN_ASSUMPTION_QUARTER = '2024-Q1';
+
+// Library trends are annual rates; factor fields hold 1 + rate
+export function fieldValueToAssumption(unit: string, value: number): number {
+  return unit === 'factor' ? Number((value - 1).toFixed(6)) : value;
+}
+
+export function assumptionToFieldValue(unit: string, value: number): number {
+  return unit === 'factor' ? Number((1 + value).toFixed(6)) : value;
+}
+
+// Each registered carrier's default trend and pooling level for a line of coverage
+function carrierEntries(line: CoverageLine, segment: MarketSegment): AssumptionEntry[] {
+  return listCarrierPlugins().flatMap(plugin => {
+    const entry: AssumptionEntry = { carrier: plugin.id, line, segment };
+    plugin.parameterSchema
+      .filter(field => field.assumption?.line === line && plugin.defaultParameters[field.key] !== undefined)
+      .forEach(field => {
+        entry[field.assumption!.value] = fieldValueToAssumption(field.unit, plugin.defaultParameters[field.key]);
+      });
+    return entry.trend === undefined && entry.poolingLevel === undefined ? [] : [entry];
+  });
+}
+
+/**
+ * The set in force before any is published: the carrier defaults and firm-wide experience estimate loads
+ * Built from the registered carriers, so carriers registered later are covered too
+ */
+export function builtInAssumptionSet(): AssumptionSet {
+  const entries = MARKET_SEGMENTS.flatMap(segment => COVERAGE_LINES.flatMap(line => [
+    {
+      carrier: ASSUMPTION_ALL_CARRIERS,
+      line,
+      segment,
+      retention: DEFAULT_ESTIMATE_LOADS.retention[line],
+      manualLoad: DEFAULT_ESTIMATE_LOADS.manual[line]
+    },
+    ...carrierEntries(line, segment)
+  ]));
+  return {
+    version: `${BUILT_IN_ASSUMPTION_QUARTER}.0`,
+    effectiveQuarter: BUILT_IN_ASSUMPTION_QUARTER,
+    revision: 0,
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    notes: 'Built-in carrier defaults',
+    entries
+  };
+}
@@ -0,0 +1,11 @@
+// Versioned assumption library: trend, pooling and retention by carrier, quarter, line of coverage and market segment
+export * from './types';
+export {
+  ASSUMPTION_ALL_CARRIERS,
+  COVERAGE_LINES,
+  MARKET_SEGMENTS,
+  SMALL_GROUP_MAX_EMPLOYEES,
+  builtInAssumptionSet
+} from './defaults';
+export { quarterOf, listAssumptionSets, getAssumptionSet, resolveAssumptionSet, publishAssumptionSet } from './storage';
+export { lookupAssumptions, parseMarketSegment, marketSegmentFor, applyAssumptionSet } from './library';
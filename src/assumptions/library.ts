@@ -0,0 +1,104 @@
+import { ExperienceEstimateLoads, UniversalInput } from '../types/common';
+import { CoverageLine, getCarrierPlugin, isParameterSupplied } from '../components/carriers';
+import { DEFAULT_ESTIMATE_LOADS } from '../utils/experienceEstimates';
+import { renewalPeriodAfter } from '../utils/periodHandling';
+import { DEFAULT_MEMBERS_PER_SUBSCRIBER } from '../tierRating';
+import { AssumptionApplication, AssumptionParameter, AssumptionSet, AssumptionValue, MarketSegment } from './types';
+import { ASSUMPTION_ALL_CARRIERS, MARKET_SEGMENTS, SMALL_GROUP_MAX_EMPLOYEES, assumptionToFieldValue } from './defaults';
+import { getAssumptionSet, quarterOf, resolveAssumptionSet } from './storage';
+
+// Segment is sized on the latest year of enrollment
+const SEGMENT_MONTHS = 12;
+
+/**
+ * A set's values for a carrier, line and segment; values the carrier's entry leaves out come from the firm-wide entry
+ */
+export function lookupAssumptions(
+  set: AssumptionSet,
+  carrier: string,
+  line: CoverageLine,
+  segment: MarketSegment
+): Partial<Record<AssumptionValue, number>> {
+  const find = (id: string) => set.entries.find(entry => entry.carrier === id && entry.line === line && entry.segment === segment);
+  const firmWide = find(ASSUMPTION_ALL_CARRIERS);
+  const own = find(carrier.toUpperCase());
+  const values: Partial<Record<AssumptionValue, number>> = {};
+  (['trend', 'poolingLevel', 'retention', 'manualLoad'] as AssumptionValue[]).forEach(value => {
+    const amount = own?.[value] ?? firmWide?.[value];
+    if (amount !== undefined) values[value] = amount;
+  });
+  return values;
+}
+
+export function parseMarketSegment(value: string): MarketSegment {
+  const segment = value.trim().toLowerCase() as MarketSegment;
+  if (!MARKET_SEGMENTS.includes(segment)) {
+    throw new Error(`Unknown market segment: ${value}; expected ${MARKET_SEGMENTS.join(' or ')}`);
+  }
+  return segment;
+}
+
+/**
+ * Small or large group, from the census headcount or else the average enrolled members per subscriber
+ */
+export function marketSegmentFor(input: UniversalInput): MarketSegment {
+  const months = [...input.monthlyClaimsData].sort((a, b) => a.month.localeCompare(b.month)).slice(-SEGMENT_MONTHS);
+  const members = months.reduce((sum, month) => sum + (month.memberMonths?.total || 0), 0) / (months.length || 1);
+  const employees = input.census?.length || members / DEFAULT_MEMBERS_PER_SUBSCRIBER;
+  return employees <= SMALL_GROUP_MAX_EMPLOYEES ? 'small' : 'large';
+}
+
+/**
+ * Default the carrier's trend and pooling parameters and the experience estimate loads from the set in force at renewal
+ * Parameters an explicit source sets are left alone; a version pins the set instead of the renewal quarter
+ */
+export function applyAssumptionSet(
+  input: UniversalInput,
+  carrier: string,
+  params: Record<string, any>,
+  explicitSources: Record<string, any>[],
+  options: { segment?: string; version?: string } = {}
+): { input: UniversalInput; params: Record<string, any>; assumptions: AssumptionApplication } {
+  const renewal = renewalPeriodAfter(input.renewalDates ?? input.effectiveDates, input.effectiveDates.renewalEnd);
+  const renewalQuarter = quarterOf(renewal.start);
+  const set = options.version ? getAssumptionSet(options.version) : resolveAssumptionSet(renewalQuarter);
+  const segment = options.segment ? parseMarketSegment(options.segment) : marketSegmentFor(input);
+
+  const parameters: AssumptionParameter[] = getCarrierPlugin(carrier).parameterSchema.flatMap(field => {
+    if (!field.assumption) return [];
+    const amount = lookupAssumptions(set, carrier, field.assumption.line, segment)[field.assumption.value];
+    if (amount === undefined) return [];
+    const applied = !isParameterSupplied(field, explicitSources);
+    const value = applied ? assumptionToFieldValue(field.unit, amount) : Number(params[field.key]);
+    return [{ key: field.key, label: field.label, value, applied }];
+  });
+
+  const medical = lookupAssumptions(set, carrier, 'medical', segment);
+  const rx = lookupAssumptions(set, carrier, 'rx', segment);
+  const estimateLoads: ExperienceEstimateLoads = {
+    manual: {
+      medical: medical.manualLoad ?? DEFAULT_ESTIMATE_LOADS.manual.medical,
+      rx: rx.manualLoad ?? DEFAULT_ESTIMATE_LOADS.manual.rx
+    },
+    retention: {
+      medical: medical.retention ?? DEFAULT_ESTIMATE_LOADS.retention.medical,
+      rx: rx.retention ?? DEFAULT_ESTIMATE_LOADS.retention.rx
+    }
+  };
+
+  return {
+    input: { ...input, estimateLoads },
+    params: {
+      ...params,
+      ...Object.fromEntries(parameters.filter(parameter => parameter.applied).map(parameter => [parameter.key, parameter.value]))
+    },
+    assumptions: {
+      version: set.version,
+      effectiveQuarter: set.effectiveQuarter,
+      segment,
+      renewalQuarter,
+      parameters,
+      estimateLoads
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { listCarrierPlugins } from '../components/carriers';
+import { AssumptionEntry, AssumptionSet, AssumptionSetDraft, AssumptionValue } from './types';
+import { ASSUMPTION_ALL_CARRIERS, COVERAGE_LINES, MARKET_SEGMENTS, builtInAssumptionSet } from './defaults';
+
+const STORAGE_KEY = 'renewalAssumptionSets';
+const QUARTER_PATTERN = /^\d{4}-Q[1-4]$/;
+
+// Accepted range of each library value
+const VALUE_RANGES: Record<AssumptionValue, [number, number]> = {
+  trend: [-0.2, 0.5],
+  poolingLevel: [10000, 2000000],
+  retention: [0, 1],
+  manualLoad: [0, 1]
+};
+
+export function quarterOf(date: Date): string {
+  return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+}
+
+// Browser persistence; without localStorage (CLI, tests) only the built-in set exists
+function getStorage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+function loadPublished(): AssumptionSet[] {
+  const stored = getStorage()?.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as AssumptionSet[];
+  } catch (error) {
+    console.warn('Ignoring unreadable assumption sets:', error);
+    return [];
+  }
+}
+
+function compareSets(a: AssumptionSet, b: AssumptionSet): number {
+  return a.effectiveQuarter.localeCompare(b.effectiveQuarter) || a.revision - b.revision;
+}
+
+function parseEntries(entries: AssumptionEntry[]): { entries: AssumptionEntry[]; errors: string[] } {
+  const carriers = [ASSUMPTION_ALL_CARRIERS, ...listCarrierPlugins().map(plugin => plugin.id)];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const parsed = entries.map((entry, index) => {
+    const carrier = String(entry.carrier ?? '').toUpperCase();
+    const name = `entry ${index + 1} (${carrier || 'no carrier'} ${entry.line} ${entry.segment})`;
+    if (!carriers.includes(carrier)) errors.push(`${name}: unknown carrier`);
+    if (!COVERAGE_LINES.includes(entry.line)) errors.push(`${name}: line must be ${COVERAGE_LINES.join(' or ')}`);
+    if (!MARKET_SEGMENTS.includes(entry.segment)) errors.push(`${name}: segment must be ${MARKET_SEGMENTS.join(' or ')}`);
+    const key = `${carrier}|${entry.line}|${entry.segment}`;
+    if (seen.has(key)) errors.push(`${name}: duplicates an earlier entry`);
+    seen.add(key);
+
+    const values: Partial<Record<AssumptionValue, number>> = {};
+    (Object.keys(VALUE_RANGES) as AssumptionValue[]).forEach(value => {
+      const amount = entry[value];
+      if (amount === undefined) return;
+      const [min, max] = VALUE_RANGES[value];
+      if (typeof amount !== 'number' || !isFinite(amount) || amount < min || amount > max) {
+        errors.push(`${name}: ${value} must be between ${min} and ${max}, got ${amount}`);
+      } else {
+        values[value] = amount;
+      }
+    });
+    return { carrier, line: entry.line, segment: entry.segment, ...values };
+  });
+  return { entries: parsed, errors };
+}
+
+/**
+ * The built-in set and every published set, oldest quarter and revision first
+ */
+export function listAssumptionSets(): AssumptionSet[] {
+  return [builtInAssumptionSet(), ...loadPublished()].sort(compareSets);
+}
+
+export function getAssumptionSet(version: string): AssumptionSet {
+  const set = listAssumptionSets().find(candidate => candidate.version === version);
+  if (!set) {
+    throw new Error(`Unknown assumption set version: ${version}`);
+  }
+  return set;
+}
+
+/**
+ * The set in force for a renewal quarter: the latest revision of the latest quarter on or before it
+ * Renewals before every published quarter use the built-in set
+ */
+export function resolveAssumptionSet(quarter: string): AssumptionSet {
+  const sets = listAssumptionSets();
+  const inForce = sets.filter(set => set.effectiveQuarter <= quarter);
+  return inForce.length > 0 ? inForce[inForce.length - 1] : sets.find(set => set.revision === 0)!;
+}
+
+/**
+ * Publish a new revision of a quarter's assumptions; published sets are never changed
+ * Throws with every invalid entry listed
+ */
+export function publishAssumptionSet(draft: AssumptionSetDraft): AssumptionSet {
+  const errors: string[] = [];
+  if (!QUARTER_PATTERN.test(draft.effectiveQuarter)) {
+    errors.push(`effective quarter must look like 2025-Q3, got ${draft.effectiveQuarter}`);
+  }
+  if (!Array.isArray(draft.entries) || draft.entries.length === 0) {
+    errors.push('at least one entry is required');
+  }
+  const parsed = parseEntries(Array.isArray(draft.entries) ? draft.entries : []);
+  errors.push(...parsed.errors);
+  if (!getStorage()) {
+    errors.push('assumption sets can only be published where browser storage is available');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid assumption set: ${errors.join('; ')}`);
+  }
+
+  const published = loadPublished();
+  const revision = 1 + Math.max(0, ...published
+    .filter(set => set.effectiveQuarter === draft.effectiveQuarter)
+    .map(set => set.revision));
+  const set: AssumptionSet = {
+    version: `${draft.effectiveQuarter}.${revision}`,
+    effectiveQuarter: draft.effectiveQuarter,
+    revision,
+    publishedAt: new Date().toISOString(),
+    notes: draft.notes.trim(),
+    entries: parsed.entries
+  };
+  getStorage()!.setItem(STORAGE_KEY, JSON.stringify([...published, set]));
+  return set;
+}
@@ -0,0 +1,51 @@
+import { CoverageLine } from '../components/carriers';
+import { AssumptionSetReference, ExperienceEstimateLoads } from '../types/common';
+
+export type { CoverageLine };
+
+// Small groups are rated for up to SMALL_GROUP_MAX_EMPLOYEES employees
+export type MarketSegment = 'small' | 'large';
+
+// Carrier id, or ASSUMPTION_ALL_CARRIERS for the firm-wide entry carriers fall back to
+export type AssumptionCarrier = string;
+
+// Assumptions for one carrier, line of coverage and market segment; values left out fall back to the firm-wide entry
+export interface AssumptionEntry {
+  carrier: AssumptionCarrier;
+  line: CoverageLine;
+  segment: MarketSegment;
+  trend?: number; // Annual trend rate, e.g. 0.085
+  poolingLevel?: number;
+  retention?: number; // Premium load over claims for the current premium estimate, e.g. 0.16
+  manualLoad?: number; // Manual rate load over experience claims, e.g. 0.15
+}
+
+export type AssumptionValue = 'trend' | 'poolingLevel' | 'retention' | 'manualLoad';
+
+// A published, read-only set of assumptions for renewals effective in or after a quarter
+export interface AssumptionSet {
+  version: string; // effectiveQuarter.revision, e.g. '2025-Q3.2'
+  effectiveQuarter: string; // 'YYYY-Qn'
+  revision: number; // 0 for the built-in set, then 1, 2, ... per quarter
+  publishedAt: string;
+  notes: string;
+  entries: AssumptionEntry[];
+}
+
+// What an admin supplies to publish a set; the version and publication time are assigned
+export type AssumptionSetDraft = Pick<AssumptionSet, 'effectiveQuarter' | 'notes' | 'entries'>;
+
+// A carrier parameter defaulted from the library
+export interface AssumptionParameter {
+  key: string;
+  label: string;
+  value: number;
+  applied: boolean; // False when the parameter was uploaded or overridden explicitly
+}
+
+// How a set was applied to a case
+export interface AssumptionApplication extends AssumptionSetReference {
+  renewalQuarter: string;
+  parameters: AssumptionParameter[];
+  estimateLoads: ExperienceEstimateLoads;
+}
@@ -0,0 +1,101 @@
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  CaseDraft,
+  caseKey,
+  createIndexedDbRepository,
+  createMemoryRepository,
+  setCaseRepository,
+  listCases,
+  loadCase,
+  saveCase,
+  duplicateCase,
+  setCaseStatus,
+  deleteCase,
+  getLastOpenedCaseId,
+  setLastOpenedCaseId
+} from '.';
+import { loadCaseScenarios, saveCaseScenario } from '../scenarios';
+
+describe('case workspace', () => {
+  const draft = (caseId: string, notes = ''): CaseDraft => ({
+    caseId,
+    carrier: 'HUMANA',
+    rows: [{ caseId }, { Month: '2024-01', 'Medical Claims': 400000, 'Pharmacy Claims': 100000 }],
+    overrides: { medicalTrend: 0.08 },
+    result: null,
+    notes
+  });
+
+  beforeEach(() => {
+    setCaseRepository(createMemoryRepository());
+    localStorage.clear();
+  });
+
+  test('saves and reopens a case by caseId, keeping its creation time', async () => {
+    const first = await saveCase(draft('CASE-1'));
+    const second = await saveCase({ ...draft('CASE-1'), notes: 'Carrier agreed to 7% trend' });
+
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(second.status).toBe('active');
+    expect((await loadCase('CASE-1'))?.notes).toBe('Carrier agreed to 7% trend');
+    expect(await loadCase('CASE-2')).toBeNull();
+    expect((await saveCase(draft(''))).caseId).toBe('unnamed-case');
+  });
+
+  test('keeps structured IBNR and credibility settings with the overrides', async () => {
+    const overrides = {
+      medicalTrend: 0.08,
+      ibnr: { method: 'paidVsIncurred' as const, maturityMonths: 2 },
+      credibilitySettings: { method: 'buhlmann' as const, buhlmannK: 8000 }
+    };
+    await saveCase({ ...draft('CASE-1'), overrides });
+    expect((await loadCase('CASE-1'))?.overrides).toEqual(overrides);
+  });
+
+  test('duplicates a case with its scenarios under a new case id', async () => {
+    await saveCase(draft('CASE-1', 'original'));
+    saveCaseScenario('CASE-1', { name: 'Trend 10%', overrides: { medicalTrend: 0.1 } });
+
+    const copy = await duplicateCase('CASE-1');
+    const secondCopy = await duplicateCase('CASE-1');
+
+    expect(copy.caseId).toBe('CASE-1 (copy)');
+    expect(secondCopy.caseId).toBe('CASE-1 (copy 2)');
+    expect(copy.rows[0].caseId).toBe('CASE-1 (copy)');
+    expect(copy.notes).toBe('original');
+    expect(loadCaseScenarios('CASE-1 (copy)').map(s => s.name)).toEqual(['Trend 10%']);
+    await expect(duplicateCase('MISSING')).rejects.toThrow('Case not found: MISSING');
+  });
+
+  test('archives cases out of the default list and remembers the last opened case', async () => {
+    await saveCase(draft('CASE-1'));
+    await saveCase(draft('CASE-2'));
+    await setCaseStatus('CASE-1', 'archived');
+
+    expect((await listCases()).map(c => c.caseId)).toEqual(['CASE-2']);
+    expect((await listCases(true)).map(c => c.caseId)).toEqual(['CASE-1', 'CASE-2']);
+    expect((await saveCase(draft('CASE-1'))).status).toBe('archived');
+
+    setLastOpenedCaseId('CASE-2');
+    expect(getLastOpenedCaseId()).toBe('CASE-2');
+    await deleteCase('CASE-2');
+    expect(getLastOpenedCaseId()).toBeNull();
+    expect((await listCases(true)).map(c => c.caseId)).toEqual(['CASE-1']);
+  });
+
+  test('keeps cases in IndexedDB across repository instances', async () => {
+    const factory = new IDBFactory();
+    setCaseRepository(createIndexedDbRepository(factory));
+    await saveCase(draft('CASE-1', 'first pass'));
+    await saveCase(draft('CASE-2'));
+
+    const reopened = createIndexedDbRepository(factory);
+    expect((await reopened.get('CASE-1'))?.notes).toBe('first pass');
+    expect((await reopened.getAll()).map(c => c.caseId).sort()).toEqual(['CASE-1', 'CASE-2']);
+
+    await reopened.delete('CASE-1');
+    expect(await reopened.get('CASE-1')).toBeNull();
+    expect(await loadCase('CASE-1')).toBeNull();
+    expect(caseKey('')).toBe('unnamed-case');
+  });
+});
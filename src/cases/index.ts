@@ -0,0 +1,16 @@
+// Case workspace: each renewal's inputs, overrides, results and notes persisted per caseId
+export * from './types';
+export { createIndexedDbRepository, createMemoryRepository } from './repository';
+export { caseKey } from '../scenarios';
+export {
+  setCaseRepository,
+  summarizeCase,
+  listCases,
+  loadCase,
+  saveCase,
+  duplicateCase,
+  setCaseStatus,
+  deleteCase,
+  getLastOpenedCaseId,
+  setLastOpenedCaseId
+} from './store';
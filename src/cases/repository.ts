@@ -0,0 +1,63 @@
+import { CaseRecord, CaseRepository } from './types';
+
+const DATABASE_NAME = 'renewalWorkspace';
+const DATABASE_VERSION = 1;
+const CASE_STORE = 'cases';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(CASE_STORE)) {
+      request.result.createObjectStore(CASE_STORE, { keyPath: 'caseId' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Case records in the browser's IndexedDB; the database is opened on first use
+ */
+export function createIndexedDbRepository(factory: IDBFactory): CaseRepository {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    database = database || openDatabase(factory);
+    const store = (await database).transaction(CASE_STORE, mode).objectStore(CASE_STORE);
+    return requestToPromise(run(store));
+  };
+
+  return {
+    getAll: () => withStore('readonly', store => store.getAll() as IDBRequest<CaseRecord[]>),
+    get: async caseId => (await withStore('readonly', store => store.get(caseId) as IDBRequest<CaseRecord | undefined>)) || null,
+    put: async record => {
+      await withStore('readwrite', store => store.put(record));
+    },
+    delete: async caseId => {
+      await withStore('readwrite', store => store.delete(caseId));
+    }
+  };
+}
+
+/**
+ * Case records held in memory for the session, used where IndexedDB is unavailable (CLI, tests)
+ */
+export function createMemoryRepository(): CaseRepository {
+  const records = new Map<string, CaseRecord>();
+  return {
+    getAll: async () => Array.from(records.values()),
+    get: async caseId => records.get(caseId) || null,
+    put: async record => {
+      records.set(record.caseId, record);
+    },
+    delete: async caseId => {
+      records.delete(caseId);
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { CaseDraft, CaseRecord, CaseRepository, CaseStatus, CaseSummary } from './types';
+import { createIndexedDbRepository, createMemoryRepository } from './repository';
+import { caseKey, loadCaseScenarios, saveCaseScenario } from '../scenarios';
+
+const LAST_CASE_STORAGE_KEY = 'renewalWorkspaceLastCase';
+
+let repository: CaseRepository | null = null;
+
+function getCaseRepository(): CaseRepository {
+  if (!repository) {
+    repository = typeof indexedDB === 'undefined' ? createMemoryRepository() : createIndexedDbRepository(indexedDB);
+  }
+  return repository;
+}
+
+/**
+ * Replace the case storage backend, e.g. with a memory repository in tests
+ */
+export function setCaseRepository(caseRepository: CaseRepository): void {
+  repository = caseRepository;
+}
+
+// Browser persistence for the last opened case; without localStorage (CLI, tests) nothing is remembered
+function getStorage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+export function summarizeCase(record: CaseRecord): CaseSummary {
+  return {
+    caseId: record.caseId,
+    carrier: record.carrier,
+    status: record.status,
+    rowCount: record.rows.length,
+    projectedPremiumPMPM: record.result?.projectedPremiumPMPM ?? null,
+    requiredRateChange: record.result?.requiredRateChange ?? null,
+    hasNotes: record.notes.trim().length > 0,
+    updatedAt: record.updatedAt
+  };
+}
+
+/**
+ * Saved cases, most recently updated first; archived cases only when asked for
+ */
+export async function listCases(includeArchived: boolean = false): Promise<CaseSummary[]> {
+  const records = await getCaseRepository().getAll();
+  return records
+    .filter(record => includeArchived || record.status === 'active')
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarizeCase);
+}
+
+export async function loadCase(caseId: string): Promise<CaseRecord | null> {
+  return getCaseRepository().get(caseKey(caseId));
+}
+
+/**
+ * Save a case's current inputs, overrides, result and notes, keeping its creation time and status
+ */
+export async function saveCase(draft: CaseDraft): Promise<CaseRecord> {
+  const caseId = caseKey(draft.caseId);
+  const existing = await getCaseRepository().get(caseId);
+  const now = new Date().toISOString();
+  const record: CaseRecord = {
+    ...draft,
+    caseId,
+    status: existing?.status ?? 'active',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  await getCaseRepository().put(record);
+  return record;
+}
+
+async function requireCase(caseId: string): Promise<CaseRecord> {
+  const record = await loadCase(caseId);
+  if (!record) {
+    throw new Error(`Case not found: ${caseId}`);
+  }
+  return record;
+}
+
+async function nextCopyId(caseId: string): Promise<string> {
+  const taken = new Set((await getCaseRepository().getAll()).map(record => record.caseId));
+  let copyId = `${caseId} (copy)`;
+  for (let n = 2; taken.has(copyId); n++) {
+    copyId = `${caseId} (copy ${n})`;
+  }
+  return copyId;
+}
+
+// Point the rows' caseId at another case, adding a case row when the upload had none
+function withCaseId(rows: any[], caseId: string): any[] {
+  return rows.some(row => row.caseId)
+    ? rows.map(row => (row.caseId ? { ...row, caseId } : row))
+    : [{ caseId }, ...rows];
+}
+
+/**
+ * Copy a case, with its saved scenarios, under a new case id; the copied rows carry the new id
+ */
+export async function duplicateCase(caseId: string): Promise<CaseRecord> {
+  const source = await requireCase(caseId);
+  const copyId = await nextCopyId(source.caseId);
+  const copy = await saveCase({
+    caseId: copyId,
+    carrier: source.carrier,
+    rows: withCaseId(source.rows, copyId),
+    overrides: { ...source.overrides },
+    result: source.result,
+    notes: source.notes
+  });
+  loadCaseScenarios(source.caseId).forEach(scenario => saveCaseScenario(copyId, scenario));
+  return copy;
+}
+
+export async function setCaseStatus(caseId: string, status: CaseStatus): Promise<CaseRecord> {
+  const record = { ...(await requireCase(caseId)), status, updatedAt: new Date().toISOString() };
+  await getCaseRepository().put(record);
+  return record;
+}
+
+export async function deleteCase(caseId: string): Promise<void> {
+  await getCaseRepository().delete(caseKey(caseId));
+  if (getLastOpenedCaseId() === caseKey(caseId)) {
+    getStorage()?.removeItem(LAST_CASE_STORAGE_KEY);
+  }
+}
+
+export function getLastOpenedCaseId(): string | null {
+  return getStorage()?.getItem(LAST_CASE_STORAGE_KEY) ?? null;
+}
+
+export function setLastOpenedCaseId(caseId: string): void {
+  getStorage()?.setItem(LAST_CASE_STORAGE_KEY, caseKey(caseId));
+}
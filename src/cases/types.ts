@@ -0,0 +1,39 @@
+import { CalculationResult, ParameterOverrides } from '../types/common';
+
+export type CaseStatus = 'active' | 'archived';
+
+// Everything needed to reopen a renewal where it was left: the uploaded rows, parameters, last result and notes
+export interface CaseRecord {
+  caseId: string; // UniversalInput.caseId, or UNNAMED_CASE_ID for uploads without one
+  carrier: string;
+  rows: any[];
+  overrides: ParameterOverrides;
+  result: CalculationResult | null;
+  notes: string;
+  status: CaseStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The fields a caller supplies; timestamps and status are managed by the store
+export type CaseDraft = Pick<CaseRecord, 'caseId' | 'carrier' | 'rows' | 'overrides' | 'result' | 'notes'>;
+
+// Row shown on the case list page
+export interface CaseSummary {
+  caseId: string;
+  carrier: string;
+  status: CaseStatus;
+  rowCount: number;
+  projectedPremiumPMPM: number | null;
+  requiredRateChange: number | null;
+  hasNotes: boolean;
+  updatedAt: string;
+}
+
+// Storage backend for case records, keyed by caseId
+export interface CaseRepository {
+  getAll(): Promise<CaseRecord[]>;
+  get(caseId: string): Promise<CaseRecord | null>;
+  put(record: CaseRecord): Promise<void>;
+  delete(caseId: string): Promise<void>;
+}
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { main, parseArgs, routeLogsToStderr } from './renewal';
+import { runProjection } from '../utils/projectionRunner';
+
+const FIXTURE = path.join(__dirname, '__fixtures__', 'renewal-case.csv');
+
+describe('renewal CLI', () => {
+  test('parses the project command', () => {
+    const options = parseArgs(['project', '--carrier', 'uhc', '--input', 'a.xlsx', '--input', 'b.csv', '--out', 'results']);
+    expect(options).toEqual({
+      command: 'project',
+      carrier: 'UHC',
+      inputs: ['a.xlsx', 'b.csv'],
+      out: 'results'
+    });
+  });
+
+  test('rejects unknown commands, options and missing values', () => {
+    expect(() => parseArgs(['run', '--carrier', 'UHC', '--input', 'a.csv'])).toThrow('Unknown command');
+    expect(() => parseArgs(['project', '--carrier', 'UHC', '--inptu', 'a.csv'])).toThrow('Unknown option');
+    expect(() => parseArgs(['project', '--carrier', '--input', 'a.csv'])).toThrow('Missing value for --carrier');
+    expect(() => parseArgs(['project', '--carrier', 'UHC'])).toThrow('--input is required');
+  });
+
+  test('runs a projection from uploaded rows', async () => {
+    const rows: any[] = [{ caseId: 'CLI-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' }];
+    for (let month = 1; month <= 12; month++) {
+      rows.push({
+        Month: `2024-${String(month).padStart(2, '0')}`,
+        'Medical Claims': 400000,
+        'Pharmacy Claims': 100000,
+        memberMonthsMedical: 1000,
+        memberMonthsRx: 1000,
+        'Member Months': 1000
+      });
+    }
+
+    const { input, result } = await runProjection(rows, 'UHC');
+    expect(input.caseId).toBe('CLI-1');
+    expect(input.monthlyClaimsData).toHaveLength(12);
+    expect(result.carrier).toBe('UHC');
+  });
+
+  test('requires monthly claims rows', async () => {
+    await expect(runProjection([{ caseId: 'EMPTY' }], 'UHC')).rejects.toThrow('Missing required monthly claims data');
+  });
+
+  describe('main', () => {
+    const { log, info } = console;
+    let stdout: string;
+    let stderr: string[];
+
+    beforeEach(() => {
+      stdout = '';
+      stderr = [];
+      jest.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+        stdout += String(chunk);
+        return true;
+      });
+      jest.spyOn(console, 'error').mockImplementation((...args) => {
+        stderr.push(args.join(' '));
+      });
+      routeLogsToStderr();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      console.log = log;
+      console.info = info;
+    });
+
+    test('writes the projection JSON to stdout and progress and logs to stderr', async () => {
+      console.log('calculation progress');
+      const code = await main(['project', '--carrier', 'uhc', '--input', FIXTURE]);
+
+      expect(code).toBe(0);
+      const output = JSON.parse(stdout);
+      expect(output).toEqual(expect.objectContaining({ file: FIXTURE, carrier: 'UHC', caseId: 'CLI-FIXTURE', mappingProfile: null }));
+      expect(output.result.carrier).toBe('UHC');
+      expect(stderr).toContain('calculation progress');
+      expect(stderr).toContainEqual(expect.stringMatching(/^✓ .*renewal-case\.csv: -?\d+\.\d{2}% required rate change$/));
+    });
+
+    test('exits 2 with usage on bad arguments and 1 when a file fails', async () => {
+      expect(await main(['project', '--carrier', 'NOPE', '--input', FIXTURE])).toBe(2);
+      expect(stderr[0]).toContain('Usage: renewal project');
+
+      stderr = [];
+      expect(await main(['project', '--carrier', 'uhc', '--input', __filename])).toBe(1);
+      expect(stderr).toEqual([expect.stringMatching(/^✗ .*renewal\.test\.ts: Unsupported file type/)]);
+      expect(JSON.parse(stdout)).toBeNull();
+    });
+
+    test('exits 2 with a one-line error and usage for a missing input or unreadable overrides', async () => {
+      const missing = path.join(__dirname, '__fixtures__', 'missing.csv');
+      expect(await main(['project', '--carrier', 'uhc', '--input', missing])).toBe(2);
+      expect(stderr).toHaveLength(1);
+      expect(stderr[0].split('\n')[0]).toBe(`Input not found: ${missing}`);
+      expect(stderr[0]).toContain('Usage: renewal project');
+
+      stderr = [];
+      expect(await main(['project', '--carrier', 'uhc', '--input', FIXTURE, '--overrides', FIXTURE])).toBe(2);
+      expect(stderr[0].split('\n')[0]).toMatch(/^Parameter overrides are not valid JSON: /);
+      expect(stdout).toBe('');
+    });
+  });
+});
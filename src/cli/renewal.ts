@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import {
+  processExcelWorkbook,
+  parseCsvRows,
+  IngestDiagnostic,
+  ColumnMappingProfile,
+  importMappingProfiles,
+  findMatchingProfile,
+  extractHeaders,
+  applyColumnMapping
+} from '../ingest';
+import { runProjection } from '../utils/projectionRunner';
+import { getCarrierPlugin, listCarrierPlugins } from '../components/carriers';
+
+export interface CliOptions {
+  command: string;
+  carrier: string;
+  inputs: string[];
+  out?: string;
+  overrides?: string;
+  mapping?: string;
+}
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+function usage(): string {
+  const carriers = listCarrierPlugins().map(plugin => plugin.id).join(', ');
+  return [
+    'Usage: renewal project --carrier <carrier> --input <file|dir> [--input ...] [--out <file|dir>] [--overrides <params.json>] [--mapping <profiles.json>]',
+    '',
+    `  --carrier    Carrier to run (${carriers})`,
+    '  --input      CSV/Excel claims file, or a directory of them; may be repeated',
+    '  --out        Output JSON file (single input) or directory (batch); defaults to stdout',
+    '  --overrides  JSON file of parameter overrides, as entered on the dashboard',
+    '  --mapping    Column mapping profiles exported from the dashboard; the profile matching each file\'s headers is applied'
+  ].join('\n');
+}
+
+/**
+ * Parse CLI arguments (without the node/script prefix)
+ */
+export function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  const options: CliOptions = { command: command || '', carrier: '', inputs: [] };
+
+  for (let i = 0; i < rest.length; i++) {
+    const flag = rest[i];
+    const value = rest[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    switch (flag) {
+      case '--carrier':
+        options.carrier = value.toUpperCase();
+        break;
+      case '--input':
+        options.inputs.push(value);
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      case '--overrides':
+        options.overrides = value;
+        break;
+      case '--mapping':
+        options.mapping = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+    i++;
+  }
+
+  if (options.command !== 'project') {
+    throw new Error(`Unknown command: ${options.command || '(none)'}`);
+  }
+  if (!options.carrier) {
+    throw new Error('--carrier is required');
+  }
+  if (options.inputs.length === 0) {
+    throw new Error('--input is required');
+  }
+  return options;
+}
+
+/**
+ * Expand input arguments into individual spreadsheet files (directories contribute their CSV/Excel files)
+ */
+export function resolveInputFiles(inputs: string[]): string[] {
+  return inputs.flatMap(input => {
+    if (!fs.existsSync(input)) {
+      throw new Error(`Input not found: ${input}`);
+    }
+    if (fs.statSync(input).isDirectory()) {
+      return fs.readdirSync(input)
+        .filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .sort()
+        .map(name => path.join(input, name));
+    }
+    return [input];
+  });
+}
+
+/**
+ * Read a CSV or Excel file into the same row objects the dashboard uploader produces
+ */
+export function readRows(file: string): any[] {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.csv') {
+    return parseCsvRows(fs.readFileSync(file, 'utf8'));
+  }
+  if (ext === '.xlsx' || ext === '.xls') {
+    return processExcelWorkbook(XLSX.readFile(file));
+  }
+  throw new Error(`Unsupported file type: ${file}`);
+}
+
+function readOption(flag: string, file: string): string {
+  if (!fs.existsSync(file)) {
+    throw new Error(`${flag} file not found: ${file}`);
+  }
+  return fs.readFileSync(file, 'utf8');
+}
+
+function readOverrides(file: string): any {
+  const json = readOption('--overrides', file);
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Parameter overrides are not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+async function projectFile(file: string, carrier: string, overrides: any, profiles: ColumnMappingProfile[]) {
+  const rows = readRows(file);
+  const profile = findMatchingProfile(profiles, extractHeaders(rows));
+  const mappedRows = profile ? applyColumnMapping(rows, profile.mappings) : rows;
+  const { input, params, result, diagnostics } = await runProjection(mappedRows, carrier, overrides);
+  return {
+    file: path.resolve(file),
+    carrier,
+    caseId: input.caseId,
+    mappingProfile: profile?.name ?? null,
+    parameters: params,
+    result,
+    diagnostics
+  };
+}
+
+function formatDiagnostic(file: string, diagnostic: IngestDiagnostic): string {
+  const location = [diagnostic.sheet, `row ${diagnostic.row}`, diagnostic.column].filter(Boolean).join(', ');
+  return `  ${path.basename(file)} (${location}): ${diagnostic.action} - ${diagnostic.reason}`;
+}
+
+// Calculation modules log progress with console.log; keep stdout for the JSON result
+export function routeLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  let files: string[];
+  let overrides: any;
+  let profiles: ColumnMappingProfile[];
+  try {
+    options = parseArgs(argv);
+    getCarrierPlugin(options.carrier);
+    files = resolveInputFiles(options.inputs);
+    overrides = options.overrides ? readOverrides(options.overrides) : {};
+    profiles = options.mapping ? importMappingProfiles(readOption('--mapping', options.mapping)) : [];
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${usage()}`);
+    return 2;
+  }
+
+  const batch = files.length > 1 || options.inputs.some(input => fs.statSync(input).isDirectory());
+
+  if (batch && options.out) {
+    fs.mkdirSync(options.out, { recursive: true });
+  }
+
+  let failures = 0;
+  const outputs: any[] = [];
+  for (const file of files) {
+    try {
+      const output = await projectFile(file, options.carrier, overrides, profiles);
+      if (batch && options.out) {
+        const target = path.join(options.out, `${path.basename(file, path.extname(file))}.json`);
+        fs.writeFileSync(target, JSON.stringify(output, null, 2));
+      } else {
+        outputs.push(output);
+      }
+      const mapped = output.mappingProfile ? ` (mapped with "${output.mappingProfile}")` : '';
+      console.error(`✓ ${file}: ${(output.result.requiredRateChange * 100).toFixed(2)}% required rate change${mapped}`);
+      output.diagnostics.forEach(diagnostic => console.error(formatDiagnostic(file, diagnostic)));
+    } catch (error) {
+      failures++;
+      console.error(`✗ ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!batch || !options.out) {
+    const json = JSON.stringify(batch ? outputs : outputs[0] ?? null, null, 2);
+    if (options.out) {
+      fs.writeFileSync(options.out, json);
+    } else {
+      process.stdout.write(json + '\n');
+    }
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+  routeLogsToStderr();
+
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      console.error(error);
+      process.exit(1);
+    }
+  );
+}
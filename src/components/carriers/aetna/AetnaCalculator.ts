@@ -2,23 +2,40 @@ import {
   UniversalInput, 
   CalculationResult, 
   CoverageAmounts,
+  CredibilityResult,
+  CredibilitySettings,
   ExperiencePeriods,
+  LargeClaimAdjustment,
+  PooledClaimsExhibit,
+  TraceOperand,
   ValidationResult 
 } from '../../../types/common';
 import { 
   AetnaParameters, 
   AetnaResult, 
   AetnaCalculationLine,
-  AETNA_CALCULATION_LINES 
+  AETNA_CALCULATION_LINES,
+  AETNA_EXPERIENCE_PERIOD_RULE,
+  AETNA_POOLING_SPLIT
 } from '../../../types/aetna';
 import {
   determineExperiencePeriods,
   validateDataQuality,
   getClaimsForPeriod,
   getMemberMonthsForPeriod,
-  calculatePooledClaimsForPeriod,
   annualizeClaims
 } from '../../../utils/periodHandling';
+import { completeClaimsData, summarizeIBNR } from '../../../utils/ibnr';
+import { buildPooledClaimsExhibit, calculateLargeClaimAdjustment, pooledClaimsFor } from '../../../pooling';
+import { calculateCredibility, credibilityExposure, describeCredibility } from '../../../credibility';
+import {
+  buildCalculationTrace,
+  credibilityOperands,
+  inputOperand,
+  largeClaimantSource,
+  lineOperand,
+  periodSource
+} from '../../../utils/calculationTrace';
 
 /**
  * AETNA Renewal Calculator implementing the exact 28-line methodology
@@ -29,20 +46,28 @@ export class AetnaRenewalCalculator {
   private periods: ExperiencePeriods;
   private validationResult: ValidationResult;
   private calculatedParameters: AetnaParameters;
+  private poolingExhibit: PooledClaimsExhibit;
+  private largeClaimAdjustment: LargeClaimAdjustment;
+  private credibility?: CredibilityResult; // Set by Line 16
 
   constructor(
     private input: UniversalInput,
     private parameters: AetnaParameters
   ) {
+    // Complete immature months with IBNR before the experience periods are split (opt-in)
+    const completion = completeClaimsData(input.monthlyClaimsData, parameters.ibnr);
+    this.input = { ...input, monthlyClaimsData: completion.claimsData };
+
     // Determine experience periods
     this.periods = determineExperiencePeriods(
-      input.monthlyClaimsData,
-      input.effectiveDates.renewalStart
+      this.input.monthlyClaimsData,
+      input.effectiveDates.renewalStart,
+      parameters.experiencePeriodRule ?? AETNA_EXPERIENCE_PERIOD_RULE
     );
 
     // Validate data quality
     this.validationResult = validateDataQuality(
-      input.monthlyClaimsData,
+      this.input.monthlyClaimsData,
       input.largeClaimantsData,
       this.periods
     );
@@ -51,8 +76,23 @@ export class AetnaRenewalCalculator {
       throw new Error(`Data validation failed: ${this.validationResult.errors.join(', ')}`);
     }
 
+    if (completion.estimate) {
+      this.validationResult.warnings = [...(this.validationResult.warnings || []), summarizeIBNR(completion.estimate)];
+    }
+
     // Calculate missing parameters from experience data
     this.calculatedParameters = this.calculateMissingParameters();
+    const poolingOptions = {
+      poolingLevel: this.calculatedParameters.poolingLevel,
+      split: parameters.poolingSplit ?? AETNA_POOLING_SPLIT
+    };
+    this.poolingExhibit = buildPooledClaimsExhibit(input.largeClaimantsData, this.periods, poolingOptions);
+    this.largeClaimAdjustment = calculateLargeClaimAdjustment(
+      input.largeClaimantsData,
+      this.periods.current,
+      getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current),
+      poolingOptions
+    );
   }
 
   private calculateMissingParameters(): AetnaParameters {
@@ -84,7 +124,6 @@ export class AetnaRenewalCalculator {
         medical: medicalPMPM * 1.15, // 15% above experience
         rx: rxPMPM * 1.15 // 15% above experience
       },
-      largeClaimAdjustment: this.parameters.largeClaimAdjustment ?? 0,
       nonBenefitExpensesPMPM: this.parameters.nonBenefitExpensesPMPM ?? (retentionPMPM * 0.40),
       retentionComponents: this.parameters.retentionComponents ?? {
         admin: retentionPMPM * 0.35,
@@ -201,6 +240,13 @@ export class AetnaRenewalCalculator {
       prior: priorPMPM,
       calculation: 'Total Claims / Member Months'
     });
+
+    this.setTrace('1', this.periods.current.months < 12
+      ? 'Current claims ÷ member months, annualized from a partial period'
+      : 'Current claims ÷ current member months', [
+      inputOperand('Claims', currentClaims.total),
+      inputOperand('Member months', currentMemberMonths)
+    ], this.periodSources());
   }
 
   private calculateLine2_DeductibleSuppression(): void {
@@ -213,6 +259,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: factor, rx: factor, total: factor },
       calculation: 'Fixed factor applied to both periods'
     });
+
+    this.setTrace('2', 'Deductible suppression factor', [inputOperand('Deductible suppression factor', factor)]);
   }
 
   private calculateLine3_ClaimsWithSuppression(): void {
@@ -238,23 +286,13 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 1 × Line 2'
     });
+
+    this.setTrace('3', 'Line 1 × Line 2', [lineOperand('1', line1.current.total), lineOperand('2', line2.current.total)]);
   }
 
   private calculateLine4_PooledClaims(): void {
-    const currentPooled = calculatePooledClaimsForPeriod(
-      this.input.largeClaimantsData,
-      this.periods.current,
-      this.calculatedParameters.poolingLevel
-    );
-
-    let priorPooled = { medical: 0, rx: 0, total: 0 };
-    if (this.periods.prior) {
-      priorPooled = calculatePooledClaimsForPeriod(
-        this.input.largeClaimantsData,
-        this.periods.prior,
-        this.calculatedParameters.poolingLevel
-      );
-    }
+    const currentPooled = pooledClaimsFor(this.poolingExhibit, 'current');
+    const priorPooled = pooledClaimsFor(this.poolingExhibit, 'prior');
 
     const currentMemberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
     const priorMemberMonths = this.periods.prior ? 
@@ -279,6 +317,12 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: `Claims over $${this.calculatedParameters.poolingLevel.toLocaleString()} / Member Months`
     });
+
+    this.setTrace('4', 'Claims over the pooling level ÷ current member months', [
+      inputOperand('Pooling level', this.calculatedParameters.poolingLevel),
+      inputOperand('Pooled claims', currentPooled.total),
+      inputOperand('Member months', currentMemberMonths)
+    ], [largeClaimantSource(this.poolingExhibit, this.periods.current)]);
   }
 
   private calculateLine5_PoolingCharge(): void {
@@ -291,6 +335,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: charge, rx: 0, total: charge },
       calculation: 'Fixed pooling charges PMPM'
     });
+
+    this.setTrace('5', 'Pooling charges PMPM', [inputOperand('Pooling charges PMPM', charge)]);
   }
 
   private calculateLine6_ClaimsWithPooling(): void {
@@ -317,6 +363,8 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 3 - Line 4 + Line 5'
     });
+
+    this.setTrace('6', 'Line 3 − Line 4 + Line 5', [lineOperand('3', line3.current.total), lineOperand('4', line4.current.total), lineOperand('5', line5.current.total)]);
   }
 
   private calculateLine7_NetworkAdjustment(): void {
@@ -329,6 +377,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: factor, rx: factor, total: factor },
       calculation: 'Network change adjustment factor'
     });
+
+    this.setTrace('7', 'Network adjustment', [inputOperand('Network adjustment', factor)]);
   }
 
   private calculateLine8_PlanAdjustment(): void {
@@ -341,6 +391,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: factor, rx: factor, total: factor },
       calculation: 'Plan design change adjustment factor'
     });
+
+    this.setTrace('8', 'Plan adjustment', [inputOperand('Plan adjustment', factor)]);
   }
 
   private calculateLine9_DemographicAdjustment(): void {
@@ -353,6 +405,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: factor, rx: factor, total: factor },
       calculation: 'Age/sex demographic adjustment factor'
     });
+
+    this.setTrace('9', 'Demographic adjustment', [inputOperand('Demographic adjustment', factor)]);
   }
 
   private calculateLine10_UnderwritingAdjustment(): void {
@@ -365,6 +419,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: factor, rx: factor, total: factor },
       calculation: 'Underwriting adjustment factor'
     });
+
+    this.setTrace('10', 'Underwriting adjustment', [inputOperand('Underwriting adjustment', factor)]);
   }
 
   private calculateLine11_ClaimsWithFactors(): void {
@@ -399,6 +455,8 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 6 × Lines 7-10'
     });
+
+    this.setTrace('11', 'Line 6 × Line 7 × Line 8 × Line 9 × Line 10', [lineOperand('6', line6.current.total), lineOperand('7', line7.current.total), lineOperand('8', line8.current.total), lineOperand('9', line9.current.total), lineOperand('10', line10.current.total)]);
   }
 
   private calculateLine12_TrendApplication(): void {
@@ -442,6 +500,13 @@ export class AetnaRenewalCalculator {
       },
       calculation: `Med: ${this.calculatedParameters.trendFactor.medical}^(${this.calculatedParameters.trendFactor.months}/12), Rx: ${this.calculatedParameters.trendFactor.rx}^(${this.calculatedParameters.trendFactor.months}/12)`
     });
+
+    this.setTrace('12', 'Medical trend^(months ÷ 12) and Rx trend^(months ÷ 12), weighted by Line 11 claims', [
+      lineOperand('11', line11.current.total),
+      inputOperand('Medical trend factor', this.calculatedParameters.trendFactor.medical),
+      inputOperand('Rx trend factor', this.calculatedParameters.trendFactor.rx),
+      inputOperand('Trend months', this.calculatedParameters.trendFactor.months)
+    ]);
   }
 
   private calculateLine13_ProjectedClaims(): void {
@@ -467,19 +532,33 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 11 × Line 12'
     });
+
+    this.setTrace('13', 'Line 11 × Line 12', [lineOperand('11', line11.current.total), lineOperand('12', line12.current.total)]);
+  }
+
+  // Single period - use 100% current rather than weighting against an empty prior column
+  private getPeriodWeights(): { current: number; prior: number } {
+    return this.periods.prior ? this.calculatedParameters.periodWeighting : { current: 1, prior: 0 };
   }
 
   private calculateLine14_PeriodWeighting(): void {
-    const currentWeight = this.calculatedParameters.periodWeighting.current;
-    const priorWeight = this.calculatedParameters.periodWeighting.prior;
+    const { current: currentWeight, prior: priorWeight } = this.getPeriodWeights();
     
     this.calculations.push({
       lineNumber: '14',
       description: 'Experience Period Weighting',
       current: { medCap: currentWeight, rx: currentWeight, total: currentWeight },
       prior: { medCap: priorWeight, rx: priorWeight, total: priorWeight },
-      calculation: `Current: ${currentWeight}, Prior: ${priorWeight}`
+      calculation: `Current: ${currentWeight}, Prior: ${priorWeight}`,
+      notes: this.periods.prior
+        ? `Prior period: ${this.periods.prior.months} months`
+        : 'Single experience period - 100% current'
     });
+
+    this.setTrace('14', this.periods.prior ? 'Current and prior period weights' : 'Single experience period, 100% current', [
+      inputOperand('Current weight', currentWeight),
+      inputOperand('Prior weight', priorWeight)
+    ]);
   }
 
   private calculateLine15_WeightedProjectedClaims(): void {
@@ -505,6 +584,13 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 13 Current × Line 14 Current + Line 13 Prior × Line 14 Prior'
     });
+
+    this.setTrace('15', 'Line 13 current × Line 14 current + Line 13 prior × Line 14 prior', [
+      lineOperand('13', line13.current.total, 'Line 13 current'),
+      lineOperand('13', line13.prior.total, 'Line 13 prior'),
+      lineOperand('14', line14.current.total, 'Line 14 current'),
+      lineOperand('14', line14.prior.total, 'Line 14 prior')
+    ]);
   }
 
   private calculateLine16_ExperienceCredibility(): void {
@@ -513,22 +599,28 @@ export class AetnaRenewalCalculator {
       getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0;
     const totalMemberMonths = currentMemberMonths + priorMemberMonths;
 
-    let credibility: number;
-    if (this.calculatedParameters.credibilityParameters.credibilityFormula === 'sqrt') {
-      credibility = Math.min(1, Math.sqrt(totalMemberMonths / this.calculatedParameters.credibilityParameters.fullCredibilityMemberMonths));
-    } else {
-      credibility = Math.min(1, totalMemberMonths / this.calculatedParameters.credibilityParameters.fullCredibilityMemberMonths);
-    }
-
-    credibility = Math.max(credibility, this.calculatedParameters.credibilityParameters.minimumCredibility);
+    this.credibility = calculateCredibility(credibilityExposure(this.input, totalMemberMonths), this.credibilitySettings());
+    const credibility = this.credibility.credibility;
 
     this.calculations.push({
       lineNumber: '16',
       description: 'Experience Credibility',
       current: { medCap: credibility, rx: credibility, total: credibility },
       prior: { medCap: 1 - credibility, rx: 1 - credibility, total: 1 - credibility },
-      calculation: `sqrt(${totalMemberMonths} / ${this.calculatedParameters.credibilityParameters.fullCredibilityMemberMonths}) = ${credibility.toFixed(3)}`
+      calculation: describeCredibility(this.credibility)
     });
+
+    this.setTrace('16', this.credibility.formula, credibilityOperands(this.credibility), this.periodSources());
+  }
+
+  // Square root or linear to the full credibility standard, unless other settings replace them
+  private credibilitySettings(): CredibilitySettings {
+    const { credibilityParameters, credibilitySettings } = this.calculatedParameters;
+    return credibilitySettings ?? {
+      method: credibilityParameters.credibilityFormula === 'sqrt' ? 'limitedFluctuation' : 'linear',
+      fullCredibilityMemberMonths: credibilityParameters.fullCredibilityMemberMonths,
+      minimumCredibility: credibilityParameters.minimumCredibility
+    };
   }
 
   private calculateLine17_ManualProjectedClaims(): void {
@@ -542,6 +634,11 @@ export class AetnaRenewalCalculator {
       prior: { medCap: manualMed, rx: manualRx, total: manualMed + manualRx },
       calculation: 'Manual rates from carrier'
     });
+
+    this.setTrace('17', 'Manual medical + manual Rx', [
+      inputOperand('Manual medical PMPM', manualMed),
+      inputOperand('Manual Rx PMPM', manualRx)
+    ]);
   }
 
   private calculateLine18_BlendedProjectedClaims(): void {
@@ -568,18 +665,37 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 15 × Line 16 Experience + Line 17 × Line 16 Manual'
     });
+
+    this.setTrace('18', 'Line 15 × Line 16 + Line 17 × (1 − Line 16)', [
+      lineOperand('15', line15.current.total),
+      lineOperand('16', line16.current.total),
+      lineOperand('17', line17.current.total)
+    ]);
   }
 
   private calculateLine19_LargeClaimAdjustment(): void {
-    const adjustment = this.calculatedParameters.largeClaimAdjustment || 0;
+    // A supplied adjustment overrides the one from the claimant status markings
+    const supplied = this.parameters.largeClaimAdjustment;
+    const adjustment = supplied ?? this.largeClaimAdjustment.pmpm;
     
     this.calculations.push({
       lineNumber: '19',
       description: 'Large Claim Adjustment',
       current: { medCap: adjustment, rx: 0, total: adjustment },
       prior: { medCap: adjustment, rx: 0, total: adjustment },
-      calculation: 'Additional large claim loading'
+      calculation: supplied === undefined && this.largeClaimAdjustment.entries.length > 0
+        ? `${this.largeClaimAdjustment.entries.length} marked claimant(s): expected less retained claims / Member Months`
+        : 'Additional large claim loading'
     });
+
+    if (supplied !== undefined) {
+      this.setTrace('19', 'Large claim adjustment PMPM', [inputOperand('Large claim adjustment', adjustment)]);
+      return;
+    }
+    this.setTrace('19', 'Marked claimants\' expected claims less retained claims ÷ current member months', [
+      inputOperand('Claimant adjustments', this.largeClaimAdjustment.total),
+      inputOperand('Member months', this.largeClaimAdjustment.memberMonths)
+    ], this.largeClaimAdjustment.entries.map(entry => entry.justification));
   }
 
   private calculateLine20_NonBenefitExpenses(): void {
@@ -592,6 +708,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: expenses, rx: 0, total: expenses },
       calculation: 'Fixed non-benefit expenses PMPM'
     });
+
+    this.setTrace('20', 'Non-benefit expenses PMPM', [inputOperand('Non-benefit expenses', expenses)]);
   }
 
   private calculateLine21_TotalRetentionCharges(): void {
@@ -608,6 +726,14 @@ export class AetnaRenewalCalculator {
       prior: { medCap: total, rx: 0, total },
       calculation: `Admin(${admin}) + Comm(${commissions}) + Tax(${premium_tax}) + Risk(${risk_margin}) + Other(${other})`
     });
+
+    this.setTrace('21', 'Admin + commissions + premium tax + risk margin + other', [
+      inputOperand('Admin', admin),
+      inputOperand('Commissions', commissions),
+      inputOperand('Premium tax', premium_tax),
+      inputOperand('Risk margin', risk_margin),
+      inputOperand('Other', other)
+    ]);
   }
 
   private calculateLine22_ProjectedPremium(): void {
@@ -631,6 +757,8 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Lines 18 + 19 + 20 + 21'
     });
+
+    this.setTrace('22', 'Line 18 + Line 19 + Line 20 + Line 21', [lineOperand('18', line18.current.total), lineOperand('19', line19.current.total), lineOperand('20', line20.current.total), lineOperand('21', line21.current.total)]);
   }
 
   private calculateLine23_RateAdjustment(): void {
@@ -643,6 +771,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: adjustment, rx: adjustment, total: adjustment },
       calculation: 'Rate cap/floor adjustment factor'
     });
+
+    this.setTrace('23', 'Rate adjustment factor', [inputOperand('Rate adjustment', adjustment)]);
   }
 
   private calculateLine24_ProposedPremium(): void {
@@ -664,6 +794,8 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 22 × Line 23'
     });
+
+    this.setTrace('24', 'Line 22 × Line 23', [lineOperand('22', line22.current.total), lineOperand('23', line23.current.total)]);
   }
 
   private calculateLine25_ProducerServiceFee(): void {
@@ -676,6 +808,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: fee, rx: 0, total: fee },
       calculation: 'Producer service fee PMPM'
     });
+
+    this.setTrace('25', 'Producer service fee PMPM', [inputOperand('Producer service fee', fee)]);
   }
 
   private calculateLine26_TotalAmountDue(): void {
@@ -697,6 +831,8 @@ export class AetnaRenewalCalculator {
       prior,
       calculation: 'Line 24 + Line 25'
     });
+
+    this.setTrace('26', 'Line 24 + Line 25', [lineOperand('24', line24.current.total), lineOperand('25', line25.current.total)]);
   }
 
   private calculateLine27_EstimatedCurrentPremium(): void {
@@ -728,6 +864,8 @@ export class AetnaRenewalCalculator {
       prior: { medCap: currentPremium || 0, rx: 0, total: currentPremium || 0 },
       calculation: calculationNote
     });
+
+    this.setTrace('27', calculationNote, [inputOperand('Current premium PMPM', currentPremium)]);
   }
 
   private calculateLine28_RequiredRateChange(): void {
@@ -743,6 +881,19 @@ export class AetnaRenewalCalculator {
       prior: { medCap: rateChange, rx: 0, total: rateChange },
       calculation: '(Line 26 / Line 27) - 1'
     });
+
+    this.setTrace('28', '(Line 26 ÷ Line 27) − 1', [lineOperand('26', line26.current.total), lineOperand('27', line27.current.total)]);
+  }
+
+  private setTrace(lineNumber: string, formula: string, operands: TraceOperand[], sources?: string[]): void {
+    this.calculations.find(c => c.lineNumber === lineNumber)!.trace = { formula, operands, sources };
+  }
+
+  private periodSources(): string[] {
+    return [
+      periodSource('Current period', this.input.monthlyClaimsData, this.periods.current),
+      ...(this.periods.prior ? [periodSource('Prior period', this.input.monthlyClaimsData, this.periods.prior)] : [])
+    ];
   }
 
   private formatResult(): AetnaResult {
@@ -753,15 +904,25 @@ export class AetnaRenewalCalculator {
     const currentMemberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
     const priorMemberMonths = this.periods.prior ? 
       getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0;
+    const periodWeights = this.getPeriodWeights();
     const weightedMemberMonths = 
-      currentMemberMonths * this.calculatedParameters.periodWeighting.current +
-      priorMemberMonths * this.calculatedParameters.periodWeighting.prior;
+      currentMemberMonths * periodWeights.current +
+      priorMemberMonths * periodWeights.prior;
 
     return {
       carrier: 'AETNA',
       finalPremiumPMPM: finalLine.current.total,
       rateChange: rateChangeLine.current.total,
       calculations: this.calculations,
+      trace: buildCalculationTrace(this.calculations.map(line => ({
+        id: line.lineNumber,
+        description: line.description,
+        value: line.current.total,
+        trace: line.trace
+      }))),
+      poolingExhibit: this.poolingExhibit,
+      largeClaimAdjustment: this.largeClaimAdjustment,
+      credibility: this.credibility!,
       periods: this.periods,
       summary: {
         incurredClaimsPMPM: this.calculations.find(c => c.lineNumber === '1')!.current,
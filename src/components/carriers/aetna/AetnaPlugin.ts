@@ -0,0 +1,152 @@
+import { CarrierPlugin } from '../registry';
+import { numberParameter } from '../parameterSchema';
+import { AetnaInput } from '../../../types/aetna';
+import { AetnaRenewalCalculator } from './AetnaCalculator';
+import AetnaTemplate from './AetnaTemplate';
+import { calculateManualRatesFromExperience, calculateCurrentPremiumFromExperience } from '../../../utils/experienceEstimates';
+
+const AETNA_DEFAULTS = {
+  poolingLevel: 175000,
+  poolingChargeRate: 0.097,
+  deductibleSuppressionFactor: 1,
+  networkAdjustment: 1,
+  planAdjustment: 1,
+  demographicAdjustment: 1,
+  underwritingAdjustment: 1,
+  medicalTrendFactor: 1.0969,
+  rxTrendFactor: 1.0788,
+  trendMonths: 19,
+  periodWeightCurrent: 0.75,
+  minimumCredibility: 0.25,
+  fullCredibilityMemberMonths: 12000,
+  retentionRate: 0.127,
+};
+
+export const aetnaPlugin: CarrierPlugin<AetnaInput> = {
+  id: 'AETNA',
+  label: 'Aetna',
+  calculator: AetnaRenewalCalculator,
+  template: AetnaTemplate,
+  defaultParameters: { ...AETNA_DEFAULTS },
+  parameterSchema: [
+    { key: 'poolingLevel', label: 'Pooling Level', unit: 'currency', min: 10000, max: 2000000, aliases: ['poolingThreshold'], sensitivity: 'pooling', assumption: { value: 'poolingLevel', line: 'medical' } },
+    { key: 'poolingChargeRate', label: 'Pooling Charge Rate', unit: 'rate', min: 0, max: 0.5, description: 'Pooling charge as a share of experience PMPM (Line 5)' },
+    { key: 'deductibleSuppressionFactor', label: 'Deductible Suppression Factor', unit: 'factor', min: 0.5, max: 1.5 },
+    { key: 'networkAdjustment', label: 'Network Adjustment', unit: 'factor', min: 0.5, max: 2 },
+    { key: 'planAdjustment', label: 'Plan Adjustment', unit: 'factor', min: 0.5, max: 2, planDesignLine: '8' },
+    { key: 'demographicAdjustment', label: 'Demographic Adjustment', unit: 'factor', min: 0.5, max: 2, demographic: 'change' },
+    { key: 'underwritingAdjustment', label: 'Underwriting Adjustment', unit: 'factor', min: 0.5, max: 2 },
+    { key: 'medicalTrendFactor', label: 'Medical Trend Factor (annual)', unit: 'factor', min: 0.8, max: 1.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'medical' } },
+    { key: 'rxTrendFactor', label: 'Rx Trend Factor (annual)', unit: 'factor', min: 0.8, max: 1.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'rx' } },
+    { key: 'trendMonths', label: 'Trend Months', unit: 'months', min: 0, max: 60, trendMonths: 'current' },
+    { key: 'periodWeightCurrent', label: 'Period Weight Current', unit: 'rate', min: 0, max: 1, sensitivity: 'experienceWeight' },
+    { key: 'minimumCredibility', label: 'Minimum Credibility', unit: 'rate', min: 0, max: 1 },
+    { key: 'fullCredibilityMemberMonths', label: 'Full Credibility Member Months', unit: 'memberMonths', min: 1, max: 1000000 },
+    { key: 'retentionRate', label: 'Total Retention', unit: 'rate', min: 0, max: 0.5, description: 'Retention as a share of experience PMPM', sensitivity: 'retention' },
+    { key: 'currentPremiumPMPM', label: 'Current Premium PMPM', unit: 'currency', min: 0, max: 10000, description: 'Estimated from experience when blank' },
+  ],
+
+  adaptInput: (input, params) => {
+    // Calculate values from experience data instead of using hardcoded defaults
+    const totalMedicalAetna = input.monthlyClaimsData.reduce((sum, month) =>
+      sum + (month.incurredClaims?.medical || 0), 0);
+    const totalRxAetna = input.monthlyClaimsData.reduce((sum, month) =>
+      sum + (month.incurredClaims?.rx || 0), 0);
+    const totalMMAetna = input.monthlyClaimsData.reduce((sum, month) =>
+      sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+
+    const experiencePMPMAetna = (totalMedicalAetna + totalRxAetna) / totalMMAetna;
+    const calculatedManualRatesAetna = calculateManualRatesFromExperience(input);
+    const calculatedCurrentPremiumAetna = Number(params?.currentPremiumPMPM) || calculateCurrentPremiumFromExperience(input);
+
+    // Calculate retention components as percentages of premium
+    const retentionPMPMAetna = experiencePMPMAetna * numberParameter(params, AETNA_DEFAULTS, 'retentionRate');
+    const periodWeightCurrent = numberParameter(params, AETNA_DEFAULTS, 'periodWeightCurrent');
+
+    return {
+      ...input,
+      carrierSpecificParameters: {
+        experiencePeriodRule: params?.experiencePeriodRule,
+        poolingSplit: params?.poolingSplit,
+        credibilitySettings: params?.credibilitySettings,
+        ibnr: params?.ibnr,
+        deductibleSuppressionFactor: numberParameter(params, AETNA_DEFAULTS, 'deductibleSuppressionFactor'),
+        poolingLevel: numberParameter(params, AETNA_DEFAULTS, 'poolingLevel'),
+        poolingChargesPMPM: experiencePMPMAetna * numberParameter(params, AETNA_DEFAULTS, 'poolingChargeRate'),
+        networkAdjustment: numberParameter(params, AETNA_DEFAULTS, 'networkAdjustment'),
+        planAdjustment: numberParameter(params, AETNA_DEFAULTS, 'planAdjustment'),
+        demographicAdjustment: numberParameter(params, AETNA_DEFAULTS, 'demographicAdjustment'),
+        underwritingAdjustment: numberParameter(params, AETNA_DEFAULTS, 'underwritingAdjustment'),
+        trendFactor: {
+          medical: numberParameter(params, AETNA_DEFAULTS, 'medicalTrendFactor'),
+          rx: numberParameter(params, AETNA_DEFAULTS, 'rxTrendFactor'),
+          months: numberParameter(params, AETNA_DEFAULTS, 'trendMonths')
+        },
+        periodWeighting: {
+          current: periodWeightCurrent,
+          prior: 1 - periodWeightCurrent
+        },
+        credibilityParameters: {
+          minimumCredibility: numberParameter(params, AETNA_DEFAULTS, 'minimumCredibility'),
+          fullCredibilityMemberMonths: numberParameter(params, AETNA_DEFAULTS, 'fullCredibilityMemberMonths'),
+          credibilityFormula: 'sqrt' as const
+        },
+        manualRates: {
+          medical: calculatedManualRatesAetna.medical,
+          rx: calculatedManualRatesAetna.rx
+        },
+        nonBenefitExpensesPMPM: retentionPMPMAetna * 0.40, // ~40% of retention as non-benefit expenses
+        retentionComponents: {
+          admin: retentionPMPMAetna * 0.35, // ~35% of total retention
+          commissions: retentionPMPMAetna * 0.25, // ~25% of total retention
+          premium_tax: retentionPMPMAetna * 0.15, // ~15% of total retention
+          risk_margin: retentionPMPMAetna * 0.20, // ~20% of total retention
+          other: retentionPMPMAetna * 0.05 // ~5% of total retention
+        },
+        currentPremiumPMPM: calculatedCurrentPremiumAetna
+      }
+    };
+  },
+
+  calculate: async (aetnaInput) => {
+    const aetnaCalculator = new AetnaRenewalCalculator(aetnaInput, aetnaInput.carrierSpecificParameters);
+    const aetnaResult = aetnaCalculator.calculate();
+
+    // Convert to legacy CalculationResult format but store the native result in detailedResults
+    return {
+      carrier: aetnaResult.carrier,
+      currentPremiumPMPM: aetnaResult.summary.memberMonthsUsed.current > 0 ? (aetnaInput.carrierSpecificParameters.currentPremiumPMPM || 0) : 0,
+      projectedPremiumPMPM: aetnaResult.finalPremiumPMPM,
+      requiredRateChange: aetnaResult.rateChange,
+      proposedRateChange: aetnaResult.rateChange,
+      calculationSteps: [
+        { label: 'Final Premium PMPM', value: aetnaResult.finalPremiumPMPM },
+        { label: 'Rate Change %', value: aetnaResult.rateChange * 100 },
+        { label: 'Total Lines', value: aetnaResult.calculations.length }
+      ],
+      warnings: (aetnaResult.warnings || []).map((w: any) => ({ message: typeof w === 'string' ? w : w.message })),
+      trace: aetnaResult.trace,
+      poolingExhibit: aetnaResult.poolingExhibit,
+      largeClaimAdjustment: aetnaResult.largeClaimAdjustment,
+      credibility: aetnaResult.credibility,
+      // Store the native result for template access
+      detailedResults: {
+        aetna: aetnaResult as any
+      }
+    };
+  },
+
+  selectTemplateResult: (result) =>
+    result.carrier === 'AETNA' && result.detailedResults?.aetna ? result.detailedResults.aetna : null,
+
+  // Line 4 removes pooled claims, Line 5 adds the pooling charge and Line 16 is credibility
+  summarizeResult: (result) => {
+    const aetna = result.detailedResults?.aetna;
+    const line = (id: string) => aetna?.calculations.find((c: any) => c.lineNumber === id)?.current?.total ?? null;
+    return {
+      pooledClaimsPMPM: line('4'),
+      poolingChargePMPM: line('5'),
+      credibility: line('16')
+    };
+  }
+};
@@ -18,7 +18,8 @@ import {
   BCBSTotalResults
 } from '../../../types/bcbs';
 // import { CalculationMetadata } from '../../../types/common'; // Remove this import
-import { ValidationWarning } from '../../../types/common';
+import { CalculationTrace, ValidationWarning } from '../../../types/common';
+import { buildCalculationTrace, inputOperand, lineOperand } from '../../../utils/calculationTrace';
 
 /**
  * BCBS Multi-Plan Renewal Calculator
@@ -65,10 +66,35 @@ export class BCBSCalculator {
       calculationSteps: individualPlans.map((plan, index) => ({
         label: `Plan ${index + 1} Rate Action`,
         value: plan.finalMetrics.rateAction * 100
-      }))
+      })),
+      trace: this.buildTrace(individualPlans)
     };
   }
 
+  /**
+   * Trace every plan's lines; with several plans the line ids are prefixed by plan, e.g. "PPO 17"
+   */
+  private buildTrace(plans: BCBSPlanResult[]): CalculationTrace {
+    const lineId = (plan: BCBSPlanResult, lineNumber: string) =>
+      plans.length > 1 ? `${plan.planId} ${lineNumber}` : lineNumber;
+
+    return buildCalculationTrace(plans.flatMap(plan => plan.calculations.map(step => {
+      const inputs = Object.entries(step.inputs)
+        .filter(([, value]) => typeof value === 'number' || typeof value === 'string')
+        .map(([label, value]) => inputOperand(label, value));
+      const lines = (step.dependsOn ?? []).map(lineNumber => {
+        const upstream = plan.calculations.find(candidate => candidate.lineNumber === lineNumber);
+        return lineOperand(lineId(plan, lineNumber), upstream?.result ?? 'not calculated');
+      });
+      return {
+        id: lineId(plan, step.lineNumber),
+        description: step.description,
+        value: step.result,
+        trace: { formula: step.formula, operands: [...lines, ...inputs], sources: step.sources }
+      };
+    })));
+  }
+
   private async calculatePlan(
     planData: BCBSPlanData, 
     planParams: BCBSPlanParameters,
@@ -119,6 +145,7 @@ export class BCBSCalculator {
       lineNumber: '3-Med',
       description: 'Medical Claims @ 3/25',
       formula: 'Total medical claims for experience period',
+      dependsOn: [],
       inputs: { 
         currentClaims: currentMedicalClaims,
         renewalClaims: renewalMedicalClaims
@@ -129,13 +156,14 @@ export class BCBSCalculator {
     });
 
     // Line 3: Pooled Medical Claims
-    const currentPooledMedical = Math.max(0, currentMedicalClaims - planParams.poolingLevel);
-    const renewalPooledMedical = Math.max(0, renewalMedicalClaims - planParams.poolingLevel);
+    const currentPooledMedical = planData.medicalClaims.current.pooledClaims;
+    const renewalPooledMedical = planData.medicalClaims.renewal.pooledClaims;
     
     calculations.push({
       lineNumber: '3-Med-Pool',
       description: '(-) Pooled Medical Claims',
-      formula: 'max(0, totalClaims - poolingLevel)',
+      formula: 'Sum of claimant excess over the pooling level or laser',
+      dependsOn: ['3-Med'],
       inputs: { 
         poolingLevel: planParams.poolingLevel,
         currentPooled: currentPooledMedical,
@@ -154,6 +182,7 @@ export class BCBSCalculator {
       lineNumber: '4-Med',
       description: 'Net Medical Claims',
       formula: 'totalClaims - pooledClaims',
+      dependsOn: ['3-Med', '3-Med-Pool'],
       inputs: { 
         currentNet: currentNetMedical,
         renewalNet: renewalNetMedical
@@ -175,6 +204,7 @@ export class BCBSCalculator {
       lineNumber: '6-Med',
       description: 'Net Medical PMPM',
       formula: 'netClaims / memberMonths',
+      dependsOn: ['4-Med'],
       inputs: { 
         currentPMPM: currentNetMedicalPMPM,
         renewalPMPM: renewalNetMedicalPMPM,
@@ -194,6 +224,7 @@ export class BCBSCalculator {
       lineNumber: '6-Med-IBNR',
       description: '(*) Medical IBNR / Adjusted Net Medical PMPM',
       formula: 'netPMPM * ibnrFactor',
+      dependsOn: ['6-Med'],
       inputs: { 
         currentIBNR: planParams.ibnrFactors.medical.current,
         renewalIBNR: planParams.ibnrFactors.medical.renewal,
@@ -210,6 +241,7 @@ export class BCBSCalculator {
       lineNumber: '8-Med',
       description: 'Annual Medical Trend / Months of Trend / (*) Compounded Medical Trend',
       formula: 'Annual trend compounded over months',
+      dependsOn: [],
       inputs: { 
         annualCurrent: planParams.trendFactors.medical.annualCurrent,
         annualRenewal: planParams.trendFactors.medical.annualRenewal,
@@ -231,6 +263,7 @@ export class BCBSCalculator {
       lineNumber: '9-Med',
       description: 'Projected Medical PMPM',
       formula: 'adjustedPMPM * compoundedTrend',
+      dependsOn: ['6-Med-IBNR', '8-Med'],
       inputs: { 
         currentProjected: currentProjectedMedicalPMPM,
         renewalProjected: renewalProjectedMedicalPMPM
@@ -260,6 +293,7 @@ export class BCBSCalculator {
       lineNumber: '3-Rx',
       description: 'Pharmacy Claims @ 3/25',
       formula: 'Total pharmacy claims for experience period',
+      dependsOn: [],
       inputs: { 
         currentClaims: currentPharmacyClaims,
         renewalClaims: renewalPharmacyClaims
@@ -269,14 +303,15 @@ export class BCBSCalculator {
       section: 'pharmacy'
     });
 
-    // Line 3: Pooled Pharmacy Claims (usually $0 for pharmacy)
-    const currentPooledPharmacy = Math.max(0, currentPharmacyClaims - planParams.poolingLevel);
-    const renewalPooledPharmacy = Math.max(0, renewalPharmacyClaims - planParams.poolingLevel);
+    // Line 3: Pooled Pharmacy Claims (pharmacy share of each claimant's excess)
+    const currentPooledPharmacy = planData.pharmacyClaims.current.pooledClaims;
+    const renewalPooledPharmacy = planData.pharmacyClaims.renewal.pooledClaims;
     
     calculations.push({
       lineNumber: '3-Rx-Pool',
       description: '(-) Pooled Pharmacy Claims',
-      formula: 'max(0, totalClaims - poolingLevel)',
+      formula: 'Sum of claimant excess over the pooling level or laser',
+      dependsOn: ['3-Rx'],
       inputs: { 
         poolingLevel: planParams.poolingLevel,
         currentPooled: currentPooledPharmacy,
@@ -295,6 +330,7 @@ export class BCBSCalculator {
       lineNumber: '4-Rx',
       description: 'Net Pharmacy Claims',
       formula: 'totalClaims - pooledClaims',
+      dependsOn: ['3-Rx', '3-Rx-Pool'],
       inputs: { 
         currentNet: currentNetPharmacy,
         renewalNet: renewalNetPharmacy
@@ -315,6 +351,7 @@ export class BCBSCalculator {
       lineNumber: '6-Rx',
       description: 'Net Pharmacy PMPM',
       formula: 'netClaims / memberMonths',
+      dependsOn: ['4-Rx'],
       inputs: { 
         currentPMPM: currentNetPharmacyPMPM,
         renewalPMPM: renewalNetPharmacyPMPM
@@ -332,6 +369,7 @@ export class BCBSCalculator {
       lineNumber: '6-Rx-IBNR',
       description: '(*) Pharmacy IBNR / Adjusted Net Pharmacy PMPM',
       formula: 'netPMPM * ibnrFactor',
+      dependsOn: ['6-Rx'],
       inputs: { 
         currentIBNR: planParams.ibnrFactors.pharmacy.current,
         renewalIBNR: planParams.ibnrFactors.pharmacy.renewal,
@@ -348,6 +386,7 @@ export class BCBSCalculator {
       lineNumber: '8-Rx',
       description: 'Annual Pharmacy Trend / Months of Trend / (*) Compounded Pharmacy Trend',
       formula: 'Annual trend compounded over months',
+      dependsOn: [],
       inputs: { 
         annualCurrent: planParams.trendFactors.pharmacy.annualCurrent,
         annualRenewal: planParams.trendFactors.pharmacy.annualRenewal,
@@ -369,6 +408,7 @@ export class BCBSCalculator {
       lineNumber: '9-Rx',
       description: 'Projected Pharmacy PMPM',
       formula: 'adjustedPMPM * compoundedTrend',
+      dependsOn: ['6-Rx-IBNR', '8-Rx'],
       inputs: { 
         currentProjected: currentProjectedPharmacyPMPM,
         renewalProjected: renewalProjectedPharmacyPMPM
@@ -400,6 +440,7 @@ export class BCBSCalculator {
       lineNumber: '10',
       description: 'Total Projected PMPM',
       formula: 'projectedMedicalPMPM + projectedPharmacyPMPM',
+      dependsOn: ['9-Med', '9-Rx'],
       inputs: { 
         currentTotal: currentTotalProjectedPMPM,
         renewalTotal: renewalTotalProjectedPMPM
@@ -416,6 +457,7 @@ export class BCBSCalculator {
       lineNumber: '11a',
       description: 'FFS Age Adjustment for PMPM',
       formula: 'totalProjectedPMPM * ffsAgeAdjustment',
+      dependsOn: ['10'],
       inputs: { 
         currentAdjustment: planParams.adjustmentFactors.ffsAge.current,
         renewalAdjustment: planParams.adjustmentFactors.ffsAge.renewal
@@ -429,6 +471,7 @@ export class BCBSCalculator {
       lineNumber: '12',
       description: 'Sub Total FFS Age Adj. PMPM',
       formula: 'totalProjectedPMPM * ffsAgeAdjustment',
+      dependsOn: ['10', '11a'],
       inputs: { 
         currentAdjusted: currentAgeAdjustedPMPM,
         renewalAdjusted: renewalAgeAdjustedPMPM
@@ -445,6 +488,7 @@ export class BCBSCalculator {
       lineNumber: '13',
       description: 'Total Pooling Charges',
       formula: 'poolingCharges / memberMonths',
+      dependsOn: [],
       inputs: { 
         currentCharges: currentPoolingCharges,
         renewalCharges: renewalPoolingCharges
@@ -453,11 +497,36 @@ export class BCBSCalculator {
       unit: '$'
     });
 
+    // Line 13a: Large Claim Adjustment from claimant status markings
+    // The adjustment is in experience-period dollars, so it takes each period's medical trend like Line 9
+    const largeClaimAdjustment = planParams.largeClaimAdjustment;
+    const largeClaimAdjustmentPMPM = largeClaimAdjustment?.pmpm ?? 0;
+    const currentLargeClaimAdjustmentPMPM = largeClaimAdjustmentPMPM * planParams.trendFactors.medical.compoundedCurrent;
+    const renewalLargeClaimAdjustmentPMPM = largeClaimAdjustmentPMPM * planParams.trendFactors.medical.compoundedRenewal;
+
+    calculations.push({
+      lineNumber: '13a',
+      description: 'Large Claim Adjustment',
+      formula: '(expected claims - retained claims of marked claimants) / memberMonths * compoundedMedicalTrend',
+      dependsOn: ['8-Med'],
+      inputs: {
+        claimantAdjustments: largeClaimAdjustment?.total ?? 0,
+        memberMonths: largeClaimAdjustment?.memberMonths ?? 0,
+        experiencePMPM: largeClaimAdjustmentPMPM,
+        currentTrended: currentLargeClaimAdjustmentPMPM,
+        renewalTrended: renewalLargeClaimAdjustmentPMPM
+      },
+      result: currentLargeClaimAdjustmentPMPM,
+      unit: '$',
+      sources: largeClaimAdjustment?.entries.map(entry => entry.justification)
+    });
+
     // Line 14: Benefit Adjustment
     calculations.push({
       lineNumber: '14',
       description: '(*) Benefit Adjustment',
       formula: 'benefitAdjustmentFactor',
+      dependsOn: [],
       inputs: { 
         adjustmentFactor: planParams.adjustmentFactors.benefitAdjustment
       },
@@ -466,13 +535,16 @@ export class BCBSCalculator {
     });
 
     // Line 15: Adjusted Projected PMPM
-    const currentAdjustedPMPM = (currentAgeAdjustedPMPM + currentPoolingCharges) * planParams.adjustmentFactors.benefitAdjustment;
-    const renewalAdjustedPMPM = (renewalAgeAdjustedPMPM + renewalPoolingCharges) * planParams.adjustmentFactors.benefitAdjustment;
+    const currentAdjustedPMPM = (currentAgeAdjustedPMPM + currentPoolingCharges + currentLargeClaimAdjustmentPMPM) *
+      planParams.adjustmentFactors.benefitAdjustment;
+    const renewalAdjustedPMPM = (renewalAgeAdjustedPMPM + renewalPoolingCharges + renewalLargeClaimAdjustmentPMPM) *
+      planParams.adjustmentFactors.benefitAdjustment;
     
     calculations.push({
       lineNumber: '15',
       description: 'Adjusted Projected PMPM',
-      formula: '(ageAdjustedPMPM + poolingCharges) * benefitAdjustment',
+      formula: '(ageAdjustedPMPM + poolingCharges + largeClaimAdjustment) * benefitAdjustment',
+      dependsOn: ['12', '13', '13a', '14'],
       inputs: { 
         currentAdjusted: currentAdjustedPMPM,
         renewalAdjusted: renewalAdjustedPMPM
@@ -486,6 +558,7 @@ export class BCBSCalculator {
       lineNumber: '16',
       description: 'Experience Weights',
       formula: 'currentWeight / renewalWeight',
+      dependsOn: [],
       inputs: { 
         currentWeight: planParams.experienceWeights.current,
         renewalWeight: planParams.experienceWeights.renewal
@@ -502,6 +575,7 @@ export class BCBSCalculator {
       lineNumber: '17',
       description: 'Weighted Experience Claims',
       formula: '(currentPMPM * currentWeight) + (renewalPMPM * renewalWeight)',
+      dependsOn: ['15', '16'],
       inputs: { 
         weightedClaims: weightedExperienceClaims
       },
@@ -518,6 +592,7 @@ export class BCBSCalculator {
       lineNumber: '18',
       description: 'Member Based Charges',
       formula: 'memberBasedCharges (if applicable)',
+      dependsOn: ['16'],
       inputs: { 
         charges: memberBasedCharges
       },
@@ -532,6 +607,7 @@ export class BCBSCalculator {
       lineNumber: '19',
       description: 'Projected Experience Claim PMPM (incl MBC)',
       formula: 'weightedExperienceClaims + memberBasedCharges',
+      dependsOn: ['17', '18'],
       inputs: { 
         projectedClaims: projectedExperienceClaimPMPM
       },
@@ -547,6 +623,7 @@ export class BCBSCalculator {
       lineNumber: '20',
       description: 'Manual Claims PMPM',
       formula: '(currentManual * currentWeight) + (renewalManual * renewalWeight)',
+      dependsOn: ['16'],
       inputs: { 
         manualClaims: manualClaimsPMPM
       },
@@ -558,10 +635,9 @@ export class BCBSCalculator {
     calculations.push({
       lineNumber: '21',
       description: 'Credibility Factor',
-      formula: 'credibilityFactor',
-      inputs: { 
-        credibility: planParams.credibilityFactor
-      },
+      formula: planParams.credibility?.formula ?? 'credibilityFactor',
+      dependsOn: [],
+      inputs: planParams.credibility?.inputs ?? { credibility: planParams.credibilityFactor },
       result: planParams.credibilityFactor,
       unit: 'factor'
     });
@@ -574,6 +650,7 @@ export class BCBSCalculator {
       lineNumber: '22',
       description: 'Credibility Adjusted Claim PMPM',
       formula: '(experienceClaims * credibility) + (manualClaims * (1 - credibility))',
+      dependsOn: ['19', '20', '21'],
       inputs: { 
         credibilityAdjusted: credibilityAdjustedPMPM
       },
@@ -589,6 +666,7 @@ export class BCBSCalculator {
       lineNumber: '23',
       description: 'Retention PMPM',
       formula: '(currentRetention * currentWeight) + (renewalRetention * renewalWeight)',
+      dependsOn: ['16'],
       inputs: { 
         retention: retentionPMPM
       },
@@ -604,6 +682,7 @@ export class BCBSCalculator {
       lineNumber: '24',
       description: 'PPO Premium Tax PMPM',
       formula: '(currentTax * currentWeight) + (renewalTax * renewalWeight)',
+      dependsOn: ['16'],
       inputs: { 
         premiumTax: ppoPremiumTaxPMPM
       },
@@ -619,6 +698,7 @@ export class BCBSCalculator {
       lineNumber: '24a',
       description: 'Affordable Care Act Adjustments PMPM',
       formula: '(currentACA * currentWeight) + (renewalACA * renewalWeight)',
+      dependsOn: ['16'],
       inputs: { 
         acaAdjustments: acaAdjustmentsPMPM
       },
@@ -631,6 +711,7 @@ export class BCBSCalculator {
       lineNumber: '25',
       description: 'Underwriter Adjustment Factor',
       formula: 'underwriterAdjustmentFactor',
+      dependsOn: [],
       inputs: { 
         adjustment: planParams.adjustmentFactors.underwriterAdjustment
       },
@@ -646,6 +727,7 @@ export class BCBSCalculator {
       lineNumber: '26',
       description: 'Required Premium PMPM',
       formula: '(credibilityAdjusted + retention + tax + aca) * underwriterAdjustment',
+      dependsOn: ['22', '23', '24', '24a', '25'],
       inputs: { 
         required: requiredPremiumPMPM
       },
@@ -658,6 +740,7 @@ export class BCBSCalculator {
       lineNumber: '27',
       description: 'Pathway to Savings Adjustment',
       formula: 'pathwayToSavingsAdjustment',
+      dependsOn: [],
       inputs: { 
         adjustment: planParams.adjustmentFactors.pathwayToSavings
       },
@@ -672,6 +755,7 @@ export class BCBSCalculator {
       lineNumber: '27a',
       description: 'Post P2S Adj. Required Premium PMPM',
       formula: 'requiredPremium * pathwayToSavingsAdjustment',
+      dependsOn: ['26', '27'],
       inputs: { 
         projectedPremium: projectedPremiumPMPM
       },
@@ -684,6 +768,7 @@ export class BCBSCalculator {
       lineNumber: '28',
       description: 'Current Premium PMPM',
       formula: 'currentPremiumPMPM',
+      dependsOn: [],
       inputs: { 
         currentPremium: planParams.currentPremiumPMPM
       },
@@ -698,6 +783,7 @@ export class BCBSCalculator {
       lineNumber: '29',
       description: 'Rate Action',
       formula: '(projectedPremium / currentPremium) - 1',
+      dependsOn: ['27a', '28'],
       inputs: { 
         rateAction: rateAction
       },
@@ -0,0 +1,306 @@
+import { CarrierPlugin } from '../registry';
+import { numberParameter } from '../parameterSchema';
+import { IMonthlyClaimsData, UniversalInput } from '../../../types/common';
+import { BCBSClaimsData, BCBSInput, BCBSPlanParameters, BCBS_POOLING_SPLIT } from '../../../types/bcbs';
+import { buildPooledClaimsExhibit, calculateLargeClaimAdjustment } from '../../../pooling';
+import { calculateCredibility, credibilityExposure } from '../../../credibility';
+import { completeClaimsData, summarizeIBNR } from '../../../utils/ibnr';
+import { BCBSCalculator } from './BCBSCalculator';
+import BCBSTemplate from './BCBSTemplate';
+import { calculateManualRatesFromExperience, calculateCurrentPremiumFromExperience } from '../../../utils/experienceEstimates';
+
+const BCBS_DEFAULTS = {
+  poolingLevel: 225000,
+  experienceWeightCurrent: 0.33,
+  credibilityFactor: 1,
+  benefitAdjustment: 1,
+  underwriterAdjustment: 1,
+  pathwayToSavings: 0.995,
+  trendMonthsCurrent: 35,
+  trendMonthsRenewal: 23,
+  // Medical and pharmacy annual trend, compounded over each period's trend months
+  medicalTrend: 1.1003,
+  rxTrend: 1.1136,
+};
+
+// Standard Line 6 IBNR factors when the case does not opt into IBNR completion
+const BCBS_IBNR_FACTORS: BCBSPlanParameters['ibnrFactors'] = {
+  medical: { current: 1.0000, renewal: 1.0240 },
+  pharmacy: { current: 1.0000, renewal: 1.0020 }
+};
+
+// Line 6 factors from completed claims: both periods span the whole experience, so they share the ratio
+function completedIBNRFactors(completed: IMonthlyClaimsData[], reportedMedical: number, reportedRx: number): BCBSPlanParameters['ibnrFactors'] {
+  const ratio = (completedClaims: number, reported: number) => reported > 0 ? completedClaims / reported : 1;
+  const medical = ratio(completed.reduce((sum, month) => sum + month.incurredClaims.medical, 0), reportedMedical);
+  const pharmacy = ratio(completed.reduce((sum, month) => sum + month.incurredClaims.rx, 0), reportedRx);
+  return {
+    medical: { current: medical, renewal: medical },
+    pharmacy: { current: pharmacy, renewal: pharmacy }
+  };
+}
+
+function compoundedTrend(annual: number, monthsCurrent: number, monthsRenewal: number) {
+  return {
+    annualCurrent: annual,
+    annualRenewal: annual,
+    monthsCurrent,
+    monthsRenewal,
+    compoundedCurrent: Math.pow(annual, monthsCurrent / 12),
+    compoundedRenewal: Math.pow(annual, monthsRenewal / 12)
+  };
+}
+
+// A period's claims for one line of coverage, net of the claimants' pooled excess
+function claimsNetOfPooling(totalClaims: number, pooledClaims: number, poolingLevel: number, memberMonths: number): BCBSClaimsData {
+  const netClaims = totalClaims - pooledClaims;
+  return {
+    totalClaims,
+    poolingLevel,
+    pooledClaims,
+    netClaims,
+    expPeriodMemberMonths: memberMonths,
+    netPMPM: netClaims / (memberMonths || 1),
+    adjustedNetPMPM: netClaims / (memberMonths || 1),
+    projectedPMPM: 0 // Will be calculated
+  };
+}
+
+// Helper function to create BCBS multi-plan data from experience
+function createBCBSMultiPlanFromExperience(input: UniversalInput, params?: any): BCBSInput {
+  // For now, create a single plan from the universal input data
+  // In practice, this would be split into multiple plans based on the data structure
+  const totalMedical = input.monthlyClaimsData.reduce((sum, month) => 
+    sum + (month.incurredClaims?.medical || 0), 0);
+  const totalRx = input.monthlyClaimsData.reduce((sum, month) => 
+    sum + (month.incurredClaims?.rx || 0), 0);
+  const totalMM = input.monthlyClaimsData.reduce((sum, month) => 
+    sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+
+  const experiencePMPM = (totalMedical + totalRx) / (totalMM || 1); // Add null coalescing
+  // Opt-in IBNR replaces the standard Line 6 factors with the completed-to-reported ratio of the experience
+  const completion = completeClaimsData(input.monthlyClaimsData, params?.ibnr);
+  const ibnrFactors = completion.estimate
+    ? completedIBNRFactors(completion.claimsData, totalMedical, totalRx)
+    : BCBS_IBNR_FACTORS;
+  const calculatedManual = calculateManualRatesFromExperience(input);
+  const calculatedCurrent = Number(params?.currentPremiumPMPM) || calculateCurrentPremiumFromExperience(input);
+  const poolingLevel = numberParameter(params, BCBS_DEFAULTS, 'poolingLevel');
+  const experienceWeightCurrent = numberParameter(params, BCBS_DEFAULTS, 'experienceWeightCurrent');
+  const trendMonthsCurrent = numberParameter(params, BCBS_DEFAULTS, 'trendMonthsCurrent');
+  const trendMonthsRenewal = numberParameter(params, BCBS_DEFAULTS, 'trendMonthsRenewal');
+
+  // Each claimant's excess over the pooling level (or their laser) across the whole experience range
+  const experienceRange = {
+    start: input.effectiveDates.renewalStart,
+    end: input.effectiveDates.renewalEnd,
+    months: input.monthlyClaimsData.length
+  };
+  const poolingOptions = { poolingLevel, split: params?.poolingSplit ?? BCBS_POOLING_SPLIT };
+  const poolingExhibit = buildPooledClaimsExhibit(input.largeClaimantsData || [], { current: experienceRange, prior: null }, poolingOptions);
+  const largeClaimAdjustment = calculateLargeClaimAdjustment(input.largeClaimantsData || [], experienceRange, totalMM, poolingOptions);
+  const pooled = poolingExhibit.totals.current;
+  // The supplied credibility factor unless other settings compute it from the experience
+  const credibility = calculateCredibility(
+    credibilityExposure(input, totalMM),
+    params?.credibilitySettings ?? { method: 'supplied', credibility: numberParameter(params, BCBS_DEFAULTS, 'credibilityFactor') }
+  );
+
+  return {
+    ...input,
+    carrier: 'BCBS',
+    multiPlanData: {
+      plans: [{
+        planId: 'plan1',
+        experiencePeriods: {
+          current: {
+            startDate: input.effectiveDates.renewalStart, // Fix: use renewalStart
+            endDate: input.effectiveDates.renewalEnd, // Fix: use renewalEnd
+            memberMonths: totalMM
+          },
+          renewal: {
+            startDate: input.effectiveDates.renewalStart,
+            endDate: input.effectiveDates.renewalEnd,
+            memberMonths: totalMM
+          }
+        },
+        memberMonths: {
+          currentTotal: totalMM,
+          renewalTotal: totalMM,
+          projectedMonthlyMembers: {
+            current: totalMM / 12,
+            renewal: totalMM / 12
+          }
+        },
+        medicalClaims: {
+          current: claimsNetOfPooling(totalMedical, pooled.medical, poolingLevel, totalMM),
+          renewal: claimsNetOfPooling(totalMedical, pooled.medical, poolingLevel, totalMM)
+        },
+        pharmacyClaims: {
+          current: claimsNetOfPooling(totalRx, pooled.rx, poolingLevel, totalMM),
+          renewal: claimsNetOfPooling(totalRx, pooled.rx, poolingLevel, totalMM)
+        },
+        enrollment: {
+          current: {
+            single: { count: Math.floor((totalMM || 0) * 0.4), rate: calculatedCurrent * 1.0 },
+            couple: { count: Math.floor((totalMM || 0) * 0.3), rate: calculatedCurrent * 2.0 },
+            spmd: { count: Math.floor((totalMM || 0) * 0.1), rate: calculatedCurrent * 1.8 },
+            family: { count: Math.floor((totalMM || 0) * 0.2), rate: calculatedCurrent * 2.5 },
+            total: { count: totalMM || 0, monthlyPremium: calculatedCurrent * (totalMM || 0), annualPremium: calculatedCurrent * (totalMM || 0) * 12 }
+          },
+          renewal: {
+            single: { count: Math.floor((totalMM || 0) * 0.4), rate: calculatedCurrent * 1.0 },
+            couple: { count: Math.floor((totalMM || 0) * 0.3), rate: calculatedCurrent * 2.0 },
+            spmd: { count: Math.floor((totalMM || 0) * 0.1), rate: calculatedCurrent * 1.8 },
+            family: { count: Math.floor((totalMM || 0) * 0.2), rate: calculatedCurrent * 2.5 },
+            total: { count: totalMM || 0, monthlyPremium: calculatedCurrent * (totalMM || 0), annualPremium: calculatedCurrent * (totalMM || 0) * 12 }
+          }
+        }
+      }],
+      totalMemberMonths: totalMM || 0, // Add null coalescing
+      poolingExhibit,
+      ...(completion.estimate && { ibnrEstimate: completion.estimate })
+    },
+    carrierSpecificParameters: {
+      plans: [{
+        planId: 'plan1',
+        planName: 'BCE Saver $3000 with Coinsurance',
+        poolingLevel,
+        experienceWeights: {
+          current: experienceWeightCurrent,
+          renewal: 1 - experienceWeightCurrent
+        },
+        credibilityFactor: credibility.credibility,
+        credibility,
+        ibnrFactors,
+        trendFactors: {
+          medical: compoundedTrend(numberParameter(params, BCBS_DEFAULTS, 'medicalTrend'), trendMonthsCurrent, trendMonthsRenewal),
+          pharmacy: compoundedTrend(numberParameter(params, BCBS_DEFAULTS, 'rxTrend'), trendMonthsCurrent, trendMonthsRenewal)
+        },
+        adjustmentFactors: {
+          ffsAge: {
+            current: 1.0375,
+            renewal: 1.0214
+          },
+          benefitAdjustment: numberParameter(params, BCBS_DEFAULTS, 'benefitAdjustment'),
+          underwriterAdjustment: numberParameter(params, BCBS_DEFAULTS, 'underwriterAdjustment'),
+          pathwayToSavings: numberParameter(params, BCBS_DEFAULTS, 'pathwayToSavings')
+        },
+        largeClaimAdjustment,
+        retentionComponents: {
+          retentionPMPM: {
+            current: experiencePMPM * 0.15,
+            renewal: experiencePMPM * 0.17
+          },
+          ppoPremiumTax: {
+            current: experiencePMPM * 0.0104,
+            renewal: experiencePMPM * 0.0116
+          },
+          acaAdjustments: {
+            current: experiencePMPM * 0.0004,
+            renewal: experiencePMPM * 0.0005
+          }
+        },
+        currentPremiumPMPM: calculatedCurrent,
+        manualClaimsPMPM: {
+          current: calculatedManual.total * 0.8,
+          renewal: calculatedManual.total * 1.2
+        }
+      }],
+      compositeWeighting: {
+        enrollmentBased: true,
+        totalEnrollment: totalMM || 0 // Add null coalescing
+      },
+      globalSettings: {
+        totalMemberMonths: totalMM || 0 // Add null coalescing
+      }
+    }
+  };
+}
+
+export const bcbsPlugin: CarrierPlugin<BCBSInput> = {
+  id: 'BCBS',
+  label: 'BCBS',
+  calculator: BCBSCalculator,
+  template: BCBSTemplate,
+  defaultParameters: { ...BCBS_DEFAULTS },
+  parameterSchema: [
+    { key: 'poolingLevel', label: 'Pooling Level', unit: 'currency', min: 10000, max: 2000000, aliases: ['poolingThreshold'], sensitivity: 'pooling', assumption: { value: 'poolingLevel', line: 'medical' } },
+    { key: 'experienceWeightCurrent', label: 'Current Period Experience Weight', unit: 'rate', min: 0, max: 1, description: 'The renewal period receives the remaining weight', sensitivity: 'experienceWeight' },
+    { key: 'credibilityFactor', label: 'Credibility Factor', unit: 'rate', min: 0, max: 1 },
+    { key: 'medicalTrend', label: 'Medical Trend Factor (annual)', unit: 'factor', min: 0.8, max: 1.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'medical' } },
+    { key: 'rxTrend', label: 'Rx Trend Factor (annual)', unit: 'factor', min: 0.8, max: 1.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'rx' } },
+    { key: 'trendMonthsCurrent', label: 'Current Period Trend Months', unit: 'months', min: 0, max: 72, description: 'Months from the older year of experience to the renewal midpoint', trendMonths: 'prior' },
+    { key: 'trendMonthsRenewal', label: 'Renewal Period Trend Months', unit: 'months', min: 0, max: 60, description: 'Months from the latest year of experience to the renewal midpoint', trendMonths: 'current' },
+    { key: 'benefitAdjustment', label: 'Benefit Adjustment', unit: 'factor', min: 0.5, max: 2, planDesignLine: '14' },
+    { key: 'underwriterAdjustment', label: 'Underwriter Adjustment', unit: 'factor', min: 0.5, max: 2 },
+    { key: 'pathwayToSavings', label: 'Pathway to Savings', unit: 'factor', min: 0.5, max: 1.5 },
+    { key: 'currentPremiumPMPM', label: 'Current Premium PMPM', unit: 'currency', min: 0, max: 10000, description: 'Estimated from experience when blank' },
+  ],
+
+  // Create BCBS input from universal input data
+  adaptInput: (input, params) => createBCBSMultiPlanFromExperience(input, params),
+
+  calculate: async (bcbsInput) => {
+    const bcbsCalculator = new BCBSCalculator();
+    const bcbsResult = await bcbsCalculator.calculateRenewal(bcbsInput, {
+      calculationDate: new Date(),
+      version: '1.0',
+      requestId: 'test-request'
+    });
+
+    // Convert to legacy CalculationResult format but store the native result in detailedResults
+    return {
+      carrier: bcbsResult.carrier,
+      currentPremiumPMPM: bcbsResult.composite.weightedAverages.currentPMPM || 0,
+      projectedPremiumPMPM: bcbsResult.composite.weightedAverages.projectedPMPM || 0,
+      requiredRateChange: bcbsResult.composite.compositeRateAction,
+      proposedRateChange: bcbsResult.composite.compositeRateAction,
+      calculationSteps: [
+        { label: 'Composite Rate Action', value: bcbsResult.composite.compositeRateAction * 100 },
+        { label: 'Total Plans', value: bcbsResult.individualPlans.length },
+        { label: 'Total Enrollment', value: bcbsResult.enrollmentSummary.totalEnrollment }
+      ],
+      warnings: [
+        ...bcbsResult.warnings.map((w: any) => ({ message: typeof w === 'string' ? w : w.message })),
+        ...(bcbsInput.multiPlanData.ibnrEstimate ? [{ message: summarizeIBNR(bcbsInput.multiPlanData.ibnrEstimate) }] : [])
+      ],
+      trace: bcbsResult.trace,
+      poolingExhibit: bcbsInput.multiPlanData.poolingExhibit,
+      largeClaimAdjustment: bcbsInput.carrierSpecificParameters.plans[0]?.largeClaimAdjustment,
+      credibility: bcbsInput.carrierSpecificParameters.plans[0]?.credibility,
+      // Store the native result for template access
+      detailedResults: {
+        bcbs: bcbsResult as any
+      }
+    };
+  },
+
+  // BCBSTemplate renders from the full calculation result
+  selectTemplateResult: (result) => result.carrier === 'BCBS' ? result : null,
+
+  // Plan figures weighted by current member months: pooled dollars (Line 3), pooling charges (Line 13), credibility (Line 21)
+  summarizeResult: (result) => {
+    const plans: any[] = result.detailedResults?.bcbs?.individualPlans || [];
+    let memberMonths = 0;
+    let pooledClaims = 0;
+    let poolingCharges = 0;
+    let credibility = 0;
+    plans.forEach(plan => {
+      const step = (lineNumber: string) => plan.calculations.find((c: any) => c.lineNumber === lineNumber);
+      const planMemberMonths = step('6-Med')?.inputs.currentMemberMonths || 0;
+      memberMonths += planMemberMonths;
+      pooledClaims += (step('3-Med-Pool')?.result || 0) + (step('3-Rx-Pool')?.result || 0);
+      poolingCharges += (step('13')?.result || 0) * planMemberMonths;
+      credibility += (step('21')?.result || 0) * planMemberMonths;
+    });
+    if (memberMonths === 0) {
+      return { pooledClaimsPMPM: null, poolingChargePMPM: null, credibility: null };
+    }
+    return {
+      pooledClaimsPMPM: pooledClaims / memberMonths,
+      poolingChargePMPM: poolingCharges / memberMonths,
+      credibility: credibility / memberMonths
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { runProjection } from '../../../utils/projectionRunner';
+import { CignaResult } from '../../../types/cigna';
+
+describe('Cigna claims fluctuation corridor', () => {
+  const rows = [
+    { caseId: 'CFC-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  const cigna = async (overrides: Record<string, number> = {}) =>
+    (await runProjection(rows, 'CIGNA', overrides)).result.detailedResults!.cigna as CignaResult;
+
+  test('leaves a blended claims cost inside the corridor unchanged', async () => {
+    const { cfcAnalysis } = await cigna();
+
+    expect(cfcAnalysis!.priorClaimsBasisPMPM).toBeCloseTo(500);
+    expect(cfcAnalysis!.corridorLowPMPM).toBeCloseTo(425);
+    expect(cfcAnalysis!.corridorHighPMPM).toBeCloseTo(575);
+    expect(cfcAnalysis!.adjustmentApplied).toBe(false);
+    expect(cfcAnalysis!.finalClaimsPMPM).toBe(cfcAnalysis!.blendedClaimsPMPM);
+    expect(cfcAnalysis!.originalPremium).toBe(cfcAnalysis!.adjustedPremium);
+  });
+
+  test('holds the final claims cost at the corridor bound and reports the premium effect', async () => {
+    const result = await cigna({ priorClaimsBasisPMPM: 400 });
+    const uncapped = await cigna({ priorClaimsBasisPMPM: 400, corridorUpperBound: 2 });
+    const { cfcAnalysis } = result;
+
+    expect(cfcAnalysis!.adjustmentApplied).toBe(true);
+    expect(cfcAnalysis!.finalClaimsPMPM).toBeCloseTo(460);
+    expect(result.calculations.find(line => line.description === 'Final Claims Cost')!.pmpm).toBeCloseTo(460);
+    expect(cfcAnalysis!.originalPremium).toBeCloseTo(uncapped.finalPremium.pmpm);
+    expect(cfcAnalysis!.adjustedPremium).toBeCloseTo(result.finalPremium.pmpm);
+    expect(cfcAnalysis!.adjustmentPercent).toBeCloseTo(cfcAnalysis!.adjustedPremium / cfcAnalysis!.originalPremium - 1);
+    expect(cfcAnalysis!.adjustmentPercent).toBeLessThan(0);
+    expect(result.warnings.some(warning => warning.startsWith('Claims fluctuation corridor held'))).toBe(true);
+
+    // The blended-only premium carries the same retention as the expense lines
+    const loaded = await cigna({ priorClaimsBasisPMPM: 400, commissionRate: 0.06, premiumTaxRate: 0.03 });
+    const loadedUncapped = await cigna({ priorClaimsBasisPMPM: 400, commissionRate: 0.06, premiumTaxRate: 0.03, corridorUpperBound: 2 });
+    expect(loaded.cfcAnalysis!.originalPremium).toBeCloseTo(loadedUncapped.finalPremium.pmpm);
+  });
+});
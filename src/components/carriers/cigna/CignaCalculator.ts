@@ -2,17 +2,36 @@ import {
   CignaInput, 
   CignaResult, 
   CignaCalculationLine, 
-  CIGNA_CALCULATION_LINES 
+  CIGNA_CALCULATION_LINES,
+  CIGNA_EXPERIENCE_PERIOD_RULE,
+  CIGNA_POOLING_SPLIT,
+  CIGNA_EXPENSE_RATES,
+  CignaExpenseRates
 } from '../../../types/cigna';
 import { 
   determineExperiencePeriods, 
   validateLargeClaimantPeriods,
   getMemberMonthsForPeriod,
   getClaimsForPeriod,
-  calculatePooledClaimsForPeriod,
   validateDataQuality 
 } from '../../../utils/periodHandling';
-import { UniversalInput, ExperiencePeriods } from '../../../types/common';
+import { completeClaimsData, summarizeIBNR } from '../../../utils/ibnr';
+import {
+  calculateCurrentPremiumFromExperience,
+  calculateManualRatesFromExperience,
+  estimatedRetentionFactor
+} from '../../../utils/experienceEstimates';
+import { buildPooledClaimsExhibit, calculateLargeClaimAdjustment, pooledClaimsFor } from '../../../pooling';
+import { calculateCredibility, credibilityExposure } from '../../../credibility';
+import {
+  buildCalculationTrace,
+  credibilityOperands,
+  inputOperand,
+  largeClaimantSource,
+  lineOperand,
+  periodSource
+} from '../../../utils/calculationTrace';
+import { UniversalInput, CredibilityResult, ExperiencePeriods, LargeClaimAdjustment, LineTrace, PooledClaimsExhibit, TraceOperand } from '../../../types/common';
 
 export class CignaRenewalCalculator {
   private input: CignaInput;
@@ -20,16 +39,37 @@ export class CignaRenewalCalculator {
   private calculations: CignaCalculationLine[] = [];
   private warnings: string[] = [];
   private medicalPharmacySplit: { medical: number; pharmacy: number };
+  private pendingTrace?: LineTrace;
+  private poolingExhibit: PooledClaimsExhibit;
+  private largeClaimAdjustment: LargeClaimAdjustment;
+  private credibility?: CredibilityResult; // Set by the Experience Weight line
 
   constructor(input: CignaInput) {
-    this.input = input;
+    // Complete immature months with IBNR before the experience periods are split (opt-in)
+    const completion = completeClaimsData(input.monthlyClaimsData, input.carrierSpecificParameters.ibnr);
+    this.input = { ...input, monthlyClaimsData: completion.claimsData };
+    if (completion.estimate) {
+      this.warnings.push(summarizeIBNR(completion.estimate));
+    }
     this.periods = determineExperiencePeriods(
-      input.monthlyClaimsData,
-      input.effectiveDates.renewalStart
+      this.input.monthlyClaimsData,
+      input.effectiveDates.renewalStart,
+      input.carrierSpecificParameters.experiencePeriodRule ?? CIGNA_EXPERIENCE_PERIOD_RULE
     );
     
     // Calculate actual medical/pharmacy split from experience data
     this.medicalPharmacySplit = this.calculateMedicalPharmacySplit();
+    const poolingOptions = {
+      poolingLevel: input.carrierSpecificParameters.poolingLevel,
+      split: input.carrierSpecificParameters.poolingSplit ?? CIGNA_POOLING_SPLIT
+    };
+    this.poolingExhibit = buildPooledClaimsExhibit(this.input.largeClaimantsData || [], this.periods, poolingOptions);
+    this.largeClaimAdjustment = calculateLargeClaimAdjustment(
+      this.input.largeClaimantsData || [],
+      this.periods.current,
+      getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current),
+      poolingOptions
+    );
   }
 
   calculate(): CignaResult {
@@ -40,8 +80,18 @@ export class CignaRenewalCalculator {
       return {
         carrier: 'CIGNA',
         calculations: this.calculations,
+        trace: buildCalculationTrace(this.calculations.map(line => ({
+          id: line.description,
+          description: line.description,
+          value: line.pmpm,
+          trace: line.trace
+        }))),
+        poolingExhibit: this.poolingExhibit,
+        largeClaimAdjustment: this.largeClaimAdjustment,
+        credibility: this.credibility!,
         finalPremium: this.getFinalPremium(),
         rateChange: this.getRateChange(),
+        cfcAnalysis: this.createCFCAnalysis(),
         period: this.createPeriodAnalysis(),
         warnings: this.warnings,
         summary: this.createSummary(),
@@ -126,6 +176,7 @@ export class CignaRenewalCalculator {
     this.addCalculationLine('Manual Claim Cost', ...this.getManualClaimCost());
     this.addCalculationLine('Manual Weight', ...this.getManualWeight());
     this.addCalculationLine('Blended Claims Cost', ...this.calculateBlendedClaimsCost());
+    this.addCalculationLine('Prior Year Claims Basis', ...this.getPriorClaimsBasis());
     this.addCalculationLine('Claims Fluctuation Corridor', ...this.applyCFC());
     this.addCalculationLine('Final Claims Cost', ...this.calculateFinalClaimsCost());
     this.addCalculationLine('Administration Expense', ...this.getAdministrationExpense());
@@ -143,8 +194,20 @@ export class CignaRenewalCalculator {
       description,
       pmpm,
       annual,
-      notes
+      notes,
+      trace: this.pendingTrace
     });
+    this.pendingTrace = undefined;
+  }
+
+  // Each line's calculation records how it was produced; the trace is attached when the line is added
+  private traceLine(formula: string, operands: TraceOperand[], sources?: string[]): void {
+    this.pendingTrace = { formula, operands, sources };
+  }
+
+  private lineRef(description: string): TraceOperand {
+    const line = this.calculations.find(c => c.description === description)!;
+    return lineOperand(description, line.pmpm, description);
   }
 
   private calculateTotalPaidClaims(): [number, number] {
@@ -155,6 +218,11 @@ export class CignaRenewalCalculator {
     const totalPMPM = claims.total / memberMonths;
     const projectedMemberMonths = this.calculateProjectedMemberMonths();
     
+    this.traceLine('Claims ÷ member months; annual = PMPM × projected member months', [
+      inputOperand('Claims', claims.total),
+      inputOperand('Member months', memberMonths),
+      inputOperand('Projected member months', projectedMemberMonths)
+    ], [periodSource('Experience period', this.input.monthlyClaimsData, currentPeriod)]);
     return [totalPMPM, totalPMPM * projectedMemberMonths];
   }
 
@@ -174,15 +242,16 @@ export class CignaRenewalCalculator {
   }
 
   private calculatePooledClaims(): [number, number] {
-    const pooledClaims = calculatePooledClaimsForPeriod(
-      this.input.largeClaimantsData || [],
-      this.periods.current,
-      this.input.carrierSpecificParameters.poolingLevel
-    );
+    const pooledClaims = pooledClaimsFor(this.poolingExhibit, 'current');
     
     const memberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
     const projectedMemberMonths = this.calculateProjectedMemberMonths();
     
+    this.traceLine('Claims over the pooling level ÷ member months', [
+      inputOperand('Pooling level', this.input.carrierSpecificParameters.poolingLevel),
+      inputOperand('Pooled claims', pooledClaims.total),
+      inputOperand('Member months', memberMonths)
+    ], [largeClaimantSource(this.poolingExhibit, this.periods.current)]);
     const pooledPMPM = pooledClaims.total / memberMonths;
     return [pooledPMPM, pooledClaims.total * (projectedMemberMonths / memberMonths)];
   }
@@ -191,6 +260,7 @@ export class CignaRenewalCalculator {
     const totalPaidLine = this.calculations.find(c => c.description === 'Total Paid Claims')!;
     const pooledLine = this.calculations.find(c => c.description === 'Less Pooled Claims over $50,000 PMPM')!;
     
+    this.traceLine('Total Paid Claims − Pooled Claims', [this.lineRef('Total Paid Claims'), this.lineRef(pooledLine.description)]);
     const pmpm = Number(totalPaidLine.pmpm) - Number(pooledLine.pmpm);
     const annual = Number(totalPaidLine.annual) - Number(pooledLine.annual);
     
@@ -199,6 +269,7 @@ export class CignaRenewalCalculator {
 
   private getDemographicAdjustmentFactor(): [string, string] {
     const factor = this.input.carrierSpecificParameters.demographicAdjustment;
+    this.traceLine('Demographic adjustment', [inputOperand('Demographic adjustment', factor)]);
     return [factor.toFixed(4), factor.toFixed(4)];
   }
 
@@ -206,6 +277,10 @@ export class CignaRenewalCalculator {
     const experienceLine = this.calculations.find(c => c.description === 'Experience Claim Cost')!;
     const demographicFactor = this.input.carrierSpecificParameters.demographicAdjustment;
     
+    this.traceLine('Experience Claim Cost × Demographic Adjustment Factor', [
+      this.lineRef('Experience Claim Cost'),
+      this.lineRef('Demographic Adjustment Factor')
+    ]);
     const pmpm = Number(experienceLine.pmpm) * demographicFactor;
     const annual = Number(experienceLine.annual) * demographicFactor;
     
@@ -215,11 +290,13 @@ export class CignaRenewalCalculator {
   private getAnnualTrend(): [string, string] {
     const trend = this.input.carrierSpecificParameters.trendFactor.annual;
     const percentage = ((trend - 1) * 100).toFixed(2) + '%';
+    this.traceLine('Annual trend factor − 1', [inputOperand('Annual trend factor', trend)]);
     return [percentage, percentage];
   }
 
   private getMidpointMonths(): [number, number] {
     const months = this.input.carrierSpecificParameters.trendFactor.midpointMonths;
+    this.traceLine('Months from the experience midpoint to the rating midpoint', [inputOperand('Midpoint months', months)]);
     return [months, months];
   }
 
@@ -228,6 +305,7 @@ export class CignaRenewalCalculator {
     const months = this.input.carrierSpecificParameters.trendFactor.midpointMonths;
     const effectiveTrend = Math.pow(annualTrend, months / 12);
     
+    this.traceLine('Annual Trend^(Midpoint Months ÷ 12) − 1', [this.lineRef('Annual Trend'), this.lineRef('Midpoint Months')]);
     return [((effectiveTrend - 1) * 100).toFixed(2) + '%', ((effectiveTrend - 1) * 100).toFixed(2) + '%'];
   }
 
@@ -238,6 +316,10 @@ export class CignaRenewalCalculator {
       this.input.carrierSpecificParameters.trendFactor.midpointMonths / 12
     );
     
+    this.traceLine('Demographically Adjusted Claims × (1 + Effective Trend)', [
+      this.lineRef('Demographically Adjusted Claims'),
+      this.lineRef('Effective Trend')
+    ]);
     const pmpm = Number(adjustedLine.pmpm) * trendFactor;
     const annual = Number(adjustedLine.annual) * trendFactor;
     
@@ -248,6 +330,9 @@ export class CignaRenewalCalculator {
     // Calculate large claim add back if not provided
     if (this.input.carrierSpecificParameters.largeClaimAddBack.pmpm && 
         this.input.carrierSpecificParameters.largeClaimAddBack.annual) {
+      this.traceLine('Large claim add back supplied in the parameters', [
+        inputOperand('Add back PMPM', this.input.carrierSpecificParameters.largeClaimAddBack.pmpm)
+      ]);
       return [
         this.input.carrierSpecificParameters.largeClaimAddBack.pmpm,
         this.input.carrierSpecificParameters.largeClaimAddBack.annual
@@ -257,26 +342,42 @@ export class CignaRenewalCalculator {
     // Calculate from experience data if not provided
     const memberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
     const projectedMemberMonths = this.calculateProjectedMemberMonths();
-    
+
     // Estimate based on claims over pooling threshold
-    const pooledAmount = calculatePooledClaimsForPeriod(
-      this.input.largeClaimantsData || [],
-      this.periods.current,
-      this.input.carrierSpecificParameters.poolingLevel
-    );
+    const pooledAmount = pooledClaimsFor(this.poolingExhibit, 'current');
     
     // CIGNA typically adds back ~30% of pooled claims
     const addBackFactor = 0.30;
-    const addBackPMPM = (pooledAmount.total * addBackFactor) / memberMonths;
-    const addBackAnnual = addBackPMPM * projectedMemberMonths;
-    
-    return [addBackPMPM, addBackAnnual];
+    const pooledAddBackPMPM = (pooledAmount.total * addBackFactor) / memberMonths;
+    const operands = [
+      inputOperand('Pooled claims', pooledAmount.total),
+      inputOperand('Add back factor', addBackFactor),
+      inputOperand('Member months', memberMonths)
+    ];
+    const sources = [largeClaimantSource(this.poolingExhibit, this.periods.current)];
+
+    if (this.largeClaimAdjustment.entries.length === 0) {
+      this.traceLine('Pooled claims × add back factor ÷ member months', operands, sources);
+      return [pooledAddBackPMPM, pooledAddBackPMPM * projectedMemberMonths];
+    }
+
+    // Claimant status markings adjust the retained claims on top of the pooled claims add back
+    const addBackPMPM = pooledAddBackPMPM + this.largeClaimAdjustment.pmpm;
+    this.traceLine('(Pooled claims × add back factor + marked claimants\' expected claims less retained claims) ÷ member months', [
+      ...operands,
+      inputOperand('Claimant adjustments', this.largeClaimAdjustment.total)
+    ], [...sources, ...this.largeClaimAdjustment.entries.map(entry => entry.justification)]);
+    return [addBackPMPM, addBackPMPM * projectedMemberMonths];
   }
 
   private calculateTotalProjectedClaims(): [number, number] {
     const trendedLine = this.calculations.find(c => c.description === 'Trended Experience Claims')!;
     const addBackLine = this.calculations.find(c => c.description === 'Large Claim Add Back')!;
     
+    this.traceLine('Trended Experience Claims + Large Claim Add Back', [
+      this.lineRef('Trended Experience Claims'),
+      this.lineRef('Large Claim Add Back')
+    ]);
     const pmpm = Number(trendedLine.pmpm) + Number(addBackLine.pmpm);
     const annual = Number(trendedLine.annual) + Number(addBackLine.annual);
     
@@ -284,8 +385,22 @@ export class CignaRenewalCalculator {
   }
 
   private getExperienceWeight(): [string, string] {
-    const weight = this.input.carrierSpecificParameters.experienceWeight;
+    const { experienceWeight, credibilitySettings } = this.input.carrierSpecificParameters;
+    const memberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current) +
+      (this.periods.prior ? getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0);
+
+    // The supplied experience weight unless other settings compute it from the experience
+    this.credibility = calculateCredibility(
+      credibilityExposure(this.input, memberMonths),
+      credibilitySettings ?? { method: 'supplied', credibility: experienceWeight }
+    );
+    const weight = this.credibility.credibility;
     const percentage = (weight * 100).toFixed(1) + '%';
+    if (credibilitySettings) {
+      this.traceLine(this.credibility.formula, credibilityOperands(this.credibility));
+    } else {
+      this.traceLine('Experience weight', [inputOperand('Experience weight', weight)]);
+    }
     return [percentage, percentage];
   }
 
@@ -297,23 +412,21 @@ export class CignaRenewalCalculator {
         this.input.carrierSpecificParameters.manualRates.total) {
       manualRatePMPM = this.input.carrierSpecificParameters.manualRates.total;
     } else {
-      // Calculate from experience data as fallback
-      const totalClaims = this.input.monthlyClaimsData.reduce((sum, month) => 
-        sum + (month.incurredClaims?.medical || 0) + (month.incurredClaims?.rx || 0), 0);
-      const totalMM = this.input.monthlyClaimsData.reduce((sum, month) => 
-        sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
-      
-      const experiencePMPM = totalClaims / totalMM;
-      manualRatePMPM = experiencePMPM * 1.20; // 20% above experience for manual rates
+      // Calculate from experience data with the assumption library's manual load as fallback
+      manualRatePMPM = calculateManualRatesFromExperience(this.input).total;
     }
     
+    this.traceLine(this.input.carrierSpecificParameters.manualRates?.total
+      ? 'Manual rate supplied in the parameters'
+      : 'Experience PMPM with the manual load', [inputOperand('Manual rate PMPM', manualRatePMPM)]);
     const projectedMemberMonths = this.calculateProjectedMemberMonths();
     return [manualRatePMPM, manualRatePMPM * projectedMemberMonths];
   }
 
   private getManualWeight(): [string, string] {
-    const weight = 1 - this.input.carrierSpecificParameters.experienceWeight;
+    const weight = 1 - this.credibility!.credibility;
     const percentage = (weight * 100).toFixed(1) + '%';
+    this.traceLine('1 − Experience Weight', [this.lineRef('Experience Weight')]);
     return [percentage, percentage];
   }
 
@@ -321,31 +434,92 @@ export class CignaRenewalCalculator {
     const projectedLine = this.calculations.find(c => c.description === 'Total Projected Claims')!;
     const manualLine = this.calculations.find(c => c.description === 'Manual Claim Cost')!;
     
-    const experienceWeight = this.input.carrierSpecificParameters.experienceWeight;
+    const experienceWeight = this.credibility!.credibility;
     const manualWeight = 1 - experienceWeight;
     
+    this.traceLine('Total Projected Claims × Experience Weight + Manual Claim Cost × Manual Weight', [
+      this.lineRef('Total Projected Claims'),
+      this.lineRef('Experience Weight'),
+      this.lineRef('Manual Claim Cost'),
+      this.lineRef('Manual Weight')
+    ]);
     const pmpm = (Number(projectedLine.pmpm) * experienceWeight) + (Number(manualLine.pmpm) * manualWeight);
     const annual = (Number(projectedLine.annual) * experienceWeight) + (Number(manualLine.annual) * manualWeight);
     
     return [pmpm, annual];
   }
 
+  // The claims cost built into the current rates; without a supplied basis, the current premium less the estimated retention
+  private getPriorClaimsBasis(): [number, number] {
+    const params = this.input.carrierSpecificParameters;
+    const retentionFactor = estimatedRetentionFactor(this.input);
+    const basisPMPM = params.priorClaimsBasisPMPM || this.getCurrentPremiumPMPM() / retentionFactor;
+
+    this.traceLine(params.priorClaimsBasisPMPM
+      ? 'Prior year claims basis supplied in the parameters'
+      : 'Current premium ÷ (1 + estimated retention)', params.priorClaimsBasisPMPM
+      ? [inputOperand('Prior year claims basis PMPM', params.priorClaimsBasisPMPM)]
+      : [inputOperand('Current premium PMPM', this.getCurrentPremiumPMPM()), inputOperand('1 + estimated retention', retentionFactor)]);
+    return [basisPMPM, basisPMPM * this.calculateProjectedMemberMonths()];
+  }
+
+  private getCorridorRange(): { low: number; high: number } {
+    const cfc = this.input.carrierSpecificParameters.claimsFluctuationCorridor;
+    const basis = Number(this.calculations.find(c => c.description === 'Prior Year Claims Basis')!.pmpm);
+    return { low: basis * cfc.lowerBound, high: basis * cfc.upperBound };
+  }
+
   private applyCFC(): [string, string] {
     const cfc = this.input.carrierSpecificParameters.claimsFluctuationCorridor;
     
+    this.traceLine('Prior Year Claims Basis × lower and upper bounds', [
+      this.lineRef('Prior Year Claims Basis'),
+      inputOperand('Lower bound', cfc.lowerBound),
+      inputOperand('Upper bound', cfc.upperBound)
+    ]);
     if (!cfc.enabled) {
       return ['Not Applied', 'Not Applied'];
     }
     
-    return [`${(cfc.lowerBound * 100).toFixed(1)}% to ${(cfc.upperBound * 100).toFixed(1)}%`, 
+    const { low, high } = this.getCorridorRange();
+    return [`$${low.toFixed(2)} to $${high.toFixed(2)}`,
            `${(cfc.lowerBound * 100).toFixed(1)}% to ${(cfc.upperBound * 100).toFixed(1)}%`];
   }
 
   private calculateFinalClaimsCost(): [number, number] {
-    const blendedLine = this.calculations.find(c => c.description === 'Blended Claims Cost')!;
+    const blendedPMPM = Number(this.calculations.find(c => c.description === 'Blended Claims Cost')!.pmpm);
+    const cfc = this.input.carrierSpecificParameters.claimsFluctuationCorridor;
     
-    // For now, CFC is just informational - final cost equals blended cost
-    return [Number(blendedLine.pmpm), Number(blendedLine.annual)];
+    if (!cfc.enabled) {
+      this.traceLine('Blended Claims Cost (corridor not applied)', [this.lineRef('Blended Claims Cost')]);
+      return [blendedPMPM, blendedPMPM * this.calculateProjectedMemberMonths()];
+    }
+
+    const { low, high } = this.getCorridorRange();
+    this.traceLine('Blended Claims Cost held between the corridor bounds', [
+      this.lineRef('Blended Claims Cost'),
+      this.lineRef('Prior Year Claims Basis'),
+      inputOperand('Corridor low PMPM', low),
+      inputOperand('Corridor high PMPM', high)
+    ]);
+    const pmpm = Math.min(high, Math.max(low, blendedPMPM));
+    return [pmpm, pmpm * this.calculateProjectedMemberMonths()];
+  }
+
+  // Premium for a claims cost PMPM with the expense lines' retention: supplied loadings as given, the rest as shares of claims
+  private premiumForClaims(claimsPMPM: number): number {
+    const loadings = this.input.carrierSpecificParameters.expenseLoadings;
+    const claimsLoad = (load: 'administration' | 'commissions' | 'profitAndContingency' | 'other') =>
+      loadings[load] || claimsPMPM * this.expenseRate(load);
+    const administration = claimsLoad('administration');
+    const commissions = claimsLoad('commissions');
+    const premiumTax = loadings.premiumTax || (claimsPMPM + administration + commissions) * this.expenseRate('premiumTax');
+    return claimsPMPM + administration + commissions + premiumTax + claimsLoad('profitAndContingency') + claimsLoad('other');
+  }
+
+  // Expense loading share from the parameters, else the CIGNA standard
+  private expenseRate(load: keyof CignaExpenseRates): number {
+    return this.input.carrierSpecificParameters.expenseRates?.[load] ?? CIGNA_EXPENSE_RATES[load];
   }
 
   private getAdministrationExpense(): [number, number] {
@@ -356,11 +530,13 @@ export class CignaRenewalCalculator {
     // Use provided value if available, otherwise calculate as percentage of claims
     if (this.input.carrierSpecificParameters.expenseLoadings.administration) {
       const admin = this.input.carrierSpecificParameters.expenseLoadings.administration;
+      this.traceLine('Administration PMPM supplied in the parameters', [inputOperand('Administration PMPM', admin)]);
       return [admin, admin * projectedMemberMonths];
     }
     
     // Calculate as percentage of claims (typically 8-12% for administration)
-    const adminPercent = 0.10; // 10% default
+    const adminPercent = this.expenseRate('administration');
+    this.traceLine('Final Claims Cost × administration %', [this.lineRef('Final Claims Cost'), inputOperand('Administration %', adminPercent)]);
     const adminPMPM = Number(finalClaimsLine.pmpm) * adminPercent;
     return [adminPMPM, adminPMPM * projectedMemberMonths];
   }
@@ -373,11 +549,13 @@ export class CignaRenewalCalculator {
     // Use provided value if available, otherwise calculate as percentage of claims
     if (this.input.carrierSpecificParameters.expenseLoadings.commissions) {
       const commissions = this.input.carrierSpecificParameters.expenseLoadings.commissions;
+      this.traceLine('Commissions PMPM supplied in the parameters', [inputOperand('Commissions PMPM', commissions)]);
       return [commissions, commissions * projectedMemberMonths];
     }
     
     // Calculate as percentage of claims (typically 3-5% for commissions)
-    const commissionPercent = 0.04; // 4% default
+    const commissionPercent = this.expenseRate('commissions');
+    this.traceLine('Final Claims Cost × commission %', [this.lineRef('Final Claims Cost'), inputOperand('Commission %', commissionPercent)]);
     const commissionPMPM = Number(finalClaimsLine.pmpm) * commissionPercent;
     return [commissionPMPM, commissionPMPM * projectedMemberMonths];
   }
@@ -389,6 +567,7 @@ export class CignaRenewalCalculator {
     // Use provided value if available, otherwise calculate
     if (this.input.carrierSpecificParameters.expenseLoadings.premiumTax) {
       const tax = this.input.carrierSpecificParameters.expenseLoadings.premiumTax;
+      this.traceLine('Premium tax PMPM supplied in the parameters', [inputOperand('Premium tax PMPM', tax)]);
       return [tax, tax * projectedMemberMonths];
     }
     
@@ -398,9 +577,15 @@ export class CignaRenewalCalculator {
     const commissionLine = this.calculations.find(c => c.description === 'Commissions')!;
     
     const basePremium = Number(finalClaimsLine.pmpm) + Number(adminLine.pmpm) + Number(commissionLine.pmpm);
-    const taxPercent = 0.025; // 2.5% default premium tax
+    const taxPercent = this.expenseRate('premiumTax');
     const taxPMPM = basePremium * taxPercent;
     
+    this.traceLine('(Final Claims Cost + Administration Expense + Commissions) × premium tax %', [
+      this.lineRef('Final Claims Cost'),
+      this.lineRef('Administration Expense'),
+      this.lineRef('Commissions'),
+      inputOperand('Premium tax %', taxPercent)
+    ]);
     return [taxPMPM, taxPMPM * projectedMemberMonths];
   }
 
@@ -411,12 +596,14 @@ export class CignaRenewalCalculator {
     // Use provided value if available, otherwise calculate
     if (this.input.carrierSpecificParameters.expenseLoadings.profitAndContingency) {
       const profit = this.input.carrierSpecificParameters.expenseLoadings.profitAndContingency;
+      this.traceLine('Profit and contingency PMPM supplied in the parameters', [inputOperand('Profit and contingency PMPM', profit)]);
       return [profit, profit * projectedMemberMonths];
     }
     
     // Calculate as percentage of claims (typically 3-6% for profit margin)
     const finalClaimsLine = this.calculations.find(c => c.description === 'Final Claims Cost')!;
-    const profitPercent = 0.05; // 5% default profit margin
+    const profitPercent = this.expenseRate('profitAndContingency');
+    this.traceLine('Final Claims Cost × profit %', [this.lineRef('Final Claims Cost'), inputOperand('Profit %', profitPercent)]);
     const profitPMPM = Number(finalClaimsLine.pmpm) * profitPercent;
     return [profitPMPM, profitPMPM * projectedMemberMonths];
   }
@@ -428,12 +615,14 @@ export class CignaRenewalCalculator {
     // Use provided value if available, otherwise calculate
     if (this.input.carrierSpecificParameters.expenseLoadings.other) {
       const other = this.input.carrierSpecificParameters.expenseLoadings.other;
+      this.traceLine('Other expenses PMPM supplied in the parameters', [inputOperand('Other expenses PMPM', other)]);
       return [other, other * projectedMemberMonths];
     }
     
     // Calculate as small percentage for miscellaneous expenses
     const finalClaimsLine = this.calculations.find(c => c.description === 'Final Claims Cost')!;
-    const otherPercent = 0.02; // 2% default for other expenses
+    const otherPercent = this.expenseRate('other');
+    this.traceLine('Final Claims Cost × other expense %', [this.lineRef('Final Claims Cost'), inputOperand('Other expense %', otherPercent)]);
     const otherPMPM = Number(finalClaimsLine.pmpm) * otherPercent;
     return [otherPMPM, otherPMPM * projectedMemberMonths];
   }
@@ -446,6 +635,14 @@ export class CignaRenewalCalculator {
     const profitLine = this.calculations.find(c => c.description === 'Profit and Contingency')!;
     const otherLine = this.calculations.find(c => c.description === 'Other Expenses')!;
     
+    this.traceLine('Final Claims Cost + all expense lines', [
+      this.lineRef('Final Claims Cost'),
+      this.lineRef('Administration Expense'),
+      this.lineRef('Commissions'),
+      this.lineRef('Premium Tax'),
+      this.lineRef('Profit and Contingency'),
+      this.lineRef('Other Expenses')
+    ]);
     const pmpm = Number(finalClaimsLine.pmpm) + Number(adminLine.pmpm) + Number(commissionsLine.pmpm) + 
                  Number(taxLine.pmpm) + Number(profitLine.pmpm) + Number(otherLine.pmpm);
     
@@ -455,23 +652,22 @@ export class CignaRenewalCalculator {
     return [pmpm, annual];
   }
 
-  private getCurrentPremium(): [number, number] {
-    // Calculate current premium from experience data if not provided
-    let currentPMPM: number;
-    
+  private getCurrentPremiumPMPM(): number {
     if (this.input.carrierSpecificParameters.currentPremiumPMPM) {
-      currentPMPM = this.input.carrierSpecificParameters.currentPremiumPMPM;
-    } else {
-      // Calculate from experience data with estimated retention
-      const totalClaims = this.input.monthlyClaimsData.reduce((sum, month) => 
-        sum + (month.incurredClaims?.medical || 0) + (month.incurredClaims?.rx || 0), 0);
-      const totalMM = this.input.monthlyClaimsData.reduce((sum, month) => 
-        sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
-      
-      const experiencePMPM = totalClaims / totalMM;
-      currentPMPM = experiencePMPM * 1.22; // 22% retention estimate for CIGNA
+      return this.input.carrierSpecificParameters.currentPremiumPMPM;
     }
+
+    // Calculate from experience data with the assumption library's retention
+    return calculateCurrentPremiumFromExperience(this.input);
+  }
+
+  private getCurrentPremium(): [number, number] {
+    // Calculate current premium from experience data if not provided
+    const currentPMPM = this.getCurrentPremiumPMPM();
     
+    this.traceLine(this.input.carrierSpecificParameters.currentPremiumPMPM
+      ? 'Current premium supplied in the parameters'
+      : 'Experience PMPM with the retention load', [inputOperand('Current premium PMPM', currentPMPM)]);
     const projectedMemberMonths = this.calculateProjectedMemberMonths();
     return [currentPMPM, currentPMPM * projectedMemberMonths];
   }
@@ -480,6 +676,10 @@ export class CignaRenewalCalculator {
     const requiredLine = this.calculations.find(c => c.description === 'Total Required Premium')!;
     const currentLine = this.calculations.find(c => c.description === 'Current Premium')!;
     
+    this.traceLine('(Total Required Premium − Current Premium) ÷ Current Premium', [
+      this.lineRef('Total Required Premium'),
+      this.lineRef('Current Premium')
+    ]);
     const rateChange = (Number(requiredLine.pmpm) - Number(currentLine.pmpm)) / Number(currentLine.pmpm);
     const percentage = (rateChange * 100).toFixed(2) + '%';
     
@@ -495,6 +695,42 @@ export class CignaRenewalCalculator {
     };
   }
 
+  // Compares the premium with the corridor applied against the premium the blended claims cost alone would produce
+  private createCFCAnalysis(): CignaResult['cfcAnalysis'] {
+    const params = this.input.carrierSpecificParameters;
+    if (!params.claimsFluctuationCorridor.enabled) {
+      return undefined;
+    }
+
+    const linePMPM = (description: string) => Number(this.calculations.find(c => c.description === description)!.pmpm);
+    const blendedClaimsPMPM = linePMPM('Blended Claims Cost');
+    const finalClaimsPMPM = linePMPM('Final Claims Cost');
+    const { low, high } = this.getCorridorRange();
+    const adjustedPremium = this.getFinalPremium().pmpm;
+    const adjustmentApplied = finalClaimsPMPM !== blendedClaimsPMPM;
+
+    const originalPremium = adjustmentApplied ? this.premiumForClaims(blendedClaimsPMPM) : adjustedPremium;
+
+    if (adjustmentApplied) {
+      this.warnings.push(
+        `Claims fluctuation corridor held the claims cost at $${finalClaimsPMPM.toFixed(2)} PMPM ` +
+        `(blended $${blendedClaimsPMPM.toFixed(2)} PMPM, corridor $${low.toFixed(2)} to $${high.toFixed(2)})`
+      );
+    }
+
+    return {
+      originalPremium,
+      adjustedPremium,
+      adjustmentApplied,
+      adjustmentPercent: originalPremium ? adjustedPremium / originalPremium - 1 : 0,
+      priorClaimsBasisPMPM: linePMPM('Prior Year Claims Basis'),
+      corridorLowPMPM: low,
+      corridorHighPMPM: high,
+      blendedClaimsPMPM,
+      finalClaimsPMPM
+    };
+  }
+
   private getRateChange(): number {
     const requiredLine = this.calculations.find(c => c.description === 'Total Required Premium')!;
     const currentLine = this.calculations.find(c => c.description === 'Current Premium')!;
@@ -567,16 +803,11 @@ export function calculateCignaRenewal(input: UniversalInput): any {
   }
   
   // Calculate values from experience data instead of using hardcoded defaults
-  const totalMedical = input.monthlyClaimsData.reduce((sum, month) => 
-    sum + (month.incurredClaims?.medical || 0), 0);
-  const totalRx = input.monthlyClaimsData.reduce((sum, month) => 
-    sum + (month.incurredClaims?.rx || 0), 0);
   const totalMM = input.monthlyClaimsData.reduce((sum, month) => 
     sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
   
-  const experiencePMPM = (totalMedical + totalRx) / totalMM;
-  const calculatedManualPMPM = experiencePMPM * 1.20; // 20% above experience for CIGNA manual rates
-  const calculatedCurrentPremium = experiencePMPM * 1.22; // 22% retention estimate for CIGNA
+  const calculatedManualRates = calculateManualRatesFromExperience(input);
+  const calculatedCurrentPremium = calculateCurrentPremiumFromExperience(input);
   
   // Calculate projected member months (typically 12 months forward)
   const avgMembersPerMonth = totalMM / input.monthlyClaimsData.length;
@@ -596,9 +827,9 @@ export function calculateCignaRenewal(input: UniversalInput): any {
         annual: 0 // Will be calculated from experience data
       },
       manualRates: {
-        medical: calculatedManualPMPM * 0.75, // Derived split
-        pharmacy: calculatedManualPMPM * 0.25, // Derived split
-        total: calculatedManualPMPM
+        medical: calculatedManualRates.medical,
+        pharmacy: calculatedManualRates.rx,
+        total: calculatedManualRates.total
       },
       experienceWeight: 0.80, // 80% experience, 20% manual (CIGNA standard)
       claimsFluctuationCorridor: {
@@ -0,0 +1,157 @@
+import { CarrierPlugin } from '../registry';
+import { numberParameter } from '../parameterSchema';
+import {
+  calculateCurrentPremiumFromExperience,
+  calculateManualRatesFromExperience,
+  estimationClaimsData
+} from '../../../utils/experienceEstimates';
+import { CignaInput, CIGNA_EXPENSE_RATES } from '../../../types/cigna';
+import { CignaRenewalCalculator } from './CignaCalculator';
+import CignaTemplate from './CignaTemplate';
+
+const CIGNA_DEFAULTS = {
+  poolingLevel: 50000,
+  demographicAdjustment: 1,
+  trendFactor: 1.085,
+  trendMonths: 12,
+  experienceWeight: 0.80,
+  corridorLowerBound: 0.85,
+  corridorUpperBound: 1.15,
+  administrationRate: CIGNA_EXPENSE_RATES.administration,
+  commissionRate: CIGNA_EXPENSE_RATES.commissions,
+  premiumTaxRate: CIGNA_EXPENSE_RATES.premiumTax,
+  profitRate: CIGNA_EXPENSE_RATES.profitAndContingency,
+  otherExpenseRate: CIGNA_EXPENSE_RATES.other,
+};
+
+export const cignaPlugin: CarrierPlugin<CignaInput> = {
+  id: 'CIGNA',
+  label: 'Cigna',
+  calculator: CignaRenewalCalculator,
+  template: CignaTemplate,
+  defaultParameters: { ...CIGNA_DEFAULTS },
+  parameterSchema: [
+    { key: 'poolingLevel', label: 'Pooling Level', unit: 'currency', min: 10000, max: 2000000, aliases: ['poolingThreshold'], sensitivity: 'pooling', assumption: { value: 'poolingLevel', line: 'medical' } },
+    { key: 'demographicAdjustment', label: 'Demographic Adjustment', unit: 'factor', min: 0.5, max: 2, demographic: 'change' },
+    { key: 'trendFactor', label: 'Trend Factor (annual)', unit: 'factor', min: 0.8, max: 1.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'medical' } },
+    { key: 'trendMonths', label: 'Trend Midpoint Months', unit: 'months', min: 0, max: 60, trendMonths: 'current' },
+    { key: 'experienceWeight', label: 'Experience Weight', unit: 'rate', min: 0, max: 1, sensitivity: 'experienceWeight' },
+    { key: 'corridorLowerBound', label: 'Fluctuation Corridor Lower Bound', unit: 'factor', min: 0.5, max: 1 },
+    { key: 'corridorUpperBound', label: 'Fluctuation Corridor Upper Bound', unit: 'factor', min: 1, max: 2 },
+    { key: 'administrationRate', label: 'Administration', unit: 'rate', min: 0, max: 0.3, description: 'Share of the final claims cost', sensitivity: 'retention' },
+    { key: 'commissionRate', label: 'Commissions', unit: 'rate', min: 0, max: 0.2, description: 'Share of the final claims cost', sensitivity: 'retention' },
+    { key: 'premiumTaxRate', label: 'Premium Tax', unit: 'rate', min: 0, max: 0.1, description: 'Share of claims, administration and commissions', sensitivity: 'retention' },
+    { key: 'profitRate', label: 'Profit and Contingency', unit: 'rate', min: 0, max: 0.2, description: 'Share of the final claims cost', sensitivity: 'retention' },
+    { key: 'otherExpenseRate', label: 'Other Expenses', unit: 'rate', min: 0, max: 0.1, description: 'Share of the final claims cost', sensitivity: 'retention' },
+    { key: 'currentPremiumPMPM', label: 'Current Premium PMPM', unit: 'currency', min: 0, max: 10000, description: 'Estimated from experience when blank' },
+    { key: 'priorClaimsBasisPMPM', label: 'Prior Year Claims Basis PMPM', unit: 'currency', min: 0, max: 10000, description: 'Claims cost in the current rates; current premium less the estimated retention when blank' },
+  ],
+
+  adaptInput: (input, params) => {
+    // Calculate values from experience data instead of using hardcoded defaults
+    const totalMMCigna = estimationClaimsData(input).reduce((sum, month) =>
+      sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+
+    const calculatedManualRatesCigna = calculateManualRatesFromExperience(input);
+    const calculatedCurrentPremiumCigna = Number(params?.currentPremiumPMPM) || calculateCurrentPremiumFromExperience(input);
+
+    // Calculate projected member months (typically 12 months forward)
+    const avgMembersPerMonthCigna = totalMMCigna / input.monthlyClaimsData.length;
+    const projectedMemberMonthsCigna = avgMembersPerMonthCigna * 12;
+
+    return {
+      ...input,
+      carrierSpecificParameters: {
+        experiencePeriodRule: params?.experiencePeriodRule,
+        poolingSplit: params?.poolingSplit,
+        credibilitySettings: params?.credibilitySettings,
+        ibnr: params?.ibnr,
+        poolingLevel: numberParameter(params, CIGNA_DEFAULTS, 'poolingLevel'),
+        demographicAdjustment: numberParameter(params, CIGNA_DEFAULTS, 'demographicAdjustment'),
+        trendFactor: {
+          annual: numberParameter(params, CIGNA_DEFAULTS, 'trendFactor'),
+          midpointMonths: numberParameter(params, CIGNA_DEFAULTS, 'trendMonths')
+        },
+        largeClaimAddBack: {
+          pmpm: 0, // Will be calculated from experience data
+          annual: 0 // Will be calculated from experience data
+        },
+        manualRates: {
+          medical: calculatedManualRatesCigna.medical,
+          pharmacy: calculatedManualRatesCigna.rx,
+          total: calculatedManualRatesCigna.total
+        },
+        experienceWeight: numberParameter(params, CIGNA_DEFAULTS, 'experienceWeight'),
+        claimsFluctuationCorridor: {
+          enabled: true,
+          lowerBound: numberParameter(params, CIGNA_DEFAULTS, 'corridorLowerBound'),
+          upperBound: numberParameter(params, CIGNA_DEFAULTS, 'corridorUpperBound')
+        },
+        expenseLoadings: {
+          administration: 0, // Will be calculated as % of claims
+          commissions: 0, // Will be calculated as % of claims
+          premiumTax: 0, // Will be calculated as % of premium
+          profitAndContingency: 0, // Will be calculated as % of claims
+          other: 0 // Will be calculated as % of claims
+        },
+        expenseRates: {
+          administration: numberParameter(params, CIGNA_DEFAULTS, 'administrationRate'),
+          commissions: numberParameter(params, CIGNA_DEFAULTS, 'commissionRate'),
+          premiumTax: numberParameter(params, CIGNA_DEFAULTS, 'premiumTaxRate'),
+          profitAndContingency: numberParameter(params, CIGNA_DEFAULTS, 'profitRate'),
+          other: numberParameter(params, CIGNA_DEFAULTS, 'otherExpenseRate')
+        },
+        currentPremiumPMPM: calculatedCurrentPremiumCigna,
+        priorClaimsBasisPMPM: Number(params?.priorClaimsBasisPMPM) || undefined,
+        projectedMemberMonths: projectedMemberMonthsCigna
+      }
+    };
+  },
+
+  calculate: async (cignaInput) => {
+    const cignaCalculator = new CignaRenewalCalculator(cignaInput);
+    const cignaResult = cignaCalculator.calculate();
+
+    // Convert to legacy CalculationResult format but store the native result in detailedResults
+    return {
+      carrier: cignaResult.carrier,
+      currentPremiumPMPM: cignaInput.carrierSpecificParameters.currentPremiumPMPM || 0,
+      projectedPremiumPMPM: cignaResult.finalPremium.pmpm,
+      requiredRateChange: cignaResult.rateChange,
+      proposedRateChange: cignaResult.rateChange,
+      calculationSteps: [
+        { label: 'Final Premium PMPM', value: cignaResult.finalPremium.pmpm },
+        { label: 'Rate Change %', value: cignaResult.rateChange * 100 }
+      ],
+      warnings: (cignaResult.warnings || []).map((w: any) => ({ message: typeof w === 'string' ? w : w.message })),
+      trace: cignaResult.trace,
+      poolingExhibit: cignaResult.poolingExhibit,
+      largeClaimAdjustment: cignaResult.largeClaimAdjustment,
+      credibility: cignaResult.credibility,
+      // Store the native result for template access
+      detailedResults: {
+        cigna: cignaResult as any
+      }
+    };
+  },
+
+  selectTemplateResult: (result) =>
+    result.carrier === 'CIGNA' && result.detailedResults?.cigna ? result.detailedResults.cigna : null,
+
+  // CIGNA pools claims over $50,000 and adds back a share of them instead of a pooling charge
+  summarizeResult: (result) => {
+    const cigna = result.detailedResults?.cigna;
+    const line = (description: string) => {
+      const pmpm = cigna?.calculations.find((c: any) => c.description === description)?.pmpm;
+      return typeof pmpm === 'number' ? pmpm : null;
+    };
+    // The experience weight line is displayed as a percentage, e.g. "80.0%"
+    const experienceWeight = parseFloat(cigna?.calculations.find((c: any) => c.description === 'Experience Weight')?.pmpm);
+    return {
+      pooledClaimsPMPM: line('Less Pooled Claims over $50,000 PMPM'),
+      poolingChargePMPM: line('Large Claim Add Back'),
+      credibility: isNaN(experienceWeight) ? null : experienceWeight / 100,
+      projectedClaimsPMPM: line('Final Claims Cost')
+    };
+  }
+};
@@ -56,6 +56,7 @@ const CignaTemplate: React.FC<CignaTemplateProps> = ({ result }) => {
           {result.calculations.map((calc, index) => {
             const isHeader = ['Experience Weight', 'Manual Weight', 'Claims Fluctuation Corridor'].includes(calc.description);
             const isSubtotal = ['Experience Claim Cost', 'Total Projected Claims', 'Blended Claims Cost', 'Final Claims Cost', 'Total Required Premium'].includes(calc.description);
+            const isCorridorAdjusted = calc.description === 'Final Claims Cost' && !!result.cfcAnalysis?.adjustmentApplied;
             const isRateChange = calc.description === 'Required Rate Change';
             
             return (
@@ -70,6 +71,7 @@ const CignaTemplate: React.FC<CignaTemplateProps> = ({ result }) => {
               >
                 <td className="border border-gray-300 px-4 py-2 text-sm">
                   {calc.description}
+                  {isCorridorAdjusted && <span className="ml-2 text-xs text-orange-700">(held by corridor)</span>}
                 </td>
                 <td className="border border-gray-300 px-4 py-2 text-right text-sm font-mono">
                   {getValueFormat(calc.pmpm)}
@@ -328,11 +330,23 @@ const CignaTemplate: React.FC<CignaTemplateProps> = ({ result }) => {
       {result.cfcAnalysis && (
         <div className="mt-4 p-3 bg-orange-50 rounded">
           <h4 className="font-semibold text-orange-800 mb-2">Claims Fluctuation Corridor Analysis</h4>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-2">
+            <span className="text-gray-600">Prior Year Claims Basis:</span>
+            <span className="font-mono text-right">{formatCurrency(result.cfcAnalysis.priorClaimsBasisPMPM)}</span>
+            <span className="text-gray-600">Corridor:</span>
+            <span className="font-mono text-right">
+              {formatCurrency(result.cfcAnalysis.corridorLowPMPM)} to {formatCurrency(result.cfcAnalysis.corridorHighPMPM)}
+            </span>
+            <span className="text-gray-600">Blended Claims Cost:</span>
+            <span className="font-mono text-right">{formatCurrency(result.cfcAnalysis.blendedClaimsPMPM)}</span>
+            <span className="text-gray-600">Final Claims Cost:</span>
+            <span className="font-mono text-right">{formatCurrency(result.cfcAnalysis.finalClaimsPMPM)}</span>
+          </div>
           <div className="text-sm text-gray-700">
             {result.cfcAnalysis.adjustmentApplied ? (
               <p>
                 CFC adjustment applied: {formatPercentage(result.cfcAnalysis.adjustmentPercent)}
-                (Premium adjusted from {formatCurrency(result.cfcAnalysis.originalPremium)} to {formatCurrency(result.cfcAnalysis.adjustedPremium)})
+                {' '}(Premium adjusted from {formatCurrency(result.cfcAnalysis.originalPremium)} to {formatCurrency(result.cfcAnalysis.adjustedPremium)})
               </p>
             ) : (
               <p>No CFC adjustment needed - premium within acceptable range</p>
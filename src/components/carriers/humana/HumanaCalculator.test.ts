@@ -0,0 +1,120 @@
+import { HumanaRenewalCalculator } from './HumanaCalculator';
+import { HumanaInput, HumanaParameters, HUMANA_CALCULATION_LINES } from '../../../types/humana';
+import { IMonthlyClaimsData, LargeClaimant } from '../../../types/common';
+import { dispatchCarrierCalculation } from '../../../utils/carrierDispatcher';
+
+describe('HumanaRenewalCalculator', () => {
+  // Flat $400 medical / $100 Rx PMPM on 1,000 members per month
+  const createTestClaimsData = (months: number): IMonthlyClaimsData[] => {
+    const data: IMonthlyClaimsData[] = [];
+    for (let i = 0; i < months; i++) {
+      const date = new Date(2024, 11 - i, 1);
+      data.push({
+        month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+        memberMonths: { medical: 1000, rx: 1000, total: 1000 },
+        incurredClaims: { medical: 400000, rx: 100000 }
+      });
+    }
+    return data.reverse();
+  };
+
+  const createTestParameters = (overrides: Partial<HumanaParameters> = {}): HumanaParameters => ({
+    poolingLevel: 150000,
+    poolingChargePercent: 0,
+    benefitAdjustment: 1,
+    demographicAdjustment: 1,
+    trendRates: { medical: 0, rx: 0 },
+    trendMonths: { current: 18, prior: 30 },
+    experienceWeights: { current: 0.65, prior: 0.35 },
+    credibility: { fullCredibilityMemberMonths: 12000, minimumCredibility: 0 },
+    manualClaimsPMPM: { medical: 400, rx: 100 },
+    retentionComponents: { administrative: 10, commission: 5, premiumTax: 3, riskMargin: 2 },
+    currentPremiumPMPM: 600,
+    ...overrides
+  });
+
+  const createTestInput = (
+    months: number = 12,
+    overrides: Partial<HumanaParameters> = {},
+    largeClaimants: LargeClaimant[] = []
+  ): HumanaInput => ({
+    carrier: 'HUMANA',
+    caseId: 'humana-test',
+    effectiveDates: {
+      renewalStart: new Date('2025-01-01'),
+      renewalEnd: new Date('2025-12-31')
+    },
+    monthlyClaimsData: createTestClaimsData(months),
+    largeClaimantsData: largeClaimants,
+    manualRates: { medical: 400, rx: 100 },
+    carrierSpecificParameters: createTestParameters(overrides)
+  });
+
+  const getLine = (result: ReturnType<HumanaRenewalCalculator['calculate']>, line: string) =>
+    result.calculations.find(c => c.line === line)!;
+
+  test('produces every exhibit line', () => {
+    const result = new HumanaRenewalCalculator(createTestInput()).calculate();
+    expect(result.carrier).toBe('HUMANA');
+    expect(result.calculations.map(c => c.line)).toEqual(HUMANA_CALCULATION_LINES.map(l => l.line));
+  });
+
+  test('grosses blended claims up for retention and compares to current premium', () => {
+    const result = new HumanaRenewalCalculator(createTestInput()).calculate();
+
+    // $500 claims at 20% retention = $625 required vs $600 current
+    expect(getLine(result, '15').current.total).toBeCloseTo(500, 6);
+    expect(result.requiredPremium.total).toBeCloseTo(625, 6);
+    expect(result.rateChange).toBeCloseTo(625 / 600 - 1, 6);
+  });
+
+  test('removes claimant excess over the pooling level and splits it by medical/Rx mix', () => {
+    const claimant: LargeClaimant = {
+      claimantId: 'LC001',
+      incurredDate: new Date('2024-06-15'),
+      totalAmount: 250000,
+      medicalAmount: 200000,
+      rxAmount: 50000
+    };
+    const result = new HumanaRenewalCalculator(createTestInput(12, {}, [claimant])).calculate();
+    const line4 = getLine(result, '4');
+
+    // $100,000 excess over 12,000 member months, 80% medical / 20% Rx
+    expect(line4.current.medical).toBeCloseTo(80000 / 12000, 6);
+    expect(line4.current.rx).toBeCloseTo(20000 / 12000, 6);
+  });
+
+  test('applies credibility using sqrt of experience member months', () => {
+    const result = new HumanaRenewalCalculator(
+      createTestInput(12, { credibility: { fullCredibilityMemberMonths: 48000, minimumCredibility: 0 } })
+    ).calculate();
+    expect(result.summary.credibilityFactor).toBeCloseTo(0.5, 6);
+  });
+
+  test('weights current and prior periods when two years of data are available', () => {
+    const result = new HumanaRenewalCalculator(
+      createTestInput(24, { trendRates: { medical: 0.1, rx: 0.1 } })
+    ).calculate();
+    const line11 = getLine(result, '11');
+    const line12 = getLine(result, '12');
+
+    expect(result.periods.prior).not.toBeNull();
+    expect(line12.current.total).toBeCloseTo(
+      line11.current.total * 0.65 + line11.prior!.total * 0.35, 6
+    );
+  });
+
+  test('rejects retention of 100% or more', () => {
+    const input = createTestInput(12, {
+      retentionComponents: { administrative: 60, commission: 40, premiumTax: 0, riskMargin: 0 }
+    });
+    expect(() => new HumanaRenewalCalculator(input).calculate()).toThrow();
+  });
+
+  test('is reachable through dispatchCarrierCalculation', async () => {
+    const result = await dispatchCarrierCalculation({ ...createTestInput(), carrierSpecificParameters: {} });
+    expect(result.carrier).toBe('HUMANA');
+    expect(result.detailedResults?.humana).toBeDefined();
+    expect(result.projectedPremiumPMPM).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,645 @@
+import {
+  HumanaInput,
+  HumanaResult,
+  HumanaCalculationLine,
+  HUMANA_CALCULATION_LINES,
+  HUMANA_EXPERIENCE_PERIOD_RULE,
+  HUMANA_POOLING_SPLIT
+} from '../../../types/humana';
+import {
+  determineExperiencePeriods,
+  getMemberMonthsForPeriod,
+  getClaimsForPeriod,
+  validateDataQuality
+} from '../../../utils/periodHandling';
+import { completeClaimsData, summarizeIBNR } from '../../../utils/ibnr';
+import { buildPooledClaimsExhibit, pooledClaimsFor } from '../../../pooling';
+import { calculateCredibility, credibilityExposure, describeCredibility } from '../../../credibility';
+import {
+  buildCalculationTrace,
+  credibilityOperands,
+  inputOperand,
+  largeClaimantSource,
+  lineOperand,
+  periodSource
+} from '../../../utils/calculationTrace';
+import { CredibilityResult, ExperiencePeriods, PooledClaimsExhibit, TraceOperand } from '../../../types/common';
+
+export class HumanaRenewalCalculator {
+  private input: HumanaInput;
+  private periods: ExperiencePeriods;
+  private calculations: HumanaCalculationLine[] = [];
+  private warnings: string[] = [];
+  private poolingExhibit: PooledClaimsExhibit;
+  private credibility?: CredibilityResult; // Set by Line 13
+
+  constructor(input: HumanaInput) {
+    // Complete immature months with IBNR before the experience periods are split (opt-in)
+    const completion = completeClaimsData(input.monthlyClaimsData, input.carrierSpecificParameters.ibnr);
+    this.input = { ...input, monthlyClaimsData: completion.claimsData };
+    if (completion.estimate) {
+      this.warnings.push(summarizeIBNR(completion.estimate));
+    }
+    this.periods = determineExperiencePeriods(
+      this.input.monthlyClaimsData,
+      input.effectiveDates.renewalStart,
+      input.carrierSpecificParameters.experiencePeriodRule ?? HUMANA_EXPERIENCE_PERIOD_RULE
+    );
+    this.poolingExhibit = buildPooledClaimsExhibit(this.input.largeClaimantsData || [], this.periods, {
+      poolingLevel: input.carrierSpecificParameters.poolingLevel,
+      split: input.carrierSpecificParameters.poolingSplit ?? HUMANA_POOLING_SPLIT
+    });
+  }
+
+  public calculate(): HumanaResult {
+    // Validate input and data quality
+    this.validateInput();
+
+    // Initialize all calculation lines 1 through 19
+    this.initializeCalculations();
+
+    // Execute the complete Humana calculation flow
+    this.executeCalculationFlow();
+
+    // Build and return the result
+    return this.buildResult();
+  }
+
+  private validateInput(): void {
+    const params = this.input.carrierSpecificParameters;
+
+    if (!params.experienceWeights) {
+      throw new Error('Humana requires experience period weights (current/prior)');
+    }
+
+    if (!params.credibility || params.credibility.fullCredibilityMemberMonths <= 0) {
+      throw new Error('Humana requires a positive full credibility member month standard');
+    }
+
+    if (!params.currentPremiumPMPM || params.currentPremiumPMPM <= 0) {
+      throw new Error('Humana requires current premium PMPM for rate change calculation');
+    }
+
+    const totalRetention = this.getTotalRetentionPercent();
+    if (totalRetention >= 100) {
+      throw new Error('Humana total retention must be less than 100% of premium');
+    }
+
+    if (Math.abs(params.experienceWeights.current + params.experienceWeights.prior - 1) > 0.001) {
+      this.warnings.push('Humana experience period weights do not sum to 100%');
+    }
+
+    // Validate data quality using proper function signature
+    const dataQuality = validateDataQuality(
+      this.input.monthlyClaimsData,
+      this.input.largeClaimantsData || [],
+      this.periods
+    );
+    if (!dataQuality.valid) {
+      this.warnings.push(...(dataQuality.warnings || []));
+    }
+  }
+
+  private initializeCalculations(): void {
+    this.calculations = HUMANA_CALCULATION_LINES.map(line => ({
+      line: line.line,
+      description: line.description,
+      current: { medical: 0, rx: 0, total: 0 },
+      prior: this.periods.prior ? { medical: 0, rx: 0, total: 0 } : null
+    }));
+  }
+
+  private executeCalculationFlow(): void {
+    // EXPERIENCE CLAIMS SECTION (Lines 1-7)
+    this.calculateLine1_IncurredMedicalClaimsPMPM();
+    this.calculateLine2_IncurredRxClaimsPMPM();
+    this.calculateLine3_TotalIncurredClaims();
+    this.calculateLine4_ClaimsOverPoolingLevel();
+    this.calculateLine5_NetClaims();
+    this.calculateLine6_PoolingCharge();
+    this.calculateLine7_PooledClaims();
+
+    // PROJECTION SECTION (Lines 8-12)
+    this.calculateLine8_BenefitAdjustment();
+    this.calculateLine9_DemographicAdjustment();
+    this.calculateLine10_TrendFactor();
+    this.calculateLine11_ProjectedClaims();
+    this.calculateLine12_ExperiencePeriodWeighting();
+
+    // CREDIBILITY SECTION (Lines 13-15)
+    this.calculateLine13_ExperienceCredibility();
+    this.calculateLine14_ManualClaims();
+    this.calculateLine15_BlendedClaims();
+
+    // PREMIUM SECTION (Lines 16-19)
+    this.calculateLine16_TotalRetention();
+    this.calculateLine17_RequiredPremium();
+    this.calculateLine18_CurrentPremium();
+    this.calculateLine19_RequiredRateChange();
+  }
+
+  // EXPERIENCE CLAIMS SECTION (Lines 1-7)
+
+  private calculateLine1_IncurredMedicalClaimsPMPM(): void {
+    const line1 = this.getCalculationLine('1');
+
+    const currentClaims = getClaimsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+    const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+
+    line1.current.medical = currentClaims.medical / currentMM;
+    line1.current.rx = 0; // Medical only for Line 1
+    line1.current.total = line1.current.medical;
+
+    if (this.periods.prior && line1.prior) {
+      const priorClaims = getClaimsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
+      const priorMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
+
+      line1.prior.medical = priorClaims.medical / priorMM;
+      line1.prior.rx = 0;
+      line1.prior.total = line1.prior.medical;
+    }
+
+    this.setTrace('1', 'Current medical claims ÷ current member months', [
+      inputOperand('Medical claims', currentClaims.medical),
+      inputOperand('Member months', currentMM)
+    ], this.periodSources());
+  }
+
+  private calculateLine2_IncurredRxClaimsPMPM(): void {
+    const line2 = this.getCalculationLine('2');
+
+    const currentClaims = getClaimsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+    const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+
+    line2.current.medical = 0; // Rx only for Line 2
+    line2.current.rx = currentClaims.rx / currentMM;
+    line2.current.total = line2.current.rx;
+
+    if (this.periods.prior && line2.prior) {
+      const priorClaims = getClaimsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
+      const priorMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
+
+      line2.prior.medical = 0;
+      line2.prior.rx = priorClaims.rx / priorMM;
+      line2.prior.total = line2.prior.rx;
+    }
+
+    this.setTrace('2', 'Current Rx claims ÷ current member months', [
+      inputOperand('Rx claims', currentClaims.rx),
+      inputOperand('Member months', currentMM)
+    ], this.periodSources());
+  }
+
+  private calculateLine3_TotalIncurredClaims(): void {
+    const line1 = this.getCalculationLine('1');
+    const line2 = this.getCalculationLine('2');
+    const line3 = this.getCalculationLine('3');
+
+    // Line 3 = Line 1 + Line 2
+    line3.current.medical = line1.current.medical;
+    line3.current.rx = line2.current.rx;
+    line3.current.total = line3.current.medical + line3.current.rx;
+
+    if (line1.prior && line2.prior && line3.prior) {
+      line3.prior.medical = line1.prior.medical;
+      line3.prior.rx = line2.prior.rx;
+      line3.prior.total = line3.prior.medical + line3.prior.rx;
+    }
+
+    this.setTrace('3', 'Line 1 + Line 2', [
+      lineOperand('1', line1.current.total),
+      lineOperand('2', line2.current.total)
+    ]);
+  }
+
+  private calculateLine4_ClaimsOverPoolingLevel(): void {
+    const line4 = this.getCalculationLine('4');
+    const params = this.input.carrierSpecificParameters;
+
+    const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+    const currentPooled = pooledClaimsFor(this.poolingExhibit, 'current');
+
+    line4.current.medical = currentPooled.medical / currentMM;
+    line4.current.rx = currentPooled.rx / currentMM;
+    line4.current.total = line4.current.medical + line4.current.rx;
+
+    if (this.periods.prior && line4.prior) {
+      const priorMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
+      const priorPooled = pooledClaimsFor(this.poolingExhibit, 'prior');
+
+      line4.prior.medical = priorPooled.medical / priorMM;
+      line4.prior.rx = priorPooled.rx / priorMM;
+      line4.prior.total = line4.prior.medical + line4.prior.rx;
+    }
+
+    line4.calculation = `Excess of each claimant over $${params.poolingLevel.toLocaleString()} ÷ member months`;
+
+    this.setTrace('4', 'Excess of each claimant over the pooling level ÷ current member months', [
+      inputOperand('Pooling level', params.poolingLevel),
+      inputOperand('Pooled claims', currentPooled.total),
+      inputOperand('Member months', currentMM)
+    ], [largeClaimantSource(this.poolingExhibit, this.periods.current)]);
+  }
+
+  private calculateLine5_NetClaims(): void {
+    const line3 = this.getCalculationLine('3');
+    const line4 = this.getCalculationLine('4');
+    const line5 = this.getCalculationLine('5');
+
+    // Line 5 = Line 3 - Line 4
+    line5.current.medical = line3.current.medical - line4.current.medical;
+    line5.current.rx = line3.current.rx - line4.current.rx;
+    line5.current.total = line5.current.medical + line5.current.rx;
+
+    if (line3.prior && line4.prior && line5.prior) {
+      line5.prior.medical = line3.prior.medical - line4.prior.medical;
+      line5.prior.rx = line3.prior.rx - line4.prior.rx;
+      line5.prior.total = line5.prior.medical + line5.prior.rx;
+    }
+
+    this.setTrace('5', 'Line 3 − Line 4', [
+      lineOperand('3', line3.current.total),
+      lineOperand('4', line4.current.total)
+    ]);
+  }
+
+  private calculateLine6_PoolingCharge(): void {
+    const line5 = this.getCalculationLine('5');
+    const line6 = this.getCalculationLine('6');
+    const params = this.input.carrierSpecificParameters;
+
+    // Pooling charge is a percentage load on net claims
+    const chargePct = params.poolingChargePercent / 100;
+
+    line6.current.medical = line5.current.medical * chargePct;
+    line6.current.rx = line5.current.rx * chargePct;
+    line6.current.total = line6.current.medical + line6.current.rx;
+
+    if (line5.prior && line6.prior) {
+      line6.prior.medical = line5.prior.medical * chargePct;
+      line6.prior.rx = line5.prior.rx * chargePct;
+      line6.prior.total = line6.prior.medical + line6.prior.rx;
+    }
+
+    line6.calculation = `Line 5 × ${params.poolingChargePercent.toFixed(2)}%`;
+
+    this.setTrace('6', 'Line 5 × pooling charge % ÷ 100', [
+      lineOperand('5', line5.current.total),
+      inputOperand('Pooling charge %', params.poolingChargePercent)
+    ]);
+  }
+
+  private calculateLine7_PooledClaims(): void {
+    const line5 = this.getCalculationLine('5');
+    const line6 = this.getCalculationLine('6');
+    const line7 = this.getCalculationLine('7');
+
+    // Line 7 = Line 5 + Line 6
+    line7.current.medical = line5.current.medical + line6.current.medical;
+    line7.current.rx = line5.current.rx + line6.current.rx;
+    line7.current.total = line7.current.medical + line7.current.rx;
+
+    if (line5.prior && line6.prior && line7.prior) {
+      line7.prior.medical = line5.prior.medical + line6.prior.medical;
+      line7.prior.rx = line5.prior.rx + line6.prior.rx;
+      line7.prior.total = line7.prior.medical + line7.prior.rx;
+    }
+
+    this.setTrace('7', 'Line 5 + Line 6', [
+      lineOperand('5', line5.current.total),
+      lineOperand('6', line6.current.total)
+    ]);
+  }
+
+  // PROJECTION SECTION (Lines 8-12)
+
+  private calculateLine8_BenefitAdjustment(): void {
+    this.setFactorLine('8', 'Benefit adjustment', this.input.carrierSpecificParameters.benefitAdjustment);
+  }
+
+  private calculateLine9_DemographicAdjustment(): void {
+    this.setFactorLine('9', 'Demographic adjustment', this.input.carrierSpecificParameters.demographicAdjustment);
+  }
+
+  private calculateLine10_TrendFactor(): void {
+    const line10 = this.getCalculationLine('10');
+    const params = this.input.carrierSpecificParameters;
+
+    line10.current.medical = Math.pow(1 + params.trendRates.medical, params.trendMonths.current / 12);
+    line10.current.rx = Math.pow(1 + params.trendRates.rx, params.trendMonths.current / 12);
+    line10.current.total = line10.current.medical; // Factor line - total shows medical factor
+
+    if (line10.prior) {
+      line10.prior.medical = Math.pow(1 + params.trendRates.medical, params.trendMonths.prior / 12);
+      line10.prior.rx = Math.pow(1 + params.trendRates.rx, params.trendMonths.prior / 12);
+      line10.prior.total = line10.prior.medical;
+    }
+
+    line10.calculation = `(1 + annual trend) ^ (months / 12); current ${params.trendMonths.current} mos, prior ${params.trendMonths.prior} mos`;
+
+    this.setTrace('10', '(1 + medical trend)^(current months ÷ 12)', [
+      inputOperand('Medical trend', params.trendRates.medical),
+      inputOperand('Rx trend', params.trendRates.rx),
+      inputOperand('Current trend months', params.trendMonths.current)
+    ]);
+  }
+
+  private calculateLine11_ProjectedClaims(): void {
+    const line7 = this.getCalculationLine('7');
+    const line8 = this.getCalculationLine('8');
+    const line9 = this.getCalculationLine('9');
+    const line10 = this.getCalculationLine('10');
+    const line11 = this.getCalculationLine('11');
+
+    // Line 11 = Line 7 × Line 8 × Line 9 × Line 10
+    const adjustment = line8.current.total * line9.current.total;
+    line11.current.medical = line7.current.medical * adjustment * line10.current.medical;
+    line11.current.rx = line7.current.rx * adjustment * line10.current.rx;
+    line11.current.total = line11.current.medical + line11.current.rx;
+
+    if (line7.prior && line10.prior && line11.prior) {
+      line11.prior.medical = line7.prior.medical * adjustment * line10.prior.medical;
+      line11.prior.rx = line7.prior.rx * adjustment * line10.prior.rx;
+      line11.prior.total = line11.prior.medical + line11.prior.rx;
+    }
+
+    this.setTrace('11', 'Line 7 × Line 8 × Line 9 × Line 10 (medical and Rx trended separately)', [
+      lineOperand('7', line7.current.total),
+      lineOperand('8', line8.current.total),
+      lineOperand('9', line9.current.total),
+      lineOperand('10', line10.current.total)
+    ]);
+  }
+
+  private calculateLine12_ExperiencePeriodWeighting(): void {
+    const line11 = this.getCalculationLine('11');
+    const line12 = this.getCalculationLine('12');
+    const { current: currentWeight, prior: priorWeight } = this.input.carrierSpecificParameters.experienceWeights;
+
+    if (line11.prior) {
+      line12.current.medical = (line11.current.medical * currentWeight) + (line11.prior.medical * priorWeight);
+      line12.current.rx = (line11.current.rx * currentWeight) + (line11.prior.rx * priorWeight);
+      line12.current.total = line12.current.medical + line12.current.rx;
+      line12.calculation = `${(currentWeight * 100).toFixed(0)}% current + ${(priorWeight * 100).toFixed(0)}% prior`;
+    } else {
+      // Single period - use 100% current
+      line12.current.medical = line11.current.medical;
+      line12.current.rx = line11.current.rx;
+      line12.current.total = line11.current.total;
+      line12.notes = 'Single experience period - 100% current';
+    }
+
+    // Line 12 has no prior column (it's the weighted result)
+    line12.prior = null;
+
+    this.setTrace('12', line11.prior ? 'Line 11 current × current weight + Line 11 prior × prior weight' : 'Line 11 (single experience period)', [
+      lineOperand('11', line11.current.total, 'Line 11 current'),
+      ...(line11.prior ? [
+        lineOperand('11', line11.prior.total, 'Line 11 prior'),
+        inputOperand('Current weight', currentWeight),
+        inputOperand('Prior weight', priorWeight)
+      ] : [])
+    ]);
+  }
+
+  // CREDIBILITY SECTION (Lines 13-15)
+
+  private calculateLine13_ExperienceCredibility(): void {
+    const line13 = this.getCalculationLine('13');
+    const { credibility: standard, credibilitySettings } = this.input.carrierSpecificParameters;
+
+    // Square root to the full credibility standard, floored at the minimum, unless other settings replace it
+    this.credibility = calculateCredibility(
+      credibilityExposure(this.input, this.getTotalExperienceMemberMonths()),
+      credibilitySettings ?? { method: 'limitedFluctuation', ...standard }
+    );
+    const credibility = this.credibility.credibility;
+
+    line13.current.medical = credibility;
+    line13.current.rx = credibility;
+    line13.current.total = credibility;
+    line13.prior = null;
+
+    line13.calculation = describeCredibility(this.credibility);
+
+    this.setTrace('13', this.credibility.formula, credibilityOperands(this.credibility), this.periodSources());
+  }
+
+  private calculateLine14_ManualClaims(): void {
+    const line14 = this.getCalculationLine('14');
+    const manual = this.input.carrierSpecificParameters.manualClaimsPMPM;
+
+    line14.current.medical = manual.medical;
+    line14.current.rx = manual.rx;
+    line14.current.total = manual.medical + manual.rx;
+    line14.prior = null;
+
+    this.setTrace('14', 'Manual medical PMPM + manual Rx PMPM', [
+      inputOperand('Manual medical PMPM', manual.medical),
+      inputOperand('Manual Rx PMPM', manual.rx)
+    ]);
+  }
+
+  private calculateLine15_BlendedClaims(): void {
+    const line12 = this.getCalculationLine('12');
+    const line13 = this.getCalculationLine('13');
+    const line14 = this.getCalculationLine('14');
+    const line15 = this.getCalculationLine('15');
+
+    // Line 15 = Line 12 × Line 13 + Line 14 × (1 - Line 13)
+    const z = line13.current.total;
+    line15.current.medical = line12.current.medical * z + line14.current.medical * (1 - z);
+    line15.current.rx = line12.current.rx * z + line14.current.rx * (1 - z);
+    line15.current.total = line15.current.medical + line15.current.rx;
+    line15.prior = null;
+
+    this.setTrace('15', 'Line 12 × Line 13 + Line 14 × (1 − Line 13)', [
+      lineOperand('12', line12.current.total),
+      lineOperand('13', z),
+      lineOperand('14', line14.current.total)
+    ]);
+  }
+
+  // PREMIUM SECTION (Lines 16-19)
+
+  private calculateLine16_TotalRetention(): void {
+    const line16 = this.getCalculationLine('16');
+    const retentionPct = this.getTotalRetentionPercent() / 100;
+
+    line16.current.medical = retentionPct;
+    line16.current.rx = retentionPct;
+    line16.current.total = retentionPct;
+    line16.prior = null;
+
+    const retention = this.input.carrierSpecificParameters.retentionComponents;
+    this.setTrace('16', '(Administrative + commission + premium tax + risk margin) % ÷ 100', [
+      inputOperand('Administrative %', retention.administrative),
+      inputOperand('Commission %', retention.commission),
+      inputOperand('Premium tax %', retention.premiumTax),
+      inputOperand('Risk margin %', retention.riskMargin)
+    ]);
+  }
+
+  private calculateLine17_RequiredPremium(): void {
+    const line15 = this.getCalculationLine('15');
+    const line16 = this.getCalculationLine('16');
+    const line17 = this.getCalculationLine('17');
+
+    // Line 17 = Line 15 ÷ (1 - Line 16)
+    const retentionFactor = 1 - line16.current.total;
+
+    line17.current.medical = line15.current.medical / retentionFactor;
+    line17.current.rx = line15.current.rx / retentionFactor;
+    line17.current.total = line15.current.total / retentionFactor;
+    line17.prior = null;
+
+    this.setTrace('17', 'Line 15 ÷ (1 − Line 16)', [
+      lineOperand('15', line15.current.total),
+      lineOperand('16', line16.current.total)
+    ]);
+  }
+
+  private calculateLine18_CurrentPremium(): void {
+    const line18 = this.getCalculationLine('18');
+    const currentPremium = this.input.carrierSpecificParameters.currentPremiumPMPM;
+
+    line18.current.medical = 0;
+    line18.current.rx = 0;
+    line18.current.total = currentPremium;
+    line18.prior = null;
+
+    this.setTrace('18', 'Current premium PMPM', [inputOperand('Current premium PMPM', currentPremium)]);
+  }
+
+  private calculateLine19_RequiredRateChange(): void {
+    const line17 = this.getCalculationLine('17');
+    const line18 = this.getCalculationLine('18');
+    const line19 = this.getCalculationLine('19');
+
+    // Line 19 = (Line 17 - Line 18) ÷ Line 18
+    const rateChange = (line17.current.total - line18.current.total) / line18.current.total;
+
+    line19.current.medical = rateChange;
+    line19.current.rx = rateChange;
+    line19.current.total = rateChange;
+    line19.prior = null;
+
+    this.setTrace('19', '(Line 17 − Line 18) ÷ Line 18', [
+      lineOperand('17', line17.current.total),
+      lineOperand('18', line18.current.total)
+    ]);
+  }
+
+  // Helper methods
+
+  private setFactorLine(line: string, label: string, factor: number): void {
+    const calc = this.getCalculationLine(line);
+    calc.current = { medical: factor, rx: factor, total: factor };
+    if (calc.prior) {
+      calc.prior = { medical: factor, rx: factor, total: factor };
+    }
+    this.setTrace(line, label, [inputOperand(label, factor)]);
+  }
+
+  private setTrace(line: string, formula: string, operands: TraceOperand[], sources?: string[]): void {
+    this.getCalculationLine(line).trace = { formula, operands, sources };
+  }
+
+  private periodSources(): string[] {
+    return [
+      periodSource('Current period', this.input.monthlyClaimsData, this.periods.current),
+      ...(this.periods.prior ? [periodSource('Prior period', this.input.monthlyClaimsData, this.periods.prior)] : [])
+    ];
+  }
+
+  private getTotalRetentionPercent(): number {
+    const retention = this.input.carrierSpecificParameters.retentionComponents;
+    return retention.administrative + retention.commission + retention.premiumTax + retention.riskMargin;
+  }
+
+  private getTotalExperienceMemberMonths(): number {
+    const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+    const priorMM = this.periods.prior ?
+      getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0;
+    return currentMM + priorMM;
+  }
+
+  private getCalculationLine(line: string): HumanaCalculationLine {
+    const calc = this.calculations.find(c => c.line === line);
+    if (!calc) {
+      throw new Error(`Calculation line ${line} not found`);
+    }
+    return calc;
+  }
+
+  private buildResult(): HumanaResult {
+    const line12 = this.getCalculationLine('12');
+    const line13 = this.getCalculationLine('13');
+    const line16 = this.getCalculationLine('16');
+    const line17 = this.getCalculationLine('17');
+    const line19 = this.getCalculationLine('19');
+
+    const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
+    const priorMM = this.periods.prior ?
+      getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0;
+    const projectedMonthlyMembers = currentMM / this.periods.current.months;
+
+    return {
+      carrier: 'HUMANA',
+      requiredPremium: {
+        medical: line17.current.medical,
+        rx: line17.current.rx,
+        total: line17.current.total
+      },
+      rateChange: line19.current.total,
+      calculations: this.calculations,
+      trace: buildCalculationTrace(this.calculations.map(line => ({
+        id: line.line,
+        description: line.description,
+        value: line.current.total,
+        trace: line.trace
+      }))),
+      poolingExhibit: this.poolingExhibit,
+      credibility: this.credibility!,
+      periods: this.periods,
+      summary: {
+        weightedProjectedClaims: {
+          medical: line12.current.medical,
+          rx: line12.current.rx,
+          total: line12.current.total
+        },
+        credibilityFactor: line13.current.total,
+        totalRetention: line16.current.total,
+        projectedAnnualPremium: line17.current.total * projectedMonthlyMembers * 12
+      },
+      periodAnalysis: {
+        current: {
+          memberMonths: currentMM,
+          medicalPMPM: this.getCalculationLine('1').current.medical,
+          rxPMPM: this.getCalculationLine('2').current.rx,
+          totalPMPM: this.getCalculationLine('3').current.total
+        },
+        prior: this.periods.prior ? {
+          memberMonths: priorMM,
+          medicalPMPM: this.getCalculationLine('1').prior?.medical || 0,
+          rxPMPM: this.getCalculationLine('2').prior?.rx || 0,
+          totalPMPM: this.getCalculationLine('3').prior?.total || 0
+        } : null
+      },
+      warnings: this.warnings,
+      dataQuality: {
+        dataCompleteness: this.calculateDataCompleteness(),
+        annualizationApplied: this.periods.current.months < 12,
+        credibilityScore: line13.current.total
+      }
+    };
+  }
+
+  private calculateDataCompleteness(): number {
+    const totalMonths = this.input.monthlyClaimsData.length;
+    const completeMonths = this.input.monthlyClaimsData.filter(month =>
+      month.memberMonths && month.incurredClaims
+    ).length;
+    return completeMonths / totalMonths;
+  }
+}
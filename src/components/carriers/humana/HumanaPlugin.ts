@@ -0,0 +1,139 @@
+import { CarrierPlugin } from '../registry';
+import { numberParameter } from '../parameterSchema';
+import { HumanaInput } from '../../../types/humana';
+import { HumanaRenewalCalculator } from './HumanaCalculator';
+import HumanaTemplate from './HumanaTemplate';
+import { calculateManualRatesFromExperience, calculateCurrentPremiumFromExperience } from '../../../utils/experienceEstimates';
+
+const HUMANA_DEFAULTS = {
+  poolingLevel: 150000,
+  poolingChargePercent: 8.5,
+  benefitAdjustment: 1,
+  demographicAdjustment: 1,
+  medicalTrend: 0.085,
+  rxTrend: 0.095,
+  trendMonthsCurrent: 18,
+  trendMonthsPrior: 30,
+  experienceWeightCurrent: 0.65,
+  fullCredibilityMemberMonths: 15000,
+  minimumCredibility: 0.1,
+  retentionAdministrative: 9.0,
+  retentionCommission: 3.0,
+  retentionPremiumTax: 2.0,
+  retentionRiskMargin: 1.5,
+};
+
+export const humanaPlugin: CarrierPlugin<HumanaInput> = {
+  id: 'HUMANA',
+  label: 'Humana',
+  calculator: HumanaRenewalCalculator,
+  template: HumanaTemplate,
+  defaultParameters: { ...HUMANA_DEFAULTS },
+  parameterSchema: [
+    { key: 'poolingLevel', label: 'Pooling Level', unit: 'currency', min: 10000, max: 2000000, aliases: ['poolingThreshold'], sensitivity: 'pooling', assumption: { value: 'poolingLevel', line: 'medical' } },
+    { key: 'poolingChargePercent', label: 'Pooling Charge %', unit: 'percent', min: 0, max: 50 },
+    { key: 'benefitAdjustment', label: 'Benefit Adjustment', unit: 'factor', min: 0.5, max: 2, planDesignLine: '8' },
+    { key: 'demographicAdjustment', label: 'Demographic Adjustment', unit: 'factor', min: 0.5, max: 2, demographic: 'change' },
+    { key: 'medicalTrend', label: 'Medical Trend (annual)', unit: 'rate', min: -0.2, max: 0.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'medical' } },
+    { key: 'rxTrend', label: 'Rx Trend (annual)', unit: 'rate', min: -0.2, max: 0.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'rx' } },
+    { key: 'trendMonthsCurrent', label: 'Trend Months Current', unit: 'months', min: 0, max: 60, trendMonths: 'current' },
+    { key: 'trendMonthsPrior', label: 'Trend Months Prior', unit: 'months', min: 0, max: 60, trendMonths: 'prior' },
+    { key: 'experienceWeightCurrent', label: 'Experience Weight Current', unit: 'rate', min: 0, max: 1, sensitivity: 'experienceWeight' },
+    { key: 'fullCredibilityMemberMonths', label: 'Full Credibility Member Months', unit: 'memberMonths', min: 1, max: 1000000 },
+    { key: 'minimumCredibility', label: 'Minimum Credibility', unit: 'rate', min: 0, max: 1 },
+    { key: 'retentionAdministrative', label: 'Retention Administrative %', unit: 'percent', min: 0, max: 30, sensitivity: 'retention' },
+    { key: 'retentionCommission', label: 'Retention Commission %', unit: 'percent', min: 0, max: 30, sensitivity: 'retention' },
+    { key: 'retentionPremiumTax', label: 'Retention Premium Tax %', unit: 'percent', min: 0, max: 10, sensitivity: 'retention' },
+    { key: 'retentionRiskMargin', label: 'Retention Risk Margin %', unit: 'percent', min: 0, max: 20, sensitivity: 'retention' },
+    { key: 'currentPremiumPMPM', label: 'Current Premium PMPM', unit: 'currency', min: 0, max: 10000, description: 'Estimated from experience when blank' },
+  ],
+
+  adaptInput: (input, params) => {
+    // Manual claims and current premium are estimated from experience unless supplied
+    const calculatedManualRates = calculateManualRatesFromExperience(input);
+    const currentPremium = Number(params?.currentPremiumPMPM) || calculateCurrentPremiumFromExperience(input);
+    const experienceWeightCurrent = numberParameter(params, HUMANA_DEFAULTS, 'experienceWeightCurrent');
+
+    return {
+      ...input,
+      carrierSpecificParameters: {
+        experiencePeriodRule: params?.experiencePeriodRule,
+        poolingSplit: params?.poolingSplit,
+        credibilitySettings: params?.credibilitySettings,
+        ibnr: params?.ibnr,
+        poolingLevel: numberParameter(params, HUMANA_DEFAULTS, 'poolingLevel'),
+        poolingChargePercent: numberParameter(params, HUMANA_DEFAULTS, 'poolingChargePercent'),
+        benefitAdjustment: numberParameter(params, HUMANA_DEFAULTS, 'benefitAdjustment'),
+        demographicAdjustment: numberParameter(params, HUMANA_DEFAULTS, 'demographicAdjustment'),
+        trendRates: {
+          medical: numberParameter(params, HUMANA_DEFAULTS, 'medicalTrend'),
+          rx: numberParameter(params, HUMANA_DEFAULTS, 'rxTrend')
+        },
+        trendMonths: {
+          current: numberParameter(params, HUMANA_DEFAULTS, 'trendMonthsCurrent'),
+          prior: numberParameter(params, HUMANA_DEFAULTS, 'trendMonthsPrior')
+        },
+        experienceWeights: {
+          current: experienceWeightCurrent,
+          prior: 1 - experienceWeightCurrent
+        },
+        credibility: {
+          fullCredibilityMemberMonths: numberParameter(params, HUMANA_DEFAULTS, 'fullCredibilityMemberMonths'),
+          minimumCredibility: numberParameter(params, HUMANA_DEFAULTS, 'minimumCredibility')
+        },
+        manualClaimsPMPM: {
+          medical: calculatedManualRates.medical,
+          rx: calculatedManualRates.rx
+        },
+        retentionComponents: {
+          administrative: numberParameter(params, HUMANA_DEFAULTS, 'retentionAdministrative'),
+          commission: numberParameter(params, HUMANA_DEFAULTS, 'retentionCommission'),
+          premiumTax: numberParameter(params, HUMANA_DEFAULTS, 'retentionPremiumTax'),
+          riskMargin: numberParameter(params, HUMANA_DEFAULTS, 'retentionRiskMargin')
+        },
+        currentPremiumPMPM: currentPremium
+      }
+    };
+  },
+
+  calculate: async (humanaInput) => {
+    const humanaCalculator = new HumanaRenewalCalculator(humanaInput);
+    const humanaResult = humanaCalculator.calculate();
+
+    // Convert to legacy CalculationResult format but store the native result in detailedResults
+    return {
+      carrier: humanaResult.carrier,
+      currentPremiumPMPM: humanaInput.carrierSpecificParameters.currentPremiumPMPM,
+      projectedPremiumPMPM: humanaResult.requiredPremium.total,
+      requiredRateChange: humanaResult.rateChange,
+      proposedRateChange: humanaResult.rateChange,
+      calculationSteps: [
+        { label: 'Required Premium PMPM', value: humanaResult.requiredPremium.total },
+        { label: 'Rate Change %', value: humanaResult.rateChange * 100 },
+        { label: 'Credibility %', value: humanaResult.summary.credibilityFactor * 100 }
+      ],
+      warnings: humanaResult.warnings.map(message => ({ message })),
+      trace: humanaResult.trace,
+      poolingExhibit: humanaResult.poolingExhibit,
+      credibility: humanaResult.credibility,
+      // Store the native result for template access
+      detailedResults: {
+        humana: humanaResult
+      }
+    };
+  },
+
+  selectTemplateResult: (result) =>
+    result.carrier === 'HUMANA' && result.detailedResults?.humana ? result.detailedResults.humana : null,
+
+  // Line 4 is claims over the pooling level and Line 6 the pooling charge
+  summarizeResult: (result) => {
+    const humana = result.detailedResults?.humana;
+    const line = (id: string) => humana?.calculations.find((c: any) => c.line === id)?.current?.total ?? null;
+    return {
+      pooledClaimsPMPM: line('4'),
+      poolingChargePMPM: line('6'),
+      credibility: humana?.summary.credibilityFactor ?? null
+    };
+  }
+};
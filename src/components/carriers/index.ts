@@ -1,8 +1,15 @@
+import { registerCarrier, getCarrierPlugin } from './registry';
+import { uhcPlugin } from './uhc/UHCPlugin';
+import { cignaPlugin } from './cigna/CignaPlugin';
+import { bcbsPlugin } from './bcbs/BCBSPlugin';
+import { aetnaPlugin } from './aetna/AetnaPlugin';
+import { humanaPlugin } from './humana/HumanaPlugin';
+
 // UHC exports
 export { UHCRenewalCalculator } from './uhc/UHCCalculator';
 export { default as UHCTemplate } from './uhc/UHCTemplate';
 
-// Cigna exports  
+// Cigna exports
 export { CignaRenewalCalculator } from './cigna/CignaCalculator';
 export { default as CignaTemplate } from './cigna/CignaTemplate';
 
@@ -14,48 +21,40 @@ export { default as BCBSTemplate } from './bcbs/BCBSTemplate';
 export { AetnaRenewalCalculator } from './aetna/AetnaCalculator';
 export { default as AetnaTemplate } from './aetna/AetnaTemplate';
 
-// Import for local use in functions
-import { UHCRenewalCalculator } from './uhc/UHCCalculator';
-import { CignaRenewalCalculator } from './cigna/CignaCalculator';
-import { BCBSCalculator } from './bcbs/BCBSCalculator';
-import { AetnaRenewalCalculator } from './aetna/AetnaCalculator';
-import UHCTemplate from './uhc/UHCTemplate';
-import CignaTemplate from './cigna/CignaTemplate';
-import BCBSTemplate from './bcbs/BCBSTemplate';
-import AetnaTemplate from './aetna/AetnaTemplate';
+// Humana exports
+export { HumanaRenewalCalculator } from './humana/HumanaCalculator';
+export { default as HumanaTemplate } from './humana/HumanaTemplate';
+
+// Registry exports
+export { registerCarrier, getCarrierPlugin, listCarrierPlugins } from './registry';
+export type { CarrierPlugin, CarrierParameterField, CoverageLine, CarrierParameterUnit, CarrierResultSummary, SensitivityDriver } from './registry';
+export {
+  validateParameters,
+  validateCarrierParameters,
+  formatCarrierParameterErrors,
+  numberParameter,
+  isParameterSupplied,
+  PARAMETER_UNIT_HINTS
+} from './parameterSchema';
+export type { CarrierParameterError, CarrierParameterValidation } from './parameterSchema';
+
+// Built-in carriers; additional carriers call registerCarrier with their own plugin
+registerCarrier(aetnaPlugin);
+registerCarrier(uhcPlugin);
+registerCarrier(cignaPlugin);
+registerCarrier(bcbsPlugin);
+registerCarrier(humanaPlugin);
 
 /**
  * Factory function to get calculator class by carrier type
  */
 export function getCalculatorClass(carrier: string) {
-  switch (carrier.toUpperCase()) {
-    case 'UHC':
-      return UHCRenewalCalculator;
-    case 'CIGNA':
-      return CignaRenewalCalculator;
-    case 'BCBS':
-      return BCBSCalculator;
-    case 'AETNA':
-      return AetnaRenewalCalculator;
-    default:
-      throw new Error(`Unsupported carrier: ${carrier}`);
-  }
+  return getCarrierPlugin(carrier).calculator;
 }
 
 /**
  * Factory function to get template by carrier type
  */
 export function getTemplate(carrier: string) {
-  switch (carrier.toUpperCase()) {
-    case 'UHC':
-      return UHCTemplate;
-    case 'CIGNA':
-      return CignaTemplate;
-    case 'BCBS':
-      return BCBSTemplate;
-    case 'AETNA':
-      return AetnaTemplate;
-    default:
-      throw new Error(`Unsupported carrier: ${carrier}`);
-  }
-} 
\ No newline at end of file
+  return getCarrierPlugin(carrier).template;
+}
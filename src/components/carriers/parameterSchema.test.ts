@@ -0,0 +1,57 @@
+import { validateCarrierParameters, formatCarrierParameterErrors, getCarrierPlugin } from './index';
+import { runProjection } from '../../utils/projectionRunner';
+
+describe('carrier parameter schemas', () => {
+  const rows = (params: Record<string, unknown> = {}) => [
+    { caseId: 'SCHEMA-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31', ...params },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  test('every carrier field has a range that contains its default', () => {
+    ['AETNA', 'UHC', 'CIGNA', 'BCBS', 'HUMANA'].forEach(carrier => {
+      const plugin = getCarrierPlugin(carrier);
+      plugin.parameterSchema.forEach(field => expect(field.min).toBeLessThan(field.max));
+      plugin.parameterSchema
+        .filter(field => field.key in plugin.defaultParameters)
+        .forEach(field => {
+          expect(plugin.defaultParameters[field.key]).toBeGreaterThanOrEqual(field.min);
+          expect(plugin.defaultParameters[field.key]).toBeLessThanOrEqual(field.max);
+        });
+    });
+  });
+
+  test('reads aliases and spreadsheet formats, and reports field-level errors', () => {
+    expect(validateCarrierParameters('AETNA', { poolingThreshold: '$200,000' }).params.poolingLevel).toBe(200000);
+    expect(validateCarrierParameters('UHC', { medicalTrend: '8.5%' }).params.medicalTrend).toBeCloseTo(0.085);
+
+    const { params, errors } = validateCarrierParameters('UHC', {
+      poolingThreshold: 125000,
+      poolingLevel: 150000,
+      medicalTrend: 8.5,
+      rxTrend: 'high'
+    });
+    expect(errors.map(error => error.key)).toEqual(['poolingThreshold', 'medicalTrend', 'rxTrend']);
+    expect(errors[0].message).toContain('conflicting values');
+    expect(errors[1].message).toBe('Medical Trend (annual) must be between -0.2 and 0.5, got 8.5');
+    expect(params.medicalTrend).toBe(getCarrierPlugin('UHC').defaultParameters.medicalTrend);
+    expect(formatCarrierParameterErrors('UHC', errors)).toMatch(/^Invalid UHC parameters: Pooling Threshold/);
+  });
+
+  test('projections use valid overrides and refuse invalid uploaded or overridden values', async () => {
+    const base = await runProjection(rows(), 'UHC');
+    const higherTrend = await runProjection(rows(), 'UHC', { medicalTrend: 0.15 });
+    expect(higherTrend.params.medicalTrend).toBe(0.15);
+    expect(higherTrend.result.projectedPremiumPMPM).toBeGreaterThan(base.result.projectedPremiumPMPM);
+
+    await expect(runProjection(rows(), 'CIGNA', { experienceWeight: 1.5 }))
+      .rejects.toThrow('Invalid CIGNA parameters: Experience Weight must be between 0 and 1, got 1.5');
+    await expect(runProjection(rows({ poolingLevel: 'n/a' }), 'BCBS'))
+      .rejects.toThrow('Pooling Level (poolingLevel) must be a number, got "n/a"');
+  });
+});
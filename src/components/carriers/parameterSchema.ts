@@ -0,0 +1,118 @@
+import { CarrierParameterField, CarrierParameterUnit, getCarrierPlugin } from './registry';
+import { isBlankCell, tryParseExcelNumber } from '../../ingest/values';
+
+export interface CarrierParameterError {
+  key: string;
+  label: string;
+  value: unknown;
+  message: string;
+}
+
+export interface CarrierParameterValidation {
+  params: Record<string, number>;
+  errors: CarrierParameterError[];
+}
+
+export const PARAMETER_UNIT_HINTS: Record<CarrierParameterUnit, string> = {
+  currency: '$',
+  factor: '× factor, 1.00 = no change',
+  rate: 'decimal, 0.085 = 8.5%',
+  percent: '%, 8.5 = 8.5%',
+  months: 'months',
+  memberMonths: 'member months',
+  count: 'enrolled'
+};
+
+function formatBound(value: number, unit: CarrierParameterUnit): string {
+  return unit === 'currency' ? `$${value.toLocaleString()}` : value.toLocaleString();
+}
+
+// Spreadsheet cells may carry "$125,000" or "8.5%"; a percent sign on a rate field means the value is a whole percentage
+function parseParameterValue(value: unknown, unit: CarrierParameterUnit): number | null {
+  const parsed = tryParseExcelNumber(value);
+  if (parsed !== null && unit === 'rate' && typeof value === 'string' && value.trim().endsWith('%')) {
+    return parsed / 100;
+  }
+  return parsed;
+}
+
+function fieldError(field: CarrierParameterField, value: unknown, message: string): CarrierParameterError {
+  return { key: field.key, label: field.label, value, message: `${field.label} ${message}` };
+}
+
+/**
+ * Read schema fields (or their aliases) from an upload row or settings form
+ * Fields that are missing or invalid keep the base value; each invalid field is reported once
+ */
+export function validateParameters(
+  schema: CarrierParameterField[],
+  source: Record<string, any>,
+  base: Record<string, number>
+): CarrierParameterValidation {
+  const params: Record<string, number> = { ...base };
+  const errors: CarrierParameterError[] = [];
+
+  schema.forEach(field => {
+    const supplied = [field.key, ...(field.aliases ?? [])]
+      .filter(name => !isBlankCell(source[name]))
+      .map(name => ({ name, raw: source[name], value: parseParameterValue(source[name], field.unit) }));
+    if (supplied.length === 0) return;
+
+    const unreadable = supplied.find(entry => entry.value === null);
+    if (unreadable) {
+      errors.push(fieldError(field, unreadable.raw, `(${unreadable.name}) must be a number, got "${unreadable.raw}"`));
+      return;
+    }
+
+    const distinct = Array.from(new Set(supplied.map(entry => entry.value)));
+    if (distinct.length > 1) {
+      const given = supplied.map(entry => `${entry.name} = ${entry.raw}`).join(', ');
+      errors.push(fieldError(field, supplied[0].raw, `is given conflicting values (${given})`));
+      return;
+    }
+
+    const value = distinct[0]!;
+    if (value < field.min || value > field.max) {
+      errors.push(fieldError(field, value,
+        `must be between ${formatBound(field.min, field.unit)} and ${formatBound(field.max, field.unit)}, got ${value}`));
+      return;
+    }
+    params[field.key] = value;
+  });
+
+  return { params, errors };
+}
+
+/**
+ * Whether any source (upload row or overrides) sets the field or one of its aliases, so derived values leave it alone
+ */
+export function isParameterSupplied(field: CarrierParameterField, sources: Record<string, any>[]): boolean {
+  return sources.some(source => [field.key, ...(field.aliases ?? [])].some(name => !isBlankCell(source[name])));
+}
+
+/**
+ * Read a carrier's schema fields from an upload row or override set, starting from the carrier defaults unless a base is given
+ */
+export function validateCarrierParameters(
+  carrier: string,
+  source: Record<string, any>,
+  base?: Record<string, number>
+): CarrierParameterValidation {
+  const plugin = getCarrierPlugin(carrier);
+  return validateParameters(plugin.parameterSchema, source, base ?? plugin.defaultParameters);
+}
+
+/**
+ * One-line summary of parameter errors, used when a calculation is refused
+ */
+export function formatCarrierParameterErrors(carrier: string, errors: CarrierParameterError[]): string {
+  return `Invalid ${carrier} parameters: ${errors.map(error => error.message).join('; ')}`;
+}
+
+/**
+ * A numeric dashboard parameter, falling back to the carrier default when absent or unreadable (e.g. a blank sheet cell)
+ */
+export function numberParameter<T extends Record<string, number>>(params: any, defaults: T, key: keyof T & string): number {
+  const value = tryParseExcelNumber(params?.[key]);
+  return value ?? defaults[key];
+}
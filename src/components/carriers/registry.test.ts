@@ -0,0 +1,65 @@
+import { getCarrierPlugin, listCarrierPlugins, registerCarrier, CarrierPlugin } from './index';
+import { dispatchCarrierCalculation } from '../../utils/carrierDispatcher';
+import { UniversalInput } from '../../types/common';
+
+describe('Carrier plugin registry', () => {
+  const createTestInput = (carrier: string): UniversalInput => ({
+    carrier,
+    caseId: 'registry-test',
+    effectiveDates: {
+      renewalStart: new Date('2025-01-01'),
+      renewalEnd: new Date('2025-12-31')
+    },
+    monthlyClaimsData: Array.from({ length: 12 }, (_, i) => ({
+      month: `2024-${String(i + 1).padStart(2, '0')}`,
+      memberMonths: { medical: 500, rx: 500, total: 500 },
+      incurredClaims: { medical: 200000, rx: 50000 }
+    })),
+    largeClaimantsData: [],
+    manualRates: { medical: 400, rx: 100 },
+    carrierSpecificParameters: {}
+  });
+
+  test('registers the built-in carriers', () => {
+    const ids = listCarrierPlugins().map(plugin => plugin.id);
+    expect(ids).toEqual(expect.arrayContaining(['AETNA', 'UHC', 'CIGNA', 'BCBS']));
+  });
+
+  test('looks carriers up case-insensitively and rejects unknown carriers', () => {
+    expect(getCarrierPlugin('uhc').id).toBe('UHC');
+    expect(() => getCarrierPlugin('NOPE')).toThrow('Unsupported carrier: NOPE');
+  });
+
+  test('dispatches through a registered plugin', async () => {
+    const result = await dispatchCarrierCalculation(createTestInput('UHC'));
+    expect(result.carrier).toBe('UHC');
+    expect(result.detailedResults?.uhc).toBeDefined();
+    expect(getCarrierPlugin('UHC').selectTemplateResult(result)).toBe(result.detailedResults?.uhc);
+  });
+
+  test('dispatches to carriers registered outside the core files', async () => {
+    const testPlugin: CarrierPlugin = {
+      id: 'TEST',
+      label: 'Test Carrier',
+      calculator: class {},
+      template: () => null,
+      defaultParameters: {},
+      parameterSchema: [],
+      adaptInput: (input) => input,
+      calculate: async (input) => ({
+        carrier: input.carrier,
+        currentPremiumPMPM: 500,
+        projectedPremiumPMPM: 550,
+        requiredRateChange: 0.1,
+        proposedRateChange: 0.1,
+        calculationSteps: [],
+        warnings: []
+      }),
+      selectTemplateResult: (result) => result
+    };
+    registerCarrier(testPlugin);
+
+    const result = await dispatchCarrierCalculation(createTestInput('TEST'));
+    expect(result.requiredRateChange).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,86 @@
+import React from 'react';
+import { UniversalInput, CalculationResult } from '../../types/common';
+
+// How a parameter is entered: 'rate' is a decimal fraction (0.085 = 8.5%), 'percent' a whole percentage (8.5)
+export type CarrierParameterUnit = 'currency' | 'factor' | 'rate' | 'percent' | 'months' | 'memberMonths' | 'count';
+
+// The renewal driver a parameter belongs to; tagged fields are shocked in the sensitivity analysis,
+// which shocks credibility as computed rather than through a field
+export type SensitivityDriver = 'trend' | 'pooling' | 'experienceWeight' | 'credibility' | 'retention';
+
+// Line of coverage an assumption library value is set for
+export type CoverageLine = 'medical' | 'rx';
+
+export interface CarrierParameterField {
+  key: string;
+  label: string;
+  description?: string;
+  unit: CarrierParameterUnit;
+  min: number;
+  max: number;
+  aliases?: string[]; // Other upload columns read into this field, e.g. poolingLevel for poolingThreshold
+  sensitivity?: SensitivityDriver;
+  // Filled from an uploaded census: 'change' takes the renewal over experience age/sex factor, 'renewal' the renewal factor
+  demographic?: 'change' | 'renewal';
+  // Filled from the plan-design relativity; the supporting math is attached to this calculation trace line
+  planDesignLine?: string;
+  // Filled with the months from the current or prior experience period midpoint to the renewal midpoint
+  trendMonths?: 'current' | 'prior';
+  // Defaulted from the assumption library's annual trend or pooling level for a line of coverage
+  assumption?: { value: 'trend' | 'poolingLevel'; line: CoverageLine };
+}
+
+// Headline figures used to compare carriers on the same case; null where a carrier does not report it
+export interface CarrierResultSummary {
+  pooledClaimsPMPM: number | null; // Claims above the pooling level removed from experience
+  poolingChargePMPM: number | null; // Charge (or add-back) applied in place of the pooled claims
+  credibility: number | null; // Experience credibility, 0-1
+  projectedClaimsPMPM?: number | null; // Credibility-weighted, trended claims cost before retention
+}
+
+export interface CarrierPlugin<TInput extends UniversalInput = UniversalInput> {
+  id: string; // Matches UniversalInput.carrier, e.g. 'UHC'
+  label: string;
+  calculator: new (...args: any[]) => any;
+  template: React.ComponentType<any>;
+  // Flat parameters shown (and overridable) in the dashboard; fields without a default are estimated from experience
+  defaultParameters: Record<string, number>;
+  parameterSchema: CarrierParameterField[];
+  // Values for schema fields that are estimated from experience when left blank, e.g. retention by group size
+  estimateParameters?: (input: UniversalInput) => Record<string, number>;
+  // Converts universal input plus dashboard parameters into the carrier's own input
+  adaptInput: (input: UniversalInput, params?: any) => TInput;
+  // Runs the calculator and converts its native result to a CalculationResult
+  calculate: (input: TInput) => Promise<CalculationResult>;
+  // Picks the value passed to the template's `result` prop, or null if the result doesn't belong to this carrier
+  selectTemplateResult: (result: CalculationResult) => any | null;
+  // Pooling and credibility figures for the carrier comparison
+  summarizeResult?: (result: CalculationResult) => CarrierResultSummary;
+}
+
+const plugins = new Map<string, CarrierPlugin<any>>();
+
+/**
+ * Register a carrier plugin, replacing any plugin already registered under the same id
+ */
+export function registerCarrier<TInput extends UniversalInput>(plugin: CarrierPlugin<TInput>): void {
+  plugins.set(plugin.id.toUpperCase(), plugin);
+}
+
+/**
+ * Look up a registered carrier plugin by carrier id
+ */
+export function getCarrierPlugin(carrier: string): CarrierPlugin<any> {
+  const plugin = plugins.get(carrier.toUpperCase());
+  if (!plugin) {
+    throw new Error(`Unsupported carrier: ${carrier}`);
+  }
+  return plugin;
+}
+
+/**
+ * All registered carrier plugins, in registration order
+ */
+export function listCarrierPlugins(): CarrierPlugin<any>[] {
+  return Array.from(plugins.values());
+}
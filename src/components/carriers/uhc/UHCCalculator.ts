@@ -3,17 +3,29 @@ import {
   UHCResult, 
   UHCCalculationLine, 
   UHC_CALCULATION_LINES,
-  UHCLineType 
+  UHCLineType,
+  UHC_EXPERIENCE_PERIOD_RULE,
+  UHC_POOLING_SPLIT
 } from '../../../types/uhc';
 import { 
   determineExperiencePeriods, 
   validateLargeClaimantPeriods,
   getMemberMonthsForPeriod,
   getClaimsForPeriod,
-  calculatePooledClaimsForPeriod,
   validateDataQuality 
 } from '../../../utils/periodHandling';
-import { UniversalInput, ExperiencePeriods, Period } from '../../../types/common';
+import { completeClaimsData, summarizeIBNR } from '../../../utils/ibnr';
+import { buildPooledClaimsExhibit, calculateLargeClaimAdjustment, pooledClaimsFor } from '../../../pooling';
+import { calculateCredibility, credibilityExposure } from '../../../credibility';
+import {
+  buildCalculationTrace,
+  credibilityOperands,
+  inputOperand,
+  largeClaimantSource,
+  lineOperand,
+  periodSource
+} from '../../../utils/calculationTrace';
+import { UniversalInput, CredibilityResult, ExperiencePeriods, LargeClaimAdjustment, PooledClaimsExhibit, TraceOperand } from '../../../types/common';
 
 export class UHCRenewalCalculator {
   private input: UHCInput;
@@ -21,16 +33,36 @@ export class UHCRenewalCalculator {
   private calculations: UHCCalculationLine[] = [];
   private warnings: string[] = [];
   private medicalRxSplit: { medical: number; rx: number };
+  private poolingExhibit: PooledClaimsExhibit;
+  private largeClaimAdjustment: LargeClaimAdjustment;
+  private credibility?: CredibilityResult; // Set by Line W
 
   constructor(input: UHCInput) {
-    this.input = input;
+    // Complete immature months with IBNR before the experience periods are split (opt-in)
+    const completion = completeClaimsData(input.monthlyClaimsData, input.carrierSpecificParameters.ibnr);
+    this.input = { ...input, monthlyClaimsData: completion.claimsData };
+    if (completion.estimate) {
+      this.warnings.push(summarizeIBNR(completion.estimate));
+    }
     this.periods = determineExperiencePeriods(
-      input.monthlyClaimsData,
-      input.effectiveDates.renewalStart
+      this.input.monthlyClaimsData,
+      input.effectiveDates.renewalStart,
+      input.carrierSpecificParameters.experiencePeriodRule ?? UHC_EXPERIENCE_PERIOD_RULE
     );
     
     // Calculate actual medical/rx split from experience data
     this.medicalRxSplit = this.calculateMedicalRxSplit();
+    const poolingOptions = {
+      poolingLevel: input.carrierSpecificParameters.poolingThreshold,
+      split: input.carrierSpecificParameters.poolingSplit ?? UHC_POOLING_SPLIT
+    };
+    this.poolingExhibit = buildPooledClaimsExhibit(this.input.largeClaimantsData || [], this.periods, poolingOptions);
+    this.largeClaimAdjustment = calculateLargeClaimAdjustment(
+      this.input.largeClaimantsData || [],
+      this.periods.current,
+      getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current),
+      poolingOptions
+    );
   }
 
   public calculate(): UHCResult {
@@ -175,6 +207,11 @@ export class UHCRenewalCalculator {
       lineA.prior.rx = 0;
       lineA.prior.total = lineA.prior.medical;
     }
+
+    this.setTrace('A', 'Current medical claims ÷ current member months', [
+      inputOperand('Medical claims', currentClaims.medical),
+      inputOperand('Member months', currentMM)
+    ], this.periodSources());
   }
 
   private calculateLineB_PooledClaimsOver125K(): void {
@@ -183,21 +220,27 @@ export class UHCRenewalCalculator {
     
     // Current period
     const currentMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current);
-    const currentPooled = this.calculatePooledClaimsAmount(this.periods.current, params.poolingThreshold);
+    const currentPooled = pooledClaimsFor(this.poolingExhibit, 'current');
     
-    lineB.current.medical = currentPooled / currentMM;
-    lineB.current.rx = 0; // Pooling typically applies to medical only
-    lineB.current.total = lineB.current.medical;
+    lineB.current.medical = currentPooled.medical / currentMM;
+    lineB.current.rx = currentPooled.rx / currentMM;
+    lineB.current.total = currentPooled.total / currentMM;
     
     // Prior period (if exists)
     if (this.periods.prior && lineB.prior) {
       const priorMM = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior);
-      const priorPooled = this.calculatePooledClaimsAmount(this.periods.prior, params.poolingThreshold);
+      const priorPooled = pooledClaimsFor(this.poolingExhibit, 'prior');
       
-      lineB.prior.medical = priorPooled / priorMM;
-      lineB.prior.rx = 0;
-      lineB.prior.total = lineB.prior.medical;
+      lineB.prior.medical = priorPooled.medical / priorMM;
+      lineB.prior.rx = priorPooled.rx / priorMM;
+      lineB.prior.total = priorPooled.total / priorMM;
     }
+
+    this.setTrace('B', 'Claims over the pooling threshold ÷ current member months', [
+      inputOperand('Pooling threshold', params.poolingThreshold),
+      inputOperand('Pooled claims', currentPooled.total),
+      inputOperand('Member months', currentMM)
+    ], [largeClaimantSource(this.poolingExhibit, this.periods.current)]);
   }
 
   private calculateLineC_AdjustedMedicalClaims(): void {
@@ -215,6 +258,11 @@ export class UHCRenewalCalculator {
       lineC.prior.rx = 0;
       lineC.prior.total = lineC.prior.medical;
     }
+
+    this.setTrace('C', 'Line A − Line B', [
+      lineOperand('A', lineA.current.total),
+      lineOperand('B', lineB.current.total)
+    ]);
   }
 
   private calculateLineD_IncurredRxClaimsPMPM(): void {
@@ -237,6 +285,11 @@ export class UHCRenewalCalculator {
       lineD.prior.rx = priorClaims.rx / priorMM;
       lineD.prior.total = lineD.prior.rx;
     }
+
+    this.setTrace('D', 'Current Rx claims ÷ current member months', [
+      inputOperand('Rx claims', currentClaims.rx),
+      inputOperand('Member months', currentMM)
+    ], this.periodSources());
   }
 
   private calculateLineE_TotalIncurredClaims(): void {
@@ -254,6 +307,11 @@ export class UHCRenewalCalculator {
       lineE.prior.rx = lineD.prior.rx;
       lineE.prior.total = lineE.prior.medical + lineE.prior.rx;
     }
+
+    this.setTrace('E', 'Line C + Line D', [
+      lineOperand('C', lineC.current.total),
+      lineOperand('D', lineD.current.total)
+    ]);
   }
 
   private calculateLineF_UWAdjustment(): void {
@@ -261,7 +319,8 @@ export class UHCRenewalCalculator {
     const lineF = this.getCalculationLine('F');
     const params = this.input.carrierSpecificParameters;
     
-    lineF.current.medical = lineE.current.medical * params.underwritingAdjustment;
+    // Marked large claimants adjust the current period they were incurred in, against medical
+    lineF.current.medical = lineE.current.medical * params.underwritingAdjustment + this.largeClaimAdjustment.pmpm;
     lineF.current.rx = lineE.current.rx * params.underwritingAdjustment;
     lineF.current.total = lineF.current.medical + lineF.current.rx;
     
@@ -270,6 +329,12 @@ export class UHCRenewalCalculator {
       lineF.prior.rx = lineE.prior.rx * params.underwritingAdjustment;
       lineF.prior.total = lineF.prior.medical + lineF.prior.rx;
     }
+
+    this.setTrace('F', 'Line E × underwriting adjustment + large claim adjustment PMPM', [
+      lineOperand('E', lineE.current.total),
+      inputOperand('Underwriting adjustment', params.underwritingAdjustment),
+      inputOperand('Large claim adjustment', this.largeClaimAdjustment.pmpm)
+    ], this.largeClaimAdjustment.entries.map(entry => entry.justification));
   }
 
   private calculateLineG_TrendFactor(): void {
@@ -296,6 +361,15 @@ export class UHCRenewalCalculator {
       lineG.prior.rx = lineF.prior.rx * priorRxTrend;
       lineG.prior.total = lineG.prior.medical + lineG.prior.rx;
     }
+
+    this.setTrace('G', 'Line F medical × (1 + medical trend)^(months ÷ 12) + Line F Rx × (1 + Rx trend)^(months ÷ 12)', [
+      lineOperand('F', lineF.current.total),
+      inputOperand('Medical trend', params.trendRates.medical),
+      inputOperand('Rx trend', params.trendRates.rx),
+      inputOperand('Projection months', currentTrendMonths),
+      inputOperand('Medical trend factor', currentMedicalTrend),
+      inputOperand('Rx trend factor', currentRxTrend)
+    ]);
   }
 
   private calculateLineH_PlanChangeAdjustment(): void {
@@ -312,6 +386,11 @@ export class UHCRenewalCalculator {
       lineH.prior.rx = lineG.prior.rx * params.planChangeAdjustment;
       lineH.prior.total = lineH.prior.medical + lineH.prior.rx;
     }
+
+    this.setTrace('H', 'Line G × plan change adjustment', [
+      lineOperand('G', lineG.current.total),
+      inputOperand('Plan change adjustment', params.planChangeAdjustment)
+    ]);
   }
 
   private calculateLineI_TrendedAdjustedClaims(): void {
@@ -328,6 +407,8 @@ export class UHCRenewalCalculator {
       lineI.prior.rx = lineH.prior.rx;
       lineI.prior.total = lineH.prior.total;
     }
+
+    this.setTrace('I', 'Line H', [lineOperand('H', lineH.current.total)]);
   }
 
   private calculateLineJ_ClaimPeriodWeighting(): void {
@@ -351,6 +432,15 @@ export class UHCRenewalCalculator {
     
     // Line J has no prior column (it's the weighted result)
     lineJ.prior = null;
+
+    this.setTrace('J', lineI.prior ? 'Line I current × current weight + Line I prior × prior weight' : 'Line I (single experience period)', [
+      lineOperand('I', lineI.current.total, 'Line I current'),
+      ...(lineI.prior ? [
+        lineOperand('I', lineI.prior.total, 'Line I prior'),
+        inputOperand('Current weight', currentWeight),
+        inputOperand('Prior weight', priorWeight)
+      ] : [])
+    ]);
   }
 
   private calculateLineK_MemberChangeAdjustment(): void {
@@ -365,6 +455,11 @@ export class UHCRenewalCalculator {
     lineK.current.total = lineK.current.medical + lineK.current.rx;
     
     lineK.prior = null;
+
+    this.setTrace('K', 'Line J × member change adjustment', [
+      lineOperand('J', lineJ.current.total),
+      inputOperand('Member change adjustment', memberChangeAdj)
+    ]);
   }
 
   private calculateLineL_PoolingCharge(): void {
@@ -382,6 +477,12 @@ export class UHCRenewalCalculator {
     lineL.current.total = poolingCharge;
     
     lineL.prior = null;
+
+    this.setTrace('L', 'Pooling threshold × pooling factor ÷ current member months', [
+      inputOperand('Pooling threshold', params.poolingThreshold),
+      inputOperand('Pooling factor', poolingFactor),
+      inputOperand('Member months', currentMM)
+    ], [periodSource('Current period', this.input.monthlyClaimsData, this.periods.current)]);
   }
 
   private calculateLineM_ExpectedClaims(): void {
@@ -395,6 +496,11 @@ export class UHCRenewalCalculator {
     lineM.current.total = lineM.current.medical + lineM.current.rx;
     
     lineM.prior = null;
+
+    this.setTrace('M', 'Line K + Line L', [
+      lineOperand('K', lineK.current.total),
+      lineOperand('L', lineL.current.total)
+    ]);
   }
 
   private calculateLineN_Administration(): void {
@@ -409,6 +515,8 @@ export class UHCRenewalCalculator {
     lineN.current.total = adminPct;
     
     lineN.prior = null;
+
+    this.setTrace('N', 'Administration retention % ÷ 100', [inputOperand('Administration %', params.retentionComponents.administrative)]);
   }
 
   private calculateLineO_StateTaxesAssessments(): void {
@@ -423,6 +531,8 @@ export class UHCRenewalCalculator {
     lineO.current.total = taxPct;
     
     lineO.prior = null;
+
+    this.setTrace('O', 'State taxes and assessments % ÷ 100', [inputOperand('Taxes %', params.retentionComponents.taxes)]);
   }
 
   private calculateLineP_OtherAdjustment(): void {
@@ -437,6 +547,8 @@ export class UHCRenewalCalculator {
     lineP.current.total = otherPct;
     
     lineP.prior = null;
+
+    this.setTrace('P', 'Other retention % ÷ 100', [inputOperand('Other %', params.retentionComponents.other)]);
   }
 
   private calculateLineQ_TotalRetention(): void {
@@ -451,6 +563,12 @@ export class UHCRenewalCalculator {
     lineQ.current.total = lineQ.current.medical;
     
     lineQ.prior = null;
+
+    this.setTrace('Q', 'Line N + Line O + Line P', [
+      lineOperand('N', lineN.current.total),
+      lineOperand('O', lineO.current.total),
+      lineOperand('P', lineP.current.total)
+    ]);
   }
 
   private calculateLineR_ExperiencePremiumPMPM(): void {
@@ -466,6 +584,11 @@ export class UHCRenewalCalculator {
     lineR.current.total = lineM.current.total / retentionFactor;
     
     lineR.prior = null;
+
+    this.setTrace('R', 'Line M ÷ (1 − Line Q)', [
+      lineOperand('M', lineM.current.total),
+      lineOperand('Q', lineQ.current.total)
+    ]);
   }
 
   // MANUAL RATING PMPM SECTION (Lines S-V)
@@ -482,6 +605,11 @@ export class UHCRenewalCalculator {
     lineS.current.total = baseManual;
     
     lineS.prior = null;
+
+    this.setTrace('S', 'Base manual PMPM, split medical/Rx by experience', [
+      inputOperand('Base manual PMPM', baseManual),
+      inputOperand('Medical share', this.medicalRxSplit.medical)
+    ], this.periodSources());
   }
 
   private calculateLineT_AgeSexAdjustment(): void {
@@ -496,6 +624,11 @@ export class UHCRenewalCalculator {
     lineT.current.total = lineS.current.total * ageSexAdj;
     
     lineT.prior = null;
+
+    this.setTrace('T', 'Line S × age/sex adjustment', [
+      lineOperand('S', lineS.current.total),
+      inputOperand('Age/sex adjustment', ageSexAdj)
+    ]);
   }
 
   private calculateLineU_OtherAdjustment(): void {
@@ -510,6 +643,11 @@ export class UHCRenewalCalculator {
     lineU.current.total = lineT.current.total * otherAdj;
     
     lineU.prior = null;
+
+    this.setTrace('U', 'Line T × other manual adjustment', [
+      lineOperand('T', lineT.current.total),
+      inputOperand('Other adjustment', otherAdj)
+    ]);
   }
 
   private calculateLineV_ManualPremiumPMPM(): void {
@@ -522,6 +660,8 @@ export class UHCRenewalCalculator {
     lineV.current.total = lineU.current.total;
     
     lineV.prior = null;
+
+    this.setTrace('V', 'Line U', [lineOperand('U', lineU.current.total)]);
   }
 
   // RENEWAL ACTION SECTION (Lines W-AM)
@@ -529,29 +669,51 @@ export class UHCRenewalCalculator {
   private calculateLineW_ExperienceRating(): void {
     const lineR = this.getCalculationLine('R');
     const lineW = this.getCalculationLine('W');
-    const params = this.input.carrierSpecificParameters;
-    
-    const experienceWeight = params.credibilityWeights.experience;
+    const { credibilityWeights, credibilitySettings } = this.input.carrierSpecificParameters;
+    const memberMonths = getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.current) +
+      (this.periods.prior ? getMemberMonthsForPeriod(this.input.monthlyClaimsData, this.periods.prior) : 0);
+
+    // The supplied experience weight unless other settings compute it from the experience
+    this.credibility = calculateCredibility(
+      credibilityExposure(this.input, memberMonths),
+      credibilitySettings ?? { method: 'supplied', credibility: credibilityWeights.experience }
+    );
+    const experienceWeight = this.credibility.credibility;
     
     lineW.current.medical = lineR.current.medical * experienceWeight;
     lineW.current.rx = lineR.current.rx * experienceWeight;
     lineW.current.total = lineR.current.total * experienceWeight;
     
     lineW.prior = null;
+
+    this.setTrace('W', 'Line R × experience credibility', [
+      lineOperand('R', lineR.current.total),
+      inputOperand('Experience credibility', experienceWeight),
+      ...(credibilitySettings ? credibilityOperands(this.credibility) : [])
+    ]);
   }
 
   private calculateLineX_ManualRating(): void {
     const lineV = this.getCalculationLine('V');
     const lineX = this.getCalculationLine('X');
-    const params = this.input.carrierSpecificParameters;
-    
-    const manualWeight = params.credibilityWeights.manual;
+    const manualWeight = this.manualWeight();
     
     lineX.current.medical = lineV.current.medical * manualWeight;
     lineX.current.rx = lineV.current.rx * manualWeight;
     lineX.current.total = lineV.current.total * manualWeight;
     
     lineX.prior = null;
+
+    this.setTrace('X', 'Line V × manual weight', [
+      lineOperand('V', lineV.current.total),
+      inputOperand('Manual weight', manualWeight)
+    ]);
+  }
+
+  // The supplied manual weight, or the remainder when the experience credibility is computed
+  private manualWeight(): number {
+    const { credibilityWeights, credibilitySettings } = this.input.carrierSpecificParameters;
+    return credibilitySettings ? 1 - this.credibility!.credibility : credibilityWeights.manual;
   }
 
   private calculateLineY_InitialCalculatedRenewalCost(): void {
@@ -565,6 +727,11 @@ export class UHCRenewalCalculator {
     lineY.current.total = lineW.current.total + lineX.current.total;
     
     lineY.prior = null;
+
+    this.setTrace('Y', 'Line W + Line X', [
+      lineOperand('W', lineW.current.total),
+      lineOperand('X', lineX.current.total)
+    ]);
   }
 
   private calculateLineZ_OtherAdjustment(): void {
@@ -578,6 +745,8 @@ export class UHCRenewalCalculator {
     lineZ.current.total = otherAdj;
     
     lineZ.prior = null;
+
+    this.setTrace('Z', 'Other adjustment factor', [inputOperand('Other adjustment', otherAdj)]);
   }
 
   private calculateLineAA_PMPMPriorToReformItems(): void {
@@ -591,6 +760,11 @@ export class UHCRenewalCalculator {
     lineAA.current.total = lineY.current.total * lineZ.current.total;
     
     lineAA.prior = null;
+
+    this.setTrace('AA', 'Line Y × Line Z', [
+      lineOperand('Y', lineY.current.total),
+      lineOperand('Z', lineZ.current.total)
+    ]);
   }
 
   private calculateLineAB_ReformItems(): void {
@@ -605,6 +779,8 @@ export class UHCRenewalCalculator {
     lineAB.current.total = reformItems;
     
     lineAB.prior = null;
+
+    this.setTrace('AB', 'Reform items PMPM', [inputOperand('Reform items', reformItems)]);
   }
 
   private calculateLineAC_Commission(): void {
@@ -619,6 +795,8 @@ export class UHCRenewalCalculator {
     lineAC.current.total = commission;
     
     lineAC.prior = null;
+
+    this.setTrace('AC', 'Commission PMPM', [inputOperand('Commission', commission)]);
   }
 
   private calculateLineAD_Fees(): void {
@@ -633,6 +811,8 @@ export class UHCRenewalCalculator {
     lineAD.current.total = fees;
     
     lineAD.prior = null;
+
+    this.setTrace('AD', 'Fees PMPM', [inputOperand('Fees', fees)]);
   }
 
   private calculateLineAE_CalculatedRenewalCostPMPM(): void {
@@ -648,6 +828,13 @@ export class UHCRenewalCalculator {
     lineAE.current.total = lineAA.current.total + lineAB.current.total + lineAC.current.total + lineAD.current.total;
     
     lineAE.prior = null;
+
+    this.setTrace('AE', 'Line AA + Line AB + Line AC + Line AD', [
+      lineOperand('AA', lineAA.current.total),
+      lineOperand('AB', lineAB.current.total),
+      lineOperand('AC', lineAC.current.total),
+      lineOperand('AD', lineAD.current.total)
+    ]);
   }
 
   private calculateLineAF_CurrentRevenuePMPM(): void {
@@ -662,6 +849,8 @@ export class UHCRenewalCalculator {
     lineAF.current.total = currentRevenue;
     
     lineAF.prior = null;
+
+    this.setTrace('AF', 'Current revenue PMPM', [inputOperand('Current revenue PMPM', currentRevenue)]);
   }
 
   private calculateLineAG_CalculatedRenewalAction(): void {
@@ -677,6 +866,11 @@ export class UHCRenewalCalculator {
     lineAG.current.total = renewalAction;
     
     lineAG.prior = null;
+
+    this.setTrace('AG', '(Line AE − Line AF) ÷ Line AF', [
+      lineOperand('AE', lineAE.current.total),
+      lineOperand('AF', lineAF.current.total)
+    ]);
   }
 
   private calculateLineAH_SuggestedRenewalAction(): void {
@@ -698,6 +892,11 @@ export class UHCRenewalCalculator {
     }
     
     lineAH.prior = null;
+
+    this.setTrace('AH', suggestedAction === undefined ? 'Line AG (no suggested action supplied)' : 'Suggested renewal action',
+      suggestedAction === undefined
+        ? [lineOperand('AG', this.getCalculationLine('AG').current.total)]
+        : [inputOperand('Suggested renewal action', suggestedAction)]);
   }
 
   private calculateLineAI_RevenueWithSuggestedAction(): void {
@@ -714,6 +913,11 @@ export class UHCRenewalCalculator {
     lineAI.current.total = revenueWithAction;
     
     lineAI.prior = null;
+
+    this.setTrace('AI', 'Line AF × (1 + Line AH)', [
+      lineOperand('AF', lineAF.current.total),
+      lineOperand('AH', lineAH.current.total)
+    ]);
   }
 
   private calculateLineAJ_RevenueVsCostDifference(): void {
@@ -727,6 +931,11 @@ export class UHCRenewalCalculator {
     lineAJ.current.total = lineAI.current.total - lineAE.current.total;
     
     lineAJ.prior = null;
+
+    this.setTrace('AJ', 'Line AI − Line AE', [
+      lineOperand('AI', lineAI.current.total),
+      lineOperand('AE', lineAE.current.total)
+    ]);
   }
 
   private calculateLineAK_MarginPercent(): void {
@@ -742,6 +951,11 @@ export class UHCRenewalCalculator {
     lineAK.current.total = marginPct;
     
     lineAK.prior = null;
+
+    this.setTrace('AK', 'Line AJ ÷ Line AI', [
+      lineOperand('AJ', lineAJ.current.total),
+      lineOperand('AI', lineAI.current.total)
+    ]);
   }
 
   private calculateLineAL_LossRatio(): void {
@@ -757,6 +971,11 @@ export class UHCRenewalCalculator {
     lineAL.current.total = lossRatio;
     
     lineAL.prior = null;
+
+    this.setTrace('AL', 'Line AE ÷ Line AI', [
+      lineOperand('AE', lineAE.current.total),
+      lineOperand('AI', lineAI.current.total)
+    ]);
   }
 
   private calculateLineAM_FinalRateActionSummary(): void {
@@ -769,20 +988,21 @@ export class UHCRenewalCalculator {
     lineAM.current.total = lineAH.current.total;
     
     lineAM.prior = null;
+
+    this.setTrace('AM', 'Line AH', [lineOperand('AH', lineAH.current.total)]);
   }
 
   // Helper methods
   
-  private calculatePooledClaimsAmount(period: Period, threshold: number): number {
-    if (!this.input.largeClaimantsData) return 0;
-    
-    return this.input.largeClaimantsData
-      .filter(claimant => {
-        const claimDate = new Date(claimant.incurredDate);
-        return claimDate >= period.start && claimDate <= period.end && 
-               claimant.totalAmount > threshold;
-      })
-      .reduce((sum, claimant) => sum + Math.max(0, claimant.totalAmount - threshold), 0);
+  private setTrace(line: string, formula: string, operands: TraceOperand[], sources?: string[]): void {
+    this.getCalculationLine(line).trace = { formula, operands, sources };
+  }
+
+  private periodSources(): string[] {
+    return [
+      periodSource('Current period', this.input.monthlyClaimsData, this.periods.current),
+      ...(this.periods.prior ? [periodSource('Prior period', this.input.monthlyClaimsData, this.periods.prior)] : [])
+    ];
   }
 
   private getCalculationLine(line: string): UHCCalculationLine {
@@ -815,6 +1035,15 @@ export class UHCRenewalCalculator {
       },
       rateChange: lineAH.current.total, // Use suggested action as primary rate change
       calculations: this.calculations,
+      trace: buildCalculationTrace(this.calculations.map(line => ({
+        id: line.line,
+        description: line.description,
+        value: line.current.total,
+        trace: line.trace
+      }))),
+      poolingExhibit: this.poolingExhibit,
+      largeClaimAdjustment: this.largeClaimAdjustment,
+      credibility: this.credibility!,
       periods: this.periods,
       summary: {
         weightedExperience: {
@@ -823,9 +1052,9 @@ export class UHCRenewalCalculator {
           total: this.getCalculationLine('J').current.total
         },
         credibilityWeighting: {
-          experience: this.input.carrierSpecificParameters.credibilityWeights.experience,
-          manual: this.input.carrierSpecificParameters.credibilityWeights.manual,
-          credibilityFactor: this.input.carrierSpecificParameters.credibilityWeights.experience
+          experience: this.credibility!.credibility,
+          manual: this.manualWeight(),
+          credibilityFactor: this.credibility!.credibility
         },
         totalRetention: lineQ.current.total,
         projectedAnnualPremium: lineAE.current.total * currentMM
@@ -848,7 +1077,7 @@ export class UHCRenewalCalculator {
       dataQuality: {
         dataCompleteness: this.calculateDataCompleteness(),
         annualizationApplied: this.periods.current.months < 12,
-        credibilityScore: this.input.carrierSpecificParameters.credibilityWeights.experience
+        credibilityScore: this.credibility!.credibility
       }
     };
   }
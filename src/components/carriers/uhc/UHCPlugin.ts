@@ -0,0 +1,162 @@
+import { CarrierPlugin } from '../registry';
+import { numberParameter } from '../parameterSchema';
+import { UniversalInput } from '../../../types/common';
+import { UHCInput } from '../../../types/uhc';
+import { UHCRenewalCalculator } from './UHCCalculator';
+import UHCTemplate from './UHCTemplate';
+import { calculateManualRatesFromExperience, calculateCurrentPremiumFromExperience } from '../../../utils/experienceEstimates';
+
+const UHC_DEFAULTS = {
+  poolingThreshold: 125000,
+  poolingFactor: 0.156,
+  underwritingAdjustment: 1,
+  planChangeAdjustment: 1.002,
+  memberChangeAdjustment: 1,
+  medicalTrend: 0.0969,
+  rxTrend: 0.0788,
+  projectionMonthsCurrent: 20,
+  projectionMonthsPrior: 28,
+  experienceWeightCurrent: 0.70,
+  experienceCredibility: 0.42,
+  ageSexAdjustment: 1.168,
+};
+
+// Total retention % by group size, used when none is entered
+function retentionPercentForGroupSize(input: UniversalInput): number {
+  const totalMemberMonths = input.monthlyClaimsData.reduce((sum, month) =>
+    sum + (month.memberMonths?.medical || 0) + (month.memberMonths?.rx || 0), 0);
+
+  // Large groups (>30,000 MM): 12-13% retention
+  // Medium groups (10,000-30,000 MM): 13-15% retention
+  // Small groups (<10,000 MM): 15-16% retention
+  if (totalMemberMonths > 30000) return 12.5;
+  if (totalMemberMonths > 10000) return 14.0;
+  return 15.5;
+}
+
+export const uhcPlugin: CarrierPlugin<UHCInput> = {
+  id: 'UHC',
+  label: 'UHC',
+  calculator: UHCRenewalCalculator,
+  template: UHCTemplate,
+  defaultParameters: { ...UHC_DEFAULTS },
+  parameterSchema: [
+    { key: 'poolingThreshold', label: 'Pooling Threshold', unit: 'currency', min: 10000, max: 2000000, aliases: ['poolingLevel'], sensitivity: 'pooling', assumption: { value: 'poolingLevel', line: 'medical' } },
+    { key: 'poolingFactor', label: 'Pooling Factor', unit: 'rate', min: 0, max: 1, description: 'Pooling charge as a share of pooled claims (Line L)' },
+    { key: 'underwritingAdjustment', label: 'Underwriting Adjustment', unit: 'factor', min: 0.5, max: 2 },
+    { key: 'planChangeAdjustment', label: 'Plan Change Adjustment', unit: 'factor', min: 0.5, max: 2, planDesignLine: 'H' },
+    { key: 'memberChangeAdjustment', label: 'Member Change Adjustment', unit: 'factor', min: 0.5, max: 2 },
+    { key: 'medicalTrend', label: 'Medical Trend (annual)', unit: 'rate', min: -0.2, max: 0.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'medical' } },
+    { key: 'rxTrend', label: 'Rx Trend (annual)', unit: 'rate', min: -0.2, max: 0.5, sensitivity: 'trend', assumption: { value: 'trend', line: 'rx' } },
+    { key: 'projectionMonthsCurrent', label: 'Projection Months Current', unit: 'months', min: 0, max: 60, trendMonths: 'current' },
+    { key: 'projectionMonthsPrior', label: 'Projection Months Prior', unit: 'months', min: 0, max: 72, trendMonths: 'prior' },
+    { key: 'experienceWeightCurrent', label: 'Experience Weight Current', unit: 'rate', min: 0, max: 1, aliases: ['experienceWeightingCurrent'], sensitivity: 'experienceWeight' },
+    { key: 'experienceCredibility', label: 'Experience Credibility', unit: 'rate', min: 0, max: 1 },
+    { key: 'ageSexAdjustment', label: 'Age/Sex Adjustment', unit: 'factor', min: 0.5, max: 2, demographic: 'renewal' },
+    { key: 'retentionPercent', label: 'Total Retention %', unit: 'percent', min: 0, max: 40, description: 'Split into administration, taxes, commission, fees and other; by group size when blank', sensitivity: 'retention' },
+    { key: 'currentRevenuePMPM', label: 'Current Revenue PMPM', unit: 'currency', min: 0, max: 10000, aliases: ['currentPremiumPMPM'], description: 'Estimated from experience when blank' },
+  ],
+
+  estimateParameters: input => ({ retentionPercent: retentionPercentForGroupSize(input) }),
+
+  adaptInput: (input, params) => {
+    const totalRetentionPct = Number(params?.retentionPercent) || retentionPercentForGroupSize(input);
+
+    // Calculate current premium from experience data if not provided
+    const currentPremium = Number(params?.currentRevenuePMPM) || calculateCurrentPremiumFromExperience(input);
+
+    // Calculate manual rates from experience data
+    const calculatedManualRates = calculateManualRatesFromExperience(input);
+    const experienceWeightCurrent = numberParameter(params, UHC_DEFAULTS, 'experienceWeightCurrent');
+    const experienceCredibility = numberParameter(params, UHC_DEFAULTS, 'experienceCredibility');
+
+    return {
+      ...input,
+      carrierSpecificParameters: {
+        experiencePeriodRule: params?.experiencePeriodRule,
+        poolingSplit: params?.poolingSplit,
+        credibilitySettings: params?.credibilitySettings,
+        ibnr: params?.ibnr,
+        poolingThreshold: numberParameter(params, UHC_DEFAULTS, 'poolingThreshold'),
+        poolingFactor: numberParameter(params, UHC_DEFAULTS, 'poolingFactor'),
+        underwritingAdjustment: numberParameter(params, UHC_DEFAULTS, 'underwritingAdjustment'),
+        planChangeAdjustment: numberParameter(params, UHC_DEFAULTS, 'planChangeAdjustment'),
+        trendRates: {
+          medical: numberParameter(params, UHC_DEFAULTS, 'medicalTrend'),
+          rx: numberParameter(params, UHC_DEFAULTS, 'rxTrend')
+        },
+        projectionMonths: {
+          current: numberParameter(params, UHC_DEFAULTS, 'projectionMonthsCurrent'),
+          prior: numberParameter(params, UHC_DEFAULTS, 'projectionMonthsPrior')
+        },
+        experienceWeights: [experienceWeightCurrent, 1 - experienceWeightCurrent],
+        credibilityWeights: {
+          experience: experienceCredibility,
+          manual: 1 - experienceCredibility
+        },
+        manualRates: {
+          baseManualPMPM: calculatedManualRates.total,
+          ageSexAdjustment: numberParameter(params, UHC_DEFAULTS, 'ageSexAdjustment'),
+          otherAdjustment: 1.000
+        },
+        retentionComponents: {
+          administrative: totalRetentionPct * 0.33,  // ~33% of total retention
+          taxes: totalRetentionPct * 0.17,        // ~17% of total retention
+          commission: 0.0,                         // Separate from retention
+          other: totalRetentionPct * 0.10         // ~10% of total retention
+        },
+        memberChangeAdjustment: numberParameter(params, UHC_DEFAULTS, 'memberChangeAdjustment'),
+        currentRevenuePMPM: currentPremium,
+        reformItems: 0,
+        commission: totalRetentionPct * 0.27,  // ~27% of total retention as commission
+        fees: totalRetentionPct * 0.13,       // ~13% of total retention as fees
+        adjustmentFactors: {
+          other: 1.000
+        }
+      }
+    };
+  },
+
+  calculate: async (uhcInput) => {
+    const uhcCalculator = new UHCRenewalCalculator(uhcInput);
+    const uhcResult = uhcCalculator.calculate();
+
+    // Convert to legacy CalculationResult format but store the native result in detailedResults
+    return {
+      carrier: uhcResult.carrier,
+      currentPremiumPMPM: uhcInput.carrierSpecificParameters.currentRevenuePMPM,
+      projectedPremiumPMPM: uhcResult.finalPremium.total,
+      requiredRateChange: uhcResult.rateChange,
+      proposedRateChange: uhcResult.rateChange,
+      calculationSteps: [
+        { label: 'Final Premium PMPM', value: uhcResult.finalPremium.total },
+        { label: 'Rate Change %', value: uhcResult.rateChange * 100 }
+      ],
+      warnings: (uhcResult.warnings || []).map((w: any) => ({ message: typeof w === 'string' ? w : w.message })),
+      trace: uhcResult.trace,
+      poolingExhibit: uhcResult.poolingExhibit,
+      largeClaimAdjustment: uhcResult.largeClaimAdjustment,
+      credibility: uhcResult.credibility,
+      // Store the native result for template access
+      detailedResults: {
+        uhc: uhcResult as any
+      }
+    };
+  },
+
+  selectTemplateResult: (result) =>
+    result.carrier === 'UHC' && result.detailedResults?.uhc ? result.detailedResults.uhc : null,
+
+  // Line B removes claims over the pooling threshold and Line L charges for them
+  summarizeResult: (result) => {
+    const uhc = result.detailedResults?.uhc;
+    const line = (id: string) => uhc?.calculations.find((c: any) => c.line === id)?.current?.total ?? null;
+    return {
+      pooledClaimsPMPM: line('B'),
+      poolingChargePMPM: line('L'),
+      credibility: uhc?.summary.credibilityWeighting.credibilityFactor ?? null,
+      // Line Y blends experience and manual premium; taking out the line Q retention leaves the blended claims cost
+      projectedClaimsPMPM: line('Y') !== null && line('Q') !== null ? line('Y') * (1 - line('Q')) : null
+    };
+  }
+};
@@ -0,0 +1,169 @@
+import React, { ChangeEvent, useState } from 'react';
+import {
+  ColumnMapping,
+  ColumnMappingProfile,
+  COLUMN_MAPPING_TARGETS,
+  IGNORE_COLUMN,
+  createMappingsForHeaders,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  exportMappingProfiles,
+  importMappingProfilesIntoStore
+} from '../../ingest';
+
+interface ColumnMappingProfilesProps {
+  headers: string[];
+  activeProfileName: string | null;
+  onApply: (mappings: ColumnMapping[], profileName: string | null) => void;
+}
+
+function downloadProfiles(profiles: ColumnMappingProfile[]) {
+  const blob = new Blob([exportMappingProfiles(profiles)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', 'column-mapping-profiles.json');
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+const ColumnMappingProfiles: React.FC<ColumnMappingProfilesProps> = ({ headers, activeProfileName, onApply }) => {
+  // Seeded once per file; the parent remounts this panel (via key) when headers or the applied profile change
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>(() => loadMappingProfiles());
+  const [profileName, setProfileName] = useState(activeProfileName || '');
+  const [mappings, setMappings] = useState<ColumnMapping[]>(() =>
+    createMappingsForHeaders(headers, profiles.find(profile => profile.name === activeProfileName))
+  );
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSelectProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name) || null;
+    setProfileName(profile?.name || '');
+    setMappings(createMappingsForHeaders(headers, profile));
+  };
+
+  const handleTargetChange = (index: number, targetField: string) => {
+    setMappings(prev => prev.map((mapping, i) => (i === index ? { ...mapping, targetField } : mapping)));
+  };
+
+  const handleSave = () => {
+    if (!profileName.trim()) {
+      setMessage('Enter a profile name to save this mapping.');
+      return;
+    }
+    setProfiles(saveMappingProfile({ name: profileName, mappings }));
+    setMessage(`Saved profile "${profileName.trim()}".`);
+  };
+
+  const handleDelete = () => {
+    setProfiles(deleteMappingProfile(profileName));
+    setMessage(`Deleted profile "${profileName}".`);
+    setProfileName('');
+  };
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = event => {
+      try {
+        setProfiles(importMappingProfilesIntoStore(String(event.target?.result || '')));
+        setMessage(`Imported profiles from ${file.name}.`);
+      } catch (error) {
+        setMessage((error as Error).message);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const savedNames = profiles.map(profile => profile.name);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Column Mapping</h3>
+          <p className="text-sm text-gray-500">
+            {activeProfileName ? `Applied profile "${activeProfileName}"` : 'No saved profile matches these headers'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadProfiles(profiles)}
+            disabled={profiles.length === 0}
+            className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-4">
+        <select
+          value={savedNames.includes(profileName) ? profileName : ''}
+          onChange={e => handleSelectProfile(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">Saved profiles...</option>
+          {savedNames.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          placeholder="Profile name, e.g. UHC Exhibit export"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+
+      <div className="space-y-2 mb-4 max-h-80 overflow-y-auto">
+        {mappings.map((mapping, index) => (
+          <div key={mapping.sourceColumn} className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">{mapping.sourceColumn}</span>
+            <select
+              value={mapping.targetField}
+              onChange={e => handleTargetChange(index, e.target.value)}
+              className="w-56 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Keep as-is</option>
+              {COLUMN_MAPPING_TARGETS.map(({ field, label }) => (
+                <option key={field} value={field}>{label}</option>
+              ))}
+              <option value={IGNORE_COLUMN}>Ignore column</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {message && <p className="text-sm text-gray-600 mb-3">{message}</p>}
+
+      <div className="flex items-center justify-end space-x-2">
+        {savedNames.includes(profileName) && (
+          <button onClick={handleDelete} className="px-4 py-2 text-sm text-red-700 bg-red-50 rounded-lg hover:bg-red-100">
+            Delete
+          </button>
+        )}
+        <button onClick={handleSave} className="px-4 py-2 text-sm text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200">
+          Save Profile
+        </button>
+        <button
+          onClick={() => onApply(mappings, savedNames.includes(profileName) ? profileName : null)}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+        >
+          Apply Mapping
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingProfiles;
@@ -10,6 +10,7 @@ import {
   EyeIcon,
   Cog6ToothIcon
 } from '@heroicons/react/24/outline';
+import { ColumnMapping, findMatchingProfile, loadMappingProfiles } from '../../ingest';
 
 // @ts-ignore
 const MotionDiv: any = motion.div;
@@ -24,13 +25,6 @@ interface FileValidationResult {
   preview: any[];
 }
 
-interface ColumnMapping {
-  sourceColumn: string;
-  targetField: string;
-  required: boolean;
-  dataType: 'string' | 'number' | 'date' | 'currency';
-}
-
 interface EnhancedFileUploaderProps {
   onFileUpload: (file: File, mapping: ColumnMapping[]) => void;
   onValidationComplete: (result: FileValidationResult) => void;
@@ -146,8 +140,9 @@ const EnhancedFileUploader: React.FC<EnhancedFileUploaderProps> = ({
       onValidationComplete(result);
       
       if (result.isValid) {
-        // Initialize column mappings
-        const mappings: ColumnMapping[] = result.columns.map(col => ({
+        // Initialize column mappings, preferring a saved profile that matches these headers
+        const profile = findMatchingProfile(loadMappingProfiles(), result.columns);
+        const mappings: ColumnMapping[] = result.columns.map(col => profile?.mappings.find(m => m.sourceColumn === col) || ({
           sourceColumn: col,
           targetField: requiredColumns.find(req => req === col) || '',
           required: requiredColumns.includes(col),
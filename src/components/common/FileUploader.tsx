@@ -1,22 +1,41 @@
-import React, { ChangeEvent } from 'react';
+import React, { ChangeEvent, useState } from 'react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import {
+  processExcelWorkbook,
+  ColumnMapping,
+  extractHeaders,
+  findMatchingProfile,
+  applyColumnMapping,
+  loadMappingProfiles
+} from '../../ingest';
+import { planDesignSchemaFor } from '../../planDesign';
+import ColumnMappingProfiles from './ColumnMappingProfiles';
 
 interface FileUploaderProps {
   onDataParsed: (data: any) => void;
 }
 
 const universalTemplateHeaders = [
-  'carrier', 'caseId', 'renewalStart', 'renewalEnd',
+  'carrier', 'caseId', 'renewalStart', 'renewalEnd', 'marketSegment', 'assumptionSet',
   'Month', 'memberMonthsMedical', 'memberMonthsRx', 'Medical Claims', 'Pharmacy Claims', 'paidClaimsMedical', 'paidClaimsRx',
-  'largeClaimantId', 'largeClaimantPeriod', 'largeClaimantTotal', 'largeClaimantMedical', 'largeClaimantRx', 'largeClaimantDiagnosis',
+  'largeClaimantId', 'largeClaimantPeriod', 'largeClaimantTotal', 'largeClaimantMedical', 'largeClaimantRx', 'largeClaimantDiagnosis', 'largeClaimantLaser',
+  'largeClaimantStatus', 'largeClaimantExpectedCost', 'largeClaimantNote',
   'manualRateMedical', 'manualRateRx',
   // Carrier-specific parameters (add more as needed for each carrier)
   'poolingThreshold', 'poolingFactor', 'deductibleSuppressionFactor', 'annualTrendFactor', 'experienceWeightingCurrent', 'experienceWeightingPrior',
   'retentionAdmin', 'retentionRisk', 'retentionProfit', 'retentionOther',
   'trendFactor', 'planChangeAdjustment', 'memberChangeAdjustment',
   'credibilityWeightingCurrent', 'credibilityWeightingPrior',
-  'enrollmentMonth', 'enrollmentSubscribers', 'enrollmentMembers'
+  'enrollmentMonth', 'enrollmentSubscribers', 'enrollmentMembers',
+  // Tier enrollment and current rates for tier rating
+  'eeEnrollment', 'esEnrollment', 'ecEnrollment', 'familyEnrollment',
+  'eeCurrentRate', 'esCurrentRate', 'ecCurrentRate', 'familyCurrentRate',
+  // Employee census rows, one per employee, and the age/sex table they are rated on
+  'Employee ID', 'DOB', 'Gender', 'Tier', 'ZIP', 'Dependents', 'ageSexTable',
+  // Current and proposed plan designs for the plan change factor
+  ...planDesignSchemaFor('current').map(field => field.key),
+  ...planDesignSchemaFor('proposed').map(field => field.key)
 ];
 
 function downloadTemplate() {
@@ -31,48 +50,54 @@ function downloadTemplate() {
   document.body.removeChild(link);
 }
 
-// Helper function to process Excel workbook with multiple sheets
-function processExcelWorkbook(workbook: XLSX.WorkBook): any[] {
-  console.log('Excel workbook sheets found:', workbook.SheetNames);
+const validate = (rows: any[]) => {
+  console.log('Validating data with', rows.length, 'rows');
   
-  let allData: any[] = [];
-  
-  // Process each sheet
-  workbook.SheetNames.forEach((sheetName, index) => {
-    console.log(`Processing sheet ${index + 1}: "${sheetName}"`);
-    
-    const worksheet = workbook.Sheets[sheetName];
-    const sheetData = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-    
-    console.log(`Sheet "${sheetName}" contains ${sheetData.length} rows`);
-    
-    if (sheetData.length > 0) {
-      console.log(`Sample data from "${sheetName}":`, sheetData[0]);
-      
-      // Tag data with sheet source for debugging
-      const taggedData = sheetData.map((row: any) => ({
-        ...row,
-        _sourceSheet: sheetName,
-        _sheetIndex: index
-      }));
-      
-      allData = allData.concat(taggedData);
+  // Only require Medical Claims and Pharmacy Claims if present
+  const requiredFields = ['Medical Claims', 'Pharmacy Claims'];
+  for (const field of requiredFields) {
+    const hasField = rows.some(row => row[field] && row[field] !== '');
+    if (!hasField) {
+      alert(`Missing required field: ${field} in all rows`);
+      return false;
     }
-  });
+  }
   
-  console.log('Combined data from all sheets:', allData.length, 'total rows');
+  // Check for large claimants data
+  const largeClaimantRows = rows.filter(row => row.largeClaimantId && row.largeClaimantId !== '');
+  console.log('Found', largeClaimantRows.length, 'large claimant rows');
   
-  // Debug: Show unique values for renewal dates
-  const renewalStarts = Array.from(new Set(allData.map(row => row.renewalStart).filter(Boolean)));
-  const renewalEnds = Array.from(new Set(allData.map(row => row.renewalEnd).filter(Boolean)));
-  
-  console.log('Unique renewalStart values found:', renewalStarts);
-  console.log('Unique renewalEnd values found:', renewalEnds);
+  // If any row has largeClaimantId, require largeClaimantTotal
+  for (const row of largeClaimantRows) {
+    if (!row.largeClaimantTotal || row.largeClaimantTotal === '') {
+      alert('Missing largeClaimantTotal for a large claimant row.');
+      return false;
+    }
+  }
   
-  return allData;
-}
+  return true;
+};
 
 const FileUploader: React.FC<FileUploaderProps> = ({ onDataParsed }) => {
+  const [rawRows, setRawRows] = useState<any[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [activeProfileName, setActiveProfileName] = useState<string | null>(null);
+
+  const applyMapping = (rows: any[], mappings: ColumnMapping[], profileName: string | null) => {
+    setActiveProfileName(profileName);
+    const mappedRows = applyColumnMapping(rows, mappings);
+    if (validate(mappedRows)) onDataParsed(mappedRows);
+  };
+
+  // Apply the saved profile matching these headers, if any, before validating
+  const handleRows = (rows: any[]) => {
+    const rowHeaders = extractHeaders(rows);
+    const profile = findMatchingProfile(loadMappingProfiles(), rowHeaders);
+    setRawRows(rows);
+    setHeaders(rowHeaders);
+    applyMapping(rows, profile?.mappings ?? [], profile?.name ?? null);
+  };
+
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -86,41 +111,13 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onDataParsed }) => {
       const data = event.target?.result;
       if (!data) return;
       
-      const validate = (rows: any[]) => {
-        console.log('Validating data with', rows.length, 'rows');
-        
-        // Only require Medical Claims and Pharmacy Claims if present
-        const requiredFields = ['Medical Claims', 'Pharmacy Claims'];
-        for (const field of requiredFields) {
-          const hasField = rows.some(row => row[field] && row[field] !== '');
-          if (!hasField) {
-            alert(`Missing required field: ${field} in all rows`);
-            return false;
-          }
-        }
-        
-        // Check for large claimants data
-        const largeClaimantRows = rows.filter(row => row.largeClaimantId && row.largeClaimantId !== '');
-        console.log('Found', largeClaimantRows.length, 'large claimant rows');
-        
-        // If any row has largeClaimantId, require largeClaimantTotal
-        for (const row of largeClaimantRows) {
-          if (!row.largeClaimantTotal || row.largeClaimantTotal === '') {
-            alert('Missing largeClaimantTotal for a large claimant row.');
-            return false;
-          }
-        }
-        
-        return true;
-      };
-      
       if (ext === 'csv') {
         Papa.parse(data as string, {
           header: true,
           skipEmptyLines: true,
           complete: (results) => {
             console.log('CSV parsed:', results.data.length, 'rows');
-            if (validate(results.data)) onDataParsed(results.data);
+            handleRows(results.data);
           },
         });
       } else if (ext === 'xlsx' || ext === 'xls') {
@@ -128,11 +125,8 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onDataParsed }) => {
         
         // Process all sheets and combine data
         const combinedData = processExcelWorkbook(workbook);
-        
-        if (validate(combinedData)) {
-          console.log('Sending combined data to dashboard:', combinedData.length, 'rows');
-          onDataParsed(combinedData);
-        }
+        console.log('Sending combined data to dashboard:', combinedData.length, 'rows');
+        handleRows(combinedData);
       }
     };
     
@@ -159,6 +153,16 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onDataParsed }) => {
         Large claimants data can be in a separate sheet. Only medical claims and Rx claims are required. <br />
         All other fields are auto-calculated or use industry defaults, and can be overridden after upload.
       </div>
+      {headers.length > 0 && (
+        <div className="mt-4">
+          <ColumnMappingProfiles
+            key={`${headers.join('|')}:${activeProfileName ?? ''}`}
+            headers={headers}
+            activeProfileName={activeProfileName}
+            onApply={(mappings, profileName) => applyMapping(rawRows, mappings, profileName)}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ASSUMPTION_ALL_CARRIERS,
+  AssumptionEntry,
+  AssumptionSet,
+  AssumptionValue,
+  COVERAGE_LINES,
+  CoverageLine,
+  MARKET_SEGMENTS,
+  MarketSegment,
+  listAssumptionSets,
+  publishAssumptionSet,
+  quarterOf
+} from '../../assumptions';
+import { listCarrierPlugins } from '../carriers';
+
+// Rates are edited as percentages; pooling levels in dollars
+const VALUE_COLUMNS: { value: AssumptionValue; label: string; percent: boolean }[] = [
+  { value: 'trend', label: 'Annual trend %', percent: true },
+  { value: 'poolingLevel', label: 'Pooling level $', percent: false },
+  { value: 'retention', label: 'Retention %', percent: true },
+  { value: 'manualLoad', label: 'Manual load %', percent: true }
+];
+
+function formatValue(amount: number | undefined, percent: boolean): string {
+  if (amount === undefined) return '—';
+  return percent ? `${(amount * 100).toFixed(2)}%` : `$${amount.toLocaleString()}`;
+}
+
+function nextQuarter(): string {
+  const today = new Date();
+  return quarterOf(new Date(today.getFullYear(), today.getMonth() + 3, 1));
+}
+
+const AssumptionLibraryPage: React.FC = () => {
+  const [sets, setSets] = useState<AssumptionSet[]>(() => listAssumptionSets());
+  const [selectedVersion, setSelectedVersion] = useState<string>(() => sets[sets.length - 1].version);
+  const [quarter, setQuarter] = useState(nextQuarter);
+  const [notes, setNotes] = useState('');
+  const [draft, setDraft] = useState<AssumptionEntry[]>(() => sets[sets.length - 1].entries);
+  // Bumped when the draft is replaced, so its inputs pick up the new values
+  const [draftGeneration, setDraftGeneration] = useState(0);
+  const [newEntry, setNewEntry] = useState<{ carrier: string; line: CoverageLine; segment: MarketSegment }>({
+    carrier: ASSUMPTION_ALL_CARRIERS,
+    line: 'medical',
+    segment: 'large'
+  });
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const selected = sets.find(set => set.version === selectedVersion) ?? sets[sets.length - 1];
+  const carriers = [ASSUMPTION_ALL_CARRIERS, ...listCarrierPlugins().map(plugin => plugin.id)];
+
+  // A blank cell leaves the value to the firm-wide entry
+  const updateValue = (index: number, column: typeof VALUE_COLUMNS[number], text: string) => {
+    const parsed = parseFloat(text);
+    setDraft(prev => prev.map((entry, i) => {
+      if (i !== index) return entry;
+      const next = { ...entry };
+      if (text === '' || isNaN(parsed)) {
+        delete next[column.value];
+      } else {
+        next[column.value] = column.percent ? parsed / 100 : parsed;
+      }
+      return next;
+    }));
+  };
+
+  const entryKey = (entry: { carrier: string; line: CoverageLine; segment: MarketSegment }) =>
+    `${entry.carrier}-${entry.line}-${entry.segment}`;
+
+  const addEntry = () => {
+    if (draft.some(entry => entryKey(entry) === entryKey(newEntry))) {
+      setMessage({ text: 'The draft already has an entry for that carrier, line and segment', error: true });
+      return;
+    }
+    setMessage(null);
+    setDraft(prev => [...prev, { ...newEntry }]);
+  };
+
+  const startFrom = (set: AssumptionSet) => {
+    setDraft(set.entries);
+    setDraftGeneration(prev => prev + 1);
+  };
+
+  const handlePublish = () => {
+    try {
+      const published = publishAssumptionSet({ effectiveQuarter: quarter, notes, entries: draft });
+      const refreshed = listAssumptionSets();
+      setSets(refreshed);
+      setSelectedVersion(published.version);
+      setNotes('');
+      setMessage({ text: `Published assumption set ${published.version}`, error: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Assumption Library</h1>
+            <p className="mt-2 text-lg text-gray-600">Quarterly trend, pooling and retention assumptions by carrier, line and segment</p>
+          </div>
+          <Link to="/dashboard" className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Published Sets</h2>
+          <p className="text-sm text-gray-500 mb-3">
+            Each renewal uses the latest set effective on or before its renewal quarter; published sets are never changed.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Published</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Entries</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {[...sets].reverse().map(set => (
+                  <tr
+                    key={set.version}
+                    onClick={() => setSelectedVersion(set.version)}
+                    className={`cursor-pointer ${set.version === selected.version ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{set.version}</td>
+                    <td className="px-4 py-3 text-sm">{set.effectiveQuarter}</td>
+                    <td className="px-4 py-3 text-sm">{new Date(set.publishedAt).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-sm text-right">{set.entries.length}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{set.notes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Set {selected.version}</h2>
+            <button
+              onClick={() => startFrom(selected)}
+              className="px-3 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Start new set from this one
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Carrier</th>
+                  <th className="py-2 pr-4 font-medium">Line</th>
+                  <th className="py-2 pr-4 font-medium">Segment</th>
+                  {VALUE_COLUMNS.map(column => (
+                    <th key={column.value} className="py-2 pr-4 font-medium text-right">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {selected.entries.map(entry => (
+                  <tr key={entryKey(entry)}>
+                    <td className="py-1.5 pr-4">{entry.carrier === ASSUMPTION_ALL_CARRIERS ? 'All carriers' : entry.carrier}</td>
+                    <td className="py-1.5 pr-4">{entry.line}</td>
+                    <td className="py-1.5 pr-4">{entry.segment}</td>
+                    {VALUE_COLUMNS.map(column => (
+                      <td key={column.value} className="py-1.5 pr-4 text-right font-mono">
+                        {formatValue(entry[column.value], column.percent)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Publish a Quarterly Set</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            <label className="text-xs text-gray-600">
+              Effective quarter
+              <input
+                value={quarter}
+                onChange={e => setQuarter(e.target.value.trim().toUpperCase())}
+                placeholder="2025-Q3"
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600 sm:col-span-2">
+              Notes
+              <input
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Carrier</th>
+                  <th className="py-2 pr-4 font-medium">Line</th>
+                  <th className="py-2 pr-4 font-medium">Segment</th>
+                  {VALUE_COLUMNS.map(column => (
+                    <th key={column.value} className="py-2 pr-4 font-medium">{column.label}</th>
+                  ))}
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {draft.map((entry, index) => (
+                  <tr key={`${draftGeneration}-${entryKey(entry)}`}>
+                    <td className="py-1 pr-4">{entry.carrier === ASSUMPTION_ALL_CARRIERS ? 'All carriers' : entry.carrier}</td>
+                    <td className="py-1 pr-4">{entry.line}</td>
+                    <td className="py-1 pr-4">{entry.segment}</td>
+                    {VALUE_COLUMNS.map(column => {
+                      const amount = entry[column.value];
+                      return (
+                        <td key={column.value} className="py-1 pr-4">
+                          <input
+                            type="number"
+                            step="any"
+                            defaultValue={amount === undefined ? '' : Number((column.percent ? amount * 100 : amount).toFixed(4))}
+                            onChange={e => updateValue(index, column, e.target.value)}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                        className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2 mb-4">
+            <label className="text-xs text-gray-600">
+              Carrier
+              <select
+                value={newEntry.carrier}
+                onChange={e => setNewEntry(prev => ({ ...prev, carrier: e.target.value }))}
+                className="mt-1 block border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {carriers.map(carrier => (
+                  <option key={carrier} value={carrier}>{carrier === ASSUMPTION_ALL_CARRIERS ? 'All carriers' : carrier}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Line
+              <select
+                value={newEntry.line}
+                onChange={e => setNewEntry(prev => ({ ...prev, line: e.target.value as CoverageLine }))}
+                className="mt-1 block border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {COVERAGE_LINES.map(line => <option key={line} value={line}>{line}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Segment
+              <select
+                value={newEntry.segment}
+                onChange={e => setNewEntry(prev => ({ ...prev, segment: e.target.value as MarketSegment }))}
+                className="mt-1 block border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {MARKET_SEGMENTS.map(segment => <option key={segment} value={segment}>{segment}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={addEntry}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Add Entry
+            </button>
+            <button
+              onClick={handlePublish}
+              className="ml-auto px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+            >
+              Publish {quarter}
+            </button>
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.error ? 'text-red-700' : 'text-green-700'}`}>{message.text}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssumptionLibraryPage;
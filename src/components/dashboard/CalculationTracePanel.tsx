@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { CalculationTrace } from '../../types/common';
+import {
+  collectSources,
+  collectUpstream,
+  explainTraceNode,
+  formatTraceValue,
+  getTraceNode
+} from '../../utils/calculationTrace';
+
+interface CalculationTracePanelProps {
+  trace: CalculationTrace;
+}
+
+const CalculationTracePanel: React.FC<CalculationTracePanelProps> = ({ trace }) => {
+  const lastNode = trace.nodes[trace.nodes.length - 1];
+  const [selectedId, setSelectedId] = useState<string>(lastNode?.id ?? '');
+  const selected = getTraceNode(trace, selectedId) ?? lastNode;
+
+  if (!selected) return null;
+
+  const upstream = collectUpstream(trace, selected.id);
+  const sources = collectSources(trace, selected.id);
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">Why is this number what it is?</h2>
+        <select
+          value={selected.id}
+          onChange={e => setSelectedId(e.target.value)}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          aria-label="Calculation line"
+        >
+          {trace.nodes.map(node => (
+            <option key={node.id} value={node.id}>
+              {node.id} {node.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="rounded-md bg-gray-50 border border-gray-200 p-3 mb-4">
+        <p className="text-sm font-medium text-gray-900">
+          {selected.id} {selected.description} = {formatTraceValue(selected.value)}
+        </p>
+        <p className="text-sm text-gray-700 mt-1">{selected.formula || 'Input value, not calculated from other lines'}</p>
+      </div>
+
+      {selected.operands.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Operands</h3>
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {selected.operands.map((operand, index) => (
+                <tr key={`${operand.label}-${index}`}>
+                  <td className="py-1 pr-4 text-gray-700">
+                    {operand.line && getTraceNode(trace, operand.line) ? (
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(operand.line!)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {operand.label}
+                      </button>
+                    ) : operand.label}
+                  </td>
+                  <td className="py-1 text-right font-mono text-gray-900">{formatTraceValue(operand.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {upstream.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Upstream lines</h3>
+          <ul className="space-y-1 text-xs text-gray-700">
+            {upstream.map(node => (
+              <li key={node.id}>
+                <button type="button" onClick={() => setSelectedId(node.id)} className="text-left hover:text-blue-600">
+                  {explainTraceNode(node)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {sources.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Raw data</h3>
+          <ul className="list-disc list-inside space-y-1 text-xs text-gray-700">
+            {sources.map(source => <li key={source}>{source}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalculationTracePanel;
@@ -5,114 +5,90 @@ import {
   ChartBarIcon,
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon,
-  StarIcon,
   CheckCircleIcon,
-  XCircleIcon,
-  InformationCircleIcon
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
+import { CarrierComparisonEntry, findLowestPremiumCarrier } from '../../utils/carrierComparison';
 
 // @ts-ignore
 const MotionDiv: any = motion.div;
 
-interface CarrierData {
-  id: string;
-  name: string;
-  logo: string;
-  color: string;
-  metrics: {
-    premiumProjection: number;
-    lossRatio: number;
-    renewalRate: number;
-    memberMonths: number;
-    avgClaimCost: number;
-    totalClaims: number;
-  };
-  features: {
-    networkSize: string;
-    customerService: number; // 1-5 rating
-    digitalTools: boolean;
-    preventiveCare: boolean;
-    specialtyAccess: string;
-  };
-  pricing: {
-    baseRate: number;
-    adminFee: number;
-    stopLoss: number;
-    total: number;
-  };
-  recommendations: string[];
-  risks: string[];
-}
-
 interface CarrierComparisonProps {
-  carriers: CarrierData[];
+  entries: CarrierComparisonEntry[];
   loading?: boolean;
 }
 
-const CarrierComparison: React.FC<CarrierComparisonProps> = ({ 
-  carriers = [], 
-  loading = false 
+const CARRIER_COLORS: Record<string, string> = {
+  UHC: '#002677',
+  AETNA: '#7D3F98',
+  CIGNA: '#00A1DE',
+  BCBS: '#0072CE',
+  HUMANA: '#78BE20'
+};
+
+type MetricFormat = 'currency' | 'percent';
+
+const METRICS: Array<{ key: keyof CarrierComparisonEntry; label: string; format: MetricFormat }> = [
+  { key: 'currentPremiumPMPM', label: 'Current Premium PMPM', format: 'currency' },
+  { key: 'projectedPremiumPMPM', label: 'Projected Premium PMPM', format: 'currency' },
+  { key: 'rateAction', label: 'Rate Action', format: 'percent' },
+  { key: 'pooledClaimsPMPM', label: 'Pooled Claims PMPM', format: 'currency' },
+  { key: 'poolingChargePMPM', label: 'Pooling Charge PMPM', format: 'currency' },
+  { key: 'poolingImpactPMPM', label: 'Net Pooling Impact PMPM', format: 'currency' },
+  { key: 'credibility', label: 'Credibility', format: 'percent' }
+];
+
+const CarrierComparison: React.FC<CarrierComparisonProps> = ({
+  entries = [],
+  loading = false
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'metrics' | 'features' | 'pricing'>('overview');
-  const [selectedCarriers, setSelectedCarriers] = useState<string[]>(carriers.map(c => c.id));
-  const [comparisonMode, setComparisonMode] = useState<'side-by-side' | 'detailed'>('side-by-side');
+  const [activeTab, setActiveTab] = useState<'overview' | 'metrics'>('overview');
+  const [hiddenCarriers, setHiddenCarriers] = useState<string[]>([]);
 
   const tabs = [
     { id: 'overview', label: 'Overview', icon: BuildingOfficeIcon },
-    { id: 'metrics', label: 'Key Metrics', icon: ChartBarIcon },
-    { id: 'features', label: 'Features', icon: StarIcon },
-    { id: 'pricing', label: 'Pricing', icon: ArrowTrendingUpIcon }
+    { id: 'metrics', label: 'Key Metrics', icon: ChartBarIcon }
   ];
 
   const toggleCarrierSelection = (carrierId: string) => {
-    setSelectedCarriers(prev => 
-      prev.includes(carrierId) 
+    setHiddenCarriers(prev =>
+      prev.includes(carrierId)
         ? prev.filter(id => id !== carrierId)
         : [...prev, carrierId]
     );
   };
 
-  const getSelectedCarriers = () => carriers.filter(c => selectedCarriers.includes(c.id));
+  const getSelectedEntries = () => entries.filter(entry => !hiddenCarriers.includes(entry.carrierId));
+  const lowestPremium = findLowestPremiumCarrier(entries);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number | null) => {
+    if (amount === null) return '—';
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
     }).format(amount);
   };
 
-  const formatPercentage = (value: number) => {
+  const formatPercentage = (value: number | null) => {
+    if (value === null) return '—';
     return `${(value * 100).toFixed(1)}%`;
   };
 
-  const formatNumber = (value: number) => {
-    return new Intl.NumberFormat('en-US').format(Math.round(value));
-  };
-
-  const formatTrendPercentage = (value: number) => {
-    const sign = value >= 0 ? '+' : '';
-    return `${sign}${value.toFixed(1)}%`;
-  };
+  const formatMetric = (value: number | null, format: MetricFormat) =>
+    format === 'currency' ? formatCurrency(value) : formatPercentage(value);
 
-  const getTrendIcon = (value: number, isGoodWhenHigh: boolean = true) => {
-    const isPositive = isGoodWhenHigh ? value > 0 : value < 0;
-    return isPositive ? (
-      <ArrowTrendingUpIcon className="w-4 h-4 text-green-600" />
+  const getTrendIcon = (value: number | null) => {
+    if (value === null) return null;
+    return value > 0 ? (
+      <ArrowTrendingUpIcon className="w-4 h-4 text-red-600" />
     ) : (
-      <ArrowTrendingDownIcon className="w-4 h-4 text-red-600" />
+      <ArrowTrendingDownIcon className="w-4 h-4 text-green-600" />
     );
   };
 
-  const getRatingStars = (rating: number) => {
-    return Array.from({ length: 5 }, (_, i) => (
-      <StarIcon
-        key={i}
-        className={`w-4 h-4 ${i < rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
-      />
-    ));
-  };
+  const getColor = (carrierId: string) => CARRIER_COLORS[carrierId] || '#6B7280';
 
   if (loading) {
     return (
@@ -132,42 +108,46 @@ const CarrierComparison: React.FC<CarrierComparisonProps> = ({
     );
   }
 
+  if (entries.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Carrier Comparison</h2>
+        <p className="text-sm text-gray-500">Upload a case to calculate and compare every carrier's renewal.</p>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
       {/* Header */}
       <div className="border-b border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-gray-900">Carrier Comparison</h2>
-          <div className="flex items-center space-x-3">
-            <select
-              value={comparisonMode}
-              onChange={(e) => setComparisonMode(e.target.value as 'side-by-side' | 'detailed')}
-              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="side-by-side">Side by Side</option>
-              <option value="detailed">Detailed View</option>
-            </select>
-          </div>
+          {lowestPremium && (
+            <span className="text-sm text-gray-600">
+              Lowest projected premium: <span className="font-semibold text-gray-900">{lowestPremium.label}</span>
+            </span>
+          )}
         </div>
 
         {/* Carrier Selection */}
         <div className="flex flex-wrap gap-3">
-          {carriers.map(carrier => (
+          {entries.map(entry => (
             <button
-              key={carrier.id}
-              onClick={() => toggleCarrierSelection(carrier.id)}
+              key={entry.carrierId}
+              onClick={() => toggleCarrierSelection(entry.carrierId)}
               className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-all ${
-                selectedCarriers.includes(carrier.id)
-                  ? `border-${carrier.color}-500 bg-${carrier.color}-50 text-${carrier.color}-700`
+                !hiddenCarriers.includes(entry.carrierId)
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
                   : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
               }`}
             >
-              <div 
-                className={`w-3 h-3 rounded-full`}
-                style={{ backgroundColor: carrier.color }}
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: getColor(entry.carrierId) }}
               />
-              <span className="font-medium">{carrier.name}</span>
-              {selectedCarriers.includes(carrier.id) && (
+              <span className="font-medium">{entry.label}</span>
+              {!hiddenCarriers.includes(entry.carrierId) && (
                 <CheckCircleIcon className="w-4 h-4" />
               )}
             </button>
@@ -208,65 +188,59 @@ const CarrierComparison: React.FC<CarrierComparisonProps> = ({
           >
             {activeTab === 'overview' && (
               <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                {getSelectedCarriers().map(carrier => (
-                  <div key={carrier.id} className="border border-gray-200 rounded-lg p-6">
+                {getSelectedEntries().map(entry => (
+                  <div key={entry.carrierId} className="border border-gray-200 rounded-lg p-6">
                     <div className="flex items-center space-x-3 mb-4">
-                      <div 
+                      <div
                         className="w-12 h-12 rounded-lg flex items-center justify-center text-white font-bold text-lg"
-                        style={{ backgroundColor: carrier.color }}
+                        style={{ backgroundColor: getColor(entry.carrierId) }}
                       >
-                        {carrier.name.charAt(0)}
+                        {entry.label.charAt(0)}
                       </div>
                       <div>
-                        <h3 className="font-semibold text-gray-900">{carrier.name}</h3>
-                        <p className="text-sm text-gray-500">Insurance Carrier</p>
+                        <h3 className="font-semibold text-gray-900">{entry.label}</h3>
+                        <p className="text-sm text-gray-500">
+                          {entry.error ? 'Could not rate this case' : 'Calculated renewal'}
+                        </p>
                       </div>
                     </div>
 
-                    <div className="space-y-3">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Premium Projection</span>
-                        <span className="font-semibold">{formatCurrency(carrier.metrics.premiumProjection)}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Loss Ratio</span>
-                        <span className="font-semibold">{formatPercentage(carrier.metrics.lossRatio)}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Renewal Rate</span>
-                        <span className="font-semibold">{formatPercentage(carrier.metrics.renewalRate)}</span>
-                      </div>
-                    </div>
-
-                    <div className="mt-4 pt-4 border-t border-gray-200">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Customer Service</span>
-                        <div className="flex space-x-1">
-                          {getRatingStars(carrier.features.customerService)}
+                    {entry.error ? (
+                      <div className="p-3 bg-red-50 rounded-lg">
+                        <div className="flex items-start space-x-2">
+                          <ExclamationTriangleIcon className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-xs text-red-700">{entry.error}</p>
                         </div>
                       </div>
-                    </div>
-
-                    {carrier.recommendations.length > 0 && (
-                      <div className="mt-4 p-3 bg-green-50 rounded-lg">
-                        <div className="flex items-start space-x-2">
-                          <CheckCircleIcon className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
-                          <div>
-                            <p className="text-sm font-medium text-green-800">Recommended</p>
-                            <p className="text-xs text-green-700">{carrier.recommendations[0]}</p>
+                    ) : (
+                      <div className="space-y-3">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Projected PMPM</span>
+                          <span className="font-semibold">{formatCurrency(entry.projectedPremiumPMPM)}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Rate Action</span>
+                          <div className="flex items-center space-x-2">
+                            <span className="font-semibold">{formatPercentage(entry.rateAction)}</span>
+                            {getTrendIcon(entry.rateAction)}
                           </div>
                         </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Pooling Impact PMPM</span>
+                          <span className="font-semibold">{formatCurrency(entry.poolingImpactPMPM)}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Credibility</span>
+                          <span className="font-semibold">{formatPercentage(entry.credibility)}</span>
+                        </div>
                       </div>
                     )}
 
-                    {carrier.risks.length > 0 && (
-                      <div className="mt-2 p-3 bg-yellow-50 rounded-lg">
+                    {lowestPremium?.carrierId === entry.carrierId && (
+                      <div className="mt-4 p-3 bg-green-50 rounded-lg">
                         <div className="flex items-start space-x-2">
-                          <InformationCircleIcon className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-                          <div>
-                            <p className="text-sm font-medium text-yellow-800">Consider</p>
-                            <p className="text-xs text-yellow-700">{carrier.risks[0]}</p>
-                          </div>
+                          <CheckCircleIcon className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-sm font-medium text-green-800">Lowest projected premium</p>
                         </div>
                       </div>
                     )}
@@ -281,216 +255,35 @@ const CarrierComparison: React.FC<CarrierComparisonProps> = ({
                   <thead>
                     <tr className="border-b border-gray-200">
                       <th className="text-left py-3 px-4 font-medium text-gray-900">Metric</th>
-                      {getSelectedCarriers().map(carrier => (
-                        <th key={carrier.id} className="text-center py-3 px-4 font-medium text-gray-900">
-                          <div className="flex items-center justify-center space-x-2">
-                            <div 
-                              className="w-3 h-3 rounded-full"
-                              style={{ backgroundColor: carrier.color }}
-                            />
-                            <span>{carrier.name}</span>
-                          </div>
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200">
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Premium Projection</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.metrics.premiumProjection)}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Loss Ratio</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          <div className="flex items-center justify-center space-x-2">
-                            <span>{formatPercentage(carrier.metrics.lossRatio)}</span>
-                            {getTrendIcon(carrier.metrics.lossRatio - 0.8, false)}
-                          </div>
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Renewal Rate</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
+                      {getSelectedEntries().map(entry => (
+                        <th key={entry.carrierId} className="text-center py-3 px-4 font-medium text-gray-900">
                           <div className="flex items-center justify-center space-x-2">
-                            <span>{formatPercentage(carrier.metrics.renewalRate)}</span>
-                            {getTrendIcon(carrier.metrics.renewalRate - 0.85)}
-                          </div>
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Member Months</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {carrier.metrics.memberMonths.toLocaleString()}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Avg Claim Cost</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.metrics.avgClaimCost)}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Total Claims</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.metrics.totalClaims)}
-                        </td>
-                      ))}
-                    </tr>
-                  </tbody>
-                </table>
-              </div>
-            )}
-
-            {activeTab === 'features' && (
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                {getSelectedCarriers().map(carrier => (
-                  <div key={carrier.id} className="border border-gray-200 rounded-lg p-6">
-                    <div className="flex items-center space-x-3 mb-6">
-                      <div 
-                        className="w-8 h-8 rounded-lg flex items-center justify-center text-white font-bold"
-                        style={{ backgroundColor: carrier.color }}
-                      >
-                        {carrier.name.charAt(0)}
-                      </div>
-                      <h3 className="font-semibold text-gray-900">{carrier.name}</h3>
-                    </div>
-
-                    <div className="space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Network Size</span>
-                        <span className="font-medium">{carrier.features.networkSize}</span>
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Customer Service</span>
-                        <div className="flex space-x-1">
-                          {getRatingStars(carrier.features.customerService)}
-                        </div>
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Digital Tools</span>
-                        {carrier.features.digitalTools ? (
-                          <CheckCircleIcon className="w-5 h-5 text-green-600" />
-                        ) : (
-                          <XCircleIcon className="w-5 h-5 text-red-600" />
-                        )}
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Preventive Care</span>
-                        {carrier.features.preventiveCare ? (
-                          <CheckCircleIcon className="w-5 h-5 text-green-600" />
-                        ) : (
-                          <XCircleIcon className="w-5 h-5 text-red-600" />
-                        )}
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Specialty Access</span>
-                        <span className="font-medium">{carrier.features.specialtyAccess}</span>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {activeTab === 'pricing' && (
-              <div className="overflow-x-auto">
-                <table className="min-w-full">
-                  <thead>
-                    <tr className="border-b border-gray-200">
-                      <th className="text-left py-3 px-4 font-medium text-gray-900">Cost Component</th>
-                      {getSelectedCarriers().map(carrier => (
-                        <th key={carrier.id} className="text-center py-3 px-4 font-medium text-gray-900">
-                          <div className="flex items-center justify-center space-x-2">
-                            <div 
+                            <div
                               className="w-3 h-3 rounded-full"
-                              style={{ backgroundColor: carrier.color }}
+                              style={{ backgroundColor: getColor(entry.carrierId) }}
                             />
-                            <span>{carrier.name}</span>
+                            <span>{entry.label}</span>
                           </div>
                         </th>
                       ))}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Base Rate</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.pricing.baseRate)}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Admin Fee</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.pricing.adminFee)}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr>
-                      <td className="py-4 px-4 font-medium text-gray-900">Stop Loss</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center">
-                          {formatCurrency(carrier.pricing.stopLoss)}
-                        </td>
-                      ))}
-                    </tr>
-                    <tr className="bg-gray-50">
-                      <td className="py-4 px-4 font-bold text-gray-900">Total Cost</td>
-                      {getSelectedCarriers().map(carrier => (
-                        <td key={carrier.id} className="py-4 px-4 text-center font-bold">
-                          {formatCurrency(carrier.pricing.total)}
-                        </td>
-                      ))}
-                    </tr>
+                    {METRICS.map(metric => (
+                      <tr key={metric.key}>
+                        <td className="py-4 px-4 font-medium text-gray-900">{metric.label}</td>
+                        {getSelectedEntries().map(entry => (
+                          <td key={entry.carrierId} className="py-4 px-4 text-center">
+                            {formatMetric(entry[metric.key] as number | null, metric.format)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
-
-                <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {getSelectedCarriers().map(carrier => (
-                    <div key={carrier.id} className="border border-gray-200 rounded-lg p-4">
-                      <div className="flex items-center space-x-2 mb-3">
-                        <div 
-                          className="w-4 h-4 rounded-full"
-                          style={{ backgroundColor: carrier.color }}
-                        />
-                        <h4 className="font-medium text-gray-900">{carrier.name} Breakdown</h4>
-                      </div>
-                      <div className="space-y-2 text-sm">
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Base Rate</span>
-                          <span>{((carrier.pricing.baseRate / carrier.pricing.total) * 100).toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Admin Fee</span>
-                          <span>{((carrier.pricing.adminFee / carrier.pricing.total) * 100).toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Stop Loss</span>
-                          <span>{((carrier.pricing.stopLoss / carrier.pricing.total) * 100).toFixed(1)}%</span>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Net pooling impact is the pooling charge less the claims pooled out of experience; "—" means the carrier does not report the figure.
+                </p>
               </div>
             )}
           </MotionDiv>
@@ -500,4 +293,4 @@ const CarrierComparison: React.FC<CarrierComparisonProps> = ({
   );
 };
 
-export default CarrierComparison; 
\ No newline at end of file
+export default CarrierComparison;
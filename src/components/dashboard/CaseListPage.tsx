@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CaseSummary, listCases, duplicateCase, setCaseStatus } from '../../cases';
+import { UNNAMED_CASE_ID } from '../../scenarios';
+
+function formatUpdatedAt(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+const CaseListPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCases(await listCases(showArchived));
+      setError(null);
+    } catch (err) {
+      setError(`Could not load saved cases: ${(err as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openCase = (caseId: string) => navigate(`/dashboard?case=${encodeURIComponent(caseId)}`);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Renewal Cases</h1>
+            <p className="mt-2 text-lg text-gray-600">Reopen, duplicate or archive a saved renewal</p>
+          </div>
+          <button
+            onClick={() => navigate('/dashboard?new=1')}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+          >
+            New Case
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {showArchived ? 'All Cases' : 'Active Cases'}
+            </h2>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+              <span>Show archived</span>
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading saved cases...</p>
+          ) : cases.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved cases yet. Cases are saved automatically once data is uploaded on the dashboard.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Case</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Carrier</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Projected PMPM</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate Change</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Updated</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {cases.map(summary => (
+                    <tr key={summary.caseId} className={summary.status === 'archived' ? 'bg-gray-50 text-gray-500' : undefined}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {summary.caseId === UNNAMED_CASE_ID ? 'Unnamed case' : summary.caseId}
+                        {summary.status === 'archived' && (
+                          <span className="ml-2 px-2 py-0.5 text-xs bg-gray-200 text-gray-700 rounded-full">Archived</span>
+                        )}
+                        <div className="text-xs text-gray-500">
+                          {summary.rowCount} rows{summary.hasNotes ? ' · has notes' : ''}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">{summary.carrier}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {summary.projectedPremiumPMPM === null ? '—' : `$${summary.projectedPremiumPMPM.toFixed(2)}`}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {summary.requiredRateChange === null ? '—' : `${(summary.requiredRateChange * 100).toFixed(1)}%`}
+                      </td>
+                      <td className="px-4 py-3 text-sm">{formatUpdatedAt(summary.updatedAt)}</td>
+                      <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-2">
+                        <button onClick={() => openCase(summary.caseId)} className="px-3 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700">
+                          Open
+                        </button>
+                        <button
+                          onClick={() => runAction(() => duplicateCase(summary.caseId))}
+                          className="px-3 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100"
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          onClick={() => runAction(() => setCaseStatus(summary.caseId, summary.status === 'archived' ? 'active' : 'archived'))}
+                          className="px-3 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                        >
+                          {summary.status === 'archived' ? 'Restore' : 'Archive'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseListPage;
@@ -22,6 +22,8 @@ import AuditTrail from './AuditTrail';
 import ResultsTable from './ResultsTable';
 import EnhancedFileUploader from '../common/EnhancedFileUploader';
 import { NotificationProvider, useNotifications } from '../common/NotificationSystem';
+import { ColumnMapping, applyColumnMapping, readUploadedFile } from '../../ingest';
+import { CarrierComparisonEntry, runCarrierComparison } from '../../utils/carrierComparison';
 
 // @ts-ignore
 const MotionDiv: any = motion.div;
@@ -54,35 +56,6 @@ interface DashboardData {
     trend: 'up' | 'down' | 'stable';
     color: string;
   }>;
-  carrierData: Array<{
-    id: string;
-    name: string;
-    logo: string;
-    color: string;
-    metrics: {
-      premiumProjection: number;
-      lossRatio: number;
-      renewalRate: number;
-      memberMonths: number;
-      avgClaimCost: number;
-      totalClaims: number;
-    };
-    features: {
-      networkSize: string;
-      customerService: number;
-      digitalTools: boolean;
-      preventiveCare: boolean;
-      specialtyAccess: string;
-    };
-    pricing: {
-      baseRate: number;
-      adminFee: number;
-      stopLoss: number;
-      total: number;
-    };
-    recommendations: string[];
-    risks: string[];
-  }>;
   auditLogs: Array<{
     id: string;
     timestamp: Date;
@@ -136,6 +109,7 @@ const ComprehensiveDashboard: React.FC = () => {
   // State management
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [carrierComparison, setCarrierComparison] = useState<CarrierComparisonEntry[]>([]);
   const [viewSettings, setViewSettings] = useState<ViewSettings>({
     layout: 'grid',
     activeTab: 'overview',
@@ -222,66 +196,6 @@ const ComprehensiveDashboard: React.FC = () => {
         { category: 'Administrative', amount: 180000, percentage: 7.3, trend: 'down', color: '#10b981' },
         { category: 'Other', amount: 50000, percentage: 2.1, trend: 'stable', color: '#f59e0b' }
       ],
-      carrierData: [
-        {
-          id: 'aetna',
-          name: 'Aetna',
-          logo: '/logos/aetna.png',
-          color: '#6366f1',
-          metrics: {
-            premiumProjection: 850000,
-            lossRatio: 0.729,
-            renewalRate: 0.92,
-            memberMonths: 3200,
-            avgClaimCost: 1250,
-            totalClaims: 620000
-          },
-          features: {
-            networkSize: 'Large',
-            customerService: 4.2,
-            digitalTools: true,
-            preventiveCare: true,
-            specialtyAccess: 'Excellent'
-          },
-          pricing: {
-            baseRate: 820000,
-            adminFee: 20000,
-            stopLoss: 10000,
-            total: 850000
-          },
-          recommendations: ['Nationwide Network', 'Wellness Programs', 'Digital Tools'],
-          risks: ['Higher admin costs', 'Complex approval process']
-        },
-        {
-          id: 'uhc',
-          name: 'UHC',
-          logo: '/logos/uhc.png',
-          color: '#3b82f6',
-          metrics: {
-            premiumProjection: 920000,
-            lossRatio: 0.739,
-            renewalRate: 0.89,
-            memberMonths: 3500,
-            avgClaimCost: 1180,
-            totalClaims: 680000
-          },
-          features: {
-            networkSize: 'Very Large',
-            customerService: 4.1,
-            digitalTools: true,
-            preventiveCare: true,
-            specialtyAccess: 'Good'
-          },
-          pricing: {
-            baseRate: 890000,
-            adminFee: 25000,
-            stopLoss: 5000,
-            total: 920000
-          },
-          recommendations: ['Large Network', 'Cost Management', 'Analytics'],
-          risks: ['Higher premiums', 'Limited flexibility']
-        }
-      ],
       auditLogs: [
         {
           id: '1',
@@ -338,26 +252,29 @@ const ComprehensiveDashboard: React.FC = () => {
   }, []);
 
   // Data upload handler
-  const handleDataUpload = useCallback(async (file: File, mapping: any[]) => {
+  const handleDataUpload = useCallback(async (file: File, mapping: ColumnMapping[]) => {
     setLoading(true);
     try {
-      // Simulate processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const newData = generateSampleData();
-      setData(newData);
-      
+      // Rate the uploaded case with every carrier; the remaining panels still show sample data
+      const rows = applyColumnMapping(await readUploadedFile(file), mapping);
+      const entries = await runCarrierComparison(rows);
+      setCarrierComparison(entries);
+      setData(generateSampleData());
+
+      const failed = entries.filter(entry => entry.error);
       addNotification({
-        type: 'success',
-        title: 'Data Upload Successful',
-        message: `Processed file "${file.name}" successfully`,
+        type: failed.length === entries.length ? 'error' : failed.length > 0 ? 'warning' : 'success',
+        title: 'Carrier Comparison Complete',
+        message: failed.length > 0
+          ? `Processed "${file.name}"; ${failed.map(entry => entry.label).join(', ')} could not rate this case`
+          : `Processed "${file.name}" and calculated ${entries.length} carrier renewals`,
         duration: 5000
       });
     } catch (error) {
       addNotification({
         type: 'error',
         title: 'Upload Failed',
-        message: 'Failed to process uploaded file',
+        message: `Failed to process uploaded file: ${(error as Error).message}`,
         duration: 5000
       });
     } finally {
@@ -657,7 +574,7 @@ const ComprehensiveDashboard: React.FC = () => {
                     <ExpenseChart data={data.expenseData} />
                   )}
                   {viewSettings.fullscreenComponent === 'comparison' && (
-                    <CarrierComparison carriers={data.carrierData} />
+                    <CarrierComparison entries={carrierComparison} loading={loading} />
                   )}
                   {viewSettings.fullscreenComponent === 'audit' && (
                     <AuditTrail logs={data.auditLogs} />
@@ -713,7 +630,7 @@ const ComprehensiveDashboard: React.FC = () => {
                 )}
                 {viewSettings.activeTab === 'trends' && <TrendChart data={data.trendData} />}
                 {viewSettings.activeTab === 'expenses' && <ExpenseChart data={data.expenseData} />}
-                {viewSettings.activeTab === 'comparison' && <CarrierComparison carriers={data.carrierData} />}
+                {viewSettings.activeTab === 'comparison' && <CarrierComparison entries={carrierComparison} loading={loading} />}
                 {viewSettings.activeTab === 'audit' && <AuditTrail logs={data.auditLogs} />}
                 {viewSettings.activeTab === 'data' && <ResultsTable data={data.tableData} />}
               </div>
@@ -759,7 +676,7 @@ const ComprehensiveDashboard: React.FC = () => {
                   >
                     <ArrowsPointingOutIcon className="w-4 h-4" />
                   </button>
-                  <CarrierComparison carriers={data.carrierData} />
+                  <CarrierComparison entries={carrierComparison} loading={loading} />
                 </div>
               </div>
 
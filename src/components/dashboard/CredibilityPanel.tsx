@@ -0,0 +1,41 @@
+import React from 'react';
+import { CredibilityMethod, CredibilityResult } from '../../types/common';
+
+interface CredibilityPanelProps {
+  credibility: CredibilityResult;
+}
+
+const METHOD_NAMES: Record<CredibilityMethod, string> = {
+  limitedFluctuation: 'Limited fluctuation (square root)',
+  linear: 'Linear',
+  buhlmann: 'Bühlmann',
+  table: 'Published table',
+  supplied: 'Supplied by the carrier parameters'
+};
+
+const CredibilityPanel: React.FC<CredibilityPanelProps> = ({ credibility }) => (
+  <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+    <div className="mb-4 flex items-baseline justify-between">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Experience Credibility</h3>
+        <p className="text-sm text-gray-500">
+          {METHOD_NAMES[credibility.method]}{credibility.table && `: ${credibility.table}`}
+        </p>
+      </div>
+      <div className="text-2xl font-bold text-gray-900">{(credibility.credibility * 100).toFixed(1)}%</div>
+    </div>
+    <p className="text-sm font-mono text-gray-700 mb-3">{credibility.formula}</p>
+    <table className="min-w-full text-sm">
+      <tbody className="divide-y divide-gray-100">
+        {Object.entries(credibility.inputs).map(([label, value]) => (
+          <tr key={label}>
+            <td className="py-1.5 pr-4 text-gray-600">{label}</td>
+            <td className="py-1.5 text-right font-mono">{value.toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default CredibilityPanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { CredibilityMethod, CredibilitySettings } from '../../types/common';
+import { CREDIBILITY_METHODS, CREDIBILITY_METHOD_LABELS, PUBLISHED_CREDIBILITY_TABLES, findCredibilityTable } from '../../credibility';
+
+interface CredibilitySettingsEditorProps {
+  settings?: CredibilitySettings; // Unset keeps the carrier's own credibility
+  errors: string[];
+  onChange: (settings: CredibilitySettings | null) => void;
+}
+
+const INPUT_CLASS = 'w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// A blank cell clears the setting, leaving validation to report it when the method needs it
+function parseSetting(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+const CredibilitySettingsEditor: React.FC<CredibilitySettingsEditorProps> = ({ settings, errors, onChange }) => {
+  const update = (key: keyof CredibilitySettings, value: string) => {
+    const { [key]: _cleared, ...rest } = settings!;
+    const parsed = parseSetting(value);
+    onChange(parsed === undefined ? rest as CredibilitySettings : { ...rest, [key]: parsed } as CredibilitySettings);
+  };
+
+  // Switching methods keeps the minimum; a table starts from the first published table
+  const changeMethod = (method: string) => {
+    if (!method) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      method: method as CredibilityMethod,
+      ...(method === 'table' && { table: PUBLISHED_CREDIBILITY_TABLES[0] }),
+      ...(settings?.minimumCredibility !== undefined && { minimumCredibility: settings.minimumCredibility })
+    });
+  };
+
+  const numberField = (key: 'fullCredibilityMemberMonths' | 'buhlmannK' | 'credibility' | 'minimumCredibility', label: string, title: string) => (
+    <div className="flex items-center justify-between mt-2">
+      <label className="text-sm text-gray-600" title={title}>{label}</label>
+      <input
+        type="number"
+        step="any"
+        min={0}
+        placeholder={key === 'minimumCredibility' ? 'None' : undefined}
+        className={INPUT_CLASS}
+        value={settings?.[key] ?? ''}
+        onChange={e => update(key, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mb-4 pb-4 border-b border-gray-100">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700" title="Replaces the carrier's own credibility formula">
+          Credibility Method
+        </label>
+        <select
+          className="w-44 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          value={settings?.method ?? ''}
+          onChange={e => changeMethod(e.target.value)}
+        >
+          <option value="">Carrier default</option>
+          {CREDIBILITY_METHODS.map(method => (
+            <option key={method} value={method}>{CREDIBILITY_METHOD_LABELS[method]}</option>
+          ))}
+        </select>
+      </div>
+
+      {(settings?.method === 'limitedFluctuation' || settings?.method === 'linear') &&
+        numberField('fullCredibilityMemberMonths', 'Full credibility member months', 'Member months at which the experience is fully credible')}
+      {settings?.method === 'buhlmann' &&
+        numberField('buhlmannK', 'Bühlmann k', 'Expected process variance ÷ variance of hypothetical means, in member months')}
+      {settings?.method === 'supplied' && numberField('credibility', 'Credibility (0-1)', 'Weight on the group\'s own experience')}
+      {settings?.method === 'table' && (
+        <div className="flex items-center justify-between mt-2">
+          <label className="text-sm text-gray-600">Published table</label>
+          <select
+            className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={settings.table?.name ?? ''}
+            onChange={e => onChange({ ...settings, table: findCredibilityTable(e.target.value) })}
+          >
+            {/* A table saved with the case that is no longer published stays selectable */}
+            {settings.table && !findCredibilityTable(settings.table.name) && (
+              <option value={settings.table.name}>{settings.table.name}</option>
+            )}
+            {PUBLISHED_CREDIBILITY_TABLES.map(table => <option key={table.name} value={table.name}>{table.name}</option>)}
+          </select>
+        </div>
+      )}
+      {settings && numberField('minimumCredibility', 'Minimum credibility (0-1)', 'Floor on the computed credibility')}
+
+      {errors.map(error => <p key={error} className="mt-1 text-xs text-red-600 text-right">{error}</p>)}
+    </div>
+  );
+};
+
+export default CredibilitySettingsEditor;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  LEVEL_FUNDED_DEFAULTS,
+  LEVEL_FUNDED_PARAMETER_SCHEMA,
+  LevelFundedResult,
+  LevelFundedSettings,
+  runLevelFundedProjection
+} from '../../levelFunded';
+import { CostAmount } from '../../selfFunded';
+import { DEFAULT_SIMULATION_SCENARIOS, DEFAULT_SIMULATION_SEED } from '../../simulation';
+import { PARAMETER_UNIT_HINTS } from '../carriers';
+import { ParameterOverrides } from '../../types/common';
+
+interface LevelFundedPanelProps {
+  rows: any[];
+  carrier: string;
+  overrides: ParameterOverrides;
+}
+
+// Carriers whose calculation reports the projected claims cost level funding is built on
+const BASIS_CARRIERS = [
+  { id: 'UHC', label: 'UHC' },
+  { id: 'CIGNA', label: 'Cigna' }
+];
+
+function formatCurrency(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatAnnual(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+const CostRow: React.FC<{ label: string; amount: CostAmount; emphasis?: boolean }> = ({ label, amount, emphasis }) => (
+  <tr className={emphasis ? 'font-semibold bg-gray-50' : ''}>
+    <td className="py-1.5 pr-4 text-gray-700">{label}</td>
+    <td className="py-1.5 pr-4 text-right font-mono">{formatCurrency(amount.pmpm)}</td>
+    <td className="py-1.5 text-right font-mono">{formatAnnual(amount.annual)}</td>
+  </tr>
+);
+
+const LevelFundedPanel: React.FC<LevelFundedPanelProps> = ({ rows, carrier, overrides }) => {
+  const [basisCarrier, setBasisCarrier] = useState(
+    BASIS_CARRIERS.some(basis => basis.id === carrier) ? carrier : BASIS_CARRIERS[0].id
+  );
+  const [settings, setSettings] = useState<Partial<Record<keyof LevelFundedSettings, number>>>({});
+  const [result, setResult] = useState<LevelFundedResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // An emptied field falls back to the uploaded value or default
+  const updateSetting = (key: keyof LevelFundedSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(prev => {
+      const next = { ...prev };
+      if (value === '' || isNaN(parsed)) {
+        delete next[key];
+      } else {
+        next[key] = parsed;
+      }
+      return next;
+    });
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      // Carrier overrides only apply when they were entered against the basis carrier
+      const basisOverrides = basisCarrier === carrier ? overrides : {};
+      setResult(await runLevelFundedProjection(rows, basisCarrier, basisOverrides, settings, {
+        scenarios: DEFAULT_SIMULATION_SCENARIOS,
+        seed: DEFAULT_SIMULATION_SEED
+      }));
+    } catch (error) {
+      setResult(null);
+      setMessage((error as Error).message);
+    }
+    setRunning(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Level-Funded Renewal</h3>
+          <p className="text-sm text-gray-500">
+            Monthly payment split into claims fund, stop-loss and admin, with the expected surplus refund
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <label className="text-xs text-gray-600">
+            Basis carrier
+            <select
+              value={basisCarrier}
+              onChange={e => setBasisCarrier(e.target.value)}
+              className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {BASIS_CARRIERS.map(basis => <option key={basis.id} value={basis.id}>{basis.label}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={handleRun}
+            disabled={running || rows.length === 0}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-100 hover:bg-blue-200 text-blue-700 disabled:bg-gray-200 disabled:text-gray-400"
+          >
+            {running ? 'Running...' : 'Run Level-Funded Projection'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        {LEVEL_FUNDED_PARAMETER_SCHEMA.map(field => {
+          const key = field.key as keyof LevelFundedSettings;
+          return (
+            <label key={key} className="text-xs text-gray-600" title={field.description}>
+              {field.label} <span className="text-gray-400">({PARAMETER_UNIT_HINTS[field.unit]})</span>
+              <input
+                type="number"
+                step="any"
+                min={field.min}
+                max={field.max}
+                value={settings[key] ?? ''}
+                placeholder={String(LEVEL_FUNDED_DEFAULTS[key])}
+                onChange={e => updateSetting(key, e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {message && <p className="text-sm text-red-700 mb-3">{message}</p>}
+
+      {result && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium"></th>
+                <th className="py-2 pr-4 font-medium text-right">PMPM</th>
+                <th className="py-2 font-medium text-right">Annual</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <CostRow
+                label={`Claims fund (${result.settings.claimsFundMargin.toFixed(2)} × expected net claims)`}
+                amount={result.monthlyPayment.claimsFund}
+              />
+              <CostRow
+                label={`Specific stop-loss (${formatAnnual(result.settings.specificDeductible)} deductible)`}
+                amount={result.monthlyPayment.specificStopLoss}
+              />
+              <CostRow label="Aggregate stop-loss" amount={result.monthlyPayment.aggregateStopLoss} />
+              <CostRow label="Administration" amount={result.monthlyPayment.admin} />
+              <CostRow label="Level-funded payment" amount={result.monthlyPayment.total} emphasis />
+              <CostRow label="Expected net cost after refund" amount={result.fullyInsuredComparison.expectedNetCost} emphasis />
+              <CostRow
+                label={`Fully insured premium (${formatRate(result.fullyInsuredComparison.rateAction)} rate action)`}
+                amount={result.fullyInsuredComparison.premium}
+              />
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            {result.basisCarrier} claims cost {formatCurrency(result.expectedClaimsPMPM)} PMPM, of which
+            {' '}{formatCurrency(result.specificExcessPMPM)} above the deductible;
+            {' '}{result.projectedMemberMonths.toLocaleString()} projected member months.
+            {' '}Expected savings versus fully insured {formatAnnual(result.fullyInsuredComparison.expectedSavings)}.
+          </p>
+
+          <h4 className="text-sm font-semibold text-gray-800 mt-4 mb-2">Surplus refund</h4>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium text-right">P10</th>
+                <th className="py-2 pr-4 font-medium text-right">P50</th>
+                <th className="py-2 pr-4 font-medium text-right">P90</th>
+                <th className="py-2 pr-4 font-medium text-right">Mean</th>
+                <th className="py-2 pr-4 font-medium text-right">Any refund</th>
+                <th className="py-2 font-medium text-right">Claims over fund</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {[result.refund.p10, result.refund.p50, result.refund.p90, result.refund.mean].map((value, index) => (
+                  <td key={index} className="py-2 pr-4 text-right font-mono">{formatAnnual(value)}</td>
+                ))}
+                <td className="py-2 pr-4 text-right">{formatRate(result.refund.probabilityOfRefund)}</td>
+                <td className="py-2 text-right">{formatRate(result.refund.probabilityOfAggregateClaim)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            {result.refund.scenarios.toLocaleString()} simulated claim years, seed {result.refund.seed};
+            {' '}{formatRate(result.settings.refundShare)} of an unused claims fund is returned.
+          </p>
+          {result.warnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-800 mt-1">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LevelFundedPanel;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { LargeClaimAdjustment, PooledAmounts, PooledClaimsExhibit } from '../../types/common';
+
+interface PooledClaimsPanelProps {
+  exhibit: PooledClaimsExhibit;
+  adjustment?: LargeClaimAdjustment; // Prospective adjustment from claimant status markings
+}
+
+function formatAmount(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+const TotalRow: React.FC<{ label: string; amounts: PooledAmounts }> = ({ label, amounts }) => (
+  <tr className="font-semibold bg-gray-50">
+    <td colSpan={4} className="py-1.5 pr-4 text-gray-700">{label}</td>
+    <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(amounts.medical)}</td>
+    <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(amounts.rx)}</td>
+    <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(amounts.total)}</td>
+    <td />
+  </tr>
+);
+
+const LargeClaimAdjustmentTable: React.FC<{ adjustment: LargeClaimAdjustment }> = ({ adjustment }) => (
+  <div className="mt-6">
+    <h4 className="text-sm font-semibold text-gray-900 mb-2">Prospective Large Claim Adjustment</h4>
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b border-gray-200">
+            <th className="py-2 pr-4 font-medium">Claimant</th>
+            <th className="py-2 pr-4 font-medium">Status</th>
+            <th className="py-2 pr-4 font-medium text-right">Retained</th>
+            <th className="py-2 pr-4 font-medium text-right">Expected</th>
+            <th className="py-2 pr-4 font-medium text-right">Adjustment</th>
+            <th className="py-2 font-medium">Justification</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {adjustment.entries.map(entry => (
+            <tr key={entry.claimantId}>
+              <td className="py-1.5 pr-4 text-gray-900">{entry.claimantId}</td>
+              <td className="py-1.5 pr-4 text-gray-600 capitalize">{entry.status}</td>
+              <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(entry.retainedClaims)}</td>
+              <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(entry.expectedCost)}</td>
+              <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(entry.adjustment)}</td>
+              <td className="py-1.5 text-xs text-gray-600">{entry.justification}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold bg-gray-50">
+            <td colSpan={4} className="py-1.5 pr-4 text-gray-700">
+              Total over {adjustment.memberMonths.toLocaleString()} member months
+            </td>
+            <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(adjustment.total)}</td>
+            <td className="py-1.5 font-mono">${adjustment.pmpm.toFixed(2)} PMPM</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const PooledClaimsPanel: React.FC<PooledClaimsPanelProps> = ({ exhibit, adjustment }) => (
+  <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+    <div className="mb-4">
+      <h3 className="text-lg font-semibold text-gray-900">Pooled Claims by Claimant</h3>
+      <p className="text-sm text-gray-500">
+        Each large claimant&apos;s claims above {formatAmount(exhibit.poolingLevel)}, or their laser;
+        {' '}pooled excess {exhibit.split === 'medical' ? 'charged to medical' : 'split by medical/Rx mix'}
+      </p>
+    </div>
+
+    {exhibit.claimants.length === 0 ? (
+      <p className="text-sm text-gray-500">No large claimants in the experience periods.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Claimant</th>
+              <th className="py-2 pr-4 font-medium">Period</th>
+              <th className="py-2 pr-4 font-medium text-right">Claims</th>
+              <th className="py-2 pr-4 font-medium text-right">Pooling level</th>
+              <th className="py-2 pr-4 font-medium text-right">Pooled medical</th>
+              <th className="py-2 pr-4 font-medium text-right">Pooled Rx</th>
+              <th className="py-2 pr-4 font-medium text-right">Pooled total</th>
+              <th className="py-2 font-medium text-right">Retained</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {exhibit.claimants.map(claimant => (
+              <tr key={`${claimant.period}-${claimant.claimantId}`}>
+                <td className="py-1.5 pr-4 text-gray-900">{claimant.claimantId}</td>
+                <td className="py-1.5 pr-4 text-gray-600 capitalize">{claimant.period}</td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(claimant.claims.total)}</td>
+                <td className="py-1.5 pr-4 text-right font-mono">
+                  {formatAmount(claimant.poolingLevel)}
+                  {claimant.lasered && <span className="ml-1 text-xs text-orange-600">laser</span>}
+                </td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(claimant.pooled.medical)}</td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(claimant.pooled.rx)}</td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatAmount(claimant.pooled.total)}</td>
+                <td className="py-1.5 text-right font-mono">{formatAmount(claimant.retained.total)}</td>
+              </tr>
+            ))}
+            <TotalRow label="Current period pooled" amounts={exhibit.totals.current} />
+            {exhibit.totals.prior && <TotalRow label="Prior period pooled" amounts={exhibit.totals.prior} />}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    {adjustment && adjustment.entries.length > 0 && <LargeClaimAdjustmentTable adjustment={adjustment} />}
+  </div>
+);
+
+export default PooledClaimsPanel;
@@ -1,809 +1,38 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import FileUploader from '../common/FileUploader';
 import CarrierSelector from './CarrierSelector';
-import { dispatchCarrierCalculation } from '../../utils/carrierDispatcher';
-import { UniversalInput, CalculationResult, EnrollmentData, IMonthlyClaimsData, LargeClaimant } from '../../types/common';
-import { AetnaParameters } from '../../types/aetna';
-import { UHCParameters } from '../../types/uhc';
-import { CignaParameters } from '../../types/cigna';
-import { BCBSParameters } from '../../types/bcbs';
-import AetnaTemplate from '../carriers/aetna/AetnaTemplate';
-import UHCTemplate from '../carriers/uhc/UHCTemplate';
-import CignaTemplate from '../carriers/cigna/CignaTemplate';
-import BCBSTemplate from '../carriers/bcbs/BCBSTemplate';
+import ScenarioManager from './ScenarioManager';
+import CarrierComparison from './CarrierComparison';
+import CalculationTracePanel from './CalculationTracePanel';
+import SensitivityTornado from './SensitivityTornado';
+import SimulationPanel from './SimulationPanel';
+import SelfFundedPanel from './SelfFundedPanel';
+import LevelFundedPanel from './LevelFundedPanel';
+import TierRatingPanel from './TierRatingPanel';
+import PooledClaimsPanel from './PooledClaimsPanel';
+import CredibilityPanel from './CredibilityPanel';
+import CredibilitySettingsEditor from './CredibilitySettingsEditor';
+import {
+  runProjection,
+  prepareProjection,
+  credibilitySettingsErrors,
+  hasMonthlyClaimsRows,
+  MISSING_MONTHLY_DATA_MESSAGE
+} from '../../utils/projectionRunner';
+import { CensusDemographics } from '../../demographics';
+import { PlanDesignApplication } from '../../planDesign';
+import { TrendMonthsApplication } from '../../trendMonths';
+import { AssumptionApplication } from '../../assumptions';
+import { CarrierComparisonEntry, runCarrierComparison } from '../../utils/carrierComparison';
+import { autoCalculateParams, IngestDiagnostic, DEFAULT_LARGE_CLAIMANT_THRESHOLD } from '../../ingest';
+import { CalculationResult, CredibilitySettings, IBNRSettings, IMonthlyClaimsData, LargeClaimant } from '../../types/common';
+import { DEFAULT_IBNR_MATURITY_MONTHS } from '../../utils/ibnr';
+import { getCarrierPlugin, listCarrierPlugins, validateCarrierParameters, PARAMETER_UNIT_HINTS } from '../carriers';
+import { CaseDraft, caseKey, loadCase, saveCase, getLastOpenedCaseId, setLastOpenedCaseId } from '../../cases';
 
-// Helper function to parse numeric values from Excel (handles formatted numbers, percentages, etc.)
-function parseExcelNumber(value: any): number {
-  if (value === null || value === undefined || value === '') return 0;
-  
-  // If already a number, return it
-  if (typeof value === 'number') return value;
-  
-  // Convert to string and clean up
-  let stringValue = value.toString().trim();
-  
-  // Remove common Excel formatting
-  stringValue = stringValue
-    .replace(/[$,]/g, '') // Remove dollar signs and commas
-    .replace(/[()]/g, '') // Remove parentheses (negative numbers)
-    .replace(/%$/, ''); // Remove percentage signs
-  
-  // Handle negative numbers in parentheses
-  const isNegative = value.toString().includes('(') && value.toString().includes(')');
-  
-  // Parse the cleaned number
-  const parsed = parseFloat(stringValue);
-  
-  if (isNaN(parsed)) return 0;
-  
-  return isNegative ? -parsed : parsed;
-}
-
-// Helper function to parse Excel dates with support for "MMM-YY" format
-function parseExcelDate(value: any): Date {
-  if (value === null || value === undefined || value === '') {
-    return new Date('1970-01-01'); // Default fallback
-  }
-  
-  // If already a Date object, return it
-  if (value instanceof Date) return value;
-  
-  // Convert to string for processing
-  const stringValue = value.toString().trim();
-  
-  // Handle "MMM-YY" format like "Jan-23", "Feb-23", etc.
-  const monthYearMatch = stringValue.match(/^([A-Za-z]{3})-(\d{2})$/);
-  if (monthYearMatch) {
-    const [, monthStr, yearStr] = monthYearMatch;
-    const year = parseInt(yearStr) + (parseInt(yearStr) < 50 ? 2000 : 1900); // 23 = 2023, 89 = 1989
-    const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
-    const monthIndex = monthNames.indexOf(monthStr.toLowerCase());
-    if (monthIndex !== -1) {
-      // Always return the first day of the month for consistency
-      return new Date(year, monthIndex, 1);
-    }
-  }
-  
-  // Handle "MMM YYYY" format like "Jan 2023", "February 2024"
-  const monthYearSpaceMatch = stringValue.match(/^([A-Za-z]{3,9})\s+(\d{4})$/);
-  if (monthYearSpaceMatch) {
-    const [, monthStr, yearStr] = monthYearSpaceMatch;
-    const year = parseInt(yearStr);
-    const date = new Date(`${monthStr} 1, ${year}`);
-    if (!isNaN(date.getTime())) {
-      return date;
-    }
-  }
-  
-  // Handle "MM/YYYY" or "M/YYYY" format
-  const monthSlashYearMatch = stringValue.match(/^(\d{1,2})\/(\d{4})$/);
-  if (monthSlashYearMatch) {
-    const [, monthStr, yearStr] = monthSlashYearMatch;
-    const month = parseInt(monthStr) - 1; // JavaScript months are 0-indexed
-    const year = parseInt(yearStr);
-    return new Date(year, month, 1);
-  }
-  
-  // Handle "YYYY-MM" format
-  const yearMonthMatch = stringValue.match(/^(\d{4})-(\d{1,2})$/);
-  if (yearMonthMatch) {
-    const [, yearStr, monthStr] = yearMonthMatch;
-    const year = parseInt(yearStr);
-    const month = parseInt(monthStr) - 1; // JavaScript months are 0-indexed
-    return new Date(year, month, 1);
-  }
-  
-  // Handle Excel serial date numbers (e.g., 44927 = Dec 1, 2022)
-  if (typeof value === 'number' || /^\d{4,5}$/.test(stringValue)) {
-    const serialDate = typeof value === 'number' ? value : parseInt(stringValue);
-    
-    // Excel serial dates: 1 = Jan 1, 1900 (but Excel has a leap year bug)
-    // Reasonable range for dates (between 1900 and 2100)
-    if (serialDate > 0 && serialDate < 100000) {
-      // Convert Excel serial to JavaScript Date
-      // Excel epoch: Jan 1, 1900 but JavaScript Date epoch is Jan 1, 1970
-      const excelEpoch = new Date(1900, 0, 1);
-      const daysSinceEpoch = serialDate - 1; // Excel starts counting from 1, not 0
-      const result = new Date(excelEpoch.getTime() + daysSinceEpoch * 24 * 60 * 60 * 1000);
-      
-      // Additional adjustment for Excel's leap year bug (treats 1900 as leap year)
-      if (serialDate > 59) { // After Feb 28, 1900
-        result.setDate(result.getDate() - 1);
-      }
-      
-      return result;
-    }
-  }
-  
-  // Handle standard date formats like "MM/DD/YYYY", "YYYY-MM-DD", etc.
-  const standardDate = new Date(stringValue);
-  if (!isNaN(standardDate.getTime())) {
-    return standardDate;
-  }
-  
-  // Handle "DD/MM/YYYY" vs "MM/DD/YYYY" ambiguity by trying both
-  const slashMatch = stringValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (slashMatch) {
-    const [, first, second, yearStr] = slashMatch;
-    const year = parseInt(yearStr);
-    
-    // Try MM/DD/YYYY first (more common in US)
-    const mmdd = new Date(year, parseInt(first) - 1, parseInt(second));
-    if (!isNaN(mmdd.getTime()) && parseInt(first) <= 12) {
-      return mmdd;
-    }
-    
-    // Try DD/MM/YYYY if MM/DD doesn't make sense
-    const ddmm = new Date(year, parseInt(second) - 1, parseInt(first));
-    if (!isNaN(ddmm.getTime()) && parseInt(second) <= 12) {
-      return ddmm;
-    }
-  }
-  
-  console.warn('Could not parse date:', value, typeof value);
-  return new Date('1970-01-01'); // Default fallback
-}
-
-function mapToUniversalInput(data: any[], carrier: string): UniversalInput {
-  if (!data || data.length === 0) {
-    throw new Error('No data provided');
-  }
-
-  const row = data[0]; // Assume data structure for single group
-  
-  // Debug logging for renewal dates
-  console.log('Raw renewal dates from Excel:');
-  console.log('renewalStart:', row.renewalStart, typeof row.renewalStart);
-  console.log('renewalEnd:', row.renewalEnd, typeof row.renewalEnd);
-  
-  // For BCBS multi-plan data, check if we have plan-specific data
-  const isMultiPlan = carrier === 'BCBS' && data.some(row => row.planName);
-  console.log('Is multi-plan BCBS data:', isMultiPlan);
-  
-  // Process monthly claims data - handle both single plan and multi-plan formats
-  let monthlyClaimsData: IMonthlyClaimsData[] = [];
-  
-  if (isMultiPlan) {
-    // Group data by plan first
-    const planNames = Array.from(new Set(data.filter(row => row.planName).map(row => row.planName)));
-    console.log('Found BCBS plans:', planNames);
-    
-    // For multi-plan, aggregate all plans' monthly data
-    const monthlyDataByMonth = new Map<string, {
-      month: string;
-      totalMedical: number;
-      totalRx: number;
-      totalMemberMonths: number;
-      planBreakdown: { [planName: string]: { medical: number; rx: number; memberMonths: number } };
-    }>();
-    
-    // Process each plan's monthly data
-    planNames.forEach(planName => {
-      const planMonthlyData = data.filter(row => 
-        row.planName === planName && row.Month && row['Medical Claims'] !== undefined
-      );
-      
-      planMonthlyData.forEach(row => {
-        const parsedDate = parseExcelDate(row.Month);
-        const monthString = `${parsedDate.getFullYear()}-${String(parsedDate.getMonth() + 1).padStart(2, '0')}`;
-        
-        const medicalClaims = parseExcelNumber(row['Medical Claims']) || 0;
-        const rxClaims = parseExcelNumber(row['Rx Claims']) || parseExcelNumber(row['Pharmacy Claims']) || 0;
-        const memberMonths = parseExcelNumber(row.memberMonthsMedical) || parseExcelNumber(row.Members) || parseExcelNumber(row['Member Months']) || 0;
-        
-        if (!monthlyDataByMonth.has(monthString)) {
-          monthlyDataByMonth.set(monthString, {
-            month: monthString,
-            totalMedical: 0,
-            totalRx: 0,
-            totalMemberMonths: 0,
-            planBreakdown: {}
-          });
-        }
-        
-        const monthData = monthlyDataByMonth.get(monthString)!;
-        monthData.totalMedical += medicalClaims;
-        monthData.totalRx += rxClaims;
-        monthData.totalMemberMonths += memberMonths;
-        monthData.planBreakdown[planName] = {
-          medical: medicalClaims,
-          rx: rxClaims,
-          memberMonths: memberMonths
-        };
-      });
-    });
-    
-    // Convert to standard format
-    monthlyClaimsData = Array.from(monthlyDataByMonth.values())
-      .sort((a, b) => a.month.localeCompare(b.month))
-      .map(monthData => ({
-        month: monthData.month,
-        memberMonths: {
-          medical: monthData.totalMemberMonths,
-          rx: monthData.totalMemberMonths,
-          total: monthData.totalMemberMonths
-        },
-        incurredClaims: {
-          medical: monthData.totalMedical,
-          rx: monthData.totalRx,
-          total: monthData.totalMedical + monthData.totalRx
-        },
-        // Store plan breakdown for BCBS calculations
-        planBreakdown: monthData.planBreakdown
-      }));
-    
-    console.log('Processed multi-plan monthly data:', monthlyClaimsData.length, 'months');
-  } else {
-    // Standard single-plan processing
-    monthlyClaimsData = data
-      .filter(row => row.Month && row['Medical Claims'] !== undefined)
-      .map(row => {
-        const parsedDate = parseExcelDate(row.Month);
-        const monthString = `${parsedDate.getFullYear()}-${String(parsedDate.getMonth() + 1).padStart(2, '0')}`;
-        
-        const memberMonthsMed = parseExcelNumber(row.memberMonthsMedical) || parseExcelNumber(row.Members) || parseExcelNumber(row['Member Months']) || 0;
-        const memberMonthsRx = parseExcelNumber(row.memberMonthsRx) || memberMonthsMed;
-        const medicalClaims = parseExcelNumber(row['Medical Claims']) || 0;
-        const rxClaims = parseExcelNumber(row['Rx Claims']) || parseExcelNumber(row['Pharmacy Claims']) || 0;
-
-        return {
-          month: monthString,
-          memberMonths: {
-            medical: memberMonthsMed,
-            rx: memberMonthsRx,
-            total: Math.max(memberMonthsMed, memberMonthsRx)
-          },
-          incurredClaims: {
-            medical: medicalClaims,
-            rx: rxClaims,
-            total: medicalClaims + rxClaims
-          }
-        };
-      });
-  }
-  
-  // Parse the monthly claims data to find actual date range
-  console.log('Found', monthlyClaimsData.length, 'monthly data rows');
-  
-  if (monthlyClaimsData.length > 0) {
-    console.log('Sample monthly data:', monthlyClaimsData[0]);
-    console.log('First month:', monthlyClaimsData[0].month);
-    console.log('Last month:', monthlyClaimsData[monthlyClaimsData.length - 1].month);
-  }
-  
-  // Parse dates from monthly data and sort them
-  const monthDates = monthlyClaimsData
-    .map(row => new Date(row.month + '-01'))
-    .filter(date => date.getFullYear() > 1970) // Filter out invalid dates
-    .sort((a, b) => a.getTime() - b.getTime());
-  
-  console.log('Parsed monthly dates:', monthDates.map(d => d.toLocaleDateString()));
-  
-  // Determine renewal dates from the data range with proper full-month periods
-  let renewalStart: Date;
-  let renewalEnd: Date;
-  
-  if (monthDates.length > 0) {
-    // Create full month periods: first day of first month to last day of last month
-    const firstDate = monthDates[0];
-    const lastDate = monthDates[monthDates.length - 1];
-    
-    // Set renewal start to first day of the first month
-    renewalStart = new Date(firstDate.getFullYear(), firstDate.getMonth(), 1);
-    
-    // Set renewal end to last day of the last month
-    renewalEnd = new Date(lastDate.getFullYear(), lastDate.getMonth() + 1, 0); // Last day of month
-    
-    console.log('Experience period (full months):');
-    console.log('Start:', renewalStart.toLocaleDateString());
-    console.log('End:', renewalEnd.toLocaleDateString());
-    console.log('Period span:', renewalStart.toLocaleDateString(), 'to', renewalEnd.toLocaleDateString());
-  } else {
-    // Fallback to explicit renewal dates if provided
-    renewalStart = parseExcelDate(row.renewalStart);
-    renewalEnd = parseExcelDate(row.renewalEnd);
-    
-    // If still invalid, create a reasonable default
-    if (renewalStart.getFullYear() <= 1970 || renewalEnd.getFullYear() <= 1970) {
-      console.warn('No valid renewal dates found, using defaults');
-      renewalStart = new Date('2023-01-01');
-      renewalEnd = new Date('2024-12-31');
-    }
-  }
-
-  // Process enrollment data - handle both single and multi-plan
-  const enrollmentDataArr: EnrollmentData[] = data.filter(r => r.enrollmentMonth).map((r) => ({
-    month: r.enrollmentMonth,
-    subscribers: parseExcelNumber(r.enrollmentSubscribers) || 0,
-    members: parseExcelNumber(r.enrollmentMembers) || 0,
-    planName: r.planName || null, // Store plan name for multi-plan data
-  }));
-  
-  // For multi-plan BCBS data, group enrollment by month
-  if (isMultiPlan && enrollmentDataArr.length > 0) {
-    const enrollmentByMonth = new Map<string, EnrollmentData>();
-    
-    enrollmentDataArr.forEach(enrollment => {
-      if (!enrollmentByMonth.has(enrollment.month)) {
-        enrollmentByMonth.set(enrollment.month, {
-          month: enrollment.month,
-          subscribers: 0,
-          members: 0
-        });
-      }
-      
-      const monthData = enrollmentByMonth.get(enrollment.month)!;
-      monthData.subscribers += enrollment.subscribers;
-      monthData.members += enrollment.members;
-    });
-    
-    // Replace with aggregated data
-    enrollmentDataArr.splice(0, enrollmentDataArr.length, ...Array.from(enrollmentByMonth.values()));
-  }
-  
-  // Attach enrollmentDataArr to the first row for BCBS param mapping
-  if (row) row._enrollmentDataArray = enrollmentDataArr;
-
-  console.log(`Processed ${monthlyClaimsData.length} months of claims data:`, monthlyClaimsData.slice(0, 3));
-
-  // Enhanced large claimant processing - handle multi-plan structure
-  let largeClaimantsData: LargeClaimant[] = [];
-  
-  if (isMultiPlan) {
-    // For multi-plan data, process claimants for each plan
-    const planNames = Array.from(new Set(data.filter(row => row.planName).map(row => row.planName)));
-    
-    planNames.forEach(planName => {
-      const planClaimants = data.filter((row, index) => {
-        // Skip monthly summary rows
-        const hasMonthField = row.Month || row.month || row.monthYear;
-        if (hasMonthField) return false;
-        
-        // Only process rows for this specific plan
-        if (row.planName !== planName) return false;
-
-        // Look for rows that have claimant identifiers
-        const hasClaimantId = row['Claimant Number'] || 
-          row.largeClaimantId || 
-          row.ClaimantId ||
-          row.claimantNumber ||
-          row['Member ID'] ||
-          row.memberId;
-        
-        // Look for rows with claim amounts (be more specific about thresholds)
-        const totalClaims = parseExcelNumber(row['Total Claims']);
-        const largeClaimantTotal = parseExcelNumber(row.largeClaimantTotal);
-        const claimAmount = parseExcelNumber(row['Claim Amount']);
-        const totalAmount = parseExcelNumber(row['Total Amount']);
-        
-        // Use a higher threshold to avoid picking up small claims or summary data
-        const significantAmount = Math.max(totalClaims, largeClaimantTotal, claimAmount, totalAmount);
-        const hasLargeClaim = significantAmount > 50000; // Raised threshold to $50k
-        
-        return hasClaimantId && hasLargeClaim;
-      })
-      .map((row, index) => {
-        // Try to extract claimant ID from various possible column names
-        const claimantId = row['Claimant Number'] || 
-                          row.largeClaimantId || 
-                          row.ClaimantId ||
-                          row.claimantNumber ||
-                          row['Member ID'] ||
-                          row.memberId ||
-                          `${planName}-LC${index + 1}`;
-
-        // Smart date assignment using the actual monthly claims data
-        let incurredDate: Date | null = null;
-        
-        // If we have monthly claims data, use it to determine safe date ranges
-        if (monthlyClaimsData.length > 0) {
-          // Sort the monthly data to get the actual range
-          const sortedMonthlyData = [...monthlyClaimsData].sort((a, b) => 
-            new Date(a.month).getTime() - new Date(b.month).getTime()
-          );
-          
-          const newestMonth = sortedMonthlyData[sortedMonthlyData.length - 1].month; // "2023-12"
-          
-          // Parse the newest month to get a safe date within that month
-          const [year, month] = newestMonth.split('-').map(Number);
-          // Use the 15th of the most recent month - this should always be within the month
-          incurredDate = new Date(year, month - 1, 15);
-        }
-        
-        // Fallback to a more recent date if we don't have monthly data
-        if (!incurredDate) {
-          incurredDate = new Date('2023-06-15'); // Safe middle date
-        }
-
-        // Extract amounts with detailed debugging
-        const totalAmount = parseExcelNumber(row['Total Claims']) || 
-                           parseExcelNumber(row.largeClaimantTotal) || 
-                           parseExcelNumber(row.totalAmount) || 
-                           parseExcelNumber(row['Total Amount']) ||
-                           parseExcelNumber(row['Claim Amount']) ||
-                           0;
-
-        const medicalAmount = parseExcelNumber(row['Medical Claims']) || 
-                             parseExcelNumber(row.medicalAmount) || 
-                             parseExcelNumber(row['Medical Amount']) ||
-                             parseExcelNumber(row['Medical']) ||
-                             totalAmount * 0.85; // Default split: 85% medical, 15% Rx
-
-        const rxAmount = parseExcelNumber(row['Rx Claims']) || 
-                        parseExcelNumber(row.rxAmount) || 
-                        parseExcelNumber(row['Pharmacy Claims']) ||
-                        parseExcelNumber(row['Rx Amount']) ||
-                        parseExcelNumber(row['Pharmacy']) ||
-                        totalAmount * 0.15;
-
-        console.log(`🏥 Processing ${planName} claimant ${claimantId}:`, {
-          totalAmount,
-          medicalAmount,
-          rxAmount
-        });
-
-        return {
-          claimantId: String(claimantId),
-          incurredDate,
-          totalAmount,
-          medicalAmount,
-          rxAmount,
-          planName: planName // Store plan name for multi-plan tracking
-        };
-      })
-      .filter(claimant => claimant.totalAmount > 0);
-      
-      largeClaimantsData.push(...planClaimants);
-    });
-  } else {
-    // Standard single-plan large claimant processing
-    largeClaimantsData = data
-      .filter((row, index) => {
-        // First, check if this looks like a monthly summary row (skip those)
-        const hasMonthField = row.Month || row.month || row.monthYear;
-        if (hasMonthField) {
-          console.log(`⏭️ Skipping monthly summary row ${index}:`, row);
-          return false;
-        }
-
-        // Look for rows that have claimant identifiers
-        const hasClaimantId = row['Claimant Number'] || 
-          row.largeClaimantId || 
-          row.ClaimantId ||
-          row.claimantNumber ||
-          row['Member ID'] ||
-          row.memberId;
-        
-        // Look for rows with claim amounts (be more specific about thresholds)
-        const totalClaims = parseExcelNumber(row['Total Claims']);
-        const largeClaimantTotal = parseExcelNumber(row.largeClaimantTotal);
-        const claimAmount = parseExcelNumber(row['Claim Amount']);
-        const totalAmount = parseExcelNumber(row['Total Amount']);
-        
-        // Use a higher threshold to avoid picking up small claims or summary data
-        const significantAmount = Math.max(totalClaims, largeClaimantTotal, claimAmount, totalAmount);
-        const hasLargeClaim = significantAmount > 50000; // Raised threshold to $50k
-        
-        const isLargeClaimant = hasClaimantId && hasLargeClaim;
-        
-        if (hasClaimantId || hasLargeClaim) {
-          console.log(`🔍 Evaluating row ${index} for large claimant:`, {
-            hasClaimantId: !!hasClaimantId,
-            hasLargeClaim,
-            significantAmount,
-            isLargeClaimant,
-            claimantIdValue: hasClaimantId,
-            availableAmountFields: Object.keys(row).filter(key => 
-              key.toLowerCase().includes('amount') || key.toLowerCase().includes('claims')
-            ),
-            rowData: row
-          });
-        }
-        
-        return isLargeClaimant;
-      })
-      .map((row, index) => {
-        // Try to extract claimant ID from various possible column names
-        const claimantId = row['Claimant Number'] || 
-                          row.largeClaimantId || 
-                          row.ClaimantId ||
-                          row.claimantNumber ||
-                          row['Member ID'] ||
-                          row.memberId ||
-                          `LC${index + 1}`;
-
-        // Smart date assignment using the actual monthly claims data
-        let incurredDate: Date | null = null;
-        
-        // If we have monthly claims data, use it to determine safe date ranges
-        if (monthlyClaimsData.length > 0) {
-          // Sort the monthly data to get the actual range
-          const sortedMonthlyData = [...monthlyClaimsData].sort((a, b) => 
-            new Date(a.month).getTime() - new Date(b.month).getTime()
-          );
-          
-          const newestMonth = sortedMonthlyData[sortedMonthlyData.length - 1].month; // "2023-12"
-          
-          // Parse the newest month to get a safe date within that month
-          const [year, month] = newestMonth.split('-').map(Number);
-          // Use the 15th of the most recent month - this should always be within the month
-          incurredDate = new Date(year, month - 1, 15);
-        }
-        
-        // Fallback to a more recent date if we don't have monthly data
-        if (!incurredDate) {
-          incurredDate = new Date('2024-06-15'); // Safe middle date
-        }
-
-        // Extract amounts with detailed debugging
-        const totalAmount = parseExcelNumber(row['Total Claims']) || 
-                           parseExcelNumber(row.largeClaimantTotal) || 
-                           parseExcelNumber(row.totalAmount) || 
-                           parseExcelNumber(row['Total Amount']) ||
-                           parseExcelNumber(row['Claim Amount']) ||
-                           0;
-
-        const medicalAmount = parseExcelNumber(row['Medical Claims']) || 
-                             parseExcelNumber(row.medicalAmount) || 
-                             parseExcelNumber(row['Medical Amount']) ||
-                             parseExcelNumber(row['Medical']) ||
-                             totalAmount * 0.85; // Default split: 85% medical, 15% Rx
-
-        const rxAmount = parseExcelNumber(row['Rx Claims']) || 
-                        parseExcelNumber(row.rxAmount) || 
-                        parseExcelNumber(row['Pharmacy Claims']) ||
-                        parseExcelNumber(row['Rx Amount']) ||
-                        parseExcelNumber(row['Pharmacy']) ||
-                        totalAmount * 0.15;
-
-        console.log(`🏥 Processing claimant ${claimantId}:`, {
-          rawRow: row,
-          extractedAmounts: {
-            totalAmount,
-            medicalAmount,
-            rxAmount,
-            calculatedTotal: medicalAmount + rxAmount
-          },
-          availableColumns: Object.keys(row).filter(key => 
-            key.toLowerCase().includes('claim') || 
-            key.toLowerCase().includes('medical') || 
-            key.toLowerCase().includes('rx') || 
-            key.toLowerCase().includes('pharmacy') ||
-            key.toLowerCase().includes('amount')
-          )
-        });
-
-        return {
-          claimantId: String(claimantId),
-          incurredDate,
-          totalAmount,
-          medicalAmount,
-          rxAmount
-        };
-      })
-      .filter(claimant => claimant.totalAmount > 0);
-  }
-
-  console.log(`Found ${largeClaimantsData.length} large claimants:`, largeClaimantsData);
-
-  // Debug: Calculate total large claimant amounts to verify they're reasonable
-  const totalLargeClaimantAmount = largeClaimantsData.reduce((sum, claimant) => sum + claimant.totalAmount, 0);
-  const totalMedicalAmount = largeClaimantsData.reduce((sum, claimant) => sum + (claimant.medicalAmount || 0), 0);
-  const totalRxAmount = largeClaimantsData.reduce((sum, claimant) => sum + (claimant.rxAmount || 0), 0);
-  
-  console.log('🏥 Large Claimant Summary:');
-  console.log(`   Count: ${largeClaimantsData.length}`);
-  console.log(`   Total Amount: $${totalLargeClaimantAmount.toLocaleString()}`);
-  console.log(`   Medical: $${totalMedicalAmount.toLocaleString()}`);
-  console.log(`   Rx: $${totalRxAmount.toLocaleString()}`);
-  console.log('   Individual Claimants:');
-  largeClaimantsData.forEach((claimant, index) => {
-    console.log(`     ${index + 1}. ${claimant.claimantId}: Total=$${claimant.totalAmount.toLocaleString()}, Medical=$${(claimant.medicalAmount || 0).toLocaleString()}, Rx=$${(claimant.rxAmount || 0).toLocaleString()}, Date=${claimant.incurredDate.toLocaleDateString()}`);
-  });
-
-  return {
-    carrier: carrier as any,
-    caseId: row.caseId || '',
-    effectiveDates: {
-      renewalStart: renewalStart,
-      renewalEnd: renewalEnd,
-    },
-    monthlyClaimsData: monthlyClaimsData,
-    largeClaimantsData: largeClaimantsData,
-    manualRates: {
-      medical: parseExcelNumber(row.manualRateMedical) || 0,
-      rx: parseExcelNumber(row.manualRateRx) || 0,
-    },
-    carrierSpecificParameters: mapToCarrierParams(row, carrier),
-    enrollmentData: enrollmentDataArr,
-    // Add multi-plan specific data for BCBS
-    ...(isMultiPlan && {
-      multiPlanData: {
-        planCount: row.planCount || 4,
-        totalGroupSize: row.totalGroupSize || 0,
-        planNames: Array.from(new Set(data.filter(row => row.planName).map(row => row.planName)))
-      }
-    })
-  };
-}
-
-// Helper function to parse month strings into sortable dates
-function parseMonthForSorting(monthStr: string): Date | null {
-  if (!monthStr) return null;
-  
-  try {
-    // Handle Excel serial date numbers (e.g., "44927" = Dec 1, 2022)
-    if (typeof monthStr === 'number' || /^\d{4,5}$/.test(monthStr.toString())) {
-      const serialDate = typeof monthStr === 'number' ? monthStr : parseInt(monthStr.toString());
-      
-      // Excel serial dates: 1 = Jan 1, 1900 (but Excel has a leap year bug)
-      // Reasonable range for dates (between 1900 and 2100)
-      if (serialDate > 0 && serialDate < 100000) {
-        // Convert Excel serial to JavaScript Date
-        // Excel epoch: Jan 1, 1900 (but with leap year bug, so actually Dec 30, 1899)
-        const excelEpoch = new Date(1899, 11, 30); // Dec 30, 1899
-        const jsDate = new Date(excelEpoch.getTime() + (serialDate * 24 * 60 * 60 * 1000));
-        return jsDate;
-      }
-    }
-    
-    const dateStr = monthStr.toString().trim();
-    
-    // Handle "YYYY-MM" format
-    if (/^\d{4}-\d{2}$/.test(dateStr)) {
-      return new Date(dateStr + '-01');
-    }
-    
-    // Handle "YYYY-MM-DD" format
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      return new Date(dateStr);
-    }
-    
-    // Handle "Month YYYY" format (e.g., "January 2023")
-    if (/^[A-Za-z]+ \d{4}$/.test(dateStr)) {
-      return new Date(dateStr + ' 01');
-    }
-    
-    // Handle "MM/YYYY" format
-    if (/^\d{1,2}\/\d{4}$/.test(dateStr)) {
-      const [month, year] = dateStr.split('/');
-      return new Date(parseInt(year), parseInt(month) - 1, 1);
-    }
-    
-    // Handle "MM-YYYY" format
-    if (/^\d{1,2}-\d{4}$/.test(dateStr)) {
-      const [month, year] = dateStr.split('-');
-      return new Date(parseInt(year), parseInt(month) - 1, 1);
-    }
-    
-    // Handle "MMM-YY" format (e.g., "Jan-24", "Feb-23")
-    if (/^[A-Za-z]{3}-\d{2}$/.test(dateStr)) {
-      const [monthAbbr, yearShort] = dateStr.split('-');
-      const year = 2000 + parseInt(yearShort); // Assume 21st century
-      const date = new Date(`${monthAbbr} 1, ${year}`);
-      return isNaN(date.getTime()) ? null : date;
-    }
-    
-    // Handle "MMMYY" format (e.g., "Jan24", "Feb23")
-    if (/^[A-Za-z]{3}\d{2}$/.test(dateStr)) {
-      const monthAbbr = dateStr.substring(0, 3);
-      const yearShort = dateStr.substring(3);
-      const year = 2000 + parseInt(yearShort);
-      const date = new Date(`${monthAbbr} 1, ${year}`);
-      return isNaN(date.getTime()) ? null : date;
-    }
-    
-    // Handle MM/DD/YYYY format (common in Excel exports) - use first day of month
-    if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(dateStr)) {
-      const [month, day, year] = dateStr.split('/');
-      return new Date(parseInt(year), parseInt(month) - 1, 1); // Use first day of month
-    }
-    
-    // Handle YYYY/MM/DD format - use first day of month
-    if (/^\d{4}\/\d{1,2}\/\d{1,2}$/.test(dateStr)) {
-      const [year, month, day] = dateStr.split('/');
-      return new Date(parseInt(year), parseInt(month) - 1, 1); // Use first day of month
-    }
-    
-    // Handle DD/MM/YYYY format - use first day of month
-    if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(dateStr)) {
-      // This is ambiguous with MM/DD/YYYY, but we'll assume MM/DD/YYYY format is more common
-      // If you need DD/MM/YYYY specifically, you may need additional logic to detect the format
-      const [month, day, year] = dateStr.split('/');
-      return new Date(parseInt(year), parseInt(month) - 1, 1);
-    }
-    
-    // Try direct parsing as fallback
-    const parsed = new Date(dateStr);
-    return isNaN(parsed.getTime()) ? null : parsed;
-    
-  } catch (error) {
-    console.warn(`Could not parse month: ${monthStr}`, error);
-    return null;
-  }
-}
-
-// Helper function to map carrier-specific parameters
-function mapToCarrierParams(row: any, carrier: string): any {
-  // Return all fields for carrier-specific mapping
-  // Each carrier will extract what it needs from this object
-  return {
-    ...row,
-    carrier
-  };
-}
-
-function getDefaultCarrierParams(carrier: string) {
-  switch (carrier) {
-    case 'UHC':
-      return {
-        poolingThreshold: 125000,
-        poolingFactor: 1,
-        deductibleSuppressionFactor: 1,
-        annualTrendFactor: 1.05,
-        experienceWeightingCurrent: 0.70,
-        experienceWeightingPrior: 0.30,
-        retentionAdmin: 0,
-        retentionRisk: 0,
-        retentionProfit: 0,
-        retentionOther: 0,
-      };
-    case 'AETNA':
-      return {
-        poolingLevel: 175000,
-        trendFactor: 1.05,
-        networkAdjustment: 1,
-        demographicAdjustment: 1,
-        retentionComponents: { admin: 0.05, risk: 0.02, profit: 0.01, other: 0.01 },
-      };
-    case 'CIGNA':
-      return {
-        poolingThreshold: 50000,
-        trendFactor: 1.04,
-        planChangeAdjustment: 1,
-        memberChangeAdjustment: 1,
-        credibilityWeighting: { current: 0.8, prior: 0.2 },
-        retentionComponents: { admin: 0.05, risk: 0.02, profit: 0.01, other: 0.01 },
-      };
-    case 'BCBS':
-      return {
-        poolingThreshold: 100000,
-        poolingCharge: 1,
-        trendFactor: 1.02,
-        enrollmentData: [],
-        retentionComponents: { admin: 0.05, risk: 0.02, profit: 0.01, other: 0.01 },
-      };
-    default:
-      return {};
-  }
-}
-
-function autoCalculateParams(data: any[], carrier: string) {
-  // Calculate total member months
-  const totalMemberMonths = data.reduce((sum, r) => sum + (parseExcelNumber(r.memberMonthsMedical) || 0) + (parseExcelNumber(r.memberMonthsRx) || 0), 0);
-  // Industry standard credibility formula (sqrt(totalMemberMonths/12000), capped at 1)
-  const credibility = Math.min(1, Math.sqrt(totalMemberMonths / 12000));
-  // Get system defaults
-  const defaults = getDefaultCarrierParams(carrier);
-  // Get carrier-specific parameters from uploaded data
-  const carrierParams = mapToCarrierParams(data[0] || {}, carrier);
-  // Allow override from uploaded data (first row)
-  const row = data[0] || {};
-  // Compose params, preferring uploaded value if present, else default
-  let params: any = { ...defaults, ...carrierParams };
-  Object.keys(defaults).forEach((key) => {
-    if (row[key] !== undefined && row[key] !== '') params[key] = row[key];
-  });
-  // Inject calculated credibility if relevant
-  if (carrier === 'CIGNA') {
-    params.credibilityWeighting = { current: credibility, prior: 1 - credibility };
-  }
-  // For BCBS, pass enrollmentData if present
-  if (carrier === 'BCBS' && row._enrollmentDataArray) {
-    params.enrollmentData = row._enrollmentDataArray;
-  }
-  return { params, totalMemberMonths, credibility };
-}
+// Quiet period after the last edit before the case is written to the workspace
+const AUTOSAVE_DELAY_MS = 800;
 
 const ProjectionDashboard: React.FC = () => {
   const [uploadedData, setUploadedData] = useState<any[]>([]);
@@ -815,7 +44,19 @@ const ProjectionDashboard: React.FC = () => {
   const [parsedData, setParsedData] = useState<{
     monthlyClaimsData: IMonthlyClaimsData[];
     largeClaimantsData: LargeClaimant[];
+    diagnostics: IngestDiagnostic[];
   } | null>(null);
+  const [carrierComparison, setCarrierComparison] = useState<CarrierComparisonEntry[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [workspaceStatus, setWorkspaceStatus] = useState<string | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  const lastSaved = useRef<CaseDraft | null>(null);
+  const [searchParams] = useSearchParams();
+
+  // A comparison belongs to the case it was run on
+  useEffect(() => setCarrierComparison(null), [uploadedData]);
 
   const handleRunProjection = async () => {
     if (!uploadedData.length || !selectedCarrier) {
@@ -824,29 +65,46 @@ const ProjectionDashboard: React.FC = () => {
     }
     
     // Check if we have monthly claims data anywhere in the uploaded data
-    const hasMonthlyData = uploadedData.some(row => 
-      row.Month && (row['Medical Claims'] !== undefined || row['Pharmacy Claims'] !== undefined)
-    );
-    
-    if (!hasMonthlyData) {
-      setError('Missing required monthly claims data. Please ensure your data includes rows with Month, Medical Claims, and Pharmacy Claims columns.');
+    if (!hasMonthlyClaimsRows(uploadedData)) {
+      setError(MISSING_MONTHLY_DATA_MESSAGE);
       return;
     }
     
     setError(null);
-    const input = mapToUniversalInput(uploadedData, selectedCarrier);
-    
-    // Store parsed data for audit view
-    setParsedData({
-      monthlyClaimsData: input.monthlyClaimsData,
-      largeClaimantsData: input.largeClaimantsData
-    });
-    
-    // Auto-calculate params and allow override
-    const { params, totalMemberMonths, credibility } = autoCalculateParams(uploadedData, selectedCarrier);
-    const mergedParams = { ...params, ...overrides };
-    const calcResult = dispatchCarrierCalculation(input, mergedParams);
-    setResult(await calcResult);
+    setRunning(true);
+    // Invalid uploaded or overridden parameters reject the run with every problem listed
+    try {
+      const { input, result: calcResult, diagnostics } = await runProjection(uploadedData, selectedCarrier, overrides);
+
+      // Store parsed data for audit view
+      setParsedData({
+        monthlyClaimsData: input.monthlyClaimsData,
+        largeClaimantsData: input.largeClaimantsData,
+        diagnostics
+      });
+      setResult(calcResult);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleCompareCarriers = async () => {
+    if (!hasMonthlyClaimsRows(uploadedData)) {
+      setError(MISSING_MONTHLY_DATA_MESSAGE);
+      return;
+    }
+
+    setError(null);
+    setComparing(true);
+    try {
+      setCarrierComparison(await runCarrierComparison(uploadedData));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setComparing(false);
+    }
   };
 
   const handleSampleData = () => {
@@ -948,10 +206,131 @@ const ProjectionDashboard: React.FC = () => {
     setError(null);
   };
 
+  // Scenarios are saved per case, identified by the upload's caseId row
+  const caseId = String(uploadedData.find(row => row.caseId)?.caseId || '');
+
+  // Reopen the case named in the URL, otherwise the last one worked on, unless a new case was asked for
+  useEffect(() => {
+    let cancelled = false;
+    const requested = searchParams.get('case');
+    const caseToOpen = searchParams.has('new') ? null : requested ?? getLastOpenedCaseId();
+
+    const openCase = async () => {
+      const record = caseToOpen ? await loadCase(caseToOpen) : null;
+      if (cancelled) return;
+      if (record) {
+        lastSaved.current = record;
+        setUploadedData(record.rows);
+        setSelectedCarrier(record.carrier);
+        setOverrides(record.overrides);
+        setResult(record.result);
+        setNotes(record.notes);
+        setLastOpenedCaseId(record.caseId);
+        setWorkspaceStatus(`Opened saved case, last updated ${new Date(record.updatedAt).toLocaleString()}`);
+      } else if (requested) {
+        setError(`Saved case "${requested}" was not found.`);
+      }
+    };
+
+    openCase()
+      .catch(err => setError(`Could not open saved case: ${(err as Error).message}`))
+      .finally(() => !cancelled && setHydrated(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams]);
+
+  // Autosave the case whenever its inputs, parameters, result or notes change
+  useEffect(() => {
+    if (!hydrated || uploadedData.length === 0) return;
+    const saved = lastSaved.current;
+    if (saved && caseKey(saved.caseId) === caseKey(caseId) && saved.rows === uploadedData && saved.carrier === selectedCarrier &&
+        saved.overrides === overrides && saved.result === result && saved.notes === notes) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const draft: CaseDraft = { caseId, carrier: selectedCarrier, rows: uploadedData, overrides, result, notes };
+      saveCase(draft)
+        .then(record => {
+          lastSaved.current = draft;
+          setLastOpenedCaseId(record.caseId);
+          setWorkspaceStatus(`Saved ${new Date(record.updatedAt).toLocaleTimeString()}`);
+        })
+        .catch(err => setWorkspaceStatus(`Could not save case: ${(err as Error).message}`));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [hydrated, caseId, uploadedData, selectedCarrier, overrides, result, notes]);
+
+  // Clearing a field drops its override so the calculated or default value applies again
+  const updateOverride = (key: string, value: string) => {
+    if (value.trim() === '') {
+      const { [key]: _cleared, ...rest } = overrides;
+      setOverrides(rest);
+      return;
+    }
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      setOverrides({ ...overrides, [key]: parsed });
+    }
+  };
+
+  // IBNR stays off unless the case opts in; lag triangles only arrive with saved or CLI settings
+  const updateIBNR = (ibnr: IBNRSettings | null) => {
+    const { ibnr: _cleared, ...rest } = overrides;
+    setOverrides(ibnr ? { ...rest, ibnr } : rest);
+  };
+
+  const updateCredibilitySettings = (credibilitySettings: CredibilitySettings | null) => {
+    const { credibilitySettings: _cleared, ...rest } = overrides;
+    setOverrides(credibilitySettings ? { ...rest, credibilitySettings } : rest);
+  };
+
+  // Calculated parameters and the prepared census, plan design, trend month and library values, once per input change
+  const parameterPreview = useMemo(() => {
+    if (!selectedCarrier) return null;
+    const { params, errors: rowErrors, totalMemberMonths, credibility } = autoCalculateParams(uploadedData, selectedCarrier);
+    const overrideErrors: Record<string, string> = {};
+    validateCarrierParameters(selectedCarrier, overrides, params).errors.forEach(fieldError => {
+      overrideErrors[fieldError.key] = fieldError.message;
+    });
+    const credibilityErrors = credibilitySettingsErrors(overrides).map(fieldError => fieldError.message);
+    // Census, plan design and trend month values show once the rows and overrides prepare cleanly
+    let demographics: CensusDemographics | null = null;
+    let planDesign: PlanDesignApplication | null = null;
+    let trendMonths: TrendMonthsApplication | null = null;
+    let assumptions: AssumptionApplication | null = null;
+    if (hasMonthlyClaimsRows(uploadedData) && Object.keys(overrideErrors).length === 0 && credibilityErrors.length === 0 &&
+      rowErrors.length === 0) {
+      try {
+        ({ demographics, planDesign, trendMonths, assumptions } = prepareProjection(uploadedData, selectedCarrier, overrides));
+      } catch {
+        demographics = null;
+        planDesign = null;
+        trendMonths = null;
+        assumptions = null;
+      }
+    }
+    return {
+      params, rowErrors, totalMemberMonths, credibility, overrideErrors, credibilityErrors, demographics, planDesign, trendMonths, assumptions
+    };
+  }, [uploadedData, selectedCarrier, overrides]);
+
   // UI for showing calculated/default values and allowing override
   const renderOverrides = () => {
-    if (!selectedCarrier) return null;
-    const { params, totalMemberMonths, credibility } = autoCalculateParams(uploadedData, selectedCarrier);
+    if (!parameterPreview) return null;
+    const {
+      params, rowErrors, totalMemberMonths, credibility, overrideErrors, credibilityErrors, demographics, planDesign, trendMonths, assumptions
+    } = parameterPreview;
+    const derivedValue = (key: string) => {
+      if (demographics?.applied && demographics.parameter === key) return Number(demographics.value!.toFixed(4));
+      if (planDesign?.applied && planDesign.parameter === key) return Number(planDesign.factor.toFixed(4));
+      const trendParameter = trendMonths?.parameters.find(parameter => parameter.applied && parameter.key === key);
+      if (trendParameter) return trendParameter.value;
+      const libraryParameter = assumptions?.parameters.find(parameter => parameter.applied && parameter.key === key);
+      if (libraryParameter) return libraryParameter.value;
+      return params[key];
+    };
     return (
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6">
         <div className="flex items-center mb-4">
@@ -970,26 +349,140 @@ const ProjectionDashboard: React.FC = () => {
           </div>
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="text-sm font-medium text-gray-600">Credibility Factor</div>
-            <div className="text-xl font-bold text-gray-900">{(credibility * 100).toFixed(1)}%</div>
+            <div className="text-xl font-bold text-gray-900">{(credibility.credibility * 100).toFixed(1)}%</div>
+            <div className="text-xs text-gray-500 mt-1">{credibility.formula}</div>
+          </div>
+        </div>
+
+        {demographics && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            Census: {demographics.employees.toLocaleString()} employees, {demographics.lives.toLocaleString()} lives;
+            {' '}age/sex factor {demographics.experienceFactor.toFixed(4)} at the experience midpoint and
+            {' '}{demographics.renewalFactor.toFixed(4)} at renewal ({demographics.table} table).
+            {demographics.parameter === null && ` ${selectedCarrier} has no demographic line to apply it to.`}
+            {demographics.parameter !== null && (demographics.applied
+              ? ` Applied to ${demographics.parameter} as ${demographics.value!.toFixed(4)}.`
+              : ` ${demographics.parameter} is set explicitly, so the census value ${demographics.value!.toFixed(4)} is not applied.`)}
           </div>
+        )}
+
+        {planDesign && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            <ul className="space-y-1">
+              {planDesign.explanation.map(line => <li key={line}>{line}</li>)}
+            </ul>
+            <p className="mt-1">
+              {planDesign.parameter === null && `${selectedCarrier} has no plan change line to apply it to.`}
+              {planDesign.parameter !== null && (planDesign.applied
+                ? `Applied to ${planDesign.parameter}.`
+                : `${planDesign.parameter} is set explicitly, so the plan design factor is not applied.`)}
+            </p>
+          </div>
+        )}
+
+        {assumptions && (
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 flex items-center justify-between">
+            <span>
+              Trend and pooling defaults from assumption set {assumptions.version} (effective {assumptions.effectiveQuarter})
+              {' '}for a {assumptions.segment} group renewing in {assumptions.renewalQuarter}.
+            </span>
+            <Link to="/assumptions" className="ml-3 text-blue-600 hover:underline whitespace-nowrap">Assumption library</Link>
+          </div>
+        )}
+
+        {trendMonths && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            <p>
+              Renewal {trendMonths.renewal.start.toLocaleDateString()} to {trendMonths.renewal.end.toLocaleDateString()};
+              {' '}{trendMonths.periods.map(period =>
+                `${period.months} trend months from the ${period.period} period (${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()})`
+              ).join(', ')}.
+            </p>
+            {trendMonths.warnings.map(warning => (
+              <p key={warning.message} className="mt-1 text-yellow-800">{warning.message}</p>
+            ))}
+          </div>
+        )}
+
+        {rowErrors.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-medium text-red-800">Fix these uploaded parameters before running the projection:</p>
+            <ul className="mt-1 text-sm text-red-700 list-disc list-inside">
+              {rowErrors.map(rowError => <li key={rowError.key}>{rowError.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="mb-4 pb-4 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700" title="Completes the latest months' claims before the experience periods are set">
+              IBNR Completion
+            </label>
+            <div className="flex items-center space-x-2">
+              {overrides.ibnr?.method === 'paidVsIncurred' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  step={1}
+                  title="Months after which a month's claims are fully paid"
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={overrides.ibnr.maturityMonths ?? DEFAULT_IBNR_MATURITY_MONTHS}
+                  onChange={e => {
+                    const maturityMonths = parseInt(e.target.value, 10);
+                    if (maturityMonths > 0) updateIBNR({ ...overrides.ibnr, maturityMonths });
+                  }}
+                />
+              )}
+              <select
+                className="w-44 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={overrides.ibnr?.method ?? ''}
+                onChange={e => updateIBNR(e.target.value ? { method: e.target.value as IBNRSettings['method'] } : null)}
+              >
+                <option value="">Off (reported claims)</option>
+                <option value="paidVsIncurred">Paid vs incurred</option>
+                {overrides.ibnr?.method === 'lagTriangle' && <option value="lagTriangle">Lag triangle</option>}
+              </select>
+            </div>
+          </div>
+          {overrides.ibnr?.method === 'paidVsIncurred' && (
+            <p className="mt-1 text-xs text-gray-500 text-right">
+              Develops the paidClaimsMedical and paidClaimsRx columns against months older than the maturity lag
+            </p>
+          )}
         </div>
 
+        <CredibilitySettingsEditor
+          settings={overrides.credibilitySettings}
+          errors={credibilityErrors}
+          onChange={updateCredibilitySettings}
+        />
+
         <div className="space-y-3">
-          {Object.entries(params).map(([key, value]) => (
-            typeof value !== 'object' ? (
-              <div key={key} className="flex items-center justify-between">
-                <label className="text-sm font-medium text-gray-700 capitalize">
-                  {key.replace(/([A-Z])/g, ' $1').trim()}
+          {getCarrierPlugin(selectedCarrier).parameterSchema.map(field => (
+            <div key={field.key}>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700" title={field.description}>
+                  {field.label}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{PARAMETER_UNIT_HINTS[field.unit]}</span>
                 </label>
                 <input
                   type="number"
                   step="any"
-                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={overrides[key] !== undefined ? overrides[key] : value}
-                  onChange={e => setOverrides({ ...overrides, [key]: parseFloat(e.target.value) || 0 })}
+                  min={field.min}
+                  max={field.max}
+                  placeholder="Calculated"
+                  className={`w-32 px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    overrideErrors[field.key] ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                  value={overrides[field.key] ?? derivedValue(field.key) ?? ''}
+                  onChange={e => updateOverride(field.key, e.target.value)}
                 />
               </div>
-            ) : null
+              {overrideErrors[field.key] && (
+                <p className="mt-1 text-xs text-red-600 text-right">{overrideErrors[field.key]}</p>
+              )}
+            </div>
           ))}
         </div>
       </div>
@@ -999,30 +492,12 @@ const ProjectionDashboard: React.FC = () => {
   const renderTemplate = () => {
     if (!result) return null;
 
-    // Use carrier-specific templates based on actual result types
-    switch (selectedCarrier) {
-      case 'UHC':
-        if (result.carrier === 'UHC' && result.detailedResults?.uhc) {
-          return <UHCTemplate result={result.detailedResults.uhc} />;
-        }
-        break;
-      case 'AETNA':
-        if (result.carrier === 'AETNA' && result.detailedResults?.aetna) {
-          return <AetnaTemplate result={result.detailedResults.aetna} />;
-        }
-        break;
-      case 'CIGNA':
-        if (result.carrier === 'CIGNA' && result.detailedResults?.cigna) {
-          return <CignaTemplate result={result.detailedResults.cigna} />;
-        }
-        break;
-      case 'BCBS':
-        if (result.carrier === 'BCBS') {
-          return <BCBSTemplate result={result as any} />;
-        }
-        break;
-      default:
-        break;
+    // Use the registered carrier template when the result belongs to the selected carrier
+    const plugin = getCarrierPlugin(selectedCarrier);
+    const templateResult = plugin.selectTemplateResult(result);
+    if (templateResult) {
+      const Template = plugin.template;
+      return <Template result={templateResult} />;
     }
 
     // Fallback for unsupported carriers or mismatched types
@@ -1216,6 +691,7 @@ const ProjectionDashboard: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rx Amount</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pooled @ $175K</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pooled @ $125K</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -1247,6 +723,12 @@ const ProjectionDashboard: React.FC = () => {
                               ${pooled125k.toLocaleString()}
                             </span>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                            {claimant.status ?? <span className="text-gray-400">Unmarked</span>}
+                            {claimant.expectedFutureCost !== undefined && (
+                              <span className="ml-1 text-gray-500">(expected ${claimant.expectedFutureCost.toLocaleString()})</span>
+                            )}
+                          </td>
                         </tr>
                       );
                     })}
@@ -1288,10 +770,58 @@ const ProjectionDashboard: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"></path>
               </svg>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No Large Claimants Found</h3>
-              <p className="text-gray-500">No claimants over $25,000 were detected in the uploaded data.</p>
+              <p className="text-gray-500">No claimants over ${DEFAULT_LARGE_CLAIMANT_THRESHOLD.toLocaleString()} were detected in the uploaded data.</p>
             </div>
           )}
         </div>
+
+        {/* Parse Diagnostics */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <div className="flex items-center mb-6">
+            <div className="w-8 h-8 bg-yellow-100 rounded-full flex items-center justify-center mr-3">
+              <svg className="w-4 h-4 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path>
+              </svg>
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Parse Diagnostics</h2>
+            <span className="ml-2 px-2 py-1 bg-yellow-100 text-yellow-800 text-sm rounded-full">
+              {parsedData.diagnostics.length} issues
+            </span>
+          </div>
+
+          {parsedData.diagnostics.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Column</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {parsedData.diagnostics.map((diagnostic, index) => (
+                    <tr key={index} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {diagnostic.sheet ? `${diagnostic.sheet} ` : ''}{diagnostic.row}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{diagnostic.column || '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={diagnostic.action === 'skipped' ? 'text-red-700 font-medium' : 'text-yellow-700 font-medium'}>
+                          {diagnostic.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{diagnostic.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-500">Every uploaded row was read as-is.</p>
+          )}
+        </div>
       </div>
     );
   };
@@ -1307,9 +837,15 @@ const ProjectionDashboard: React.FC = () => {
               <p className="mt-2 text-lg text-gray-600">Advanced actuarial modeling for informed renewal decisions</p>
             </div>
             <div className="flex items-center space-x-3">
+              <Link to="/cases" className="px-3 py-2 text-sm text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200">
+                Saved Cases
+              </Link>
+              <Link to="/assumptions" className="px-3 py-2 text-sm text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200">
+                Assumptions
+              </Link>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                <span>4 Carriers</span>
+                <span>{listCarrierPlugins().length} Carriers</span>
               </div>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
@@ -1423,6 +959,35 @@ const ProjectionDashboard: React.FC = () => {
                 {/* Configuration Parameters */}
                 {renderOverrides()}
 
+                {/* What-if Scenarios */}
+                {uploadedData.length > 0 && (
+                  <ScenarioManager
+                    key={caseId}
+                    rows={uploadedData}
+                    carrier={selectedCarrier}
+                    caseId={caseId}
+                    overrides={overrides}
+                    onOpenScenario={setOverrides}
+                  />
+                )}
+
+                {/* Case Notes */}
+                {uploadedData.length > 0 && (
+                  <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-lg font-semibold text-gray-900">Case Notes</h3>
+                      {workspaceStatus && <span className="text-xs text-gray-500">{workspaceStatus}</span>}
+                    </div>
+                    <textarea
+                      value={notes}
+                      onChange={e => setNotes(e.target.value)}
+                      rows={4}
+                      placeholder="Negotiation notes, open questions, assumptions agreed with the carrier..."
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                )}
+
                 {/* Error Display */}
                 {error && (
                   <div className="bg-red-50 border border-red-200 rounded-lg sm:rounded-xl p-3 sm:p-4">
@@ -1455,10 +1020,10 @@ const ProjectionDashboard: React.FC = () => {
                     
                     <button 
                       onClick={handleRunProjection}
-                      disabled={!uploadedData.length || !selectedCarrier}
+                      disabled={!uploadedData.length || !selectedCarrier || running}
                       className={`
                         w-full px-3 sm:px-4 py-2 sm:py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center text-sm sm:text-base
-                        ${(!uploadedData.length || !selectedCarrier)
+                        ${(!uploadedData.length || !selectedCarrier || running)
                           ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
                           : 'bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-lg hover:shadow-xl transform hover:-translate-y-0.5'
                         }
@@ -1467,8 +1032,25 @@ const ProjectionDashboard: React.FC = () => {
                       <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path>
                       </svg>
-                      <span className="hidden sm:inline">Run Projection Analysis</span>
-                      <span className="sm:hidden">Run Analysis</span>
+                      <span className="hidden sm:inline">{running ? 'Running Projection...' : 'Run Projection Analysis'}</span>
+                      <span className="sm:hidden">{running ? 'Running...' : 'Run Analysis'}</span>
+                    </button>
+
+                    <button
+                      onClick={handleCompareCarriers}
+                      disabled={!uploadedData.length || comparing}
+                      className={`
+                        w-full px-3 sm:px-4 py-2 sm:py-3 rounded-lg font-medium transition-colors duration-200 flex items-center justify-center text-sm sm:text-base
+                        ${(!uploadedData.length || comparing)
+                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                          : 'bg-blue-100 hover:bg-blue-200 text-blue-700'
+                        }
+                      `}
+                    >
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2"></path>
+                      </svg>
+                      {comparing ? 'Comparing Carriers...' : 'Compare All Carriers'}
                     </button>
                   </div>
 
@@ -1512,11 +1094,85 @@ const ProjectionDashboard: React.FC = () => {
                       </svg>
                     </div>
                     <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Projection Results</h2>
+                    {result.assumptionSet && (
+                      <span className="ml-auto text-xs text-gray-500">
+                        Assumption set {result.assumptionSet.version}, {result.assumptionSet.segment} group
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                    <div className="xl:col-span-2 min-w-0">{renderTemplate()}</div>
+                    <SensitivityTornado
+                      key={`${selectedCarrier}-${caseId}`}
+                      rows={uploadedData}
+                      carrier={selectedCarrier}
+                      overrides={overrides}
+                    />
                   </div>
-                  {renderTemplate()}
                 </div>
               </div>
             )}
+
+            {/* Tier Rates */}
+            {result && (
+              <div className="mt-6 sm:mt-8">
+                <TierRatingPanel key={caseId} rows={uploadedData} result={result} />
+              </div>
+            )}
+
+            {/* Pooled Claims Exhibit */}
+            {result?.poolingExhibit && (
+              <div className="mt-6 sm:mt-8">
+                <PooledClaimsPanel exhibit={result.poolingExhibit} adjustment={result.largeClaimAdjustment} />
+              </div>
+            )}
+
+            {/* Experience Credibility */}
+            {result?.credibility && (
+              <div className="mt-6 sm:mt-8">
+                <CredibilityPanel credibility={result.credibility} />
+              </div>
+            )}
+
+            {/* Calculation Trace Drill-down */}
+            {result?.trace && (
+              <div className="mt-6 sm:mt-8">
+                <CalculationTracePanel key={`${result.carrier}-${result.projectedPremiumPMPM}`} trace={result.trace} />
+              </div>
+            )}
+
+            {/* Multi-carrier Comparison */}
+            {(carrierComparison || comparing) && (
+              <div className="mt-6 sm:mt-8">
+                <CarrierComparison entries={carrierComparison || []} loading={comparing} />
+              </div>
+            )}
+
+            {/* Stochastic Projection */}
+            {uploadedData.length > 0 && (
+              <div className="mt-6 sm:mt-8">
+                <SimulationPanel key={caseId} rows={uploadedData} overrides={overrides} />
+              </div>
+            )}
+
+            {/* Self-funded (ASO) Mode */}
+            {uploadedData.length > 0 && (
+              <div className="mt-6 sm:mt-8">
+                <SelfFundedPanel
+                  key={caseId}
+                  rows={uploadedData}
+                  carrier={selectedCarrier}
+                  fullyInsuredPremiumPMPM={result?.projectedPremiumPMPM}
+                />
+              </div>
+            )}
+
+            {/* Level-funded Mode */}
+            {uploadedData.length > 0 && (
+              <div className="mt-6 sm:mt-8">
+                <LevelFundedPanel key={caseId} rows={uploadedData} carrier={selectedCarrier} overrides={overrides} />
+              </div>
+            )}
           </div>
         ) : (
           /* Data Audit View */
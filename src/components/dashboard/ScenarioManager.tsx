@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  Scenario,
+  ScenarioComparison,
+  ScenarioRun,
+  ScenarioValueFormat,
+  runScenarios,
+  compareScenarioRuns,
+  loadCaseScenarios,
+  saveCaseScenario,
+  deleteCaseScenario
+} from '../../scenarios';
+import { CredibilitySettings, IBNRSettings, ParameterOverrides } from '../../types/common';
+import { describeCredibilitySettings } from '../../credibility';
+import { describeIBNRSettings } from '../../utils/ibnr';
+
+interface ScenarioManagerProps {
+  rows: any[];
+  carrier: string;
+  caseId: string;
+  overrides: ParameterOverrides;
+  onOpenScenario: (overrides: ParameterOverrides) => void;
+}
+
+function formatValue(value: number | null, format: ScenarioValueFormat): string {
+  if (value === null) return '—';
+  if (format === 'currency') return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  if (format === 'percent') return `${(value * 100).toFixed(2)}%`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+}
+
+function formatOverride(key: string, value: ParameterOverrides[string]): string {
+  if (key === 'ibnr') return `IBNR ${describeIBNRSettings(value as IBNRSettings)}`;
+  if (key === 'credibilitySettings') return `credibility ${describeCredibilitySettings(value as CredibilitySettings)}`;
+  return `${key} ${value}`;
+}
+
+const ScenarioManager: React.FC<ScenarioManagerProps> = ({ rows, carrier, caseId, overrides, onOpenScenario }) => {
+  // Seeded once per case; the parent remounts this panel (via key) when the case changes
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => loadCaseScenarios(caseId));
+  const [scenarioName, setScenarioName] = useState('');
+  const [runs, setRuns] = useState<ScenarioRun[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!scenarioName.trim()) {
+      setMessage('Enter a scenario name to save the current parameters.');
+      return;
+    }
+    setScenarios(saveCaseScenario(caseId, { name: scenarioName, overrides }));
+    setMessage(`Saved scenario "${scenarioName.trim()}".`);
+    setScenarioName('');
+  };
+
+  const handleOpen = (scenario: Scenario) => {
+    onOpenScenario(scenario.overrides);
+    setScenarioName(scenario.name);
+    setMessage(`Opened scenario "${scenario.name}" in the parameter panel.`);
+  };
+
+  const handleDelete = (name: string) => {
+    setScenarios(deleteCaseScenario(caseId, name));
+    setMessage(`Deleted scenario "${name}".`);
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setMessage(null);
+    const scenarioRuns = await runScenarios(rows, carrier, scenarios);
+    setRuns(scenarioRuns);
+    setComparison(compareScenarioRuns(scenarioRuns, carrier));
+    setRunning(false);
+  };
+
+  const failedRuns = runs.filter(run => run.error);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Scenarios</h3>
+          <p className="text-sm text-gray-500">
+            {caseId ? `Saved for case ${caseId}` : 'Saved for this upload (no case ID)'}
+          </p>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={scenarios.length === 0 || running}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? 'Running...' : `Compare ${scenarios.length} Scenario${scenarios.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-4">
+        <input
+          type="text"
+          value={scenarioName}
+          onChange={e => setScenarioName(e.target.value)}
+          placeholder='Scenario name, e.g. "Trend 8%"'
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button onClick={handleSave} className="px-4 py-2 text-sm text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200">
+          Save Current Parameters
+        </button>
+      </div>
+
+      {scenarios.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {scenarios.map(scenario => (
+            <div key={scenario.name} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+              <div>
+                <span className="text-sm font-medium text-gray-900">{scenario.name}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {Object.keys(scenario.overrides).length === 0
+                    ? 'Calculated defaults'
+                    : Object.entries(scenario.overrides).map(([key, value]) => formatOverride(key, value)).join(', ')}
+                </span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button onClick={() => handleOpen(scenario)} className="px-3 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100">
+                  Open
+                </button>
+                <button onClick={() => handleDelete(scenario.name)} className="px-3 py-1 text-xs text-red-700 bg-red-50 rounded hover:bg-red-100">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <p className="text-sm text-gray-600 mb-3">{message}</p>}
+
+      {failedRuns.map(run => (
+        <p key={run.scenario.name} className="text-sm text-red-700 mb-2">
+          {run.scenario.name}: {run.error}
+        </p>
+      ))}
+
+      {comparison && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Line</th>
+                {comparison.scenarioNames.map(name => (
+                  <th key={name} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {comparison.rows.map(row => (
+                <tr key={row.key} className={row.differs ? 'bg-yellow-50' : undefined}>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={index} className="px-4 py-2 text-sm text-right text-gray-900">{formatValue(value, row.format)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {comparison.rows.length === 2 && (
+            <p className="mt-2 text-xs text-gray-500">No calculation lines differ between these scenarios.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioManager;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  CostAmount,
+  SELF_FUNDED_DEFAULTS,
+  SELF_FUNDED_PARAMETER_SCHEMA,
+  SelfFundedResult,
+  SelfFundedSettings,
+  runSelfFundedProjection
+} from '../../selfFunded';
+import { PARAMETER_UNIT_HINTS } from '../carriers';
+
+interface SelfFundedPanelProps {
+  rows: any[];
+  carrier: string;
+  fullyInsuredPremiumPMPM?: number; // Projected premium from the carrier calculation, for comparison
+}
+
+function formatCurrency(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatAnnual(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+const CostRow: React.FC<{ label: string; amount: CostAmount; emphasis?: boolean }> = ({ label, amount, emphasis }) => (
+  <tr className={emphasis ? 'font-semibold bg-gray-50' : ''}>
+    <td className="py-1.5 pr-4 text-gray-700">{label}</td>
+    <td className="py-1.5 pr-4 text-right font-mono">{formatCurrency(amount.pmpm)}</td>
+    <td className="py-1.5 text-right font-mono">{formatAnnual(amount.annual)}</td>
+  </tr>
+);
+
+const SelfFundedPanel: React.FC<SelfFundedPanelProps> = ({ rows, carrier, fullyInsuredPremiumPMPM }) => {
+  const [settings, setSettings] = useState<Partial<Record<keyof SelfFundedSettings, number>>>({});
+  const [result, setResult] = useState<SelfFundedResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // An emptied field falls back to the uploaded value or default
+  const updateSetting = (key: keyof SelfFundedSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(prev => {
+      const next = { ...prev };
+      if (value === '' || isNaN(parsed)) {
+        delete next[key];
+      } else {
+        next[key] = parsed;
+      }
+      return next;
+    });
+  };
+
+  const handleRun = () => {
+    setMessage(null);
+    try {
+      setResult(runSelfFundedProjection(rows, carrier, settings, fullyInsuredPremiumPMPM));
+    } catch (error) {
+      setResult(null);
+      setMessage((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Self-Funded (ASO) Renewal</h3>
+          <p className="text-sm text-gray-500">Expected claims, stop-loss and fixed costs for the same case funded on an ASO basis</p>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={rows.length === 0}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-100 hover:bg-blue-200 text-blue-700 disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          Run ASO Projection
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        {SELF_FUNDED_PARAMETER_SCHEMA.map(field => {
+          const key = field.key as keyof SelfFundedSettings;
+          return (
+            <label key={key} className="text-xs text-gray-600" title={field.description}>
+              {field.label} <span className="text-gray-400">({PARAMETER_UNIT_HINTS[field.unit]})</span>
+              <input
+                type="number"
+                step="any"
+                min={field.min}
+                max={field.max}
+                value={settings[key] ?? ''}
+                placeholder={String(SELF_FUNDED_DEFAULTS[key])}
+                onChange={e => updateSetting(key, e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {message && <p className="text-sm text-red-700 mb-3">{message}</p>}
+
+      {result && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium"></th>
+                <th className="py-2 pr-4 font-medium text-right">PMPM</th>
+                <th className="py-2 font-medium text-right">Annual</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <CostRow label="Expected claims (variable)" amount={result.variableCosts} emphasis />
+              <CostRow label="ASO admin and other fixed fees" amount={result.adminFees} />
+              <CostRow
+                label={`Specific stop-loss premium (${formatAnnual(result.specificStopLoss.deductible)} deductible, ` +
+                  `${result.specificStopLoss.claimantsOverDeductible} claimants over)`}
+                amount={result.specificStopLoss.premium}
+              />
+              <CostRow label="Aggregate stop-loss premium" amount={result.aggregateStopLoss.premium} />
+              <CostRow label="Total fixed costs" amount={result.fixedCosts} emphasis />
+              <CostRow label="Expected total cost" amount={result.expectedTotalCost} emphasis />
+              <CostRow
+                label={`Aggregate attachment point (${(result.aggregateStopLoss.corridor * 100).toFixed(0)}% of expected claims)`}
+                amount={result.aggregateStopLoss.attachmentPoint}
+              />
+              <CostRow label="Maximum liability (fixed costs + attachment point)" amount={result.maximumLiability} emphasis />
+              {result.fullyInsuredComparison && (
+                <CostRow label="Fully insured premium" amount={result.fullyInsuredComparison.premium} />
+              )}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            {result.projectedMemberMonths.toLocaleString()} projected member months; trend {result.trendFactor.toFixed(4)} over
+            {' '}{result.trendMonths.toFixed(1)} months; large claim credibility {(result.credibility * 100).toFixed(0)}%
+            {' '}({result.credibilityBasis.formula}).
+            {result.fullyInsuredComparison && (
+              <>
+                {' '}Expected savings versus fully insured {formatAnnual(result.fullyInsuredComparison.expectedSavings)};
+                {' '}at maximum liability {formatAnnual(result.fullyInsuredComparison.worstCaseSavings)}.
+              </>
+            )}
+          </p>
+          {result.warnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-800 mt-1">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelfFundedPanel;
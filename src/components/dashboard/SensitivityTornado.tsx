@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_SENSITIVITY_SHOCKS,
+  SensitivityAnalysis,
+  SensitivityShocks,
+  runSensitivity
+} from '../../sensitivity';
+import { SensitivityDriver } from '../carriers';
+import { ParameterOverrides } from '../../types/common';
+
+interface SensitivityTornadoProps {
+  rows: any[];
+  carrier: string;
+  overrides: ParameterOverrides;
+}
+
+const DRIVER_LABELS: Record<SensitivityDriver, string> = {
+  trend: 'Trend (± pts)',
+  pooling: 'Pooling threshold (± %)',
+  experienceWeight: 'Experience weight (± pts)',
+  credibility: 'Credibility (± pts)',
+  retention: 'Retention (± pts)'
+};
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+function formatParameter(value: number): string {
+  return Math.abs(value) >= 100 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : value.toFixed(3);
+}
+
+// Position of a rate-change impact on the chart, 0-100 with the base rate action at the centre
+function chartPosition(impact: number, scale: number): number {
+  return 50 + (scale > 0 ? (impact / scale) * 50 : 0);
+}
+
+const TornadoBar: React.FC<{ impact: number; scale: number; className: string }> = ({ impact, scale, className }) => {
+  const position = chartPosition(impact, scale);
+  return (
+    <div
+      className={`absolute top-1 bottom-1 ${className}`}
+      style={{ left: `${Math.min(50, position)}%`, width: `${Math.abs(position - 50)}%` }}
+    />
+  );
+};
+
+const SensitivityTornado: React.FC<SensitivityTornadoProps> = ({ rows, carrier, overrides }) => {
+  const [shocks, setShocks] = useState<SensitivityShocks>(DEFAULT_SENSITIVITY_SHOCKS);
+  const [analysis, setAnalysis] = useState<SensitivityAnalysis | null>(null);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Shocks are entered in points (or percent for relative shocks) and stored as decimals
+  const updateShock = (driver: SensitivityDriver, value: string) => {
+    const amount = parseFloat(value);
+    if (isNaN(amount) || amount < 0) return;
+    setShocks(prev => ({ ...prev, [driver]: { ...prev[driver], amount: amount / 100 } }));
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      setAnalysis(await runSensitivity(rows, carrier, overrides, shocks));
+    } catch (error) {
+      setAnalysis(null);
+      setMessage((error as Error).message);
+    }
+    setRunning(false);
+  };
+
+  const impact = (rateChange: number | null) =>
+    rateChange === null || !analysis ? 0 : rateChange - analysis.baseRateChange;
+  const scale = analysis
+    ? Math.max(0, ...analysis.entries.flatMap(entry =>
+      [Math.abs(impact(entry.lowRateChange)), Math.abs(impact(entry.highRateChange))]))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Rate Action Drivers</h3>
+        <button
+          onClick={handleRun}
+          disabled={running || rows.length === 0}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-100 hover:bg-blue-200 text-blue-700 disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          {running ? 'Running...' : 'Run Sensitivity'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {(Object.keys(DRIVER_LABELS) as SensitivityDriver[]).map(driver => (
+          <label key={driver} className="text-xs text-gray-600">
+            {DRIVER_LABELS[driver]}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              defaultValue={shocks[driver].amount * 100}
+              onChange={e => updateShock(driver, e.target.value)}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      {message && <p className="text-sm text-red-700 mb-3">{message}</p>}
+
+      {analysis && (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            Base rate action {formatRate(analysis.baseRateChange)}; bars show the change from it
+            (<span className="text-blue-600">down shock</span>, <span className="text-orange-500">up shock</span>).
+          </p>
+          <div className="space-y-3">
+            {analysis.entries.map(entry => (
+              <div key={entry.key}>
+                <div className="flex justify-between text-xs text-gray-700">
+                  <span className="font-medium">{entry.label}</span>
+                  <span>
+                    {formatParameter(entry.lowValue)} / {formatParameter(entry.baseValue)} / {formatParameter(entry.highValue)}
+                  </span>
+                </div>
+                {entry.error ? (
+                  <p className="text-xs text-red-700">{entry.error}</p>
+                ) : (
+                  <>
+                    <div className="relative h-5 bg-gray-50 rounded">
+                      <div className="absolute top-0 bottom-0 left-1/2 w-px bg-gray-400" />
+                      <TornadoBar impact={impact(entry.lowRateChange)} scale={scale} className="bg-blue-500" />
+                      <TornadoBar impact={impact(entry.highRateChange)} scale={scale} className="bg-orange-400 opacity-80" />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>{formatRate(entry.lowRateChange!)}</span>
+                      <span>swing {(entry.swing * 100).toFixed(2)} pts</span>
+                      <span>{formatRate(entry.highRateChange!)}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityTornado;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_SIMULATION_SCENARIOS,
+  DEFAULT_SIMULATION_SEED,
+  SimulationPercentiles,
+  SimulationResult,
+  runSimulation
+} from '../../simulation';
+import { ParameterOverrides } from '../../types/common';
+
+interface SimulationPanelProps {
+  rows: any[];
+  overrides: ParameterOverrides;
+}
+
+function formatRate(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatPercentiles(percentiles: SimulationPercentiles | null): string[] {
+  return percentiles ? [percentiles.p10, percentiles.p50, percentiles.p90].map(formatRate) : ['—', '—', '—'];
+}
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ rows, overrides }) => {
+  const [scenarios, setScenarios] = useState(DEFAULT_SIMULATION_SCENARIOS);
+  const [seed, setSeed] = useState(DEFAULT_SIMULATION_SEED);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      setResult(await runSimulation(rows, { scenarios, seed }, overrides));
+    } catch (error) {
+      setResult(null);
+      setMessage((error as Error).message);
+    }
+    setRunning(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Rate Action Range (Simulation)</h3>
+          <p className="text-sm text-gray-500">
+            Monthly claims and large claimants resampled from this group&apos;s experience, rerun through each carrier
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <label className="text-xs text-gray-600">
+            Scenarios
+            <input
+              type="number"
+              min={1}
+              step={100}
+              value={scenarios}
+              onChange={e => setScenarios(parseInt(e.target.value, 10) || DEFAULT_SIMULATION_SCENARIOS)}
+              className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Seed
+            <input
+              type="number"
+              value={seed}
+              onChange={e => setSeed(parseInt(e.target.value, 10) || 0)}
+              className="mt-1 block w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <button
+            onClick={handleRun}
+            disabled={running || rows.length === 0}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-100 hover:bg-blue-200 text-blue-700 disabled:bg-gray-200 disabled:text-gray-400"
+          >
+            {running ? 'Simulating...' : 'Run Simulation'}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-red-700 mb-3">{message}</p>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            {result.scenarios.toLocaleString()} scenarios, seed {result.seed};
+            {' '}{(result.model.largeClaimantFrequency * 12000).toFixed(2)} large claimants per 1,000 members a year,
+            {' '}monthly volatility {formatRate(result.model.attritionalVolatility)}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Carrier</th>
+                  <th className="py-2 pr-4 font-medium text-right">Deterministic</th>
+                  <th className="py-2 pr-4 font-medium text-right">P10</th>
+                  <th className="py-2 pr-4 font-medium text-right">P50</th>
+                  <th className="py-2 pr-4 font-medium text-right">P90</th>
+                  <th className="py-2 font-medium text-right">Failed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.carriers.map(carrier => (
+                  <tr key={carrier.carrierId}>
+                    <td className="py-2 pr-4 text-gray-900">{carrier.label}</td>
+                    {carrier.error ? (
+                      <td colSpan={5} className="py-2 text-red-700">{carrier.error}</td>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-4 text-right">{formatRate(carrier.deterministicRateAction)}</td>
+                        {formatPercentiles(carrier.rateAction).map((value, index) => (
+                          <td key={index} className="py-2 pr-4 text-right font-medium">{value}</td>
+                        ))}
+                        <td className="py-2 text-right text-gray-500">{carrier.failedScenarios}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { CalculationResult } from '../../types/common';
+import {
+  TIER_RATING_DEFAULTS,
+  TIER_RATING_PARAMETER_SCHEMA,
+  TierRatingSettings,
+  runTierRating
+} from '../../tierRating';
+import { PARAMETER_UNIT_HINTS } from '../carriers';
+
+interface TierRatingPanelProps {
+  rows: any[];
+  result: CalculationResult;
+}
+
+function formatCurrency(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+const TierRatingPanel: React.FC<TierRatingPanelProps> = ({ rows, result }) => {
+  const [settings, setSettings] = useState<Partial<Record<keyof TierRatingSettings, number>>>({});
+
+  // An emptied field falls back to the uploaded value or default
+  const updateSetting = (key: keyof TierRatingSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(prev => {
+      const next = { ...prev };
+      if (value === '' || isNaN(parsed)) {
+        delete next[key];
+      } else {
+        next[key] = parsed;
+      }
+      return next;
+    });
+  };
+
+  const rating = useMemo(() => {
+    try {
+      return { value: runTierRating(rows, result, settings), message: null };
+    } catch (error) {
+      return { value: null, message: (error as Error).message };
+    }
+  }, [rows, result, settings]);
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl border border-gray-200 shadow-sm p-4 sm:p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Tier Rates</h3>
+        <p className="text-sm text-gray-500">Composite PMPM converted to monthly rates by tier ratio and tier enrollment</p>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {TIER_RATING_PARAMETER_SCHEMA.map(field => {
+          const key = field.key as keyof TierRatingSettings;
+          return (
+            <label key={key} className="text-xs text-gray-600" title={field.description}>
+              {field.label} <span className="text-gray-400">({PARAMETER_UNIT_HINTS[field.unit]})</span>
+              <input
+                type="number"
+                step="any"
+                min={field.min}
+                max={field.max}
+                value={settings[key] ?? ''}
+                placeholder={TIER_RATING_DEFAULTS[key] ? String(TIER_RATING_DEFAULTS[key]) : 'from upload'}
+                onChange={e => updateSetting(key, e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {rating.message && <p className="text-sm text-red-700 mb-3">{rating.message}</p>}
+
+      {rating.value && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Tier</th>
+                <th className="py-2 pr-4 font-medium text-right">Ratio</th>
+                <th className="py-2 pr-4 font-medium text-right">Enrolled</th>
+                <th className="py-2 pr-4 font-medium text-right">Current</th>
+                <th className="py-2 pr-4 font-medium text-right">Renewal</th>
+                <th className="py-2 font-medium text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rating.value.tiers.map(tier => (
+                <tr key={tier.tier}>
+                  <td className="py-1.5 pr-4 text-gray-900">{tier.label} ({tier.tier})</td>
+                  <td className="py-1.5 pr-4 text-right font-mono">{tier.ratio.toFixed(2)}</td>
+                  <td className="py-1.5 pr-4 text-right">{tier.enrollment.toLocaleString(undefined, { maximumFractionDigits: 1 })}</td>
+                  <td className="py-1.5 pr-4 text-right font-mono">{formatCurrency(tier.currentRate)}</td>
+                  <td className="py-1.5 pr-4 text-right font-mono font-medium">{formatCurrency(tier.renewalRate)}</td>
+                  <td className="py-1.5 text-right">{formatChange(tier.change)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold bg-gray-50">
+                <td className="py-1.5 pr-4 text-gray-700">Composite PMPM</td>
+                <td></td>
+                <td className="py-1.5 pr-4 text-right">{rating.value.members.toLocaleString()} members</td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatCurrency(rating.value.composite.currentPMPM)}</td>
+                <td className="py-1.5 pr-4 text-right font-mono">{formatCurrency(rating.value.composite.renewalPMPM)}</td>
+                <td></td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            Tier rates give {formatCurrency(rating.value.monthlyPremium.tiered)} a month against the composite
+            {' '}{formatCurrency(rating.value.monthlyPremium.composite)} ({formatCurrency(rating.value.monthlyPremium.offBalance)} rounding).
+            {rating.value.currentRatesSource === 'estimated' && ' Current rates are spread from the current composite PMPM.'}
+          </p>
+          {rating.value.warnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-800 mt-1">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TierRatingPanel;
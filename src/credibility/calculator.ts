@@ -0,0 +1,131 @@
+import { CredibilityResult, CredibilitySettings, CredibilityTable, UniversalInput } from '../types/common';
+import { CredibilityExposure } from './types';
+import { CREDIBILITY_METHOD_LABELS } from './settings';
+
+
+function positiveSetting(settings: CredibilitySettings, key: 'fullCredibilityMemberMonths' | 'buhlmannK', label: string): number {
+  const value = settings[key];
+  if (value === undefined || !(value > 0)) {
+    throw new Error(`${CREDIBILITY_METHOD_LABELS[settings.method]} credibility requires a positive ${label}`);
+  }
+  return value;
+}
+
+/**
+ * Credibility from a published table: the row at or below the exposure, or interpolated between rows
+ * Below the first row a group has no credibility; above the last it has the last row's
+ */
+export function lookupCredibilityTable(table: CredibilityTable, exposure: number): number {
+  if (table.rows.length === 0) {
+    throw new Error(`Credibility table ${table.name} has no rows`);
+  }
+  const rows = [...table.rows].sort((a, b) => a.exposure - b.exposure);
+  const above = rows.findIndex(row => row.exposure > exposure);
+  if (above === 0) return 0;
+  if (above === -1) return rows[rows.length - 1].credibility;
+
+  const lower = rows[above - 1];
+  if (!table.interpolate) return lower.credibility;
+  const upper = rows[above];
+  return lower.credibility + (upper.credibility - lower.credibility) * (exposure - lower.exposure) / (upper.exposure - lower.exposure);
+}
+
+function unflooredCredibility(exposure: CredibilityExposure, settings: CredibilitySettings): CredibilityResult {
+  const memberMonths = exposure.memberMonths;
+  switch (settings.method) {
+    case 'limitedFluctuation': {
+      const full = positiveSetting(settings, 'fullCredibilityMemberMonths', 'full credibility standard');
+      return {
+        method: settings.method,
+        credibility: Math.min(1, Math.sqrt(memberMonths / full)),
+        formula: 'min(1, √(experience member months ÷ full credibility member months))',
+        inputs: { 'Experience member months': memberMonths, 'Full credibility member months': full }
+      };
+    }
+    case 'linear': {
+      const full = positiveSetting(settings, 'fullCredibilityMemberMonths', 'full credibility standard');
+      return {
+        method: settings.method,
+        credibility: Math.min(1, memberMonths / full),
+        formula: 'min(1, experience member months ÷ full credibility member months)',
+        inputs: { 'Experience member months': memberMonths, 'Full credibility member months': full }
+      };
+    }
+    case 'buhlmann': {
+      const k = positiveSetting(settings, 'buhlmannK', 'k (expected process variance ÷ variance of hypothetical means)');
+      return {
+        method: settings.method,
+        credibility: memberMonths / (memberMonths + k),
+        formula: 'experience member months ÷ (experience member months + k)',
+        inputs: { 'Experience member months': memberMonths, 'Bühlmann k': k }
+      };
+    }
+    case 'table': {
+      const table = settings.table;
+      if (!table) {
+        throw new Error('Table credibility requires a credibility table');
+      }
+      if (table.basis === 'employees' && exposure.employees === undefined) {
+        throw new Error(`Credibility table ${table.name} is by group size, but the case has no census or enrollment`);
+      }
+      const value = table.basis === 'employees' ? exposure.employees! : memberMonths;
+      const label = table.basis === 'employees' ? 'Employees' : 'Experience member months';
+      return {
+        method: settings.method,
+        credibility: lookupCredibilityTable(table, value),
+        formula: `${table.name} table by ${table.basis === 'employees' ? 'group size' : 'member months'}` +
+          (table.interpolate ? ', interpolated between rows' : ''),
+        inputs: { [label]: value },
+        table: table.name
+      };
+    }
+    case 'supplied': {
+      const credibility = settings.credibility;
+      if (credibility === undefined || credibility < 0 || credibility > 1) {
+        throw new Error('Supplied credibility must be between 0 and 1');
+      }
+      return {
+        method: settings.method,
+        credibility,
+        formula: 'supplied credibility',
+        inputs: { 'Supplied credibility': credibility }
+      };
+    }
+    default:
+      throw new Error(`Unknown credibility method: ${settings.method}`);
+  }
+}
+
+/**
+ * Experience credibility by the settings' method, floored at the minimum when one is set
+ * The result documents the formula and the inputs it was computed from
+ */
+export function calculateCredibility(exposure: CredibilityExposure, settings: CredibilitySettings): CredibilityResult {
+  const result = unflooredCredibility(exposure, settings);
+  if (settings.minimumCredibility === undefined) return result;
+
+  return {
+    ...result,
+    credibility: Math.max(settings.minimumCredibility, result.credibility),
+    formula: `max(minimum, ${result.formula})`,
+    inputs: { ...result.inputs, 'Minimum credibility': settings.minimumCredibility }
+  };
+}
+
+// The formula with its inputs and result, e.g. for a calculation line's working
+export function describeCredibility(result: CredibilityResult): string {
+  const inputs = Object.entries(result.inputs).map(([label, value]) => `${label} ${value.toLocaleString()}`).join(', ');
+  return `${result.formula} with ${inputs} = ${(result.credibility * 100).toFixed(1)}%`;
+}
+
+// Enrolled employees, from the census headcount or else the latest month's subscribers
+export function groupSize(input: UniversalInput): number | undefined {
+  if (input.census?.length) return input.census.length;
+  const enrollment = [...(input.enrollmentData ?? [])].sort((a, b) => a.month.localeCompare(b.month));
+  return enrollment.length > 0 ? enrollment[enrollment.length - 1].subscribers : undefined;
+}
+
+export function credibilityExposure(input: UniversalInput, memberMonths: number): CredibilityExposure {
+  const employees = groupSize(input);
+  return { memberMonths, ...(employees !== undefined && { employees }) };
+}
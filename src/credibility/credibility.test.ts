@@ -0,0 +1,156 @@
+import { runProjection } from '../utils/projectionRunner';
+import { CredibilityTable, UniversalInput } from '../types/common';
+import {
+  calculateCredibility,
+  credibilityExposure,
+  describeCredibilitySettings,
+  lookupCredibilityTable,
+  validateCredibilitySettings,
+  PUBLISHED_CREDIBILITY_TABLES
+} from '.';
+
+describe('credibility', () => {
+  const memberMonthsTable: CredibilityTable = {
+    name: 'Carrier A 2024',
+    basis: 'memberMonths',
+    rows: [
+      { exposure: 1200, credibility: 0.1 },
+      { exposure: 6000, credibility: 0.5 },
+      { exposure: 12000, credibility: 0.8 },
+      { exposure: 24000, credibility: 1 }
+    ]
+  };
+
+  const monthly = Array.from({ length: 24 }, (_, i) => ({
+    Month: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+    'Medical Claims': 400000,
+    'Pharmacy Claims': 100000,
+    memberMonthsMedical: 1000,
+    memberMonthsRx: 1000
+  }));
+
+  test('computes square root, linear and Bühlmann credibility with the formula and inputs', () => {
+    const sqrt = calculateCredibility({ memberMonths: 3000 }, { method: 'limitedFluctuation', fullCredibilityMemberMonths: 12000 });
+    expect(sqrt.credibility).toBeCloseTo(0.5);
+    expect(sqrt.formula).toBe('min(1, √(experience member months ÷ full credibility member months))');
+    expect(sqrt.inputs).toEqual({ 'Experience member months': 3000, 'Full credibility member months': 12000 });
+
+    expect(calculateCredibility({ memberMonths: 3000 }, { method: 'linear', fullCredibilityMemberMonths: 12000 }).credibility)
+      .toBeCloseTo(0.25);
+    expect(calculateCredibility({ memberMonths: 30000 }, { method: 'linear', fullCredibilityMemberMonths: 12000 }).credibility)
+      .toBe(1);
+
+    const buhlmann = calculateCredibility({ memberMonths: 6000 }, { method: 'buhlmann', buhlmannK: 2000, minimumCredibility: 0.9 });
+    expect(buhlmann.credibility).toBe(0.9);
+    expect(buhlmann.formula).toBe('max(minimum, experience member months ÷ (experience member months + k))');
+    expect(buhlmann.inputs).toEqual({ 'Experience member months': 6000, 'Bühlmann k': 2000, 'Minimum credibility': 0.9 });
+
+    expect(() => calculateCredibility({ memberMonths: 6000 }, { method: 'buhlmann' }))
+      .toThrow('Bühlmann credibility requires a positive k');
+  });
+
+  test('looks up published tables by member months or group size', () => {
+    expect(lookupCredibilityTable(memberMonthsTable, 1000)).toBe(0);
+    expect(lookupCredibilityTable(memberMonthsTable, 9000)).toBe(0.5);
+    expect(lookupCredibilityTable({ ...memberMonthsTable, interpolate: true }, 9000)).toBeCloseTo(0.65);
+    expect(lookupCredibilityTable(memberMonthsTable, 50000)).toBe(1);
+
+    const input = { census: [], enrollmentData: [
+      { month: '2024-11', subscribers: 40, members: 90 },
+      { month: '2024-12', subscribers: 55, members: 120 }
+    ] } as unknown as UniversalInput;
+    const bySize = calculateCredibility(credibilityExposure(input, 9000), {
+      method: 'table',
+      table: { name: 'Carrier B small group', basis: 'employees', rows: [{ exposure: 25, credibility: 0.2 }, { exposure: 50, credibility: 0.4 }] }
+    });
+    expect(bySize).toEqual({
+      method: 'table',
+      credibility: 0.4,
+      formula: 'Carrier B small group table by group size',
+      inputs: { Employees: 55 },
+      table: 'Carrier B small group'
+    });
+    expect(() => calculateCredibility({ memberMonths: 9000 }, {
+      method: 'table',
+      table: { name: 'Carrier B small group', basis: 'employees', rows: [{ exposure: 25, credibility: 0.2 }] }
+    })).toThrow('Credibility table Carrier B small group is by group size, but the case has no census or enrollment');
+  });
+
+  test('documents each carrier\'s default credibility in the result', async () => {
+    const rows = [{ caseId: 'CRED-1' }, ...monthly];
+
+    const aetna = (await runProjection(rows, 'AETNA')).result;
+    expect(aetna.credibility).toEqual(expect.objectContaining({ method: 'limitedFluctuation', credibility: 1 }));
+    expect(aetna.credibility!.inputs['Experience member months']).toBe(24000);
+
+    const uhc = (await runProjection(rows, 'UHC')).result;
+    expect(uhc.credibility).toEqual(expect.objectContaining({ method: 'supplied', credibility: 0.42 }));
+
+    const bcbs = (await runProjection(rows, 'BCBS')).result;
+    const line21 = bcbs.detailedResults!.bcbs.individualPlans[0].calculations.find((step: any) => step.lineNumber === '21');
+    expect(line21.result).toBe(1);
+    expect(bcbs.credibility!.formula).toBe('supplied credibility');
+  });
+
+  test('replaces a carrier\'s credibility with the chosen method', async () => {
+    const rows = [{ caseId: 'CRED-2' }, ...monthly];
+    const credibilitySettings = { method: 'buhlmann', buhlmannK: 8000 };
+
+    const aetna = (await runProjection(rows, 'AETNA', { credibilitySettings })).result;
+    const line16 = aetna.detailedResults!.aetna.calculations.find((line: any) => line.lineNumber === '16');
+    expect(line16.current.total).toBeCloseTo(0.75);
+    expect(aetna.trace!.nodes.find(node => node.id === '16')!.formula)
+      .toBe('experience member months ÷ (experience member months + k)');
+
+    // 24,000 member months across both periods steps down to the 12,000 row
+    const table = { ...memberMonthsTable, rows: [...memberMonthsTable.rows.slice(0, 3), { exposure: 36000, credibility: 1 }] };
+    const uhc = (await runProjection(rows, 'UHC', { credibilitySettings: { method: 'table', table } })).result;
+    const weighting = uhc.detailedResults!.uhc.summary.credibilityWeighting;
+    expect(weighting.experience).toBe(0.8);
+    expect(weighting.manual).toBeCloseTo(0.2);
+    expect(uhc.credibility!.table).toBe('Carrier A 2024');
+
+    const humana = (await runProjection(rows, 'HUMANA', { credibilitySettings })).result;
+    expect(humana.detailedResults!.humana.summary.credibilityFactor).toBeCloseTo(humana.credibility!.credibility);
+    expect(humana.credibility!.method).toBe('buhlmann');
+
+    const cigna = (await runProjection(rows, 'CIGNA', { credibilitySettings })).result;
+    const weight = cigna.detailedResults!.cigna.calculations.find((line: any) => line.description === 'Experience Weight');
+    expect(weight.pmpm).toBe(`${(cigna.credibility!.credibility * 100).toFixed(1)}%`);
+
+    const bcbs = (await runProjection(rows, 'BCBS', { credibilitySettings })).result;
+    const line21 = bcbs.detailedResults!.bcbs.individualPlans[0].calculations.find((step: any) => step.lineNumber === '21');
+    expect(line21.result).toBeCloseTo(0.75);
+  });
+
+  test('checks structured settings and keeps only the fields the method reads', () => {
+    expect(validateCredibilitySettings({ method: 'buhlmann', buhlmannK: 8000, fullCredibilityMemberMonths: 12000 }))
+      .toEqual({ settings: { method: 'buhlmann', buhlmannK: 8000 }, errors: [] });
+    expect(validateCredibilitySettings({ method: 'guess' }).errors)
+      .toEqual(['Credibility method must be one of limitedFluctuation, linear, buhlmann, table, supplied']);
+    expect(validateCredibilitySettings({ method: 'linear', minimumCredibility: 2 })).toEqual({
+      settings: null,
+      errors: ['Full credibility member months must be a positive number', 'Minimum credibility must be between 0 and 1']
+    });
+    expect(validateCredibilitySettings({ method: 'table', table: { name: 'Bad', basis: 'lives', rows: [{ exposure: 100, credibility: 1.5 }] } }).errors)
+      .toEqual([
+        'Credibility table basis must be memberMonths or employees',
+        'Credibility table row 1 needs a non-negative exposure and a credibility between 0 and 1'
+      ]);
+    expect(describeCredibilitySettings({ method: 'buhlmann', buhlmannK: 8000, minimumCredibility: 0.2 })).toBe('Bühlmann, k 8,000, minimum 20%');
+  });
+
+  test('ships published tables that pass validation and rate a case', async () => {
+    PUBLISHED_CREDIBILITY_TABLES.forEach(table => {
+      expect(validateCredibilitySettings({ method: 'table', table }).errors).toEqual([]);
+    });
+    expect(lookupCredibilityTable(PUBLISHED_CREDIBILITY_TABLES[0], 9000)).toBeCloseTo(0.625);
+
+    const rows = [{ caseId: 'CRED-3' }, ...monthly];
+    const credibilitySettings = { method: 'table', table: PUBLISHED_CREDIBILITY_TABLES[0] };
+    const aetna = (await runProjection(rows, 'AETNA', { credibilitySettings })).result;
+    expect(aetna.credibility!.table).toBe('Standard small group by member months');
+    await expect(runProjection(rows, 'AETNA', { credibilitySettings: { method: 'supplied', credibility: 1.2 } }))
+      .rejects.toThrow('Invalid AETNA parameters: Supplied credibility must be between 0 and 1');
+  });
+});
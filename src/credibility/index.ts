@@ -0,0 +1,5 @@
+// Experience credibility shared by the carrier calculators: square root, linear, Bühlmann, published tables or supplied
+export * from './types';
+export { calculateCredibility, describeCredibility, lookupCredibilityTable, groupSize, credibilityExposure } from './calculator';
+export { CREDIBILITY_METHODS, CREDIBILITY_METHOD_LABELS, validateCredibilitySettings, describeCredibilitySettings } from './settings';
+export { PUBLISHED_CREDIBILITY_TABLES, findCredibilityTable } from './tables';
@@ -0,0 +1,93 @@
+import { CredibilityMethod, CredibilitySettings } from '../types/common';
+import { CredibilitySettingsValidation } from './types';
+
+export const CREDIBILITY_METHODS: CredibilityMethod[] = ['limitedFluctuation', 'linear', 'buhlmann', 'table', 'supplied'];
+
+export const CREDIBILITY_METHOD_LABELS: Record<CredibilityMethod, string> = {
+  limitedFluctuation: 'Limited fluctuation',
+  linear: 'Linear',
+  buhlmann: 'Bühlmann',
+  table: 'Table',
+  supplied: 'Supplied'
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+const isShare = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Problems with a table: every row needs a non-negative exposure and a credibility between 0 and 1
+function tableErrors(table: any): string[] {
+  if (!table || typeof table !== 'object') return ['Table credibility requires a credibility table'];
+  const errors: string[] = [];
+  if (typeof table.name !== 'string' || !table.name.trim()) errors.push('Credibility table needs a name');
+  if (table.basis !== 'memberMonths' && table.basis !== 'employees') {
+    errors.push('Credibility table basis must be memberMonths or employees');
+  }
+  if (!Array.isArray(table.rows) || table.rows.length === 0) {
+    errors.push('Credibility table needs at least one row');
+  } else {
+    table.rows.forEach((row: any, index: number) => {
+      if (!row || typeof row.exposure !== 'number' || !isFinite(row.exposure) || row.exposure < 0 || !isShare(row.credibility)) {
+        errors.push(`Credibility table row ${index + 1} needs a non-negative exposure and a credibility between 0 and 1`);
+      }
+    });
+  }
+  if (table.interpolate !== undefined && typeof table.interpolate !== 'boolean') {
+    errors.push('Credibility table interpolate must be true or false');
+  }
+  return errors;
+}
+
+/**
+ * Check credibility settings from overrides, a saved scenario or a case, listing every problem
+ * Only the fields the method reads are kept, so switching methods in the dashboard leaves nothing stale behind
+ */
+export function validateCredibilitySettings(value: any): CredibilitySettingsValidation {
+  if (!value || typeof value !== 'object' || !CREDIBILITY_METHODS.includes(value.method)) {
+    return { settings: null, errors: [`Credibility method must be one of ${CREDIBILITY_METHODS.join(', ')}`] };
+  }
+
+  const method: CredibilityMethod = value.method;
+  const errors: string[] = [];
+  const settings: CredibilitySettings = { method };
+  switch (method) {
+    case 'limitedFluctuation':
+    case 'linear':
+      if (isPositive(value.fullCredibilityMemberMonths)) settings.fullCredibilityMemberMonths = value.fullCredibilityMemberMonths;
+      else errors.push('Full credibility member months must be a positive number');
+      break;
+    case 'buhlmann':
+      if (isPositive(value.buhlmannK)) settings.buhlmannK = value.buhlmannK;
+      else errors.push('Bühlmann k must be a positive number');
+      break;
+    case 'table': {
+      const problems = tableErrors(value.table);
+      if (problems.length === 0) settings.table = value.table;
+      errors.push(...problems);
+      break;
+    }
+    case 'supplied':
+      if (isShare(value.credibility)) settings.credibility = value.credibility;
+      else errors.push('Supplied credibility must be between 0 and 1');
+      break;
+  }
+  if (value.minimumCredibility !== undefined) {
+    if (isShare(value.minimumCredibility)) settings.minimumCredibility = value.minimumCredibility;
+    else errors.push('Minimum credibility must be between 0 and 1');
+  }
+
+  return errors.length > 0 ? { settings: null, errors } : { settings, errors };
+}
+
+// Short label for the settings, e.g. "Bühlmann, k 8,000" or "Table: Standard small group by member months, minimum 20%"
+export function describeCredibilitySettings(settings: CredibilitySettings): string {
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+  const detail = {
+    limitedFluctuation: `full at ${settings.fullCredibilityMemberMonths?.toLocaleString()} member months`,
+    linear: `full at ${settings.fullCredibilityMemberMonths?.toLocaleString()} member months`,
+    buhlmann: `k ${settings.buhlmannK?.toLocaleString()}`,
+    table: settings.table?.name,
+    supplied: settings.credibility !== undefined ? percent(settings.credibility) : undefined
+  }[settings.method];
+  const label = settings.method === 'table' ? `${CREDIBILITY_METHOD_LABELS.table}: ${detail}` : `${CREDIBILITY_METHOD_LABELS[settings.method]}, ${detail}`;
+  return settings.minimumCredibility !== undefined ? `${label}, minimum ${percent(settings.minimumCredibility)}` : label;
+}
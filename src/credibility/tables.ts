@@ -0,0 +1,37 @@
+import { CredibilityTable } from '../types/common';
+
+/**
+ * Credibility tables offered for the table method; a case keeps a copy of the table it was rated with
+ * The member month table interpolates; the group size table steps down to the row at or below
+ */
+export const PUBLISHED_CREDIBILITY_TABLES: CredibilityTable[] = [
+  {
+    name: 'Standard small group by member months',
+    basis: 'memberMonths',
+    interpolate: true,
+    rows: [
+      { exposure: 600, credibility: 0 },
+      { exposure: 1200, credibility: 0.15 },
+      { exposure: 3000, credibility: 0.3 },
+      { exposure: 6000, credibility: 0.5 },
+      { exposure: 12000, credibility: 0.75 },
+      { exposure: 18000, credibility: 0.9 },
+      { exposure: 24000, credibility: 1 }
+    ]
+  },
+  {
+    name: 'Standard large group by enrolled employees',
+    basis: 'employees',
+    rows: [
+      { exposure: 51, credibility: 0.25 },
+      { exposure: 100, credibility: 0.4 },
+      { exposure: 250, credibility: 0.6 },
+      { exposure: 500, credibility: 0.8 },
+      { exposure: 1000, credibility: 1 }
+    ]
+  }
+];
+
+export function findCredibilityTable(name: string): CredibilityTable | undefined {
+  return PUBLISHED_CREDIBILITY_TABLES.find(table => table.name === name);
+}
@@ -0,0 +1,13 @@
+import { CredibilitySettings } from '../types/common';
+
+// The group's exposure: experience member months and, for tables by group size, enrolled employees
+export interface CredibilityExposure {
+  memberMonths: number;
+  employees?: number;
+}
+
+// Checked credibility settings, or null with every problem found
+export interface CredibilitySettingsValidation {
+  settings: CredibilitySettings | null;
+  errors: string[];
+}
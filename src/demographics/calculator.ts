@@ -0,0 +1,115 @@
+import { CensusMember, UniversalInput } from '../types/common';
+import { getCarrierPlugin, isParameterSupplied } from '../components/carriers';
+import { renewalPeriodAfter } from '../utils/periodHandling';
+import { AgeSexTable, CensusDemographics, DemographicFactors } from './types';
+import { ageSexFactor, resolveAgeSexTable } from './tables';
+
+// Factors are measured at the midpoint of the latest year of experience, as the experience is rated
+const EXPERIENCE_MONTHS = 12;
+// Children are not listed on the census; new births replace those who age off, so they are held at one age
+const CHILD_AGE = 10;
+
+function ageAt(dateOfBirth: Date, date: Date): number {
+  const age = date.getFullYear() - dateOfBirth.getFullYear();
+  const birthdayPassed = date.getMonth() > dateOfBirth.getMonth() ||
+    (date.getMonth() === dateOfBirth.getMonth() && date.getDate() >= dateOfBirth.getDate());
+  return Math.max(0, birthdayPassed ? age : age - 1);
+}
+
+function midpoint(start: Date, end: Date): Date {
+  return new Date((start.getTime() + end.getTime()) / 2);
+}
+
+// Spouses are assumed the employee's age and the other gender; remaining dependents are children
+function hasSpouse(member: CensusMember): boolean {
+  return (member.tier === 'ES' || member.tier === 'Family') && member.dependents > 0;
+}
+
+// Average factor across employees and dependents at a date, over the table basis
+function averageFactor(census: CensusMember[], table: AgeSexTable, date: Date): { factor: number; lives: number } {
+  const childFactor = (ageSexFactor(table, CHILD_AGE, 'M') + ageSexFactor(table, CHILD_AGE, 'F')) / 2;
+  let total = 0;
+  let lives = 0;
+  census.forEach(member => {
+    const age = ageAt(member.dateOfBirth, date);
+    total += ageSexFactor(table, age, member.gender);
+    lives++;
+    if (hasSpouse(member)) {
+      total += ageSexFactor(table, age, member.gender === 'M' ? 'F' : 'M');
+      lives++;
+    }
+    const children = member.dependents - (hasSpouse(member) ? 1 : 0);
+    total += children * childFactor;
+    lives += children;
+  });
+  return { factor: total / lives / table.basis, lives };
+}
+
+/**
+ * Age/sex factors of the census at the experience and renewal midpoints
+ * The census is a current snapshot, so members are aged back to the experience period and forward to the renewal
+ */
+export function calculateDemographicFactors(
+  input: UniversalInput,
+  table: string | AgeSexTable = resolveAgeSexTable()
+): DemographicFactors {
+  const census = input.census ?? [];
+  if (census.length === 0) {
+    throw new Error('Demographic factors need an uploaded census');
+  }
+  const months = [...input.monthlyClaimsData].sort((a, b) => a.month.localeCompare(b.month)).slice(-EXPERIENCE_MONTHS);
+  if (months.length === 0) {
+    throw new Error('Demographic factors need monthly claims to place the experience period');
+  }
+
+  const ageSexTable = resolveAgeSexTable(table);
+  const [firstYear, firstMonth] = months[0].month.split('-').map(Number);
+  const [lastYear, lastMonth] = months[months.length - 1].month.split('-').map(Number);
+  const experienceEnd = new Date(lastYear, lastMonth, 0);
+  const experienceDate = midpoint(new Date(firstYear, firstMonth - 1, 1), experienceEnd);
+  const renewal = renewalPeriodAfter(input.renewalDates ?? input.effectiveDates, experienceEnd);
+  const renewalDate = midpoint(renewal.start, renewal.end);
+
+  const experience = averageFactor(census, ageSexTable, experienceDate);
+  const renewalFactor = averageFactor(census, ageSexTable, renewalDate).factor;
+
+  return {
+    table: ageSexTable.id,
+    employees: census.length,
+    lives: experience.lives,
+    experienceDate,
+    renewalDate,
+    experienceFactor: experience.factor,
+    renewalFactor,
+    change: renewalFactor / experience.factor
+  };
+}
+
+/**
+ * Fill the carrier's demographic parameter from the census, unless an explicit source (upload row, overrides) sets it
+ * Returns the parameters unchanged and no demographics when there is no census
+ */
+export function applyCensusDemographics(
+  input: UniversalInput,
+  carrier: string,
+  params: Record<string, any>,
+  explicitSources: Record<string, any>[],
+  table?: string | AgeSexTable
+): { params: Record<string, any>; demographics: CensusDemographics | null } {
+  if (!input.census || input.census.length === 0) {
+    return { params, demographics: null };
+  }
+
+  const factors = calculateDemographicFactors(input, table);
+  const field = getCarrierPlugin(carrier).parameterSchema.find(candidate => candidate.demographic);
+  if (!field) {
+    return { params, demographics: { ...factors, parameter: null, value: null, applied: false } };
+  }
+
+  const value = field.demographic === 'renewal' ? factors.renewalFactor : factors.change;
+  const explicit = isParameterSupplied(field, explicitSources);
+  return {
+    params: explicit ? params : { ...params, [field.key]: value },
+    demographics: { ...factors, parameter: field.key, value, applied: !explicit }
+  };
+}
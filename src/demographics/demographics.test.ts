@@ -0,0 +1,59 @@
+import { runProjection } from '../utils/projectionRunner';
+import { ageSexFactor, AGE_SEX_TABLES } from '.';
+
+describe('census demographics', () => {
+  // 2024 experience renewing 2025: every life is a year older at renewal
+  const claims = Array.from({ length: 12 }, (_, i) => ({
+    Month: `2024-${String(i + 1).padStart(2, '0')}`,
+    'Medical Claims': 400000,
+    'Pharmacy Claims': 100000,
+    memberMonthsMedical: 1000,
+    memberMonthsRx: 1000
+  }));
+  const census = [
+    { 'Employee ID': 'E1', DOB: '1970-01-01', Gender: 'M', Tier: 'EE', Dependents: 0 },
+    { 'Employee ID': 'E2', DOB: '1980-01-01', Gender: 'F', Tier: 'Family', Dependents: 2 }
+  ];
+  const rows = [{ caseId: 'DEMO-1' }, ...claims, ...census];
+  const table = AGE_SEX_TABLES.standard;
+
+  test('ages the census from the experience midpoint to the renewal midpoint', async () => {
+    const { demographics } = await runProjection(rows, 'CIGNA');
+    // Midpoints fall in July 2024 and July 2025: E1 is 54 then 55, E2 and spouse 44 then 45, plus one child
+    const child = (ageSexFactor(table, 10, 'M') + ageSexFactor(table, 10, 'F')) / 2;
+    const experience = (ageSexFactor(table, 54, 'M') + ageSexFactor(table, 44, 'F') + ageSexFactor(table, 44, 'M') + child) / 4;
+    const renewal = (ageSexFactor(table, 55, 'M') + ageSexFactor(table, 45, 'F') + ageSexFactor(table, 45, 'M') + child) / 4;
+
+    expect(demographics).toEqual(expect.objectContaining({ table: 'standard', employees: 2, lives: 4 }));
+    expect(demographics!.experienceFactor).toBeCloseTo(experience);
+    expect(demographics!.renewalFactor).toBeCloseTo(renewal);
+    expect(demographics!.change).toBeCloseTo(renewal / experience);
+  });
+
+  test('flows into each carrier\'s demographic line unless it is set explicitly', async () => {
+    const cigna = await runProjection(rows, 'CIGNA');
+    expect(cigna.params.demographicAdjustment).toBeCloseTo(cigna.demographics!.change);
+    expect(cigna.demographics).toEqual(expect.objectContaining({ parameter: 'demographicAdjustment', applied: true }));
+
+    const uhc = await runProjection(rows, 'UHC');
+    expect(uhc.params.ageSexAdjustment).toBeCloseTo(uhc.demographics!.renewalFactor);
+
+    const overridden = await runProjection(rows, 'AETNA', { demographicAdjustment: 0.95 });
+    expect(overridden.params.demographicAdjustment).toBe(0.95);
+    expect(overridden.demographics!.applied).toBe(false);
+
+    const bcbs = await runProjection(rows, 'BCBS');
+    expect(bcbs.demographics!.parameter).toBeNull();
+  });
+
+  test('uses the configured age/sex table', async () => {
+    const aca = await runProjection([{ caseId: 'DEMO-2', ageSexTable: 'aca' }, ...claims, ...census], 'HUMANA');
+    expect(aca.demographics!.table).toBe('aca');
+    expect(aca.demographics!.renewalFactor).toBeCloseTo(
+      (2.230 + 1.444 + 1.444 + 0.765) / 4 / AGE_SEX_TABLES.aca.basis
+    );
+
+    await expect(runProjection(rows, 'UHC', { ageSexTable: 'unknown' }))
+      .rejects.toThrow('Unknown age/sex table "unknown"; expected one of standard, aca');
+  });
+});
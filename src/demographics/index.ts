@@ -0,0 +1,4 @@
+// Census age/sex factors for the experience and renewal periods, feeding each carrier's demographic line
+export * from './types';
+export { AGE_SEX_TABLES, DEFAULT_AGE_SEX_TABLE, resolveAgeSexTable, ageSexFactor } from './tables';
+export { calculateDemographicFactors, applyCensusDemographics } from './calculator';
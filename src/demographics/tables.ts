@@ -0,0 +1,62 @@
+import { AgeSexBand, AgeSexTable } from './types';
+
+// Illustrative commercial medical and Rx table, roughly 1.00 for a typical employer group
+const STANDARD_BANDS: AgeSexBand[] = [
+  { minAge: 0, maxAge: 1, male: 1.10, female: 1.05 },
+  { minAge: 2, maxAge: 19, male: 0.45, female: 0.43 },
+  { minAge: 20, maxAge: 24, male: 0.48, female: 0.75 },
+  { minAge: 25, maxAge: 29, male: 0.52, female: 0.95 },
+  { minAge: 30, maxAge: 34, male: 0.60, female: 1.10 },
+  { minAge: 35, maxAge: 39, male: 0.70, female: 1.15 },
+  { minAge: 40, maxAge: 44, male: 0.83, female: 1.17 },
+  { minAge: 45, maxAge: 49, male: 1.00, female: 1.25 },
+  { minAge: 50, maxAge: 54, male: 1.25, female: 1.38 },
+  { minAge: 55, maxAge: 59, male: 1.55, female: 1.55 },
+  { minAge: 60, maxAge: 64, male: 1.90, female: 1.78 },
+  { minAge: 65, maxAge: 120, male: 2.20, female: 2.00 }
+];
+
+// Federal default ACA age curve (unisex) from age 14 to 64; 0-14 share the age 14 factor and 64 applies above
+const ACA_CURVE = [
+  0.765, 0.833, 0.859, 0.885, 0.913, 0.941, 0.970, 1.000, 1.000, 1.000, 1.000, 1.004, 1.024, 1.048, 1.087, 1.119,
+  1.135, 1.159, 1.183, 1.198, 1.214, 1.222, 1.230, 1.238, 1.246, 1.262, 1.278, 1.302, 1.325, 1.357, 1.397,
+  1.444, 1.500, 1.563, 1.635, 1.706, 1.786, 1.865, 1.952, 2.040, 2.135, 2.230, 2.333, 2.437, 2.548, 2.603,
+  2.714, 2.810, 2.873, 2.952, 3.000
+];
+
+const ACA_BANDS: AgeSexBand[] = ACA_CURVE.map((factor, index) => ({
+  minAge: index === 0 ? 0 : 14 + index,
+  maxAge: index === ACA_CURVE.length - 1 ? 120 : 14 + index,
+  male: factor,
+  female: factor
+}));
+
+export const AGE_SEX_TABLES: Record<string, AgeSexTable> = {
+  standard: { id: 'standard', label: 'Standard commercial age/sex', bands: STANDARD_BANDS, basis: 1 },
+  aca: { id: 'aca', label: 'ACA default age curve', bands: ACA_BANDS, basis: 1.55 }
+};
+
+export const DEFAULT_AGE_SEX_TABLE = 'standard';
+
+/**
+ * An age/sex table by id, or a custom table as given
+ */
+export function resolveAgeSexTable(table: string | AgeSexTable = DEFAULT_AGE_SEX_TABLE): AgeSexTable {
+  if (typeof table !== 'string') return table;
+  const found = AGE_SEX_TABLES[table];
+  if (!found) {
+    throw new Error(`Unknown age/sex table "${table}"; expected one of ${Object.keys(AGE_SEX_TABLES).join(', ')}`);
+  }
+  return found;
+}
+
+/**
+ * The table factor for a life of the given age and gender
+ */
+export function ageSexFactor(table: AgeSexTable, age: number, gender: 'M' | 'F'): number {
+  const band = table.bands.find(candidate => age >= candidate.minAge && age <= candidate.maxAge);
+  if (!band) {
+    throw new Error(`Age/sex table ${table.id} has no factor for age ${age}`);
+  }
+  return gender === 'M' ? band.male : band.female;
+}
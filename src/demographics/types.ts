@@ -0,0 +1,32 @@
+// Age/sex factors for ages minAge to maxAge inclusive
+export interface AgeSexBand {
+  minAge: number;
+  maxAge: number;
+  male: number;
+  female: number;
+}
+
+export interface AgeSexTable {
+  id: string;
+  label: string;
+  bands: AgeSexBand[]; // Must cover every age from 0 up
+  basis: number; // Average factor of the population the manual rates are priced for; renewal factors are divided by it
+}
+
+export interface DemographicFactors {
+  table: string;
+  employees: number;
+  lives: number; // Employees, spouses and children
+  experienceDate: Date; // Midpoint of the experience period
+  renewalDate: Date; // Midpoint of the renewal period
+  experienceFactor: number; // Average age/sex factor of the census at the experience midpoint, over the table basis
+  renewalFactor: number; // The same at the renewal midpoint
+  change: number; // Renewal over experience factor
+}
+
+// How the factors were applied to a carrier's parameters
+export interface CensusDemographics extends DemographicFactors {
+  parameter: string | null; // Carrier parameter the census fills; null where the carrier has no demographic line
+  value: number | null; // Value the census gives that parameter
+  applied: boolean; // False when the parameter was uploaded or overridden explicitly
+}
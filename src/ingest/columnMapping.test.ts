@@ -0,0 +1,97 @@
+import {
+  ColumnMappingProfile,
+  applyColumnMapping,
+  findMatchingProfile,
+  extractHeaders,
+  createMappingsForHeaders,
+  exportMappingProfiles,
+  importMappingProfiles,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  importMappingProfilesIntoStore,
+  ingestUniversalInput
+} from '.';
+
+describe('column mapping profiles', () => {
+  const uhcExport: ColumnMappingProfile = {
+    name: 'UHC Exhibit export',
+    mappings: [
+      { sourceColumn: 'Incurred Month', targetField: 'Month', required: true, dataType: 'date' },
+      { sourceColumn: 'Med Paid', targetField: 'Medical Claims', required: true, dataType: 'currency' },
+      { sourceColumn: 'Rx Paid', targetField: 'Pharmacy Claims', required: true, dataType: 'currency' },
+      { sourceColumn: 'Subscribers', targetField: '', required: false, dataType: 'number' },
+      { sourceColumn: 'Notes', targetField: 'ignore', required: false, dataType: 'string' }
+    ]
+  };
+
+  const monthOnly: ColumnMappingProfile = {
+    name: 'Month only',
+    mappings: [{ sourceColumn: 'Incurred Month', targetField: 'Month', required: true, dataType: 'date' }]
+  };
+
+  const uhcRows = [
+    { 'Incurred Month': '2024-01', 'Med Paid': '$400,000', 'Rx Paid': 100000, Subscribers: 450, Notes: 'final', memberMonthsMedical: 1000 },
+    { 'Incurred Month': '2024-02', 'Med Paid': '$410,000', 'Rx Paid': 98000, Subscribers: 452, Notes: '', memberMonthsMedical: 1010 }
+  ];
+
+  beforeEach(() => localStorage.clear());
+
+  test('renames mapped columns, drops ignored ones and keeps the rest', () => {
+    const [first] = applyColumnMapping(uhcRows, uhcExport.mappings);
+    expect(first).toEqual({
+      Month: '2024-01',
+      'Medical Claims': '$400,000',
+      'Pharmacy Claims': 100000,
+      Subscribers: 450,
+      memberMonthsMedical: 1000
+    });
+  });
+
+  test('picks the matching profile that maps the most columns, ignoring header case', () => {
+    const headers = extractHeaders([{ 'incurred month': '', 'MED PAID': '', 'Rx Paid': '', Notes: '', _sourceRow: 2 }]);
+    expect(headers).toEqual(['incurred month', 'MED PAID', 'Rx Paid', 'Notes']);
+    expect(findMatchingProfile([monthOnly, uhcExport], headers)?.name).toBe('UHC Exhibit export');
+    expect(findMatchingProfile([monthOnly, uhcExport], ['Incurred Month', 'Med Paid'])?.name).toBe('Month only');
+    expect(findMatchingProfile([uhcExport], ['Month', 'Medical Claims'])).toBeNull();
+  });
+
+  test('mapped rows feed the ingest without alias guessing', () => {
+    const { input, diagnostics } = ingestUniversalInput(applyColumnMapping(uhcRows, uhcExport.mappings), 'UHC');
+    expect(diagnostics).toEqual([]);
+    expect(input.monthlyClaimsData.map(m => m.incurredClaims.medical)).toEqual([400000, 410000]);
+  });
+
+  test('seeds the editor from a profile for the headers it covers', () => {
+    const mappings = createMappingsForHeaders(['Incurred Month', 'Provider'], uhcExport);
+    expect(mappings.map(m => m.targetField)).toEqual(['Month', '']);
+  });
+
+  test('round-trips profiles through the JSON export', () => {
+    const json = exportMappingProfiles([uhcExport, monthOnly]);
+    expect(JSON.parse(json).version).toBe(1);
+    expect(importMappingProfiles(json)).toEqual([uhcExport, monthOnly]);
+    expect(importMappingProfiles(JSON.stringify(monthOnly))).toEqual([monthOnly]);
+  });
+
+  test('rejects malformed profile JSON', () => {
+    expect(() => importMappingProfiles('{')).toThrow('not valid JSON');
+    expect(() => importMappingProfiles('[{"mappings": []}]')).toThrow('name is required');
+    expect(() => importMappingProfiles('{"name": "x", "mappings": [{}]}')).toThrow('sourceColumn is required');
+    expect(() => importMappingProfiles('{"version": 2, "profiles": []}')).toThrow('Unsupported');
+  });
+
+  test('persists, replaces, imports and deletes saved profiles', () => {
+    saveMappingProfile(uhcExport);
+    saveMappingProfile({ ...uhcExport, description: 'Updated' });
+    expect(loadMappingProfiles()).toHaveLength(1);
+    expect(loadMappingProfiles()[0].description).toBe('Updated');
+    expect(loadMappingProfiles()[0].updatedAt).toBeDefined();
+
+    importMappingProfilesIntoStore(exportMappingProfiles([monthOnly]));
+    expect(loadMappingProfiles().map(p => p.name)).toEqual(['Month only', 'UHC Exhibit export']);
+
+    deleteMappingProfile('Month only');
+    expect(loadMappingProfiles().map(p => p.name)).toEqual(['UHC Exhibit export']);
+  });
+});
@@ -0,0 +1,115 @@
+export interface ColumnMapping {
+  sourceColumn: string;
+  targetField: string; // Ingest field name; '' leaves the column as-is, 'ignore' drops it
+  required: boolean;
+  dataType: 'string' | 'number' | 'date' | 'currency';
+}
+
+export interface ColumnMappingProfile {
+  name: string; // e.g. "UHC Exhibit export"
+  description?: string;
+  mappings: ColumnMapping[];
+  updatedAt?: string; // ISO timestamp
+}
+
+export const IGNORE_COLUMN = 'ignore';
+
+// Fields the ingest module reads, offered as mapping targets
+export const COLUMN_MAPPING_TARGETS: { field: string; label: string }[] = [
+  { field: 'caseId', label: 'Case ID' },
+  { field: 'renewalStart', label: 'Renewal start' },
+  { field: 'renewalEnd', label: 'Renewal end' },
+  { field: 'Month', label: 'Month' },
+  { field: 'Medical Claims', label: 'Medical claims' },
+  { field: 'Pharmacy Claims', label: 'Pharmacy claims' },
+  { field: 'paidClaimsMedical', label: 'Paid medical claims' },
+  { field: 'paidClaimsRx', label: 'Paid Rx claims' },
+  { field: 'memberMonthsMedical', label: 'Medical member months' },
+  { field: 'memberMonthsRx', label: 'Rx member months' },
+  { field: 'planName', label: 'Plan name' },
+  { field: 'Claimant Number', label: 'Claimant ID' },
+  { field: 'Total Claims', label: 'Claimant total claims' },
+  { field: 'enrollmentMonth', label: 'Enrollment month' },
+  { field: 'enrollmentSubscribers', label: 'Enrollment subscribers' },
+  { field: 'enrollmentMembers', label: 'Enrollment members' },
+  { field: 'manualRateMedical', label: 'Manual rate (medical)' },
+  { field: 'manualRateRx', label: 'Manual rate (Rx)' }
+];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+// Mappings that change the data (rename or drop)
+function activeMappings(profile: ColumnMappingProfile): ColumnMapping[] {
+  return profile.mappings.filter(mapping => mapping.targetField !== '');
+}
+
+/**
+ * Column headers across all uploaded rows, excluding the ingest's internal source tags
+ */
+export function extractHeaders(rows: any[]): string[] {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!key.startsWith('_')) headers.add(key);
+  }));
+  return Array.from(headers);
+}
+
+/**
+ * Whether every column a profile renames or drops is present in the headers (case-insensitive)
+ */
+export function profileMatchesHeaders(profile: ColumnMappingProfile, headers: string[]): boolean {
+  const available = new Set(headers.map(normalizeHeader));
+  const mappings = activeMappings(profile);
+  return mappings.length > 0 && mappings.every(mapping => available.has(normalizeHeader(mapping.sourceColumn)));
+}
+
+/**
+ * The matching profile that maps the most columns, or null when none match
+ */
+export function findMatchingProfile(profiles: ColumnMappingProfile[], headers: string[]): ColumnMappingProfile | null {
+  return profiles
+    .filter(profile => profileMatchesHeaders(profile, headers))
+    .sort((a, b) => activeMappings(b).length - activeMappings(a).length)[0] ?? null;
+}
+
+/**
+ * Rename mapped columns to their ingest fields and drop ignored ones; unmapped columns pass through
+ */
+export function applyColumnMapping(rows: any[], mappings: ColumnMapping[]): any[] {
+  const targets = new Map(
+    mappings
+      .filter(mapping => mapping.targetField !== '')
+      .map(mapping => [normalizeHeader(mapping.sourceColumn), mapping.targetField])
+  );
+  if (targets.size === 0) return rows;
+
+  return rows.map(row => {
+    const mapped: any = {};
+    Object.keys(row).forEach(key => {
+      const target = targets.get(normalizeHeader(key));
+      if (target === IGNORE_COLUMN) return;
+      // A mapped value wins over an unmapped column that already has the target name
+      if (target || !(key in mapped)) {
+        mapped[target || key] = row[key];
+      }
+    });
+    return mapped;
+  });
+}
+
+/**
+ * Start a mapping for each header, pre-filled from a profile when it covers the header
+ */
+export function createMappingsForHeaders(headers: string[], profile?: ColumnMappingProfile | null): ColumnMapping[] {
+  const fromProfile = new Map(
+    (profile?.mappings ?? []).map(mapping => [normalizeHeader(mapping.sourceColumn), mapping])
+  );
+  return headers.map(header => {
+    const saved = fromProfile.get(normalizeHeader(header));
+    return saved
+      ? { ...saved, sourceColumn: header }
+      : { sourceColumn: header, targetField: '', required: false, dataType: 'string' };
+  });
+}
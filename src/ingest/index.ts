@@ -0,0 +1,32 @@
+// Spreadsheet ingestion: uploaded rows to a UniversalInput plus parse diagnostics
+export * from './types';
+export {
+  isBlankCell,
+  tryParseExcelNumber,
+  parseExcelNumber,
+  tryParseExcelDate,
+  parseExcelDate,
+  toMonthKey
+} from './values';
+export { ingestUniversalInput, mapToUniversalInput, DEFAULT_LARGE_CLAIMANT_THRESHOLD } from './universalInput';
+export { getDefaultCarrierParams, autoCalculateParams } from './params';
+export { processExcelWorkbook, parseCsvRows, readUploadedFile } from './workbook';
+export {
+  IGNORE_COLUMN,
+  COLUMN_MAPPING_TARGETS,
+  extractHeaders,
+  profileMatchesHeaders,
+  findMatchingProfile,
+  applyColumnMapping,
+  createMappingsForHeaders
+} from './columnMapping';
+export type { ColumnMapping, ColumnMappingProfile } from './columnMapping';
+export {
+  exportMappingProfiles,
+  importMappingProfiles,
+  mergeMappingProfiles,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  importMappingProfilesIntoStore
+} from './mappingProfiles';
@@ -0,0 +1,115 @@
+import { ColumnMapping, ColumnMappingProfile } from './columnMapping';
+
+const STORAGE_KEY = 'columnMappingProfiles';
+const EXPORT_VERSION = 1;
+const DATA_TYPES: ColumnMapping['dataType'][] = ['string', 'number', 'date', 'currency'];
+
+function parseMapping(value: any, profileName: string): ColumnMapping {
+  if (!value || typeof value.sourceColumn !== 'string' || !value.sourceColumn.trim()) {
+    throw new Error(`Invalid column mapping in profile "${profileName}": sourceColumn is required`);
+  }
+  return {
+    sourceColumn: value.sourceColumn,
+    targetField: typeof value.targetField === 'string' ? value.targetField : '',
+    required: value.required === true,
+    dataType: DATA_TYPES.includes(value.dataType) ? value.dataType : 'string'
+  };
+}
+
+function parseProfile(value: any): ColumnMappingProfile {
+  if (!value || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('Invalid column mapping profile: name is required');
+  }
+  if (!Array.isArray(value.mappings)) {
+    throw new Error(`Invalid column mapping profile "${value.name}": mappings must be an array`);
+  }
+  return {
+    name: value.name.trim(),
+    ...(typeof value.description === 'string' && { description: value.description }),
+    mappings: value.mappings.map((mapping: any) => parseMapping(mapping, value.name)),
+    ...(typeof value.updatedAt === 'string' && { updatedAt: value.updatedAt })
+  };
+}
+
+/**
+ * Serialize profiles to the shareable JSON format
+ */
+export function exportMappingProfiles(profiles: ColumnMappingProfile[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+}
+
+/**
+ * Parse shared profile JSON: an export file, a bare array of profiles, or a single profile
+ */
+export function importMappingProfiles(json: string): ColumnMappingProfile[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Column mapping profiles are not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (Array.isArray(data)) return data.map(parseProfile);
+  if (data && Array.isArray(data.profiles)) {
+    if (data.version !== undefined && data.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported column mapping profile version: ${data.version}`);
+    }
+    return data.profiles.map(parseProfile);
+  }
+  return [parseProfile(data)];
+}
+
+/**
+ * Merge profiles by name; incoming profiles replace existing ones with the same name
+ */
+export function mergeMappingProfiles(
+  existing: ColumnMappingProfile[],
+  incoming: ColumnMappingProfile[]
+): ColumnMappingProfile[] {
+  const byName = new Map(existing.map(profile => [profile.name, profile]));
+  incoming.forEach(profile => byName.set(profile.name, profile));
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Browser persistence; without localStorage (CLI, tests) there are no saved profiles
+function getStorage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+export function loadMappingProfiles(): ColumnMappingProfile[] {
+  const stored = getStorage()?.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return importMappingProfiles(stored);
+  } catch (error) {
+    console.warn('Ignoring unreadable saved column mapping profiles:', error);
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: ColumnMappingProfile[]) {
+  getStorage()?.setItem(STORAGE_KEY, exportMappingProfiles(profiles));
+}
+
+export function saveMappingProfile(profile: ColumnMappingProfile): ColumnMappingProfile[] {
+  const profiles = mergeMappingProfiles(loadMappingProfiles(), [
+    { ...parseProfile(profile), updatedAt: new Date().toISOString() }
+  ]);
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string): ColumnMappingProfile[] {
+  const profiles = loadMappingProfiles().filter(profile => profile.name !== name);
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+/**
+ * Add imported profiles to the saved ones, replacing same-named profiles
+ */
+export function importMappingProfilesIntoStore(json: string): ColumnMappingProfile[] {
+  const profiles = mergeMappingProfiles(loadMappingProfiles(), importMappingProfiles(json));
+  storeMappingProfiles(profiles);
+  return profiles;
+}
@@ -0,0 +1,30 @@
+import { getCarrierPlugin, validateCarrierParameters } from '../components/carriers';
+import { parseExcelNumber } from './values';
+import { calculateCredibility } from '../credibility';
+
+// Full credibility standard for the upload preview, before a carrier's own credibility is applied
+const PREVIEW_FULL_CREDIBILITY_MEMBER_MONTHS = 12000;
+
+/**
+ * Carrier parameters supplied on an upload row, validated against the carrier's schema; invalid cells keep their defaults
+ */
+export function mapToCarrierParams(row: any, carrier: string): Record<string, number> {
+  return validateCarrierParameters(carrier, row).params;
+}
+
+export function getDefaultCarrierParams(carrier: string) {
+  return { ...getCarrierPlugin(carrier).defaultParameters };
+}
+
+export function autoCalculateParams(data: any[], carrier: string) {
+  // Calculate total member months
+  const totalMemberMonths = data.reduce((sum, r) => sum + (parseExcelNumber(r.memberMonthsMedical) || 0) + (parseExcelNumber(r.memberMonthsRx) || 0), 0);
+  // Industry standard limited fluctuation credibility, sqrt(totalMemberMonths/12000) capped at 1
+  const credibility = calculateCredibility({ memberMonths: totalMemberMonths }, {
+    method: 'limitedFluctuation',
+    fullCredibilityMemberMonths: PREVIEW_FULL_CREDIBILITY_MEMBER_MONTHS
+  });
+  // Uploaded values (first row) override the carrier defaults; invalid ones are reported rather than used
+  const { params, errors } = validateCarrierParameters(carrier, data[0] || {}, getDefaultCarrierParams(carrier));
+  return { params, errors, totalMemberMonths, credibility };
+}
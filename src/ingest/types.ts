@@ -0,0 +1,21 @@
+import { UniversalInput } from '../types/common';
+
+// What the parser did with a row or cell it could not take at face value
+export type IngestAction = 'skipped' | 'coerced';
+
+export interface IngestDiagnostic {
+  row: number; // Spreadsheet row number (header is row 1)
+  sheet?: string;
+  column?: string;
+  action: IngestAction;
+  reason: string;
+}
+
+export interface IngestOptions {
+  largeClaimantThreshold?: number; // Claimant rows at or below this total are not treated as large claimants
+}
+
+export interface IngestResult {
+  input: UniversalInput;
+  diagnostics: IngestDiagnostic[];
+}
@@ -0,0 +1,180 @@
+import * as XLSX from 'xlsx';
+import {
+  ingestUniversalInput,
+  processExcelWorkbook,
+  tryParseExcelNumber,
+  tryParseExcelDate,
+  parseExcelNumber,
+  toMonthKey
+} from '.';
+
+describe('spreadsheet ingestion', () => {
+  const monthlyRows = (months: number, extra: any = {}) =>
+    Array.from({ length: months }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000,
+      ...extra
+    }));
+
+  test('parses formatted numbers and spreadsheet dates', () => {
+    expect(tryParseExcelNumber('$1,250.50')).toBe(1250.5);
+    expect(tryParseExcelNumber('(300)')).toBe(-300);
+    expect(tryParseExcelNumber('n/a')).toBeNull();
+    expect(tryParseExcelNumber('  ')).toBeNull();
+    expect(parseExcelNumber('n/a')).toBe(0);
+
+    expect(toMonthKey(tryParseExcelDate('Jan-23')!)).toBe('2023-01');
+    expect(toMonthKey(tryParseExcelDate('3/2024')!)).toBe('2024-03');
+    expect(toMonthKey(tryParseExcelDate(45292)!)).toBe('2024-01');
+    expect(tryParseExcelDate('sometime')).toBeNull();
+  });
+
+  test('maps monthly rows and derives the experience period', () => {
+    const rows = [{ caseId: 'ING-1', manualRateMedical: '$450', manualRateRx: 125 }, ...monthlyRows(12)];
+    const { input, diagnostics } = ingestUniversalInput(rows, 'UHC');
+
+    expect(diagnostics).toEqual([]);
+    expect(input.caseId).toBe('ING-1');
+    expect(input.manualRates).toEqual({ medical: 450, rx: 125 });
+    expect(input.monthlyClaimsData).toHaveLength(12);
+    expect(input.monthlyClaimsData[0]).toEqual({
+      month: '2024-01',
+      memberMonths: { medical: 1000, rx: 1000, total: 1000 },
+      incurredClaims: { medical: 400000, rx: 100000, total: 500000 }
+    });
+    expect(input.effectiveDates.renewalStart).toEqual(new Date(2024, 0, 1));
+    expect(input.effectiveDates.renewalEnd).toEqual(new Date(2024, 11, 31));
+  });
+
+  test('reads optional paid claims for IBNR completion', () => {
+    const { input, diagnostics } = ingestUniversalInput(monthlyRows(4, { paidClaimsMedical: '$380,000', paidClaimsRx: 99000 }), 'UHC');
+    expect(diagnostics).toEqual([]);
+    expect(input.monthlyClaimsData[0].paidClaims).toEqual({ medical: 380000, rx: 99000 });
+  });
+
+  test('reports skipped and coerced monthly rows with their row and column', () => {
+    const rows = [
+      { caseId: 'ING-2' },
+      ...monthlyRows(2),
+      { Month: 'sometime', 'Medical Claims': 1, 'Pharmacy Claims': 1 },
+      { Month: '2024-03', 'Medical Claims': 'pending', 'Pharmacy Claims': 5000, Members: '' },
+      { Month: '2024-04', 'Pharmacy Claims': 5000 }
+    ];
+    const { input, diagnostics } = ingestUniversalInput(rows, 'UHC');
+
+    expect(input.monthlyClaimsData.map(m => m.month)).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ row: 5, column: 'Month', action: 'skipped' }),
+      expect.objectContaining({ row: 6, column: 'memberMonthsMedical', action: 'coerced' }),
+      expect.objectContaining({ row: 6, column: 'Medical Claims', action: 'coerced', reason: '"pending" is not a number; ignored' }),
+      expect.objectContaining({ row: 7, column: 'Medical Claims', action: 'skipped' })
+    ]));
+  });
+
+  test('detects large claimants above the threshold and reports the rest', () => {
+    const rows = [
+      { caseId: 'ING-3' },
+      ...monthlyRows(12),
+      { 'Claimant Number': 'LC1', 'Total Claims': 200000, 'Medical Claims': 150000, 'Pharmacy Claims': 50000 },
+      { 'Claimant Number': 'LC2', 'Total Claims': 120000 },
+      { 'Claimant Number': 'LC3', 'Total Claims': 20000 },
+      { 'Total Claims': 90000 }
+    ];
+    const { input, diagnostics } = ingestUniversalInput(rows, 'UHC');
+
+    const [lc1, lc2] = input.largeClaimantsData;
+    expect(input.largeClaimantsData).toHaveLength(2);
+    expect(lc1).toEqual({ claimantId: 'LC1', incurredDate: new Date(2024, 11, 15), totalAmount: 200000, medicalAmount: 150000, rxAmount: 50000 });
+
+    // No medical/Rx split on the row: 85% / 15% of the total
+    expect(lc2.claimantId).toBe('LC2');
+    expect(lc2.medicalAmount).toBeCloseTo(102000, 6);
+    expect(lc2.rxAmount).toBeCloseTo(18000, 6);
+    expect(diagnostics.map(d => [d.row, d.action])).toEqual([
+      [16, 'coerced'],
+      [16, 'coerced'],
+      [17, 'skipped'],
+      [18, 'skipped']
+    ]);
+
+    const lowered = ingestUniversalInput(rows, 'UHC', { largeClaimantThreshold: 10000 });
+    expect(lowered.input.largeClaimantsData.map(c => c.claimantId)).toEqual(['LC1', 'LC2', 'LC3']);
+  });
+
+  test('aggregates BCBS plans by month and keeps the plan breakdown', () => {
+    const rows = [
+      { caseId: 'ING-4', planCount: 2 },
+      ...monthlyRows(2, { planName: 'PPO' }),
+      ...monthlyRows(2, { planName: 'HMO', 'Medical Claims': 100000 }),
+      { planName: 'PPO', enrollmentMonth: '2024-01', enrollmentSubscribers: 10, enrollmentMembers: 25 },
+      { planName: 'HMO', enrollmentMonth: '2024-01', enrollmentSubscribers: 5, enrollmentMembers: 12 },
+      { 'Claimant Number': 'ORPHAN', 'Total Claims': 300000 }
+    ];
+    const { input, diagnostics } = ingestUniversalInput(rows, 'BCBS');
+
+    expect(input.monthlyClaimsData).toHaveLength(2);
+    expect(input.monthlyClaimsData[0].incurredClaims).toEqual({ medical: 500000, rx: 200000, total: 700000 });
+    expect((input.monthlyClaimsData[0] as any).planBreakdown.HMO).toEqual({ medical: 100000, rx: 100000, memberMonths: 1000 });
+    expect(input.enrollmentData).toEqual([{ month: '2024-01', subscribers: 15, members: 37 }]);
+    expect(input.largeClaimantsData).toEqual([]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ row: 9, column: 'planName', action: 'skipped' })
+    ]);
+  });
+
+  test('falls back to explicit renewal dates, then defaults, when there are no months', () => {
+    const explicit = ingestUniversalInput([{ renewalStart: '2025-01-01', renewalEnd: '12/31/2025' }], 'UHC');
+    expect(explicit.diagnostics).toEqual([]);
+    expect(explicit.input.effectiveDates.renewalEnd).toEqual(new Date(2025, 11, 31));
+
+    const defaulted = ingestUniversalInput([{ caseId: 'NO-DATES' }], 'UHC');
+    expect(defaulted.input.effectiveDates.renewalStart).toEqual(new Date('2023-01-01'));
+    expect(defaulted.diagnostics).toEqual([
+      expect.objectContaining({ row: 2, column: 'renewalStart', action: 'coerced' })
+    ]);
+  });
+
+  test('locates diagnostics by sheet and row for workbooks', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([{ caseId: 'ING-5' }]), 'Case');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['Month', 'Medical Claims', 'Pharmacy Claims', 'memberMonthsMedical'],
+      ['2024-01', 1000, 200, 10],
+      [],
+      ['2024-02', 1000, 'unknown', 10]
+    ]), 'Claims');
+
+    const { diagnostics } = ingestUniversalInput(processExcelWorkbook(workbook), 'UHC');
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sheet: 'Claims', row: 4, column: 'Pharmacy Claims', action: 'coerced' })
+    ]));
+  });
+
+  test('reads census rows and reports unusable ones', () => {
+    const { input, diagnostics } = ingestUniversalInput([
+      { caseId: 'ING-6', Month: '2024-01', 'Medical Claims': 1000, 'Pharmacy Claims': 200, memberMonthsMedical: 10 },
+      { 'Employee ID': 'E1', DOB: '1980-03-15', Gender: 'Female', Tier: 'Family', ZIP: '30301', Dependents: 3 },
+      { 'Employee ID': 'E2', DOB: '1992-07-01', Gender: 'M', Tier: 'E+S' },
+      { 'Employee ID': 'E3', DOB: 'unknown', Gender: 'M' },
+      { 'Employee ID': 'E4', DOB: '1975-01-01', Gender: 'X' }
+    ], 'UHC');
+
+    expect(input.census).toEqual([
+      { employeeId: 'E1', dateOfBirth: new Date(1980, 2, 15), gender: 'F', tier: 'Family', zip: '30301', dependents: 3 },
+      { employeeId: 'E2', dateOfBirth: new Date(1992, 6, 1), gender: 'M', tier: 'ES', dependents: 1 }
+    ]);
+    expect(input.largeClaimantsData).toEqual([]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ row: 4, column: 'Dependents', action: 'coerced' }),
+      expect.objectContaining({ row: 5, column: 'DOB', action: 'skipped' }),
+      expect.objectContaining({ row: 6, column: 'Gender', action: 'skipped' })
+    ]);
+  });
+
+  test('rejects empty uploads', () => {
+    expect(() => ingestUniversalInput([], 'UHC')).toThrow('No data provided');
+  });
+});
@@ -0,0 +1,504 @@
+import { UniversalInput, EnrollmentData, IMonthlyClaimsData, LargeClaimant, CensusMember, ClaimantStatus } from '../types/common';
+import { IngestAction, IngestDiagnostic, IngestOptions, IngestResult } from './types';
+import { isBlankCell, tryParseExcelNumber, tryParseExcelDate, parseExcelNumber, toMonthKey } from './values';
+import { mapToCarrierParams } from './params';
+
+export const DEFAULT_LARGE_CLAIMANT_THRESHOLD = 50000;
+
+// Default split for large claimant rows that only carry a total
+const CLAIMANT_MEDICAL_SHARE = 0.85;
+
+// Column aliases, in order of preference
+const MEMBER_MONTH_COLUMNS = ['memberMonthsMedical', 'Members', 'Member Months'];
+const RX_CLAIMS_COLUMNS = ['Rx Claims', 'Pharmacy Claims'];
+const PAID_MEDICAL_COLUMNS = ['paidClaimsMedical', 'Medical Paid Claims'];
+const PAID_RX_COLUMNS = ['paidClaimsRx', 'Rx Paid Claims', 'Pharmacy Paid Claims'];
+const CLAIMANT_ID_COLUMNS = ['Claimant Number', 'largeClaimantId', 'ClaimantId', 'claimantNumber', 'Member ID', 'memberId'];
+const CLAIMANT_TOTAL_COLUMNS = ['Total Claims', 'largeClaimantTotal', 'totalAmount', 'Total Amount', 'Claim Amount'];
+const CLAIMANT_MEDICAL_COLUMNS = ['Medical Claims', 'medicalAmount', 'Medical Amount', 'Medical'];
+const CLAIMANT_RX_COLUMNS = ['Rx Claims', 'rxAmount', 'Pharmacy Claims', 'Rx Amount', 'Pharmacy'];
+const CLAIMANT_LASER_COLUMNS = ['largeClaimantLaser', 'Laser', 'laserLevel'];
+const CLAIMANT_PERIOD_COLUMNS = ['largeClaimantPeriod', 'Claim Period'];
+const CLAIMANT_DIAGNOSIS_COLUMNS = ['largeClaimantDiagnosis', 'Diagnosis', 'diagnosis'];
+const CLAIMANT_STATUS_COLUMNS = ['largeClaimantStatus', 'Claimant Status', 'status'];
+const CLAIMANT_EXPECTED_COST_COLUMNS = ['largeClaimantExpectedCost', 'Expected Future Cost', 'expectedFutureCost'];
+const CLAIMANT_NOTE_COLUMNS = ['largeClaimantNote', 'Status Note', 'statusNote'];
+const CENSUS_DOB_COLUMNS = ['DOB', 'Date of Birth', 'dateOfBirth'];
+const CENSUS_ID_COLUMNS = ['Employee ID', 'employeeId', 'Employee'];
+const CENSUS_GENDER_COLUMNS = ['Gender', 'Sex', 'gender'];
+const CENSUS_TIER_COLUMNS = ['Tier', 'Coverage Tier', 'tier'];
+const CENSUS_ZIP_COLUMNS = ['ZIP', 'Zip', 'ZIP Code', 'zip'];
+const CENSUS_DEPENDENT_COLUMNS = ['Dependents', 'Dependent Count', 'dependents'];
+
+// Coverage tier spellings seen on census exports
+const CENSUS_TIERS: Record<string, NonNullable<CensusMember['tier']>> = {
+  ee: 'EE', 'employee only': 'EE', single: 'EE',
+  es: 'ES', 'e+s': 'ES', 'employee + spouse': 'ES', 'employee spouse': 'ES',
+  ec: 'EC', 'e+c': 'EC', 'employee + child': 'EC', 'employee + children': 'EC', 'employee + child(ren)': 'EC',
+  fam: 'Family', family: 'Family', 'e+f': 'Family'
+};
+// Dependents assumed from the tier when the census does not count them
+const CLAIMANT_STATUSES: Record<string, ClaimantStatus> = {
+  ongoing: 'ongoing',
+  resolved: 'resolved',
+  terminated: 'terminated',
+  termed: 'terminated',
+  deceased: 'deceased'
+};
+
+const TIER_DEPENDENTS: Record<NonNullable<CensusMember['tier']>, number> = { EE: 0, ES: 1, EC: 1, Family: 2 };
+
+// An uploaded row together with where it came from in the spreadsheet
+interface SourceRow {
+  data: any;
+  row: number;
+  sheet?: string;
+}
+
+function toSourceRows(data: any[]): SourceRow[] {
+  // Workbook rows carry their sheet row; CSV rows are numbered after the header
+  return data.map((row, index) => ({
+    data: row,
+    row: row._sourceRow ?? index + 2,
+    sheet: row._sourceSheet
+  }));
+}
+
+function report(
+  diagnostics: IngestDiagnostic[],
+  source: SourceRow,
+  action: IngestAction,
+  reason: string,
+  column?: string
+) {
+  diagnostics.push({ row: source.row, sheet: source.sheet, column, action, reason });
+}
+
+// First non-blank value among the candidate columns
+function readText(source: SourceRow, columns: string[]): string | null {
+  const column = columns.find(c => !isBlankCell(source.data[c]));
+  return column ? String(source.data[column]).trim() : null;
+}
+
+// First numeric value among the candidate columns; unparseable cells are reported and passed over
+function readNumber(source: SourceRow, columns: string[], diagnostics: IngestDiagnostic[]): number | null {
+  for (const column of columns) {
+    const raw = source.data[column];
+    if (isBlankCell(raw)) continue;
+
+    const value = tryParseExcelNumber(raw);
+    if (value !== null) return value;
+    report(diagnostics, source, 'coerced', `"${raw}" is not a number; ignored`, column);
+  }
+  return null;
+}
+
+function readNumberOrDefault(
+  source: SourceRow,
+  columns: string[],
+  fallback: number,
+  reason: string,
+  diagnostics: IngestDiagnostic[]
+): number {
+  const value = readNumber(source, columns, diagnostics);
+  if (value !== null) return value;
+  report(diagnostics, source, 'coerced', reason, columns[0]);
+  return fallback;
+}
+
+function isMonthlyRow(row: any): boolean {
+  return !!row.Month && row['Medical Claims'] !== undefined;
+}
+
+function readMonthlyRow(source: SourceRow, diagnostics: IngestDiagnostic[]): IMonthlyClaimsData | null {
+  const date = tryParseExcelDate(source.data.Month);
+  if (!date) {
+    report(diagnostics, source, 'skipped', `Unrecognized month "${source.data.Month}"`, 'Month');
+    return null;
+  }
+
+  const memberMonthsMed = readNumberOrDefault(source, MEMBER_MONTH_COLUMNS, 0, 'No member months; using 0', diagnostics);
+  const memberMonthsRx = readNumber(source, ['memberMonthsRx'], diagnostics) ?? memberMonthsMed;
+  const medicalClaims = readNumberOrDefault(source, ['Medical Claims'], 0, 'No medical claims; using 0', diagnostics);
+  const rxClaims = readNumberOrDefault(source, RX_CLAIMS_COLUMNS, 0, 'No Rx or pharmacy claims; using 0', diagnostics);
+  // Paid claims are optional and only feed IBNR completion
+  const paidMedical = readNumber(source, PAID_MEDICAL_COLUMNS, diagnostics);
+  const paidRx = readNumber(source, PAID_RX_COLUMNS, diagnostics);
+
+  return {
+    month: toMonthKey(date),
+    memberMonths: {
+      medical: memberMonthsMed,
+      rx: memberMonthsRx,
+      total: Math.max(memberMonthsMed, memberMonthsRx)
+    },
+    incurredClaims: {
+      medical: medicalClaims,
+      rx: rxClaims,
+      total: medicalClaims + rxClaims
+    },
+    ...(paidMedical !== null || paidRx !== null
+      ? { paidClaims: { medical: paidMedical ?? 0, rx: paidRx ?? 0 } }
+      : {})
+  };
+}
+
+function readMonthlyClaims(rows: SourceRow[], diagnostics: IngestDiagnostic[]): IMonthlyClaimsData[] {
+  return rows
+    .filter(source => isMonthlyRow(source.data))
+    .map(source => readMonthlyRow(source, diagnostics))
+    .filter((month): month is IMonthlyClaimsData => month !== null);
+}
+
+// BCBS multi-plan: aggregate every plan's months and keep the per-plan breakdown
+function readMultiPlanMonthlyClaims(
+  rows: SourceRow[],
+  planNames: string[],
+  diagnostics: IngestDiagnostic[]
+): IMonthlyClaimsData[] {
+  const monthlyDataByMonth = new Map<string, {
+    month: string;
+    totalMedical: number;
+    totalRx: number;
+    totalMemberMonths: number;
+    planBreakdown: { [planName: string]: { medical: number; rx: number; memberMonths: number } };
+  }>();
+
+  planNames.forEach(planName => {
+    rows
+      .filter(source => source.data.planName === planName && isMonthlyRow(source.data))
+      .forEach(source => {
+        const monthly = readMonthlyRow(source, diagnostics);
+        if (!monthly) return;
+
+        if (!monthlyDataByMonth.has(monthly.month)) {
+          monthlyDataByMonth.set(monthly.month, {
+            month: monthly.month,
+            totalMedical: 0,
+            totalRx: 0,
+            totalMemberMonths: 0,
+            planBreakdown: {}
+          });
+        }
+
+        const monthData = monthlyDataByMonth.get(monthly.month)!;
+        const memberMonths = monthly.memberMonths.medical!;
+        monthData.totalMedical += monthly.incurredClaims.medical;
+        monthData.totalRx += monthly.incurredClaims.rx;
+        monthData.totalMemberMonths += memberMonths;
+        monthData.planBreakdown[planName] = {
+          medical: monthly.incurredClaims.medical,
+          rx: monthly.incurredClaims.rx,
+          memberMonths
+        };
+      });
+  });
+
+  // Convert to standard format
+  return Array.from(monthlyDataByMonth.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(monthData => ({
+      month: monthData.month,
+      memberMonths: {
+        medical: monthData.totalMemberMonths,
+        rx: monthData.totalMemberMonths,
+        total: monthData.totalMemberMonths
+      },
+      incurredClaims: {
+        medical: monthData.totalMedical,
+        rx: monthData.totalRx,
+        total: monthData.totalMedical + monthData.totalRx
+      },
+      // Store plan breakdown for BCBS calculations
+      planBreakdown: monthData.planBreakdown
+    }));
+}
+
+function readEnrollment(rows: SourceRow[], isMultiPlan: boolean, diagnostics: IngestDiagnostic[]): EnrollmentData[] {
+  const enrollment: EnrollmentData[] = rows
+    .filter(source => source.data.enrollmentMonth)
+    .map(source => ({
+      month: source.data.enrollmentMonth,
+      subscribers: readNumberOrDefault(source, ['enrollmentSubscribers'], 0, 'No enrollment subscribers; using 0', diagnostics),
+      members: readNumberOrDefault(source, ['enrollmentMembers'], 0, 'No enrollment members; using 0', diagnostics),
+      planName: source.data.planName || undefined
+    }));
+
+  if (!isMultiPlan) return enrollment;
+
+  // For multi-plan BCBS data, group enrollment by month
+  const enrollmentByMonth = new Map<string, EnrollmentData>();
+  enrollment.forEach(row => {
+    if (!enrollmentByMonth.has(row.month)) {
+      enrollmentByMonth.set(row.month, { month: row.month, subscribers: 0, members: 0 });
+    }
+    const monthData = enrollmentByMonth.get(row.month)!;
+    monthData.subscribers += row.subscribers;
+    monthData.members += row.members;
+  });
+  return Array.from(enrollmentByMonth.values());
+}
+
+function readCensusMember(source: SourceRow, diagnostics: IngestDiagnostic[]): CensusMember | null {
+  const employeeId = readText(source, CENSUS_ID_COLUMNS) ?? `Row ${source.row}`;
+  const dobColumn = CENSUS_DOB_COLUMNS.find(column => !isBlankCell(source.data[column]));
+  const dateOfBirth = dobColumn ? tryParseExcelDate(source.data[dobColumn]) : null;
+  if (!dateOfBirth) {
+    report(diagnostics, source, 'skipped', `Census member ${employeeId} has an unreadable date of birth`, CENSUS_DOB_COLUMNS[0]);
+    return null;
+  }
+
+  const genderText = (readText(source, CENSUS_GENDER_COLUMNS) ?? '').charAt(0).toUpperCase();
+  if (genderText !== 'M' && genderText !== 'F') {
+    report(diagnostics, source, 'skipped', `Census member ${employeeId} has no M/F gender`, CENSUS_GENDER_COLUMNS[0]);
+    return null;
+  }
+
+  const tierText = readText(source, CENSUS_TIER_COLUMNS);
+  const tier = tierText ? CENSUS_TIERS[tierText.toLowerCase()] : undefined;
+  if (tierText && !tier) {
+    report(diagnostics, source, 'coerced', `Census member ${employeeId} has unknown tier "${tierText}"; tier ignored`, CENSUS_TIER_COLUMNS[0]);
+  }
+
+  let dependents = readNumber(source, CENSUS_DEPENDENT_COLUMNS, diagnostics);
+  if (dependents === null && tier) {
+    dependents = TIER_DEPENDENTS[tier];
+    report(diagnostics, source, 'coerced', `No dependent count for census member ${employeeId}; assuming ${dependents} for tier ${tier}`,
+      CENSUS_DEPENDENT_COLUMNS[0]);
+  }
+
+  const zip = readText(source, CENSUS_ZIP_COLUMNS);
+  return {
+    employeeId,
+    dateOfBirth,
+    gender: genderText,
+    ...(tier && { tier }),
+    ...(zip && { zip }),
+    dependents: Math.max(0, Math.round(dependents ?? 0))
+  };
+}
+
+// Census rows are the ones carrying a date of birth
+function readCensus(rows: SourceRow[], diagnostics: IngestDiagnostic[]): CensusMember[] {
+  return rows
+    .filter(source => readText(source, CENSUS_DOB_COLUMNS) !== null)
+    .map(source => readCensusMember(source, diagnostics))
+    .filter((member): member is CensusMember => member !== null);
+}
+
+// 'current' or blank keeps the most recent month, 'prior' moves the claimant back a year, YYYY-MM dates it mid-month
+function readClaimantIncurredDate(
+  source: SourceRow,
+  claimantId: string,
+  newestDate: Date,
+  diagnostics: IngestDiagnostic[]
+): Date {
+  const period = readText(source, CLAIMANT_PERIOD_COLUMNS);
+  if (period === null || period.toLowerCase() === 'current') return newestDate;
+  if (period.toLowerCase() === 'prior') {
+    return new Date(newestDate.getFullYear() - 1, newestDate.getMonth(), 15);
+  }
+  if (/^\d{4}-\d{2}$/.test(period)) {
+    return new Date(Number(period.slice(0, 4)), Number(period.slice(5, 7)) - 1, 15);
+  }
+  report(diagnostics, source, 'coerced',
+    `Claimant ${claimantId} has unknown period "${period}"; dated in the most recent month`, CLAIMANT_PERIOD_COLUMNS[0]);
+  return newestDate;
+}
+
+function readLargeClaimant(
+  source: SourceRow,
+  threshold: number,
+  incurredDate: Date,
+  diagnostics: IngestDiagnostic[]
+): LargeClaimant | null {
+  const { data } = source;
+
+  // Monthly summary and census rows are never claimants
+  if (data.Month || data.month || data.monthYear) return null;
+  if (readText(source, CENSUS_DOB_COLUMNS)) return null;
+
+  const claimantId = readText(source, CLAIMANT_ID_COLUMNS);
+  const significantAmount = Math.max(
+    ...['Total Claims', 'largeClaimantTotal', 'Claim Amount', 'Total Amount'].map(c => tryParseExcelNumber(data[c]) ?? 0)
+  );
+  const hasLargeClaim = significantAmount > threshold;
+
+  if (!claimantId && !hasLargeClaim) return null;
+  if (!claimantId) {
+    report(diagnostics, source, 'skipped', `Claim amount of $${significantAmount.toLocaleString()} has no claimant identifier`);
+    return null;
+  }
+  if (!hasLargeClaim) {
+    report(diagnostics, source, 'skipped', `Claimant ${claimantId} is not above the $${threshold.toLocaleString()} large claimant threshold`);
+    return null;
+  }
+
+  const totalAmount = readNumber(source, CLAIMANT_TOTAL_COLUMNS, diagnostics) ?? 0;
+  if (totalAmount <= 0) {
+    report(diagnostics, source, 'skipped', `Claimant ${claimantId} has no positive total amount`, CLAIMANT_TOTAL_COLUMNS[0]);
+    return null;
+  }
+
+  const medicalAmount = readNumberOrDefault(
+    source, CLAIMANT_MEDICAL_COLUMNS, totalAmount * CLAIMANT_MEDICAL_SHARE,
+    `No medical amount for claimant ${claimantId}; assuming ${CLAIMANT_MEDICAL_SHARE * 100}% of total`, diagnostics
+  );
+  const rxAmount = readNumberOrDefault(
+    source, CLAIMANT_RX_COLUMNS, totalAmount * (1 - CLAIMANT_MEDICAL_SHARE),
+    `No Rx amount for claimant ${claimantId}; assuming ${Math.round((1 - CLAIMANT_MEDICAL_SHARE) * 100)}% of total`, diagnostics
+  );
+
+  const statusText = readText(source, CLAIMANT_STATUS_COLUMNS);
+  const status = statusText ? CLAIMANT_STATUSES[statusText.toLowerCase()] : undefined;
+  if (statusText && !status) {
+    report(diagnostics, source, 'coerced', `Claimant ${claimantId} has unknown status "${statusText}"; ignored`, CLAIMANT_STATUS_COLUMNS[0]);
+  }
+  let expectedFutureCost = readNumber(source, CLAIMANT_EXPECTED_COST_COLUMNS, diagnostics);
+  if (expectedFutureCost !== null && expectedFutureCost < 0) {
+    report(diagnostics, source, 'coerced',
+      `Claimant ${claimantId} has a negative expected future cost; ignored`, CLAIMANT_EXPECTED_COST_COLUMNS[0]);
+    expectedFutureCost = null;
+  }
+  const diagnosis = readText(source, CLAIMANT_DIAGNOSIS_COLUMNS);
+  const statusNote = readText(source, CLAIMANT_NOTE_COLUMNS);
+
+  let laser = readNumber(source, CLAIMANT_LASER_COLUMNS, diagnostics);
+  if (laser !== null && laser <= 0) {
+    report(diagnostics, source, 'coerced', `Claimant ${claimantId} has a laser of ${laser}; ignored`, CLAIMANT_LASER_COLUMNS[0]);
+    laser = null;
+  }
+
+  return {
+    claimantId,
+    incurredDate: readClaimantIncurredDate(source, claimantId, incurredDate, diagnostics),
+    totalAmount,
+    medicalAmount,
+    rxAmount,
+    ...(data.planName && { planName: data.planName }),
+    ...(diagnosis && { diagnosis }),
+    ...(laser !== null && { laser }),
+    ...(status && { status }),
+    ...(expectedFutureCost !== null && { expectedFutureCost }),
+    ...(statusNote && { statusNote })
+  };
+}
+
+/**
+ * Map uploaded spreadsheet rows to a universal input, reporting every row or cell that was skipped or coerced
+ */
+export function ingestUniversalInput(data: any[], carrier: string, options: IngestOptions = {}): IngestResult {
+  if (!data || data.length === 0) {
+    throw new Error('No data provided');
+  }
+
+  const threshold = options.largeClaimantThreshold ?? DEFAULT_LARGE_CLAIMANT_THRESHOLD;
+  const diagnostics: IngestDiagnostic[] = [];
+  const rows = toSourceRows(data);
+  const row = data[0]; // Assume data structure for single group
+
+  // For BCBS multi-plan data, check if we have plan-specific data
+  const isMultiPlan = carrier === 'BCBS' && data.some(r => r.planName);
+  const planNames: string[] = Array.from(new Set(data.filter(r => r.planName).map(r => r.planName)));
+
+  rows.forEach(source => {
+    if (source.data.Month && source.data['Medical Claims'] === undefined) {
+      report(diagnostics, source, 'skipped', 'Month has no Medical Claims column', 'Medical Claims');
+    } else if (isMultiPlan && isMonthlyRow(source.data) && !source.data.planName) {
+      report(diagnostics, source, 'skipped', 'Monthly row has no planName in multi-plan data', 'planName');
+    }
+  });
+
+  const monthlyClaimsData = isMultiPlan
+    ? readMultiPlanMonthlyClaims(rows, planNames, diagnostics)
+    : readMonthlyClaims(rows, diagnostics);
+  const months = monthlyClaimsData.map(m => m.month).sort();
+
+  // Determine the experience period from the data range with full-month periods
+  let renewalStart: Date;
+  let renewalEnd: Date;
+  const explicitStart = tryParseExcelDate(row.renewalStart);
+  const explicitEnd = tryParseExcelDate(row.renewalEnd);
+
+  if (months.length > 0) {
+    const [firstYear, firstMonth] = months[0].split('-').map(Number);
+    const [lastYear, lastMonth] = months[months.length - 1].split('-').map(Number);
+    renewalStart = new Date(firstYear, firstMonth - 1, 1);
+    renewalEnd = new Date(lastYear, lastMonth, 0); // Last day of month
+  } else {
+    // Fallback to explicit renewal dates if provided
+    if (explicitStart && explicitEnd) {
+      renewalStart = explicitStart;
+      renewalEnd = explicitEnd;
+    } else {
+      report(diagnostics, rows[0], 'coerced', 'No claims months or valid renewal dates; using 2023-01-01 to 2024-12-31', 'renewalStart');
+      renewalStart = new Date('2023-01-01');
+      renewalEnd = new Date('2024-12-31');
+    }
+  }
+
+  const enrollmentDataArr = readEnrollment(rows, isMultiPlan, diagnostics);
+
+  // Attach enrollmentDataArr to the first row for BCBS param mapping
+  row._enrollmentDataArray = enrollmentDataArr;
+
+  // Claimants are dated mid-month in the most recent month of experience unless their row names a period
+  const newestMonth = months[months.length - 1];
+  const incurredDate = newestMonth
+    ? new Date(Number(newestMonth.slice(0, 4)), Number(newestMonth.slice(5, 7)) - 1, 15)
+    : new Date('2024-06-15');
+
+  let largeClaimantsData: LargeClaimant[];
+  if (isMultiPlan) {
+    // Process claimants plan by plan; claimant rows outside any plan are not counted
+    largeClaimantsData = planNames.flatMap(planName =>
+      rows
+        .filter(source => source.data.planName === planName)
+        .map(source => readLargeClaimant(source, threshold, incurredDate, diagnostics))
+        .filter((claimant): claimant is LargeClaimant => claimant !== null)
+    );
+    rows
+      .filter(source => !source.data.planName && readText(source, CLAIMANT_ID_COLUMNS) && !source.data.Month)
+      .forEach(source => report(diagnostics, source, 'skipped', 'Claimant row has no planName in multi-plan data', 'planName'));
+  } else {
+    largeClaimantsData = rows
+      .map(source => readLargeClaimant(source, threshold, incurredDate, diagnostics))
+      .filter((claimant): claimant is LargeClaimant => claimant !== null);
+  }
+
+  const input: UniversalInput = {
+    carrier: carrier as any,
+    caseId: row.caseId || '',
+    effectiveDates: {
+      renewalStart: renewalStart,
+      renewalEnd: renewalEnd,
+    },
+    ...(explicitStart && explicitEnd ? { renewalDates: { renewalStart: explicitStart, renewalEnd: explicitEnd } } : {}),
+    monthlyClaimsData: monthlyClaimsData,
+    largeClaimantsData: largeClaimantsData,
+    manualRates: {
+      medical: parseExcelNumber(row.manualRateMedical),
+      rx: parseExcelNumber(row.manualRateRx),
+    },
+    carrierSpecificParameters: mapToCarrierParams(row, carrier),
+    enrollmentData: enrollmentDataArr,
+    census: readCensus(rows, diagnostics),
+    // Add multi-plan specific data for BCBS
+    ...(isMultiPlan && {
+      multiPlanData: {
+        planCount: row.planCount || 4,
+        totalGroupSize: row.totalGroupSize || 0,
+        planNames
+      }
+    })
+  };
+
+  return { input, diagnostics };
+}
+
+/**
+ * Map uploaded spreadsheet rows to a universal input, discarding diagnostics
+ */
+export function mapToUniversalInput(data: any[], carrier: string, options: IngestOptions = {}): UniversalInput {
+  return ingestUniversalInput(data, carrier, options).input;
+}
@@ -0,0 +1,156 @@
+/**
+ * Whether a cell is empty (missing, null or blank text)
+ */
+export function isBlankCell(value: any): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Parse a numeric cell (handles formatted numbers, percentages, etc.); null when blank or not a number
+ */
+export function tryParseExcelNumber(value: any): number | null {
+  if (isBlankCell(value)) return null;
+  
+  // If already a number, return it
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  
+  // Convert to string and clean up
+  let stringValue = value.toString().trim();
+  
+  // Remove common Excel formatting
+  stringValue = stringValue
+    .replace(/[$,]/g, '') // Remove dollar signs and commas
+    .replace(/[()]/g, '') // Remove parentheses (negative numbers)
+    .replace(/%$/, ''); // Remove percentage signs
+  
+  // Handle negative numbers in parentheses
+  const isNegative = value.toString().includes('(') && value.toString().includes(')');
+  
+  // Parse the cleaned number
+  const parsed = parseFloat(stringValue);
+  
+  if (isNaN(parsed)) return null;
+  
+  return isNegative ? -parsed : parsed;
+}
+
+// Lenient variant used for parameters: blanks and unparseable text read as 0
+export function parseExcelNumber(value: any): number {
+  return tryParseExcelNumber(value) ?? 0;
+}
+
+/**
+ * Parse a date cell with support for "MMM-YY", "MMM YYYY", "MM/YYYY", "YYYY-MM" and Excel serial dates; null when blank or unparseable
+ */
+export function tryParseExcelDate(value: any): Date | null {
+  if (isBlankCell(value)) return null;
+  
+  // If already a Date object, return it
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  
+  // Convert to string for processing
+  const stringValue = value.toString().trim();
+  
+  // Handle "MMM-YY" format like "Jan-23", "Feb-23", etc.
+  const monthYearMatch = stringValue.match(/^([A-Za-z]{3})-(\d{2})$/);
+  if (monthYearMatch) {
+    const [, monthStr, yearStr] = monthYearMatch;
+    const year = parseInt(yearStr) + (parseInt(yearStr) < 50 ? 2000 : 1900); // 23 = 2023, 89 = 1989
+    const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+    const monthIndex = monthNames.indexOf(monthStr.toLowerCase());
+    if (monthIndex !== -1) {
+      // Always return the first day of the month for consistency
+      return new Date(year, monthIndex, 1);
+    }
+  }
+  
+  // Handle "MMM YYYY" format like "Jan 2023", "February 2024"
+  const monthYearSpaceMatch = stringValue.match(/^([A-Za-z]{3,9})\s+(\d{4})$/);
+  if (monthYearSpaceMatch) {
+    const [, monthStr, yearStr] = monthYearSpaceMatch;
+    const year = parseInt(yearStr);
+    const date = new Date(`${monthStr} 1, ${year}`);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  
+  // Handle "MM/YYYY" or "M/YYYY" format
+  const monthSlashYearMatch = stringValue.match(/^(\d{1,2})\/(\d{4})$/);
+  if (monthSlashYearMatch) {
+    const [, monthStr, yearStr] = monthSlashYearMatch;
+    const month = parseInt(monthStr) - 1; // JavaScript months are 0-indexed
+    const year = parseInt(yearStr);
+    return new Date(year, month, 1);
+  }
+  
+  // Handle "YYYY-MM" format
+  const yearMonthMatch = stringValue.match(/^(\d{4})-(\d{1,2})$/);
+  if (yearMonthMatch) {
+    const [, yearStr, monthStr] = yearMonthMatch;
+    const year = parseInt(yearStr);
+    const month = parseInt(monthStr) - 1; // JavaScript months are 0-indexed
+    return new Date(year, month, 1);
+  }
+  
+  // Handle Excel serial date numbers (e.g., 44927 = Dec 1, 2022)
+  if (typeof value === 'number' || /^\d{4,5}$/.test(stringValue)) {
+    const serialDate = typeof value === 'number' ? value : parseInt(stringValue);
+    
+    // Excel serial dates: 1 = Jan 1, 1900 (but Excel has a leap year bug)
+    // Reasonable range for dates (between 1900 and 2100)
+    if (serialDate > 0 && serialDate < 100000) {
+      // Convert Excel serial to JavaScript Date
+      // Excel epoch: Jan 1, 1900 but JavaScript Date epoch is Jan 1, 1970
+      const excelEpoch = new Date(1900, 0, 1);
+      const daysSinceEpoch = serialDate - 1; // Excel starts counting from 1, not 0
+      const result = new Date(excelEpoch.getTime() + daysSinceEpoch * 24 * 60 * 60 * 1000);
+      
+      // Additional adjustment for Excel's leap year bug (treats 1900 as leap year)
+      if (serialDate > 59) { // After Feb 28, 1900
+        result.setDate(result.getDate() - 1);
+      }
+      
+      return result;
+    }
+  }
+  
+  // Handle standard date formats like "MM/DD/YYYY", "YYYY-MM-DD", etc.
+  const standardDate = new Date(stringValue);
+  if (!isNaN(standardDate.getTime())) {
+    return standardDate;
+  }
+  
+  // Handle "DD/MM/YYYY" vs "MM/DD/YYYY" ambiguity by trying both
+  const slashMatch = stringValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashMatch) {
+    const [, first, second, yearStr] = slashMatch;
+    const year = parseInt(yearStr);
+    
+    // Try MM/DD/YYYY first (more common in US)
+    const mmdd = new Date(year, parseInt(first) - 1, parseInt(second));
+    if (!isNaN(mmdd.getTime()) && parseInt(first) <= 12) {
+      return mmdd;
+    }
+    
+    // Try DD/MM/YYYY if MM/DD doesn't make sense
+    const ddmm = new Date(year, parseInt(second) - 1, parseInt(first));
+    if (!isNaN(ddmm.getTime()) && parseInt(second) <= 12) {
+      return ddmm;
+    }
+  }
+  
+  return null;
+}
+
+// Lenient variant: blanks and unparseable values fall back to the epoch
+export function parseExcelDate(value: any): Date {
+  return tryParseExcelDate(value) ?? new Date('1970-01-01');
+}
+
+/**
+ * Format a date as the YYYY-MM month key used by IMonthlyClaimsData
+ */
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
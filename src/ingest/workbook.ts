@@ -0,0 +1,52 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+/**
+ * Combine every sheet of an Excel workbook into one list of header-keyed rows, tagged with their sheet and row
+ */
+export function processExcelWorkbook(workbook: XLSX.WorkBook): any[] {
+  let allData: any[] = [];
+
+  // Process each sheet
+  workbook.SheetNames.forEach((sheetName, index) => {
+    const worksheet = workbook.Sheets[sheetName];
+    const sheetData = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
+
+    // Tag data with its source so ingest diagnostics can point back at the sheet row
+    const taggedData = sheetData.map((row: any) => ({
+      ...row,
+      _sourceSheet: sheetName,
+      _sheetIndex: index,
+      _sourceRow: row.__rowNum__ + 1 // sheet_to_json records the zero-based sheet row
+    }));
+
+    allData = allData.concat(taggedData);
+  });
+
+  return allData;
+}
+
+/**
+ * Parse CSV text into header-keyed rows, matching the uploader's CSV handling
+ */
+export function parseCsvRows(text: string): any[] {
+  const results = Papa.parse(text, {
+    header: true,
+    skipEmptyLines: true
+  });
+  return results.data as any[];
+}
+
+/**
+ * Read an uploaded CSV or Excel file into header-keyed rows
+ */
+export async function readUploadedFile(file: File): Promise<any[]> {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'csv') {
+    return parseCsvRows(await file.text());
+  }
+  if (ext === 'xlsx' || ext === 'xls') {
+    return processExcelWorkbook(XLSX.read(await file.arrayBuffer(), { type: 'array' }));
+  }
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
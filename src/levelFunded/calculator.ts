@@ -0,0 +1,143 @@
+import { IMonthlyClaimsData, LargeClaimant, UniversalInput } from '../types/common';
+import { getCarrierPlugin, validateParameters, formatCarrierParameterErrors } from '../components/carriers';
+import { runProjection } from '../utils/projectionRunner';
+import { calculateSelfFunded, CostAmount } from '../selfFunded';
+import {
+  createRandom,
+  fitSimulationModel,
+  percentile,
+  simulateExperience,
+  DEFAULT_SIMULATION_SCENARIOS,
+  DEFAULT_SIMULATION_SEED
+} from '../simulation';
+import { LevelFundedOptions, LevelFundedResult, LevelFundedSettings, RefundDistribution } from './types';
+import { LEVEL_FUNDED_DEFAULTS, LEVEL_FUNDED_PARAMETER_SCHEMA } from './schema';
+
+// Claims the plan pays over the experience: everything below the specific deductible
+function netClaims(months: IMonthlyClaimsData[], claimants: LargeClaimant[], deductible: number): number {
+  const total = months.reduce((sum, month) => sum + (month.incurredClaims?.medical || 0) + (month.incurredClaims?.rx || 0), 0);
+  const excess = claimants.reduce((sum, claimant) => sum + Math.max(0, claimant.totalAmount - deductible), 0);
+  return total - excess;
+}
+
+/**
+ * Refund of the unused claims fund across simulated years: each scenario scales expected net claims by how far its
+ * simulated experience (net of the deductible) lands from the actual experience
+ */
+export function simulateRefunds(
+  input: UniversalInput,
+  settings: LevelFundedSettings,
+  expectedNetAnnual: number,
+  claimsFundAnnual: number,
+  options: LevelFundedOptions = {}
+): RefundDistribution {
+  const scenarios = options.scenarios ?? DEFAULT_SIMULATION_SCENARIOS;
+  const seed = options.seed ?? DEFAULT_SIMULATION_SEED;
+  const model = fitSimulationModel(input);
+  const random = createRandom(seed);
+  const baseNet = netClaims(input.monthlyClaimsData, input.largeClaimantsData, settings.specificDeductible);
+
+  let refunds = 0;
+  let aggregateClaims = 0;
+  const amounts = Array.from({ length: scenarios }, () => {
+    const experience = simulateExperience(model, random);
+    const simulatedNet = netClaims(experience.monthlyClaimsData, experience.largeClaimantsData, settings.specificDeductible);
+    const claims = baseNet > 0 ? expectedNetAnnual * simulatedNet / baseNet : expectedNetAnnual;
+    if (claims > claimsFundAnnual) aggregateClaims++;
+    const refund = Math.max(0, claimsFundAnnual - claims) * settings.refundShare;
+    if (refund > 0) refunds++;
+    return refund;
+  });
+
+  const sorted = [...amounts].sort((a, b) => a - b);
+  return {
+    scenarios,
+    seed,
+    probabilityOfRefund: refunds / scenarios,
+    probabilityOfAggregateClaim: aggregateClaims / scenarios,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: amounts.reduce((sum, amount) => sum + amount, 0) / scenarios
+  };
+}
+
+/**
+ * Price the case level-funded on top of a carrier's fully insured renewal: the carrier's credibility-weighted, trended
+ * claims cost (with its pooling) sets expected claims, which are split between the claims fund and specific stop-loss
+ * Rejects for carriers that do not report a claims cost, and with every invalid setting listed
+ */
+export async function runLevelFundedProjection(
+  rows: any[],
+  carrier: string,
+  overrides: Record<string, any> = {},
+  settingsOverrides: Record<string, any> = {},
+  options: LevelFundedOptions = {}
+): Promise<LevelFundedResult> {
+  const plugin = getCarrierPlugin(carrier);
+  const uploaded = validateParameters(LEVEL_FUNDED_PARAMETER_SCHEMA, rows[0] || {}, { ...LEVEL_FUNDED_DEFAULTS });
+  const overridden = validateParameters(LEVEL_FUNDED_PARAMETER_SCHEMA, settingsOverrides, uploaded.params);
+  const invalid = [...uploaded.errors, ...overridden.errors];
+  if (invalid.length > 0) {
+    throw new Error(formatCarrierParameterErrors('level-funded', invalid));
+  }
+  const settings = overridden.params as unknown as LevelFundedSettings;
+
+  const { input, result } = await runProjection(rows, carrier, overrides);
+  const expectedClaimsPMPM = plugin.summarizeResult?.(result).projectedClaimsPMPM;
+  if (typeof expectedClaimsPMPM !== 'number') {
+    throw new Error(`${plugin.label} does not report a projected claims cost; level funding is built on UHC or Cigna`);
+  }
+
+  // Stop-loss is priced as for a self-funded group; the aggregate attaches at the claims fund instead of a corridor,
+  // with the case's credibility settings (already checked by the projection) weighting the group's excess claims
+  const selfFunded = calculateSelfFunded(input, {
+    specificDeductible: settings.specificDeductible,
+    specificLossRatio: settings.specificLossRatio,
+    specificManualExcessPMPM: settings.specificManualExcessPMPM,
+    aggregateCorridor: settings.claimsFundMargin,
+    aggregatePremiumPMPM: settings.aggregatePremiumPMPM,
+    adminFeePMPM: settings.adminFeePMPM,
+    otherFixedFeesPMPM: 0,
+    annualTrend: settings.annualTrend,
+    fullCredibilityMemberMonths: settings.fullCredibilityMemberMonths
+  }, undefined, overrides.credibilitySettings);
+  const projectedMemberMonths = selfFunded.projectedMemberMonths;
+  const amount = (pmpm: number): CostAmount => ({ pmpm, annual: pmpm * projectedMemberMonths });
+
+  const warnings = [...selfFunded.warnings];
+  const specificExcessPMPM = selfFunded.specificStopLoss.expectedExcessPMPM;
+  const expectedNetClaimsPMPM = Math.max(0, expectedClaimsPMPM - specificExcessPMPM);
+  if (specificExcessPMPM > expectedClaimsPMPM) {
+    warnings.push('Expected claims above the specific deductible exceed the carrier\'s claims cost; the claims fund is zero');
+  }
+
+  const claimsFund = amount(expectedNetClaimsPMPM * settings.claimsFundMargin);
+  const specificStopLoss = selfFunded.specificStopLoss.premium;
+  const aggregateStopLoss = selfFunded.aggregateStopLoss.premium;
+  const admin = amount(settings.adminFeePMPM);
+  const total = amount(claimsFund.pmpm + specificStopLoss.pmpm + aggregateStopLoss.pmpm + admin.pmpm);
+
+  const refund = simulateRefunds(input, settings, amount(expectedNetClaimsPMPM).annual, claimsFund.annual, options);
+  const premium = amount(result.projectedPremiumPMPM);
+  const expectedNetCost = amount(total.pmpm - refund.mean / projectedMemberMonths);
+
+  return {
+    basisCarrier: plugin.id,
+    settings,
+    projectedMemberMonths,
+    expectedClaimsPMPM,
+    specificExcessPMPM,
+    expectedNetClaimsPMPM,
+    monthlyPayment: { claimsFund, specificStopLoss, aggregateStopLoss, admin, total },
+    aggregateAttachment: claimsFund,
+    refund,
+    fullyInsuredComparison: {
+      premium,
+      rateAction: result.requiredRateChange,
+      expectedNetCost,
+      expectedSavings: premium.annual - expectedNetCost.annual
+    },
+    warnings
+  };
+}
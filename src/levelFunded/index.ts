@@ -0,0 +1,4 @@
+// Level-funded renewals: a fixed monthly payment split into claims fund, stop-loss and admin, with a surplus refund
+export * from './types';
+export { LEVEL_FUNDED_DEFAULTS, LEVEL_FUNDED_PARAMETER_SCHEMA } from './schema';
+export { runLevelFundedProjection, simulateRefunds } from './calculator';
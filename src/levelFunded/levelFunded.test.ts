@@ -0,0 +1,63 @@
+import { runLevelFundedProjection } from '.';
+
+describe('level-funded renewal', () => {
+  const rows = [
+    { caseId: 'LF-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 40000,
+      'Pharmacy Claims': 10000,
+      memberMonthsMedical: 100,
+      memberMonthsRx: 100
+    })),
+    { 'Claimant Number': 'LC1', 'Total Claims': 60000 }
+  ];
+  const options = { scenarios: 200, seed: 7 };
+
+  test('splits the monthly payment into claims fund, stop-loss and admin', async () => {
+    for (const carrier of ['UHC', 'CIGNA']) {
+      const result = await runLevelFundedProjection(rows, carrier, {}, { adminFeePMPM: 40 }, options);
+      const payment = result.monthlyPayment;
+
+      expect(result.expectedClaimsPMPM).toBeGreaterThan(0);
+      expect(result.expectedNetClaimsPMPM).toBeCloseTo(result.expectedClaimsPMPM - result.specificExcessPMPM);
+      expect(payment.claimsFund.pmpm).toBeCloseTo(result.expectedNetClaimsPMPM * 1.1);
+      expect(payment.admin.pmpm).toBe(40);
+      expect(payment.total.pmpm).toBeCloseTo(
+        payment.claimsFund.pmpm + payment.specificStopLoss.pmpm + payment.aggregateStopLoss.pmpm + payment.admin.pmpm
+      );
+      expect(payment.total.annual).toBeCloseTo(payment.total.pmpm * result.projectedMemberMonths);
+      expect(result.aggregateAttachment).toEqual(payment.claimsFund);
+    }
+  });
+
+  test('estimates a reproducible refund distribution and compares with fully insured', async () => {
+    const first = await runLevelFundedProjection(rows, 'UHC', {}, {}, options);
+    const second = await runLevelFundedProjection(rows, 'UHC', {}, {}, options);
+    const { refund, fullyInsuredComparison } = first;
+
+    expect(second.refund).toEqual(refund);
+    expect(refund.p10).toBeLessThanOrEqual(refund.p50);
+    expect(refund.p50).toBeLessThanOrEqual(refund.p90);
+    expect(refund.p90).toBeLessThanOrEqual(first.monthlyPayment.claimsFund.annual * 0.5);
+    expect(refund.probabilityOfRefund).toBeGreaterThan(0);
+    expect(fullyInsuredComparison.expectedNetCost.annual)
+      .toBeCloseTo(first.monthlyPayment.total.annual - refund.mean);
+    expect(fullyInsuredComparison.expectedSavings)
+      .toBeCloseTo(fullyInsuredComparison.premium.annual - fullyInsuredComparison.expectedNetCost.annual);
+  });
+
+  test('rejects carriers without a claims cost and invalid settings', async () => {
+    await expect(runLevelFundedProjection(rows, 'AETNA')).rejects.toThrow('level funding is built on UHC or Cigna');
+    await expect(runLevelFundedProjection(rows, 'UHC', {}, { refundShare: 1.5 }))
+      .rejects.toThrow('Invalid level-funded parameters: Surplus Refund Share must be between 0 and 1, got 1.5');
+  });
+
+  test('weights the stop-loss excess with the case\'s credibility settings', async () => {
+    const manualOnly = await runLevelFundedProjection(rows, 'UHC', { credibilitySettings: { method: 'supplied', credibility: 0 } }, {}, options);
+    expect(manualOnly.specificExcessPMPM).toBeCloseTo(60);
+
+    await expect(runLevelFundedProjection(rows, 'UHC', { credibilitySettings: { method: 'buhlmann' } }, {}, options))
+      .rejects.toThrow('Invalid UHC parameters: Bühlmann k must be a positive number');
+  });
+});
@@ -0,0 +1,26 @@
+import { CarrierParameterField } from '../components/carriers';
+import { LevelFundedSettings } from './types';
+
+export const LEVEL_FUNDED_DEFAULTS: LevelFundedSettings = {
+  claimsFundMargin: 1.10,
+  specificDeductible: 25000,
+  specificLossRatio: 0.65,
+  specificManualExcessPMPM: 60,
+  aggregatePremiumPMPM: 4,
+  adminFeePMPM: 45,
+  refundShare: 0.5,
+  annualTrend: 0.08,
+  fullCredibilityMemberMonths: 60000
+};
+
+export const LEVEL_FUNDED_PARAMETER_SCHEMA: CarrierParameterField[] = [
+  { key: 'claimsFundMargin', label: 'Claims Fund Margin', unit: 'factor', min: 1, max: 1.5, description: 'Claims fund as a multiple of expected claims' },
+  { key: 'specificDeductible', label: 'Specific Deductible', unit: 'currency', min: 5000, max: 500000, aliases: ['stopLossDeductible'] },
+  { key: 'specificLossRatio', label: 'Specific Stop-Loss Loss Ratio', unit: 'rate', min: 0.3, max: 1 },
+  { key: 'specificManualExcessPMPM', label: 'Manual Claims Above Deductible PMPM', unit: 'currency', min: 0, max: 500 },
+  { key: 'aggregatePremiumPMPM', label: 'Aggregate Stop-Loss Premium PMPM', unit: 'currency', min: 0, max: 100 },
+  { key: 'adminFeePMPM', label: 'Admin Fee PMPM', unit: 'currency', min: 0, max: 500 },
+  { key: 'refundShare', label: 'Surplus Refund Share', unit: 'rate', min: 0, max: 1 },
+  { key: 'annualTrend', label: 'Annual Claims Trend', unit: 'rate', min: -0.2, max: 0.5 },
+  { key: 'fullCredibilityMemberMonths', label: 'Full Credibility Member Months', unit: 'memberMonths', min: 1, max: 1000000 }
+];
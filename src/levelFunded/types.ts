@@ -0,0 +1,56 @@
+import { CostAmount } from '../selfFunded';
+
+// Level-funded pricing settings; see LEVEL_FUNDED_PARAMETER_SCHEMA for units and ranges
+export interface LevelFundedSettings {
+  claimsFundMargin: number; // Claims fund as a multiple of expected net claims; the aggregate attaches at the fund
+  specificDeductible: number;
+  specificLossRatio: number;
+  specificManualExcessPMPM: number;
+  aggregatePremiumPMPM: number;
+  adminFeePMPM: number;
+  refundShare: number; // Share of an unused claims fund returned to the group
+  annualTrend: number; // Trend applied to large claimants when pricing specific stop-loss
+  fullCredibilityMemberMonths: number;
+}
+
+export interface LevelFundedOptions {
+  scenarios?: number; // Claims scenarios behind the refund distribution; defaults to 1,000
+  seed?: number;
+}
+
+// Annual refund across the simulated claims scenarios
+export interface RefundDistribution {
+  scenarios: number;
+  seed: number;
+  probabilityOfRefund: number;
+  probabilityOfAggregateClaim: number; // Claims exceed the fund and the aggregate stop-loss pays
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface LevelFundedResult {
+  basisCarrier: string;
+  settings: LevelFundedSettings;
+  projectedMemberMonths: number;
+  expectedClaimsPMPM: number; // The basis carrier's credibility-weighted, trended claims cost
+  specificExcessPMPM: number; // Expected claims above the specific deductible, paid by stop-loss
+  expectedNetClaimsPMPM: number;
+  monthlyPayment: {
+    claimsFund: CostAmount;
+    specificStopLoss: CostAmount;
+    aggregateStopLoss: CostAmount;
+    admin: CostAmount;
+    total: CostAmount;
+  };
+  aggregateAttachment: CostAmount;
+  refund: RefundDistribution;
+  fullyInsuredComparison: {
+    premium: CostAmount;
+    rateAction: number;
+    expectedNetCost: CostAmount; // Level-funded payments less the mean refund
+    expectedSavings: number; // Annual
+  };
+  warnings: string[];
+}
@@ -0,0 +1,214 @@
+import { CalculationTrace } from '../types/common';
+import {
+  getCarrierPlugin,
+  validateParameters,
+  formatCarrierParameterErrors,
+  isParameterSupplied,
+  CarrierParameterError
+} from '../components/carriers';
+import { isBlankCell } from '../ingest';
+import { PlanDesign, PlanDesignApplication, PlanDesignComparison, PlanValue } from './types';
+import { DEFAULT_PLAN_DESIGN, PLAN_DESIGN_PARAMETER_SCHEMA, PlanDesignRole, planDesignSchemaFor } from './schema';
+
+// Annual allowed cost per member across a commercial population: probability, medical, Rx
+const CONTINUANCE_TABLE: [number, number, number][] = [
+  [0.20, 0, 0],
+  [0.20, 300, 50],
+  [0.15, 1000, 200],
+  [0.12, 2500, 400],
+  [0.10, 5000, 700],
+  [0.08, 9000, 1100],
+  [0.06, 16000, 1800],
+  [0.05, 30000, 2600],
+  [0.03, 70000, 4500],
+  [0.01, 250000, 12000]
+];
+
+// Copay services as a share of medical allowed cost, and the allowed cost of one visit
+const COPAY_SERVICES: { copay: keyof PlanDesign; share: number; unitCost: number }[] = [
+  { copay: 'pcpCopay', share: 0.05, unitCost: 150 },
+  { copay: 'specialistCopay', share: 0.06, unitCost: 250 },
+  { copay: 'erCopay', share: 0.045, unitCost: 2000 }
+];
+
+// Rx tiers as a share of Rx allowed cost, and the allowed cost of one script
+const RX_COPAY_TIERS: { copay: keyof PlanDesign; share: number; unitCost: number }[] = [
+  { copay: 'rxGenericCopay', share: 0.2, unitCost: 20 },
+  { copay: 'rxPreferredCopay', share: 0.3, unitCost: 150 },
+  { copay: 'rxNonPreferredCopay', share: 0.15, unitCost: 300 }
+];
+const RX_SPECIALTY_SHARE = 0.35;
+
+// Induced utilization by actuarial value, interpolated between the metal tier levels
+const INDUCED_UTILIZATION: [number, number][] = [[0.6, 1.0], [0.7, 1.03], [0.8, 1.08], [0.9, 1.15]];
+
+function memberCost(design: PlanDesign, medical: number, rx: number): number {
+  let copays = 0;
+  let subjectToDeductible = medical + rx * (1 - RX_SPECIALTY_SHARE);
+
+  [...COPAY_SERVICES.map(service => ({ ...service, allowed: medical * service.share })),
+    ...RX_COPAY_TIERS.map(tier => ({ ...tier, allowed: rx * tier.share }))]
+    .forEach(service => {
+      const copay = design[service.copay];
+      if (copay > 0 && service.allowed > 0) {
+        copays += (service.allowed / service.unitCost) * Math.min(copay, service.unitCost);
+        subjectToDeductible -= service.allowed;
+      }
+    });
+
+  const deductible = Math.min(design.deductible, subjectToDeductible);
+  const coinsurance = design.coinsurance * (subjectToDeductible - deductible);
+  const specialty = design.rxSpecialtyCoinsurance * rx * RX_SPECIALTY_SHARE;
+  return Math.min(design.oopMax, copays + deductible + coinsurance + specialty);
+}
+
+function inducedUtilization(actuarialValue: number): number {
+  const [first] = INDUCED_UTILIZATION;
+  const last = INDUCED_UTILIZATION[INDUCED_UTILIZATION.length - 1];
+  if (actuarialValue <= first[0]) return first[1];
+  if (actuarialValue >= last[0]) return last[1];
+  const upper = INDUCED_UTILIZATION.findIndex(([value]) => value >= actuarialValue);
+  const [lowValue, lowFactor] = INDUCED_UTILIZATION[upper - 1];
+  const [highValue, highFactor] = INDUCED_UTILIZATION[upper];
+  return lowFactor + (highFactor - lowFactor) * (actuarialValue - lowValue) / (highValue - lowValue);
+}
+
+/**
+ * Actuarial value of a plan design over the continuance table, with its induced utilization
+ */
+export function calculatePlanValue(design: PlanDesign): PlanValue {
+  let allowed = 0;
+  let member = 0;
+  CONTINUANCE_TABLE.forEach(([probability, medical, rx]) => {
+    allowed += probability * (medical + rx);
+    member += probability * memberCost(design, medical, rx);
+  });
+  const actuarialValue = (allowed - member) / allowed;
+  return { design, actuarialValue, inducedUtilization: inducedUtilization(actuarialValue), memberCostPerMember: member };
+}
+
+function describeDesign(design: PlanDesign): string {
+  const money = (value: number) => `$${value.toLocaleString()}`;
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return `${money(design.deductible)} deductible, ${percent(design.coinsurance)} coinsurance, ${money(design.oopMax)} OOP max, ` +
+    `copays ${[design.pcpCopay, design.specialistCopay, design.erCopay].map(money).join('/')}, ` +
+    `Rx ${[design.rxGenericCopay, design.rxPreferredCopay, design.rxNonPreferredCopay].map(money).join('/')}/` +
+    `${percent(design.rxSpecialtyCoinsurance)} specialty`;
+}
+
+/**
+ * Plan change factor from the current to the proposed design: the actuarial value relativity times the change in
+ * induced utilization, with the supporting math
+ */
+export function comparePlanDesigns(current: PlanDesign, proposed: PlanDesign): PlanDesignComparison {
+  const currentValue = calculatePlanValue(current);
+  const proposedValue = calculatePlanValue(proposed);
+  const relativity = proposedValue.actuarialValue / currentValue.actuarialValue;
+  const inducedUtilizationRatio = proposedValue.inducedUtilization / currentValue.inducedUtilization;
+  const factor = relativity * inducedUtilizationRatio;
+
+  const describeValue = (label: string, value: PlanValue) =>
+    `${label} plan: ${describeDesign(value.design)}; AV ${value.actuarialValue.toFixed(4)}, ` +
+    `induced utilization ${value.inducedUtilization.toFixed(4)}`;
+  return {
+    current: currentValue,
+    proposed: proposedValue,
+    relativity,
+    inducedUtilizationRatio,
+    factor,
+    explanation: [
+      describeValue('Current', currentValue),
+      describeValue('Proposed', proposedValue),
+      `Plan change factor = (${proposedValue.actuarialValue.toFixed(4)} × ${proposedValue.inducedUtilization.toFixed(4)}) ÷ ` +
+        `(${currentValue.actuarialValue.toFixed(4)} × ${currentValue.inducedUtilization.toFixed(4)}) = ${factor.toFixed(4)}`
+    ]
+  };
+}
+
+function toDesign(params: Record<string, number>, role: PlanDesignRole): PlanDesign {
+  const schema = planDesignSchemaFor(role);
+  return Object.fromEntries(PLAN_DESIGN_PARAMETER_SCHEMA.map((field, index) =>
+    [field.key, params[schema[index].key]])) as unknown as PlanDesign;
+}
+
+function fromDesign(design: PlanDesign, role: PlanDesignRole): Record<string, number> {
+  const schema = planDesignSchemaFor(role);
+  return Object.fromEntries(PLAN_DESIGN_PARAMETER_SCHEMA.map((field, index) =>
+    [schema[index].key, design[field.key as keyof PlanDesign]]));
+}
+
+/**
+ * Current and proposed plan designs from upload rows or overrides (currentDeductible, proposedCoinsurance, ...)
+ * Proposed fields that are not given keep the current plan's; returns null when no plan design field is given
+ * Throws with every invalid field listed
+ */
+export function readPlanDesigns(sources: Record<string, any>[]): { current: PlanDesign; proposed: PlanDesign } | null {
+  const errors: CarrierParameterError[] = [];
+  let supplied = false;
+  const read = (role: PlanDesignRole, base: PlanDesign): PlanDesign => {
+    const schema = planDesignSchemaFor(role);
+    supplied = supplied || sources.some(source => schema.some(field => !isBlankCell(source[field.key])));
+    const params = sources.reduce((values, source) => {
+      const validation = validateParameters(schema, source, values);
+      errors.push(...validation.errors);
+      return validation.params;
+    }, fromDesign(base, role));
+    const design = toDesign(params, role);
+    if (design.oopMax < design.deductible) {
+      errors.push({
+        key: schema[2].key,
+        label: schema[2].label,
+        value: design.oopMax,
+        message: `${schema[2].label} must be at least the deductible, got ${design.oopMax}`
+      });
+    }
+    return design;
+  };
+
+  const current = read('current', DEFAULT_PLAN_DESIGN);
+  const proposed = read('proposed', current);
+  if (errors.length > 0) {
+    throw new Error(formatCarrierParameterErrors('plan design', errors));
+  }
+  return supplied ? { current, proposed } : null;
+}
+
+/**
+ * Fill the carrier's plan change parameter from the plan designs, unless an explicit source sets the factor
+ * Returns the parameters unchanged and no plan design when none is given
+ */
+export function applyPlanDesign(
+  carrier: string,
+  params: Record<string, any>,
+  sources: Record<string, any>[]
+): { params: Record<string, any>; planDesign: PlanDesignApplication | null } {
+  const designs = readPlanDesigns(sources);
+  if (!designs) {
+    return { params, planDesign: null };
+  }
+
+  const comparison = comparePlanDesigns(designs.current, designs.proposed);
+  const field = getCarrierPlugin(carrier).parameterSchema.find(candidate => candidate.planDesignLine);
+  if (!field) {
+    return { params, planDesign: { ...comparison, parameter: null, traceLine: null, applied: false } };
+  }
+
+  const explicit = isParameterSupplied(field, sources);
+  return {
+    params: explicit ? params : { ...params, [field.key]: comparison.factor },
+    planDesign: { ...comparison, parameter: field.key, traceLine: field.planDesignLine!, applied: !explicit }
+  };
+}
+
+/**
+ * The trace with the plan design math attached to the plan change line (every plan's, for multi-plan traces)
+ */
+export function attachPlanDesignTrace(trace: CalculationTrace, planDesign: PlanDesignApplication): CalculationTrace {
+  if (!planDesign.applied || !planDesign.traceLine) return trace;
+  const line = planDesign.traceLine;
+  return {
+    nodes: trace.nodes.map(node => node.id === line || node.id.endsWith(` ${line}`)
+      ? { ...node, sources: [...node.sources, ...planDesign.explanation] }
+      : node)
+  };
+}
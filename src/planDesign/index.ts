@@ -0,0 +1,11 @@
+// Plan design relativity: actuarial values of the current and proposed benefits and the plan change factor
+export * from './types';
+export { DEFAULT_PLAN_DESIGN, PLAN_DESIGN_PARAMETER_SCHEMA, planDesignSchemaFor } from './schema';
+export type { PlanDesignRole } from './schema';
+export {
+  calculatePlanValue,
+  comparePlanDesigns,
+  readPlanDesigns,
+  applyPlanDesign,
+  attachPlanDesignTrace
+} from './calculator';
@@ -0,0 +1,75 @@
+import { runProjection } from '../utils/projectionRunner';
+import { getTraceNode } from '../utils/calculationTrace';
+import { calculatePlanValue, comparePlanDesigns, DEFAULT_PLAN_DESIGN } from '.';
+
+describe('plan design relativity', () => {
+  const rows = [
+    { caseId: 'PLAN-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31', currentDeductible: 1000, proposedDeductible: 2500, proposedOopMax: 6000 },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  test('values richer designs higher and pays everything with no cost sharing', () => {
+    const base = calculatePlanValue(DEFAULT_PLAN_DESIGN);
+    const lean = calculatePlanValue({ ...DEFAULT_PLAN_DESIGN, deductible: 3000, coinsurance: 0.3, oopMax: 7000 });
+    const free = calculatePlanValue({
+      ...DEFAULT_PLAN_DESIGN,
+      deductible: 0,
+      coinsurance: 0,
+      pcpCopay: 0,
+      specialistCopay: 0,
+      erCopay: 0,
+      rxGenericCopay: 0,
+      rxPreferredCopay: 0,
+      rxNonPreferredCopay: 0,
+      rxSpecialtyCoinsurance: 0
+    });
+
+    expect(base.actuarialValue).toBeGreaterThan(0.7);
+    expect(base.actuarialValue).toBeLessThan(0.95);
+    expect(lean.actuarialValue).toBeLessThan(base.actuarialValue);
+    expect(lean.inducedUtilization).toBeLessThan(base.inducedUtilization);
+    expect(free.actuarialValue).toBeCloseTo(1);
+  });
+
+  test('combines the actuarial value relativity with induced utilization', () => {
+    expect(comparePlanDesigns(DEFAULT_PLAN_DESIGN, DEFAULT_PLAN_DESIGN).factor).toBeCloseTo(1);
+
+    const comparison = comparePlanDesigns(DEFAULT_PLAN_DESIGN, { ...DEFAULT_PLAN_DESIGN, deductible: 2500 });
+    expect(comparison.factor).toBeLessThan(1);
+    expect(comparison.factor).toBeCloseTo(comparison.relativity * comparison.inducedUtilizationRatio);
+    expect(comparison.explanation[2]).toMatch(/^Plan change factor = \([\d.]+ × [\d.]+\) ÷ \([\d.]+ × [\d.]+\) = [\d.]+$/);
+  });
+
+  test('populates each carrier\'s plan change line with the math in its trace', async () => {
+    for (const [carrier, parameter, line] of [
+      ['UHC', 'planChangeAdjustment', 'H'],
+      ['AETNA', 'planAdjustment', '8'],
+      ['HUMANA', 'benefitAdjustment', '8'],
+      ['BCBS', 'benefitAdjustment', '14']
+    ]) {
+      const { params, planDesign, result } = await runProjection(rows, carrier);
+      expect(planDesign).toEqual(expect.objectContaining({ parameter, traceLine: line, applied: true }));
+      expect(params[parameter]).toBeCloseTo(planDesign!.factor);
+      expect(planDesign!.proposed.design).toEqual({ ...DEFAULT_PLAN_DESIGN, deductible: 2500, oopMax: 6000 });
+      expect(getTraceNode(result.trace!, line)!.sources).toEqual(expect.arrayContaining(planDesign!.explanation));
+    }
+
+    const cigna = await runProjection(rows, 'CIGNA');
+    expect(cigna.planDesign!.parameter).toBeNull();
+  });
+
+  test('keeps an explicit factor and rejects invalid designs', async () => {
+    const overridden = await runProjection(rows, 'UHC', { planChangeAdjustment: 1.05 });
+    expect(overridden.params.planChangeAdjustment).toBe(1.05);
+    expect(overridden.planDesign!.applied).toBe(false);
+
+    await expect(runProjection(rows, 'UHC', { proposedOopMax: 2000 }))
+      .rejects.toThrow('Invalid plan design parameters: Proposed Out-of-Pocket Maximum must be at least the deductible, got 2000');
+  });
+});
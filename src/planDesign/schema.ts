@@ -0,0 +1,42 @@
+import { CarrierParameterField } from '../components/carriers';
+import { PlanDesign } from './types';
+
+export const DEFAULT_PLAN_DESIGN: PlanDesign = {
+  deductible: 1000,
+  coinsurance: 0.2,
+  oopMax: 4000,
+  pcpCopay: 25,
+  specialistCopay: 50,
+  erCopay: 250,
+  rxGenericCopay: 10,
+  rxPreferredCopay: 35,
+  rxNonPreferredCopay: 70,
+  rxSpecialtyCoinsurance: 0.2
+};
+
+export const PLAN_DESIGN_PARAMETER_SCHEMA: CarrierParameterField[] = [
+  { key: 'deductible', label: 'Deductible', unit: 'currency', min: 0, max: 20000 },
+  { key: 'coinsurance', label: 'Coinsurance', unit: 'rate', min: 0, max: 1, description: 'Member share after the deductible' },
+  { key: 'oopMax', label: 'Out-of-Pocket Maximum', unit: 'currency', min: 0, max: 30000 },
+  { key: 'pcpCopay', label: 'PCP Copay', unit: 'currency', min: 0, max: 1000, description: '0 applies deductible and coinsurance' },
+  { key: 'specialistCopay', label: 'Specialist Copay', unit: 'currency', min: 0, max: 1000, description: '0 applies deductible and coinsurance' },
+  { key: 'erCopay', label: 'ER Copay', unit: 'currency', min: 0, max: 5000, description: '0 applies deductible and coinsurance' },
+  { key: 'rxGenericCopay', label: 'Rx Generic Copay', unit: 'currency', min: 0, max: 500 },
+  { key: 'rxPreferredCopay', label: 'Rx Preferred Brand Copay', unit: 'currency', min: 0, max: 1000 },
+  { key: 'rxNonPreferredCopay', label: 'Rx Non-Preferred Copay', unit: 'currency', min: 0, max: 1000 },
+  { key: 'rxSpecialtyCoinsurance', label: 'Rx Specialty Coinsurance', unit: 'rate', min: 0, max: 1 }
+];
+
+export type PlanDesignRole = 'current' | 'proposed';
+
+/**
+ * The plan design schema for one plan, keyed as upload columns, e.g. currentDeductible / proposedDeductible
+ */
+export function planDesignSchemaFor(role: PlanDesignRole): CarrierParameterField[] {
+  const prefix = role === 'current' ? 'Current' : 'Proposed';
+  return PLAN_DESIGN_PARAMETER_SCHEMA.map(field => ({
+    ...field,
+    key: `${role}${field.key.charAt(0).toUpperCase()}${field.key.slice(1)}`,
+    label: `${prefix} ${field.label}`
+  }));
+}
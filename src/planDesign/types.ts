@@ -0,0 +1,36 @@
+// A medical and Rx benefit design; a copay of 0 means the service is subject to deductible and coinsurance
+export interface PlanDesign {
+  deductible: number;
+  coinsurance: number; // Member share after the deductible, e.g. 0.2
+  oopMax: number;
+  pcpCopay: number;
+  specialistCopay: number;
+  erCopay: number;
+  rxGenericCopay: number;
+  rxPreferredCopay: number;
+  rxNonPreferredCopay: number;
+  rxSpecialtyCoinsurance: number;
+}
+
+export interface PlanValue {
+  design: PlanDesign;
+  actuarialValue: number; // Share of allowed medical and Rx cost the plan pays
+  inducedUtilization: number; // Utilization relative to a plan with a 0.60 actuarial value
+  memberCostPerMember: number; // Expected annual member cost sharing
+}
+
+export interface PlanDesignComparison {
+  current: PlanValue;
+  proposed: PlanValue;
+  relativity: number; // Proposed over current actuarial value
+  inducedUtilizationRatio: number;
+  factor: number; // Plan change factor: relativity × induced utilization ratio
+  explanation: string[];
+}
+
+// How the comparison was applied to a carrier's parameters
+export interface PlanDesignApplication extends PlanDesignComparison {
+  parameter: string | null; // Carrier parameter the factor fills; null where the carrier has no plan change line
+  traceLine: string | null;
+  applied: boolean; // False when the parameter was uploaded or overridden explicitly
+}
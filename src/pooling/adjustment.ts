@@ -0,0 +1,71 @@
+import {
+  ClaimantStatus,
+  LargeClaimAdjustment,
+  LargeClaimAdjustmentEntry,
+  LargeClaimant,
+  Period
+} from '../types/common';
+import { getClaimantsForPeriod } from '../utils/periodHandling';
+import { poolClaimant } from './calculator';
+import { PoolingOptions } from './types';
+
+export const CLAIMANT_STATUSES: ClaimantStatus[] = ['ongoing', 'resolved', 'terminated', 'deceased'];
+
+const STATUS_DESCRIPTIONS: Record<ClaimantStatus, string> = {
+  ongoing: 'ongoing treatment',
+  resolved: 'condition resolved',
+  terminated: 'coverage terminated',
+  deceased: 'deceased'
+};
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+/**
+ * Replace a marked claimant's retained experience claims with their expected renewal-year claims
+ * Ongoing claimants default to repeating their experience; the others default to no further claims
+ */
+export function adjustClaimant(claimant: LargeClaimant, options: PoolingOptions): LargeClaimAdjustmentEntry | null {
+  if (!claimant.status) return null;
+
+  const pooled = poolClaimant(claimant, 'current', options);
+  const retainedClaims = pooled.retained.total;
+  const expected = claimant.expectedFutureCost ?? (claimant.status === 'ongoing' ? retainedClaims : 0);
+  const expectedCost = Math.min(expected, pooled.poolingLevel);
+
+  const cap = expected > expectedCost
+    ? ` (${formatDollars(expected)} capped at the ${formatDollars(pooled.poolingLevel)} ${pooled.lasered ? 'laser' : 'pooling level'})`
+    : '';
+  const change = expectedCost > 0
+    ? `expected ${formatDollars(expectedCost)}${cap} in place of ${formatDollars(retainedClaims)} retained claims`
+    : `${formatDollars(retainedClaims)} retained claims not expected to recur`;
+
+  return {
+    claimantId: claimant.claimantId,
+    status: claimant.status,
+    ...(claimant.diagnosis && { diagnosis: claimant.diagnosis }),
+    retainedClaims,
+    expectedCost,
+    adjustment: expectedCost - retainedClaims,
+    justification: `${claimant.claimantId}${claimant.diagnosis ? ` (${claimant.diagnosis})` : ''}, ` +
+      `${STATUS_DESCRIPTIONS[claimant.status]}: ${change}${claimant.statusNote ? `; ${claimant.statusNote}` : ''}`
+  };
+}
+
+/**
+ * Prospective large claim adjustment PMPM from the marked claimants in an experience period
+ */
+export function calculateLargeClaimAdjustment(
+  claimants: LargeClaimant[],
+  period: Period,
+  memberMonths: number,
+  options: PoolingOptions
+): LargeClaimAdjustment {
+  const entries = getClaimantsForPeriod(claimants, period)
+    .map(claimant => adjustClaimant(claimant, options))
+    .filter((entry): entry is LargeClaimAdjustmentEntry => entry !== null);
+  const total = entries.reduce((sum, entry) => sum + entry.adjustment, 0);
+
+  return { entries, total, memberMonths, pmpm: memberMonths > 0 ? total / memberMonths : 0 };
+}
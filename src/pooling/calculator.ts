@@ -0,0 +1,90 @@
+import {
+  ExperiencePeriods,
+  LargeClaimant,
+  PooledAmounts,
+  PooledClaimant,
+  PooledClaimsExhibit,
+  Period
+} from '../types/common';
+import { getClaimantsForPeriod } from '../utils/periodHandling';
+import { PoolingOptions } from './types';
+
+const NO_POOLED_CLAIMS: PooledAmounts = { medical: 0, rx: 0, total: 0 };
+
+function sumAmounts(amounts: PooledAmounts[]): PooledAmounts {
+  return amounts.reduce((sum, amount) => ({
+    medical: sum.medical + amount.medical,
+    rx: sum.rx + amount.rx,
+    total: sum.total + amount.total
+  }), NO_POOLED_CLAIMS);
+}
+
+// A claimant with no medical/Rx breakdown is all medical
+function claimantAmounts(claimant: LargeClaimant): PooledAmounts {
+  if (claimant.medicalAmount === undefined && claimant.rxAmount === undefined) {
+    return { medical: claimant.totalAmount, rx: 0, total: claimant.totalAmount };
+  }
+  const rx = claimant.rxAmount ?? claimant.totalAmount - (claimant.medicalAmount ?? 0);
+  return { medical: claimant.totalAmount - rx, rx, total: claimant.totalAmount };
+}
+
+/**
+ * Pool one claimant's claims above their laser, or the pooling level when they have none
+ * The excess is split by the claimant's medical/Rx mix ('proportional') or charged to medical ('medical')
+ */
+export function poolClaimant(
+  claimant: LargeClaimant,
+  period: PooledClaimant['period'],
+  options: PoolingOptions
+): PooledClaimant {
+  const lasered = claimant.laser !== undefined && claimant.laser > 0;
+  const poolingLevel = lasered ? claimant.laser! : options.poolingLevel;
+  const claims = claimantAmounts(claimant);
+  const excess = Math.max(0, claims.total - poolingLevel);
+  const pooledRx = options.split === 'proportional' && claims.total > 0 ? excess * (claims.rx / claims.total) : 0;
+  const pooled = { medical: excess - pooledRx, rx: pooledRx, total: excess };
+
+  return {
+    claimantId: claimant.claimantId,
+    period,
+    incurredDate: new Date(claimant.incurredDate),
+    claims,
+    poolingLevel,
+    lasered,
+    pooled,
+    retained: {
+      medical: claims.medical - pooled.medical,
+      rx: claims.rx - pooled.rx,
+      total: claims.total - pooled.total
+    }
+  };
+}
+
+/**
+ * Pool every large claimant incurred in the current and prior experience periods, claimant by claimant
+ */
+export function buildPooledClaimsExhibit(
+  claimants: LargeClaimant[],
+  periods: ExperiencePeriods,
+  options: PoolingOptions
+): PooledClaimsExhibit {
+  const poolPeriod = (period: PooledClaimant['period'], dates: Period) =>
+    getClaimantsForPeriod(claimants, dates).map(claimant => poolClaimant(claimant, period, options));
+  const current = poolPeriod('current', periods.current);
+  const prior = periods.prior ? poolPeriod('prior', periods.prior) : [];
+
+  return {
+    poolingLevel: options.poolingLevel,
+    split: options.split,
+    claimants: [...current, ...prior],
+    totals: {
+      current: sumAmounts(current.map(claimant => claimant.pooled)),
+      prior: periods.prior ? sumAmounts(prior.map(claimant => claimant.pooled)) : null
+    }
+  };
+}
+
+// Pooled claims for a period of the exhibit; none for a prior period the experience does not have
+export function pooledClaimsFor(exhibit: PooledClaimsExhibit, period: PooledClaimant['period']): PooledAmounts {
+  return exhibit.totals[period] ?? NO_POOLED_CLAIMS;
+}
@@ -0,0 +1,4 @@
+// Claimant-level pooling and prospective large claim adjustments shared by the carrier calculators
+export * from './types';
+export { poolClaimant, buildPooledClaimsExhibit, pooledClaimsFor } from './calculator';
+export { CLAIMANT_STATUSES, adjustClaimant, calculateLargeClaimAdjustment } from './adjustment';
@@ -0,0 +1,186 @@
+import { runProjection } from '../utils/projectionRunner';
+import { ingestUniversalInput } from '../ingest';
+import { ExperiencePeriods, LargeClaimant } from '../types/common';
+import { adjustClaimant, buildPooledClaimsExhibit, poolClaimant } from '.';
+
+describe('claimant pooling', () => {
+  const claimant = (claimantId: string, incurredDate: Date, medicalAmount: number, rxAmount: number, laser?: number): LargeClaimant => ({
+    claimantId,
+    incurredDate,
+    totalAmount: medicalAmount + rxAmount,
+    medicalAmount,
+    rxAmount,
+    ...(laser !== undefined && { laser })
+  });
+
+  const periods: ExperiencePeriods = {
+    current: { start: new Date(2024, 0, 1), end: new Date(2024, 11, 31), months: 12 },
+    prior: { start: new Date(2023, 0, 1), end: new Date(2023, 11, 31), months: 12 }
+  };
+
+  const monthly = Array.from({ length: 24 }, (_, i) => ({
+    Month: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+    'Medical Claims': 400000,
+    'Pharmacy Claims': 100000,
+    memberMonthsMedical: 1000,
+    memberMonthsRx: 1000
+  }));
+
+  test('pools the excess over a laser and splits it by the claimant\'s medical/Rx mix', () => {
+    const pooled = poolClaimant(claimant('C1', new Date(2024, 5, 15), 240000, 60000, 200000), 'current', {
+      poolingLevel: 125000,
+      split: 'proportional'
+    });
+
+    expect(pooled.lasered).toBe(true);
+    expect(pooled.poolingLevel).toBe(200000);
+    expect(pooled.pooled).toEqual({ medical: 80000, rx: 20000, total: 100000 });
+    expect(pooled.retained).toEqual({ medical: 160000, rx: 40000, total: 200000 });
+
+    const medicalOnly = poolClaimant(claimant('C1', new Date(2024, 5, 15), 240000, 60000), 'current', {
+      poolingLevel: 125000,
+      split: 'medical'
+    });
+    expect(medicalOnly.pooled).toEqual({ medical: 175000, rx: 0, total: 175000 });
+  });
+
+  test('pools each claimant in the period they were incurred', () => {
+    const exhibit = buildPooledClaimsExhibit([
+      claimant('C1', new Date(2024, 5, 15), 150000, 50000),
+      claimant('C2', new Date(2024, 8, 15), 60000, 20000),
+      claimant('C3', new Date(2023, 3, 15), 300000, 0),
+      claimant('C4', new Date(2022, 3, 15), 900000, 0)
+    ], periods, { poolingLevel: 100000, split: 'proportional' });
+
+    expect(exhibit.claimants.map(row => [row.claimantId, row.period, row.pooled.total]))
+      .toEqual([['C1', 'current', 100000], ['C2', 'current', 0], ['C3', 'prior', 200000]]);
+    expect(exhibit.totals.current).toEqual({ medical: 75000, rx: 25000, total: 100000 });
+    expect(exhibit.totals.prior).toEqual({ medical: 200000, rx: 0, total: 200000 });
+  });
+
+  test('BCBS pools each claimant rather than the group\'s total medical claims', async () => {
+    const rows = [
+      { caseId: 'POOL-1' },
+      ...monthly,
+      { largeClaimantId: 'C1', largeClaimantTotal: 300000, medicalAmount: 240000, rxAmount: 60000 },
+      { largeClaimantId: 'C2', largeClaimantTotal: 400000, medicalAmount: 400000, rxAmount: 0, largeClaimantLaser: 350000 }
+    ];
+    const { result } = await runProjection(rows, 'BCBS', { poolingLevel: 225000 });
+    const exhibit = result.poolingExhibit!;
+    const plan = result.detailedResults!.bcbs.individualPlans[0];
+
+    expect(exhibit.claimants.map(row => [row.claimantId, row.poolingLevel, row.pooled.total]))
+      .toEqual([['C1', 225000, 75000], ['C2', 350000, 50000]]);
+    expect(exhibit.totals.current).toEqual({ medical: 110000, rx: 15000, total: 125000 });
+    expect(plan.calculations.find((step: any) => step.lineNumber === '3-Med-Pool').result).toBe(110000);
+    expect(plan.calculations.find((step: any) => step.lineNumber === '3-Rx-Pool').result).toBe(15000);
+  });
+
+  test('carriers pool claimants dated in the prior period against their prior experience', async () => {
+    const rows = [
+      { caseId: 'POOL-2' },
+      ...monthly,
+      { largeClaimantId: 'C1', largeClaimantTotal: 300000, medicalAmount: 240000, rxAmount: 60000 },
+      { largeClaimantId: 'C2', largeClaimantTotal: 200000, medicalAmount: 200000, rxAmount: 0, largeClaimantPeriod: 'prior' },
+      { largeClaimantId: 'C3', largeClaimantTotal: 90000, medicalAmount: 90000, rxAmount: 0, largeClaimantPeriod: 'next year' }
+    ];
+    expect(ingestUniversalInput(rows, 'UHC').diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ action: 'coerced', reason: 'Claimant C3 has unknown period "next year"; dated in the most recent month' })
+    ]));
+
+    const { result } = await runProjection(rows, 'UHC', { poolingThreshold: 125000 });
+    const exhibit = result.poolingExhibit!;
+    const lineB = result.detailedResults!.uhc.calculations.find((line: any) => line.line === 'B');
+
+    expect(exhibit.split).toBe('medical');
+    expect(exhibit.totals.current).toEqual({ medical: 175000, rx: 0, total: 175000 });
+    expect(exhibit.totals.prior).toEqual({ medical: 75000, rx: 0, total: 75000 });
+    expect(lineB.current.total).toBeCloseTo(175000 / 12000);
+    expect(lineB.prior.total).toBeCloseTo(75000 / 12000);
+  });
+
+  test('replaces a marked claimant\'s retained claims with their expected cost', () => {
+    const options = { poolingLevel: 125000, split: 'proportional' as const };
+    const incurred = new Date(2024, 5, 15);
+
+    expect(adjustClaimant(claimant('C1', incurred, 90000, 10000), options)).toBeNull();
+    expect(adjustClaimant({ ...claimant('C1', incurred, 90000, 10000), status: 'resolved', diagnosis: 'Trauma' }, options))
+      .toEqual(expect.objectContaining({
+        retainedClaims: 100000,
+        expectedCost: 0,
+        adjustment: -100000,
+        justification: 'C1 (Trauma), condition resolved: $100,000 retained claims not expected to recur'
+      }));
+
+    const ongoing = adjustClaimant({
+      ...claimant('C2', incurred, 250000, 50000),
+      status: 'ongoing',
+      expectedFutureCost: 400000,
+      statusNote: 'Dialysis continues'
+    }, options)!;
+    expect(ongoing.adjustment).toBe(0);
+    expect(ongoing.justification).toBe('C2, ongoing treatment: expected $125,000 ($400,000 capped at the $125,000 pooling level) ' +
+      'in place of $125,000 retained claims; Dialysis continues');
+    expect(adjustClaimant({ ...claimant('C3', incurred, 60000, 0), status: 'ongoing', expectedFutureCost: 90000 }, options)!.adjustment)
+      .toBe(30000);
+  });
+
+  test('drives each carrier\'s large claim line from the claimant markings', async () => {
+    const rows = [
+      { caseId: 'POOL-3' },
+      ...monthly,
+      { largeClaimantId: 'C1', largeClaimantTotal: 100000, medicalAmount: 100000, rxAmount: 0, largeClaimantStatus: 'Terminated' },
+      { largeClaimantId: 'C2', largeClaimantTotal: 80000, medicalAmount: 80000, rxAmount: 0, largeClaimantStatus: 'ongoing',
+        largeClaimantExpectedCost: 110000 },
+      { largeClaimantId: 'C3', largeClaimantTotal: 70000, medicalAmount: 70000, rxAmount: 0, largeClaimantStatus: 'unclear' }
+    ];
+    expect(ingestUniversalInput(rows, 'AETNA').diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ action: 'coerced', reason: 'Claimant C3 has unknown status "unclear"; ignored' })
+    ]));
+
+    const aetna = (await runProjection(rows, 'AETNA', { poolingLevel: 250000 })).result;
+    const line19 = aetna.detailedResults!.aetna.calculations.find((line: any) => line.lineNumber === '19');
+    expect(aetna.largeClaimAdjustment!.total).toBe(-70000);
+    expect(line19.current.total).toBeCloseTo(-70000 / 12000);
+    expect(aetna.trace!.nodes.find(node => node.id === '19')!.sources).toEqual([
+      'C1, coverage terminated: $100,000 retained claims not expected to recur',
+      'C2, ongoing treatment: expected $110,000 in place of $80,000 retained claims'
+    ]);
+
+    const cigna = (await runProjection(rows, 'CIGNA', { poolingLevel: 250000 })).result;
+    const addBack = cigna.detailedResults!.cigna.calculations.find((line: any) => line.description === 'Large Claim Add Back');
+    expect(addBack.pmpm).toBeCloseTo(-70000 / 12000);
+
+    const uhc = (await runProjection(rows, 'UHC', { poolingThreshold: 250000 })).result;
+    const lines = uhc.detailedResults!.uhc.calculations;
+    const lineE = lines.find((line: any) => line.line === 'E');
+    const lineF = lines.find((line: any) => line.line === 'F');
+    expect(lineF.current.total - lineE.current.total).toBeCloseTo(-70000 / 12000);
+
+    const bcbs = (await runProjection(rows, 'BCBS', { poolingLevel: 250000 })).result;
+    const plan = bcbs.detailedResults!.bcbs.individualPlans[0];
+    const trend = plan.calculations.find((step: any) => step.lineNumber === '8-Med').inputs;
+    const line13a = plan.calculations.find((step: any) => step.lineNumber === '13a');
+    expect(line13a.inputs.experiencePMPM).toBeCloseTo(-70000 / 24000);
+    expect(line13a.inputs.currentTrended).toBeCloseTo(-70000 / 24000 * trend.compoundedCurrent);
+    expect(line13a.inputs.renewalTrended).toBeCloseTo(-70000 / 24000 * trend.compoundedRenewal);
+  });
+
+  test('adds a neutral marking to the Cigna pooled claims add back without changing the premium', async () => {
+    const claimants = [
+      { largeClaimantId: 'C1', largeClaimantTotal: 400000, medicalAmount: 400000, rxAmount: 0 },
+      { largeClaimantId: 'C2', largeClaimantTotal: 300000, medicalAmount: 300000, rxAmount: 0 },
+      { largeClaimantId: 'C3', largeClaimantTotal: 250000, medicalAmount: 250000, rxAmount: 0 }
+    ];
+    const cigna = async (rows: any[]) => (await runProjection([{ caseId: 'POOL-4' }, ...monthly, ...rows], 'CIGNA')).result;
+
+    const unmarked = await cigna(claimants);
+    const marked = await cigna([...claimants.slice(0, 2), { ...claimants[2], largeClaimantStatus: 'ongoing' }]);
+    const addBack = (result: any) => result.detailedResults!.cigna.calculations.find((line: any) => line.description === 'Large Claim Add Back');
+
+    expect(marked.largeClaimAdjustment!.entries).toHaveLength(1);
+    expect(addBack(unmarked).pmpm).toBeGreaterThan(0);
+    expect(addBack(marked).pmpm).toBeCloseTo(addBack(unmarked).pmpm);
+    expect(marked.projectedPremiumPMPM).toBeCloseTo(unmarked.projectedPremiumPMPM);
+  });
+});
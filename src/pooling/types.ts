@@ -0,0 +1,6 @@
+import { PoolingSplit } from '../types/common';
+
+export interface PoolingOptions {
+  poolingLevel: number; // Carrier pooling level; a claimant's laser replaces it
+  split: PoolingSplit;
+}
@@ -0,0 +1,98 @@
+import { CalculationResult } from '../types/common';
+import { getCarrierPlugin } from '../components/carriers';
+import { ScenarioComparison, ScenarioComparisonRow, ScenarioRun } from './types';
+
+// Differences smaller than this are rounding noise, not a changed line
+const DIFFERENCE_TOLERANCE = 1e-6;
+
+interface ResultLine {
+  key: string;
+  label: string;
+  value: number;
+}
+
+// Carrier lines come in several shapes: current.total (UHC, Aetna, Humana), pmpm (CIGNA) or result (BCBS)
+function lineValue(line: any): number | null {
+  if (typeof line?.current?.total === 'number') return line.current.total;
+  if (typeof line?.pmpm === 'number') return line.pmpm;
+  if (typeof line?.result === 'number') return line.result;
+  return null;
+}
+
+/**
+ * Numeric lines of a result: its calculation steps plus the carrier's native calculation lines
+ */
+export function extractResultLines(result: CalculationResult, carrier: string): ResultLine[] {
+  const lines: ResultLine[] = result.calculationSteps
+    .filter(step => typeof step.value === 'number')
+    .map(step => ({ key: `step:${step.label}`, label: step.label, value: step.value as number }));
+
+  const templateResult = getCarrierPlugin(carrier).selectTemplateResult(result);
+  const calculations: any[] = Array.isArray(templateResult?.calculations) ? templateResult.calculations : [];
+  calculations.forEach(line => {
+    const value = lineValue(line);
+    if (value === null || !isFinite(value)) return;
+    const id = line.line ?? line.lineNumber;
+    lines.push({
+      key: `line:${id ?? line.description}`,
+      label: id ? `${id}. ${line.description}` : line.description,
+      value
+    });
+  });
+
+  return lines;
+}
+
+function differs(values: (number | null)[]): boolean {
+  const present = values.filter((value): value is number => value !== null);
+  return present.some(value => Math.abs(value - present[0]) > DIFFERENCE_TOLERANCE) ||
+    (present.length > 0 && present.length < values.length);
+}
+
+/**
+ * Side-by-side comparison of scenario runs: premium and rate change, then every line that differs
+ */
+export function compareScenarioRuns(runs: ScenarioRun[], carrier: string): ScenarioComparison {
+  const headline: ScenarioComparisonRow[] = [
+    {
+      key: 'projectedPremiumPMPM',
+      label: 'Projected Premium PMPM',
+      format: 'currency',
+      values: runs.map(run => run.result?.projectedPremiumPMPM ?? null),
+      differs: false
+    },
+    {
+      key: 'requiredRateChange',
+      label: 'Required Rate Change',
+      format: 'percent',
+      values: runs.map(run => run.result?.requiredRateChange ?? null),
+      differs: false
+    }
+  ];
+
+  // Line order follows the first run that produced each line
+  const labels = new Map<string, string>();
+  const valuesByRun = runs.map(run => {
+    const values = new Map<string, number>();
+    if (run.result) {
+      extractResultLines(run.result, carrier).forEach(line => {
+        if (!labels.has(line.key)) labels.set(line.key, line.label);
+        if (!values.has(line.key)) values.set(line.key, line.value);
+      });
+    }
+    return values;
+  });
+
+  const lineRows: ScenarioComparisonRow[] = Array.from(labels.entries()).map(([key, label]) => {
+    const values = valuesByRun.map(values => values.get(key) ?? null);
+    return { key, label, format: 'number', values, differs: differs(values) };
+  });
+
+  return {
+    scenarioNames: runs.map(run => run.scenario.name),
+    rows: [
+      ...headline.map(row => ({ ...row, differs: differs(row.values) })),
+      ...lineRows.filter(row => row.differs)
+    ]
+  };
+}
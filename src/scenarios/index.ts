@@ -0,0 +1,5 @@
+// Named what-if scenarios: parameter overrides run side by side and saved per case
+export * from './types';
+export { runScenarios } from './runner';
+export { extractResultLines, compareScenarioRuns } from './comparison';
+export { UNNAMED_CASE_ID, caseKey, loadCaseScenarios, saveCaseScenario, deleteCaseScenario } from './storage';
@@ -0,0 +1,19 @@
+import { runProjection } from '../utils/projectionRunner';
+import { Scenario, ScenarioRun } from './types';
+
+/**
+ * Run each scenario's overrides through the carrier calculation, one after another
+ * A failing scenario is reported on its run rather than aborting the others
+ */
+export async function runScenarios(rows: any[], carrier: string, scenarios: Scenario[]): Promise<ScenarioRun[]> {
+  const runs: ScenarioRun[] = [];
+  for (const scenario of scenarios) {
+    try {
+      const { result } = await runProjection(rows, carrier, scenario.overrides);
+      runs.push({ scenario, result });
+    } catch (error) {
+      runs.push({ scenario, result: null, error: (error as Error).message });
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,85 @@
+import {
+  Scenario,
+  runScenarios,
+  compareScenarioRuns,
+  loadCaseScenarios,
+  saveCaseScenario,
+  deleteCaseScenario
+} from '.';
+
+describe('scenario manager', () => {
+  const rows = [
+    { caseId: 'SCN-1' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  const base: Scenario = { name: 'Base', overrides: {} };
+  const trend: Scenario = { name: 'Trend 12%', overrides: { medicalTrend: 0.12 } };
+
+  beforeEach(() => localStorage.clear());
+
+  test('runs each scenario and compares premium, rate change and the lines that differ', async () => {
+    const runs = await runScenarios(rows, 'HUMANA', [base, trend]);
+    expect(runs.map(run => run.error)).toEqual([undefined, undefined]);
+
+    const comparison = compareScenarioRuns(runs, 'HUMANA');
+    expect(comparison.scenarioNames).toEqual(['Base', 'Trend 12%']);
+
+    const [premium, rateChange, ...lines] = comparison.rows;
+    expect(premium.key).toBe('projectedPremiumPMPM');
+    expect(premium.values[1]!).toBeGreaterThan(premium.values[0]!);
+    expect(rateChange.differs).toBe(true);
+    expect(lines.length).toBeGreaterThan(0);
+    expect(lines.every(line => line.differs)).toBe(true);
+    expect(lines.map(line => line.label)).toEqual(expect.arrayContaining([expect.stringMatching(/^10\. /)]));
+    expect(lines.map(line => line.label)).not.toEqual(expect.arrayContaining([expect.stringMatching(/^1\. /)]));
+  });
+
+  test('reports a failing scenario without dropping the others', async () => {
+    const runs = await runScenarios(rows, 'NOPE', [base]);
+    expect(runs[0].result).toBeNull();
+    expect(runs[0].error).toContain('Unsupported carrier');
+    expect(compareScenarioRuns(runs, 'HUMANA').rows[0].values).toEqual([null]);
+  });
+
+  test('saves, replaces and deletes scenarios per case', () => {
+    saveCaseScenario('SCN-1', trend);
+    saveCaseScenario('SCN-1', { ...trend, overrides: { medicalTrend: 0.08 } });
+    saveCaseScenario('SCN-2', base);
+
+    expect(loadCaseScenarios('SCN-1')).toHaveLength(1);
+    expect(loadCaseScenarios('SCN-1')[0].overrides).toEqual({ medicalTrend: 0.08 });
+    expect(loadCaseScenarios('SCN-2').map(s => s.name)).toEqual(['Base']);
+    expect(loadCaseScenarios('')).toEqual([]);
+
+    expect(deleteCaseScenario('SCN-1', 'Trend 12%')).toEqual([]);
+    expect(loadCaseScenarios('SCN-2')).toHaveLength(1);
+    expect(() => saveCaseScenario('SCN-1', { name: ' ', overrides: {} })).toThrow('name is required');
+  });
+
+  test('keeps a scenario\'s IBNR opt-in alongside its numeric overrides', () => {
+    const ibnr: Scenario = { name: 'With IBNR', overrides: { medicalTrend: 0.08, ibnr: { method: 'paidVsIncurred', maturityMonths: 2 } } };
+    saveCaseScenario('SCN-3', ibnr);
+    expect(loadCaseScenarios('SCN-3')[0].overrides).toEqual(ibnr.overrides);
+
+    expect(() => saveCaseScenario('SCN-3', { name: 'Bad', overrides: { ibnr: { method: 'guess' } as any } }))
+      .toThrow('Invalid scenario "Bad": IBNR method must be paidVsIncurred or lagTriangle');
+    expect(() => saveCaseScenario('SCN-3', { name: 'Bad', overrides: { ibnr: { method: 'paidVsIncurred', maturityMonths: 1.5 } } }))
+      .toThrow('IBNR maturity months must be a positive whole number');
+  });
+
+  test('keeps a scenario\'s credibility settings and rejects invalid ones', () => {
+    const buhlmann: Scenario = { name: 'Bühlmann', overrides: { credibilitySettings: { method: 'buhlmann', buhlmannK: 8000 } } };
+    saveCaseScenario('SCN-4', buhlmann);
+    expect(loadCaseScenarios('SCN-4')[0].overrides).toEqual(buhlmann.overrides);
+
+    expect(() => saveCaseScenario('SCN-4', { name: 'Bad', overrides: { credibilitySettings: { method: 'linear' } } }))
+      .toThrow('Invalid scenario "Bad": Full credibility member months must be a positive number');
+  });
+});
@@ -0,0 +1,105 @@
+import { Scenario } from './types';
+import { ParameterOverrides } from '../types/common';
+import { parseIBNRSettings } from '../utils/ibnr';
+import { validateCredibilitySettings } from '../credibility';
+
+const STORAGE_KEY = 'renewalScenarios';
+
+// Scenarios without a case id (no caseId row in the upload) are saved under this key
+export const UNNAMED_CASE_ID = 'unnamed-case';
+
+type ScenarioStore = Record<string, Scenario[]>;
+
+// Storage key for a case id; scenarios and the case workspace both file unnamed cases under UNNAMED_CASE_ID
+export function caseKey(caseId: string): string {
+  return caseId || UNNAMED_CASE_ID;
+}
+
+function parseScenario(value: any): Scenario {
+  if (!value || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('Invalid scenario: name is required');
+  }
+  if (!value.overrides || typeof value.overrides !== 'object' || Array.isArray(value.overrides)) {
+    throw new Error(`Invalid scenario "${value.name}": overrides must be an object`);
+  }
+  const overrides: ParameterOverrides = {};
+  Object.entries(value.overrides).forEach(([key, override]) => {
+    if (key === 'ibnr') {
+      try {
+        overrides.ibnr = parseIBNRSettings(override);
+      } catch (error) {
+        throw new Error(`Invalid scenario "${value.name}": ${(error as Error).message}`);
+      }
+      return;
+    }
+    if (key === 'credibilitySettings') {
+      const { settings, errors } = validateCredibilitySettings(override);
+      if (!settings) {
+        throw new Error(`Invalid scenario "${value.name}": ${errors.join('; ')}`);
+      }
+      overrides.credibilitySettings = settings;
+      return;
+    }
+    if (typeof override !== 'number' || !isFinite(override)) {
+      throw new Error(`Invalid scenario "${value.name}": override ${key} must be a number`);
+    }
+    overrides[key] = override;
+  });
+  return {
+    name: value.name.trim(),
+    overrides,
+    ...(typeof value.updatedAt === 'string' && { updatedAt: value.updatedAt })
+  };
+}
+
+// Browser persistence; without localStorage (CLI, tests) there are no saved scenarios
+function getStorage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+function loadStore(): ScenarioStore {
+  const stored = getStorage()?.getItem(STORAGE_KEY);
+  if (!stored) return {};
+  try {
+    const data = JSON.parse(stored);
+    const store: ScenarioStore = {};
+    Object.entries(data).forEach(([caseId, scenarios]) => {
+      store[caseId] = (scenarios as any[]).map(parseScenario);
+    });
+    return store;
+  } catch (error) {
+    console.warn('Ignoring unreadable saved scenarios:', error);
+    return {};
+  }
+}
+
+function storeCaseScenarios(caseId: string, scenarios: Scenario[]) {
+  const store = loadStore();
+  if (scenarios.length > 0) {
+    store[caseKey(caseId)] = scenarios;
+  } else {
+    delete store[caseKey(caseId)];
+  }
+  getStorage()?.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+export function loadCaseScenarios(caseId: string): Scenario[] {
+  return loadStore()[caseKey(caseId)] || [];
+}
+
+/**
+ * Save a scenario for a case, replacing any scenario with the same name
+ */
+export function saveCaseScenario(caseId: string, scenario: Scenario): Scenario[] {
+  const saved = { ...parseScenario(scenario), updatedAt: new Date().toISOString() };
+  const scenarios = [...loadCaseScenarios(caseId).filter(s => s.name !== saved.name), saved]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  storeCaseScenarios(caseId, scenarios);
+  return scenarios;
+}
+
+export function deleteCaseScenario(caseId: string, name: string): Scenario[] {
+  const scenarios = loadCaseScenarios(caseId).filter(scenario => scenario.name !== name);
+  storeCaseScenarios(caseId, scenarios);
+  return scenarios;
+}
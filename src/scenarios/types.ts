@@ -0,0 +1,30 @@
+import { CalculationResult, ParameterOverrides } from '../types/common';
+
+// A named set of parameter overrides, e.g. "Trend 8%" or "Pooling $150k"
+export interface Scenario {
+  name: string;
+  overrides: ParameterOverrides;
+  updatedAt?: string;
+}
+
+// One scenario run through the carrier calculation; failed runs keep the error instead of a result
+export interface ScenarioRun {
+  scenario: Scenario;
+  result: CalculationResult | null;
+  error?: string;
+}
+
+export type ScenarioValueFormat = 'currency' | 'percent' | 'number';
+
+export interface ScenarioComparisonRow {
+  key: string;
+  label: string;
+  format: ScenarioValueFormat;
+  values: (number | null)[]; // One per scenario, in run order
+  differs: boolean;
+}
+
+export interface ScenarioComparison {
+  scenarioNames: string[];
+  rows: ScenarioComparisonRow[];
+}
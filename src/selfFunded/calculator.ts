@@ -0,0 +1,141 @@
+import { CredibilitySettings, UniversalInput } from '../types/common';
+import { validateParameters, formatCarrierParameterErrors } from '../components/carriers';
+import { ingestUniversalInput } from '../ingest';
+import { credibilitySettingsErrors, hasMonthlyClaimsRows, MISSING_MONTHLY_DATA_MESSAGE } from '../utils/projectionRunner';
+import { monthsBetweenMidpoints, renewalPeriodAfter } from '../utils/periodHandling';
+import { calculateCredibility, credibilityExposure } from '../credibility';
+import { CostAmount, SelfFundedResult, SelfFundedSettings } from './types';
+import { SELF_FUNDED_DEFAULTS, SELF_FUNDED_PARAMETER_SCHEMA } from './schema';
+
+// Self-funded pricing reads the latest year of experience, like the claimant listing
+const EXPERIENCE_MONTHS = 12;
+
+function monthStart(month: string): Date {
+  return new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1);
+}
+
+function monthEnd(month: string): Date {
+  return new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0);
+}
+
+/**
+ * Price a self-funded renewal from the same universal input the carrier calculators use
+ * Claims above the specific deductible are covered by stop-loss; the rest is the plan's expected claims
+ * Credibility settings replace the square root to the settings' full credibility standard
+ */
+export function calculateSelfFunded(
+  input: UniversalInput,
+  settings: SelfFundedSettings = SELF_FUNDED_DEFAULTS,
+  fullyInsuredPremiumPMPM?: number,
+  credibilitySettings?: CredibilitySettings
+): SelfFundedResult {
+  const warnings: string[] = [];
+  const months = [...input.monthlyClaimsData].sort((a, b) => a.month.localeCompare(b.month)).slice(-EXPERIENCE_MONTHS);
+  const experienceMemberMonths = months.reduce((sum, month) =>
+    sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+  if (months.length === 0 || experienceMemberMonths === 0) {
+    throw new Error('Self-funded projection needs member months in the experience period');
+  }
+  if (months.length < EXPERIENCE_MONTHS) {
+    warnings.push(`Only ${months.length} months of experience; expected claims are based on a partial year`);
+  }
+
+  const experienceClaims = months.reduce((sum, month) =>
+    sum + (month.incurredClaims?.medical || 0) + (month.incurredClaims?.rx || 0), 0);
+  const projectedMemberMonths = experienceMemberMonths / months.length * 12;
+  const amount = (pmpm: number): CostAmount => ({ pmpm, annual: pmpm * projectedMemberMonths });
+
+  // Trend from the middle of the experience to the middle of the renewal year
+  const experienceStart = monthStart(months[0].month);
+  const experienceEnd = monthEnd(months[months.length - 1].month);
+  const renewal = renewalPeriodAfter(input.renewalDates ?? input.effectiveDates, experienceEnd);
+  const trendMonths = monthsBetweenMidpoints({ start: experienceStart, end: experienceEnd }, renewal);
+  const trendFactor = Math.pow(1 + settings.annualTrend, trendMonths / 12);
+
+  const claimantExcess = input.largeClaimantsData.map(claimant =>
+    Math.max(0, claimant.totalAmount * trendFactor - settings.specificDeductible));
+  const experienceExcessPMPM = claimantExcess.reduce((sum, excess) => sum + excess, 0) / experienceMemberMonths;
+  const grossPMPM = experienceClaims * trendFactor / experienceMemberMonths;
+  const netPMPM = grossPMPM - experienceExcessPMPM;
+
+  const credibilityBasis = calculateCredibility(
+    credibilityExposure(input, experienceMemberMonths),
+    credibilitySettings ?? { method: 'limitedFluctuation', fullCredibilityMemberMonths: settings.fullCredibilityMemberMonths }
+  );
+  const credibility = credibilityBasis.credibility;
+  const expectedExcessPMPM = credibility * experienceExcessPMPM + (1 - credibility) * settings.specificManualExcessPMPM;
+  const specificPremium = amount(expectedExcessPMPM / settings.specificLossRatio);
+  const aggregatePremium = amount(settings.aggregatePremiumPMPM);
+  const attachmentPoint = amount(netPMPM * settings.aggregateCorridor);
+  const adminFees = amount(settings.adminFeePMPM + settings.otherFixedFeesPMPM);
+
+  const fixedCosts = amount(adminFees.pmpm + specificPremium.pmpm + aggregatePremium.pmpm);
+  const variableCosts = amount(netPMPM);
+  const expectedTotalCost = amount(fixedCosts.pmpm + variableCosts.pmpm);
+  const maximumLiability = amount(fixedCosts.pmpm + attachmentPoint.pmpm);
+
+  const fullyInsuredPremium = fullyInsuredPremiumPMPM ? amount(fullyInsuredPremiumPMPM) : null;
+
+  return {
+    settings,
+    experienceMemberMonths,
+    projectedMemberMonths,
+    trendMonths,
+    trendFactor,
+    credibility,
+    credibilityBasis,
+    expectedClaims: { grossPMPM, specificExcessPMPM: experienceExcessPMPM, net: variableCosts },
+    specificStopLoss: {
+      deductible: settings.specificDeductible,
+      claimantsOverDeductible: claimantExcess.filter(excess => excess > 0).length,
+      experienceExcessPMPM,
+      expectedExcessPMPM,
+      premium: specificPremium
+    },
+    aggregateStopLoss: { corridor: settings.aggregateCorridor, attachmentPoint, premium: aggregatePremium },
+    adminFees,
+    fixedCosts,
+    variableCosts,
+    expectedTotalCost,
+    maximumLiability,
+    ...(fullyInsuredPremium && {
+      fullyInsuredComparison: {
+        premium: fullyInsuredPremium,
+        expectedSavings: fullyInsuredPremium.annual - expectedTotalCost.annual,
+        worstCaseSavings: fullyInsuredPremium.annual - maximumLiability.annual
+      }
+    }),
+    warnings
+  };
+}
+
+/**
+ * Map uploaded rows to a universal input and price it self-funded; settings come from the upload row, then the given overrides
+ * Rejects with every invalid setting listed
+ */
+export function runSelfFundedProjection(
+  rows: any[],
+  carrier: string,
+  overrides: Record<string, any> = {},
+  fullyInsuredPremiumPMPM?: number
+): SelfFundedResult {
+  if (!hasMonthlyClaimsRows(rows)) {
+    throw new Error(MISSING_MONTHLY_DATA_MESSAGE);
+  }
+
+  const uploaded = validateParameters(SELF_FUNDED_PARAMETER_SCHEMA, rows[0] || {}, { ...SELF_FUNDED_DEFAULTS });
+  const overridden = validateParameters(SELF_FUNDED_PARAMETER_SCHEMA, overrides, uploaded.params);
+  const invalid = [...uploaded.errors, ...overridden.errors, ...credibilitySettingsErrors(overrides)];
+  if (invalid.length > 0) {
+    throw new Error(formatCarrierParameterErrors('self-funded', invalid));
+  }
+
+  const { input } = ingestUniversalInput(rows, carrier);
+  // Credibility settings are structured, so they pass through outside the schema
+  return calculateSelfFunded(
+    input,
+    overridden.params as unknown as SelfFundedSettings,
+    fullyInsuredPremiumPMPM,
+    overrides.credibilitySettings
+  );
+}
@@ -0,0 +1,4 @@
+// Self-funded (ASO) renewals: expected claims, specific and aggregate stop-loss, fixed costs and maximum liability
+export * from './types';
+export { SELF_FUNDED_DEFAULTS, SELF_FUNDED_PARAMETER_SCHEMA } from './schema';
+export { calculateSelfFunded, runSelfFundedProjection } from './calculator';
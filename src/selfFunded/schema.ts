@@ -0,0 +1,26 @@
+import { CarrierParameterField } from '../components/carriers';
+import { SelfFundedSettings } from './types';
+
+export const SELF_FUNDED_DEFAULTS: SelfFundedSettings = {
+  specificDeductible: 100000,
+  specificLossRatio: 0.70,
+  specificManualExcessPMPM: 25,
+  aggregateCorridor: 1.25,
+  aggregatePremiumPMPM: 3,
+  adminFeePMPM: 25,
+  otherFixedFeesPMPM: 0,
+  annualTrend: 0.08,
+  fullCredibilityMemberMonths: 60000
+};
+
+export const SELF_FUNDED_PARAMETER_SCHEMA: CarrierParameterField[] = [
+  { key: 'specificDeductible', label: 'Specific Deductible', unit: 'currency', min: 10000, max: 2000000, aliases: ['stopLossDeductible'] },
+  { key: 'specificLossRatio', label: 'Specific Stop-Loss Loss Ratio', unit: 'rate', min: 0.3, max: 1 },
+  { key: 'specificManualExcessPMPM', label: 'Manual Claims Above Deductible PMPM', unit: 'currency', min: 0, max: 500, description: 'Used where the group\'s own large claims are not credible' },
+  { key: 'aggregateCorridor', label: 'Aggregate Corridor', unit: 'factor', min: 1, max: 2, description: 'Attachment point as a multiple of expected claims' },
+  { key: 'aggregatePremiumPMPM', label: 'Aggregate Stop-Loss Premium PMPM', unit: 'currency', min: 0, max: 100 },
+  { key: 'adminFeePMPM', label: 'ASO Admin Fee PMPM', unit: 'currency', min: 0, max: 500 },
+  { key: 'otherFixedFeesPMPM', label: 'Other Fixed Fees PMPM', unit: 'currency', min: 0, max: 500, description: 'Network access, PBM and other fixed fees' },
+  { key: 'annualTrend', label: 'Annual Claims Trend', unit: 'rate', min: -0.2, max: 0.5 },
+  { key: 'fullCredibilityMemberMonths', label: 'Full Credibility Member Months', unit: 'memberMonths', min: 1, max: 1000000 }
+];
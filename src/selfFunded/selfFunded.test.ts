@@ -0,0 +1,49 @@
+import { runSelfFundedProjection, SELF_FUNDED_DEFAULTS } from '.';
+
+describe('self-funded renewal', () => {
+  // 2024 experience at $500 PMPM on 1,000 members, renewing for calendar 2025 (12 months of trend)
+  const rows = [
+    { caseId: 'ASO-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    })),
+    { 'Claimant Number': 'LC1', 'Total Claims': 300000 },
+    { 'Claimant Number': 'LC2', 'Total Claims': 90000 }
+  ];
+
+  test('splits trended claims between the plan and specific stop-loss', () => {
+    const result = runSelfFundedProjection(rows, 'AETNA', { annualTrend: 0.1 });
+    const trended = 300000 * result.trendFactor;
+
+    expect(result.trendMonths).toBeCloseTo(12, 0);
+    expect(result.expectedClaims.grossPMPM).toBeCloseTo(500 * result.trendFactor);
+    expect(result.specificStopLoss.claimantsOverDeductible).toBe(1);
+    expect(result.specificStopLoss.experienceExcessPMPM).toBeCloseTo((trended - 100000) / 12000);
+    expect(result.expectedClaims.net.pmpm).toBeCloseTo(result.expectedClaims.grossPMPM - (trended - 100000) / 12000);
+    expect(result.credibility).toBeCloseTo(Math.sqrt(12000 / SELF_FUNDED_DEFAULTS.fullCredibilityMemberMonths));
+    expect(result.specificStopLoss.premium.pmpm).toBeCloseTo(result.specificStopLoss.expectedExcessPMPM / 0.7);
+  });
+
+  test('reports fixed versus variable costs, the aggregate attachment and maximum liability', () => {
+    const result = runSelfFundedProjection(rows, 'AETNA', { adminFeePMPM: 30, otherFixedFeesPMPM: 5 }, 700);
+
+    expect(result.projectedMemberMonths).toBe(12000);
+    expect(result.adminFees.pmpm).toBe(35);
+    expect(result.fixedCosts.pmpm).toBeCloseTo(35 + result.specificStopLoss.premium.pmpm + 3);
+    expect(result.aggregateStopLoss.attachmentPoint.annual).toBeCloseTo(result.variableCosts.annual * 1.25);
+    expect(result.maximumLiability.annual).toBeCloseTo(result.fixedCosts.annual + result.aggregateStopLoss.attachmentPoint.annual);
+    expect(result.expectedTotalCost.annual).toBeLessThan(result.maximumLiability.annual);
+    expect(result.fullyInsuredComparison!.expectedSavings).toBeCloseTo(700 * 12000 - result.expectedTotalCost.annual);
+  });
+
+  test('reads settings from the upload and rejects invalid ones', () => {
+    const uploaded = [{ ...rows[0], specificDeductible: '$150,000' }, ...rows.slice(1)];
+    expect(runSelfFundedProjection(uploaded, 'UHC').specificStopLoss.deductible).toBe(150000);
+    expect(() => runSelfFundedProjection(rows, 'UHC', { aggregateCorridor: 0.9 }))
+      .toThrow('Invalid self-funded parameters: Aggregate Corridor must be between 1 and 2, got 0.9');
+  });
+});
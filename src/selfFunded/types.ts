@@ -0,0 +1,58 @@
+import { CredibilityResult } from '../types/common';
+
+// A cost both per member per month and for the projected year
+export interface CostAmount {
+  pmpm: number;
+  annual: number;
+}
+
+// Self-funded (ASO) pricing settings; see SELF_FUNDED_PARAMETER_SCHEMA for units and ranges
+export interface SelfFundedSettings {
+  specificDeductible: number; // Per claimant, per year
+  specificLossRatio: number; // Expected reimbursements as a share of specific premium
+  specificManualExcessPMPM: number; // Expected claims above the deductible for a group with no credible experience
+  aggregateCorridor: number; // Aggregate attachment as a multiple of expected claims, e.g. 1.25
+  aggregatePremiumPMPM: number;
+  adminFeePMPM: number;
+  otherFixedFeesPMPM: number; // Network access, PBM and other fixed fees
+  annualTrend: number;
+  fullCredibilityMemberMonths: number;
+}
+
+export interface SelfFundedResult {
+  settings: SelfFundedSettings;
+  experienceMemberMonths: number;
+  projectedMemberMonths: number;
+  trendMonths: number;
+  trendFactor: number;
+  credibility: number; // Weight on the group's own claims above the deductible, 0-1
+  credibilityBasis: CredibilityResult; // Formula and inputs behind the credibility
+  expectedClaims: {
+    grossPMPM: number; // Trended experience claims before stop-loss
+    specificExcessPMPM: number; // Trended experience claims above the specific deductible
+    net: CostAmount; // Claims the plan pays, net of specific stop-loss
+  };
+  specificStopLoss: {
+    deductible: number;
+    claimantsOverDeductible: number;
+    experienceExcessPMPM: number;
+    expectedExcessPMPM: number; // Credibility-weighted between experience and manual
+    premium: CostAmount;
+  };
+  aggregateStopLoss: {
+    corridor: number;
+    attachmentPoint: CostAmount;
+    premium: CostAmount;
+  };
+  adminFees: CostAmount; // ASO fee plus other fixed fees
+  fixedCosts: CostAmount; // Admin fees and stop-loss premiums
+  variableCosts: CostAmount; // Expected net claims
+  expectedTotalCost: CostAmount;
+  maximumLiability: CostAmount; // Fixed costs plus claims up to the aggregate attachment point
+  fullyInsuredComparison?: {
+    premium: CostAmount;
+    expectedSavings: number; // Annual, fully insured premium less expected self-funded cost
+    worstCaseSavings: number; // Annual, fully insured premium less maximum liability
+  };
+  warnings: string[];
+}
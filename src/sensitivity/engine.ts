@@ -0,0 +1,93 @@
+import { CarrierParameterUnit, SensitivityDriver, getCarrierPlugin } from '../components/carriers';
+import { runProjection } from '../utils/projectionRunner';
+import { ParameterOverrides } from '../types/common';
+import { SensitivityAnalysis, SensitivityEntry, SensitivityShocks } from './types';
+
+export const DEFAULT_SENSITIVITY_SHOCKS: SensitivityShocks = {
+  trend: { amount: 0.01 },
+  pooling: { amount: 0.25, relative: true },
+  experienceWeight: { amount: 0.1 },
+  credibility: { amount: 0.1 },
+  retention: { amount: 0.01 }
+};
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+// Shocks are given in decimal points; whole-percentage fields move by the same number of points
+function shockSize(driver: SensitivityDriver, unit: CarrierParameterUnit, baseValue: number, shocks: SensitivityShocks): number {
+  const shock = shocks[driver];
+  if (shock.relative) return Math.abs(baseValue) * shock.amount;
+  return unit === 'percent' ? shock.amount * 100 : shock.amount;
+}
+
+// The range computed credibility is shocked within
+const CREDIBILITY_RANGE = { min: 0, max: 1 };
+
+/**
+ * Shock each of the carrier's driver parameters down and up from the case's values and rerun the calculation
+ * Credibility is shocked as computed, whatever method produced it, by supplying the shocked value in its place
+ * Shocked values stay inside the schema range; a failing run is reported on its entry rather than aborting the others
+ */
+export async function runSensitivity(
+  rows: any[],
+  carrier: string,
+  overrides: ParameterOverrides = {},
+  shocks: SensitivityShocks = DEFAULT_SENSITIVITY_SHOCKS
+): Promise<SensitivityAnalysis> {
+  const plugin = getCarrierPlugin(carrier);
+  const base = await runProjection(rows, carrier, overrides);
+  const baseRateChange = base.result.requiredRateChange;
+  // Fields left blank are shocked from the value the carrier estimates for them
+  const baseParams = { ...plugin.estimateParameters?.(base.input), ...base.params };
+
+  const shock = async (
+    entry: Omit<SensitivityEntry, 'lowRateChange' | 'highRateChange' | 'swing'>,
+    shocked: (value: number) => ParameterOverrides
+  ): Promise<SensitivityEntry> => {
+    const result: SensitivityEntry = { ...entry, lowRateChange: null, highRateChange: null, swing: 0 };
+    try {
+      result.lowRateChange = (await runProjection(rows, carrier, shocked(entry.lowValue))).result.requiredRateChange;
+      result.highRateChange = (await runProjection(rows, carrier, shocked(entry.highValue))).result.requiredRateChange;
+      result.swing = Math.abs(result.highRateChange - result.lowRateChange);
+    } catch (error) {
+      result.error = (error as Error).message;
+    }
+    return result;
+  };
+
+  const entries: SensitivityEntry[] = [];
+  const fields = plugin.parameterSchema.filter(field => field.sensitivity && typeof baseParams[field.key] === 'number');
+  for (const field of fields) {
+    const baseValue: number = baseParams[field.key];
+    const size = shockSize(field.sensitivity!, field.unit, baseValue, shocks);
+    entries.push(await shock({
+      key: field.key,
+      label: field.label,
+      driver: field.sensitivity!,
+      baseValue,
+      lowValue: clamp(baseValue - size, field),
+      highValue: clamp(baseValue + size, field)
+    }, value => ({ ...overrides, [field.key]: value })));
+  }
+
+  const credibility = base.result.credibility?.credibility;
+  if (credibility !== undefined) {
+    const size = shockSize('credibility', 'rate', credibility, shocks);
+    entries.push(await shock({
+      key: 'credibility',
+      label: 'Experience Credibility',
+      driver: 'credibility',
+      baseValue: credibility,
+      lowValue: clamp(credibility - size, CREDIBILITY_RANGE),
+      highValue: clamp(credibility + size, CREDIBILITY_RANGE)
+    }, value => ({ ...overrides, credibilitySettings: { method: 'supplied', credibility: value } })));
+  }
+
+  return {
+    carrier: plugin.id,
+    baseRateChange,
+    entries: entries.sort((a, b) => b.swing - a.swing)
+  };
+}
@@ -0,0 +1,3 @@
+// Sensitivity analysis: shock each renewal driver up and down and rank its effect on the rate action
+export * from './types';
+export { DEFAULT_SENSITIVITY_SHOCKS, runSensitivity } from './engine';
@@ -0,0 +1,70 @@
+import { DEFAULT_SENSITIVITY_SHOCKS, runSensitivity } from '.';
+
+describe('sensitivity analysis', () => {
+  const rows = [
+    { caseId: 'SENS-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  test('shocks each driver parameter both ways and ranks them by swing in rate change', async () => {
+    const analysis = await runSensitivity(rows, 'UHC', { medicalTrend: 0.08 });
+    const medicalTrend = analysis.entries.find(entry => entry.key === 'medicalTrend')!;
+
+    expect(analysis.entries.map(entry => entry.driver)).toEqual(
+      expect.arrayContaining(['trend', 'pooling', 'experienceWeight', 'credibility'])
+    );
+    expect(medicalTrend.lowValue).toBeCloseTo(0.07);
+    expect(medicalTrend.highValue).toBeCloseTo(0.09);
+    expect(medicalTrend.lowRateChange!).toBeLessThan(analysis.baseRateChange);
+    expect(medicalTrend.highRateChange!).toBeGreaterThan(analysis.baseRateChange);
+
+    const swings = analysis.entries.map(entry => entry.swing);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+  });
+
+  test('uses configured shocks in field units and keeps shocked values inside the schema range', async () => {
+    const analysis = await runSensitivity(rows, 'HUMANA', { experienceWeightCurrent: 0.95 }, {
+      ...DEFAULT_SENSITIVITY_SHOCKS,
+      experienceWeight: { amount: 0.2 },
+      retention: { amount: 0.02 }
+    });
+    const weight = analysis.entries.find(entry => entry.key === 'experienceWeightCurrent')!;
+    const commission = analysis.entries.find(entry => entry.key === 'retentionCommission')!;
+
+    expect(weight.lowValue).toBeCloseTo(0.75);
+    expect(weight.highValue).toBe(1);
+    expect(commission.highValue - commission.baseValue).toBeCloseTo(2);
+    expect(commission.highRateChange!).toBeGreaterThan(commission.lowRateChange!);
+  });
+
+  test('shocks computed credibility and covers retention and trend for every carrier', async () => {
+    // 12,000 member months against a Bühlmann k of 12,000
+    const aetna = await runSensitivity(rows, 'AETNA', { credibilitySettings: { method: 'buhlmann', buhlmannK: 12000 } });
+    const credibility = aetna.entries.find(entry => entry.driver === 'credibility')!;
+    expect(credibility.key).toBe('credibility');
+    expect(credibility.baseValue).toBeCloseTo(0.5);
+    expect(credibility.lowValue).toBeCloseTo(0.4);
+    expect(credibility.highValue).toBeCloseTo(0.6);
+    expect(credibility.lowRateChange).not.toBeNull();
+    expect(aetna.entries.find(entry => entry.key === 'minimumCredibility')).toBeUndefined();
+
+    const drivers = async (carrier: string) => new Set((await runSensitivity(rows, carrier)).entries.map(entry => entry.driver));
+    for (const carrier of ['HUMANA', 'CIGNA', 'UHC', 'BCBS']) {
+      expect(await drivers(carrier)).toEqual(new Set(['trend', 'pooling', 'experienceWeight', 'credibility', 'retention'].filter(driver =>
+        // BCBS retention is built from the experience rather than entered
+        !(carrier === 'BCBS' && driver === 'retention'))));
+    }
+
+    // UHC retention is shocked from its group size estimate, in whole percentage points
+    const retention = (await runSensitivity(rows, 'UHC')).entries.find(entry => entry.key === 'retentionPercent')!;
+    expect(retention.baseValue).toBe(14);
+    expect(retention.highValue).toBe(15);
+    expect(retention.highRateChange!).toBeGreaterThan(retention.lowRateChange!);
+  });
+});
@@ -0,0 +1,30 @@
+import { SensitivityDriver } from '../components/carriers';
+
+// How far a driver's parameters are moved each way: in decimal points of the rate (0.01 = one point),
+// or as a share of the base value when relative (0.25 = ±25%)
+export interface SensitivityShock {
+  amount: number;
+  relative?: boolean;
+}
+
+export type SensitivityShocks = Record<SensitivityDriver, SensitivityShock>;
+
+// One parameter shocked down and up; rate changes are null where the shocked run failed
+export interface SensitivityEntry {
+  key: string;
+  label: string;
+  driver: SensitivityDriver;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowRateChange: number | null;
+  highRateChange: number | null;
+  swing: number; // Spread of the rate change between the two shocks, used to rank drivers
+  error?: string;
+}
+
+export interface SensitivityAnalysis {
+  carrier: string;
+  baseRateChange: number;
+  entries: SensitivityEntry[]; // Largest swing first
+}
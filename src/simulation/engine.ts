@@ -0,0 +1,110 @@
+import { listCarrierPlugins, getCarrierPlugin } from '../components/carriers';
+import { prepareProjection } from '../utils/projectionRunner';
+import { dispatchCarrierCalculation } from '../utils/carrierDispatcher';
+import { createRandom } from './random';
+import { fitSimulationModel, simulateExperience } from './model';
+import { CarrierSimulationSummary, SimulatedExperience, SimulationOptions, SimulationPercentiles, SimulationResult } from './types';
+
+export const DEFAULT_SIMULATION_SCENARIOS = 1000;
+export const DEFAULT_SIMULATION_SEED = 1;
+
+/**
+ * Linearly interpolated percentile (0-1) of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function summarize(values: number[]): SimulationPercentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length
+  };
+}
+
+async function simulateCarrier(
+  rows: any[],
+  carrierId: string,
+  overrides: Record<string, any>,
+  experiences: SimulatedExperience[]
+): Promise<CarrierSimulationSummary> {
+  const plugin = getCarrierPlugin(carrierId);
+  const summary: CarrierSimulationSummary = {
+    carrierId: plugin.id,
+    label: plugin.label,
+    deterministicRateAction: null,
+    rateAction: null,
+    projectedPremiumPMPM: null,
+    failedScenarios: 0
+  };
+
+  try {
+    const { input, params } = prepareProjection(rows, carrierId, overrides);
+    summary.deterministicRateAction = (await dispatchCarrierCalculation(input, params)).requiredRateChange;
+
+    // Manual rates and the current premium stay as estimated from the actual experience
+    const scenarioParams = { ...params, ibnr: undefined };
+    const rateActions: number[] = [];
+    const premiums: number[] = [];
+    for (const experience of experiences) {
+      try {
+        const result = await dispatchCarrierCalculation(
+          { ...input, ...experience, estimationClaimsData: input.monthlyClaimsData },
+          scenarioParams
+        );
+        if (!isFinite(result.requiredRateChange) || !isFinite(result.projectedPremiumPMPM)) {
+          summary.failedScenarios++;
+          continue;
+        }
+        rateActions.push(result.requiredRateChange);
+        premiums.push(result.projectedPremiumPMPM);
+      } catch (error) {
+        summary.failedScenarios++;
+      }
+    }
+    summary.rateAction = summarize(rateActions);
+    summary.projectedPremiumPMPM = summarize(premiums);
+  } catch (error) {
+    summary.error = (error as Error).message;
+  }
+  return summary;
+}
+
+/**
+ * Rerun each carrier over simulated experience fitted to the group's monthly claims and large claimants
+ * Every carrier sees the same scenarios; a carrier that cannot rate the case reports its error instead
+ */
+export async function runSimulation(
+  rows: any[],
+  options: SimulationOptions = {},
+  overrides: Record<string, any> = {}
+): Promise<SimulationResult> {
+  const seed = options.seed ?? DEFAULT_SIMULATION_SEED;
+  const scenarios = options.scenarios ?? DEFAULT_SIMULATION_SCENARIOS;
+  const carriers = options.carriers ?? listCarrierPlugins().map(plugin => plugin.id);
+  if (!Number.isInteger(scenarios) || scenarios < 1) {
+    throw new Error(`Scenario count must be a positive whole number, got ${scenarios}`);
+  }
+  if (carriers.length === 0) {
+    throw new Error('Select at least one carrier to simulate');
+  }
+
+  const { input } = prepareProjection(rows, carriers[0], overrides);
+  const model = fitSimulationModel(input, options.attritionalVolatility);
+  const random = createRandom(seed);
+  const experiences = Array.from({ length: scenarios }, () => simulateExperience(model, random));
+
+  const summaries: CarrierSimulationSummary[] = [];
+  for (const carrierId of carriers) {
+    summaries.push(await simulateCarrier(rows, carrierId, overrides, experiences));
+  }
+  return { seed, scenarios, model, carriers: summaries };
+}
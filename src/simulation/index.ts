@@ -0,0 +1,5 @@
+// Stochastic renewal projection: carrier methods rerun over simulated claims experience
+export * from './types';
+export { createRandom } from './random';
+export { fitSimulationModel, simulateExperience, CLAIMANT_LISTING_MONTHS } from './model';
+export { runSimulation, percentile, DEFAULT_SIMULATION_SCENARIOS, DEFAULT_SIMULATION_SEED } from './engine';
@@ -0,0 +1,112 @@
+import { IMonthlyClaimsData, LargeClaimant, UniversalInput } from '../types/common';
+import { RandomSource, sampleLognormalFactor, samplePoisson } from './random';
+import { SimulatedExperience, SimulationModel } from './types';
+
+// Large claimant listings cover the latest year of experience
+export const CLAIMANT_LISTING_MONTHS = 12;
+
+function memberMonths(month: IMonthlyClaimsData): number {
+  return month.memberMonths?.total || month.memberMonths?.medical || 0;
+}
+
+function claimantSplit(claimant: LargeClaimant): { medical: number; rx: number } {
+  if (claimant.medicalAmount !== undefined || claimant.rxAmount !== undefined) {
+    return { medical: claimant.medicalAmount || 0, rx: claimant.rxAmount || 0 };
+  }
+  return claimant.claimType === 'pharmacy'
+    ? { medical: 0, rx: claimant.totalAmount }
+    : { medical: claimant.totalAmount, rx: 0 };
+}
+
+function coefficientOfVariation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean <= 0) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Split the group's experience into attritional claims and large-claimant frequency and severity
+ * Large claimant amounts come out of the listing months in proportion to member months
+ */
+export function fitSimulationModel(input: UniversalInput, attritionalVolatility?: number): SimulationModel {
+  const months = [...input.monthlyClaimsData].sort((a, b) => a.month.localeCompare(b.month));
+  const listingMonths = months.slice(-CLAIMANT_LISTING_MONTHS);
+  const listingMemberMonths = listingMonths.reduce((sum, month) => sum + memberMonths(month), 0);
+  const claimants = input.largeClaimantsData.filter(claimant => claimant.totalAmount > 0);
+  const largeMedical = claimants.reduce((sum, claimant) => sum + claimantSplit(claimant).medical, 0);
+  const largeRx = claimants.reduce((sum, claimant) => sum + claimantSplit(claimant).rx, 0);
+
+  const attritional = months.map(month => {
+    const share = listingMonths.includes(month) && listingMemberMonths > 0 ? memberMonths(month) / listingMemberMonths : 0;
+    const medical = Math.max(0, (month.incurredClaims?.medical || 0) - largeMedical * share);
+    const rx = Math.max(0, (month.incurredClaims?.rx || 0) - largeRx * share);
+    return {
+      month: month.month,
+      memberMonths: { ...month.memberMonths },
+      incurredClaims: { medical, rx, total: medical + rx },
+      ...(month.earnedPremium && { earnedPremium: { ...month.earnedPremium } })
+    };
+  });
+
+  const pmpms = attritional
+    .filter(month => memberMonths(month) > 0)
+    .map(month => month.incurredClaims.total / memberMonths(month));
+
+  return {
+    attritional,
+    attritionalVolatility: attritionalVolatility ?? coefficientOfVariation(pmpms),
+    largeClaimantFrequency: listingMemberMonths > 0 ? claimants.length / listingMemberMonths : 0,
+    largeClaimantSeverities: claimants,
+    listingMonths: listingMonths.length,
+    listingMemberMonths,
+    memberMonths: months.reduce((sum, month) => sum + memberMonths(month), 0)
+  };
+}
+
+function pickMonth(random: RandomSource, months: IMonthlyClaimsData[], totalMemberMonths: number): number {
+  let target = random() * totalMemberMonths;
+  for (let i = 0; i < months.length; i++) {
+    target -= memberMonths(months[i]);
+    if (target < 0) return i;
+  }
+  return months.length - 1;
+}
+
+/**
+ * Draw the experience months again: each month's attritional claims get a lognormal shock, and large claimants
+ * arrive by Poisson frequency with severities resampled from the group's own claimants
+ * Claimants arrive only in the listing months, as older months kept their actual large claims in the attritional base
+ * Simulated months are complete, so they carry no paid claims for IBNR completion
+ */
+export function simulateExperience(model: SimulationModel, random: RandomSource): SimulatedExperience {
+  const monthlyClaimsData: IMonthlyClaimsData[] = model.attritional.map(month => {
+    const factor = sampleLognormalFactor(random, model.attritionalVolatility);
+    const medical = month.incurredClaims.medical * factor;
+    const rx = month.incurredClaims.rx * factor;
+    return { ...month, incurredClaims: { medical, rx, total: medical + rx } };
+  });
+
+  const largeClaimantsData: LargeClaimant[] = [];
+  const severities = model.largeClaimantSeverities;
+  const listing = monthlyClaimsData.slice(-model.listingMonths);
+  const count = severities.length > 0 ? samplePoisson(random, model.largeClaimantFrequency * model.listingMemberMonths) : 0;
+  for (let i = 0; i < count; i++) {
+    const source = severities[Math.floor(random() * severities.length)];
+    const month = listing[pickMonth(random, listing, model.listingMemberMonths)];
+    const { medical, rx } = claimantSplit(source);
+    month.incurredClaims = {
+      medical: month.incurredClaims.medical + medical,
+      rx: month.incurredClaims.rx + rx,
+      total: (month.incurredClaims.total || 0) + medical + rx
+    };
+    largeClaimantsData.push({
+      ...source,
+      claimantId: `SIM-${i + 1}`,
+      incurredDate: new Date(Number(month.month.slice(0, 4)), Number(month.month.slice(5, 7)) - 1, 15)
+    });
+  }
+
+  return { monthlyClaimsData, largeClaimantsData };
+}
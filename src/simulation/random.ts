@@ -0,0 +1,46 @@
+// Seedable random numbers so a simulation can be rerun exactly
+export type RandomSource = () => number;
+
+/**
+ * Uniform [0, 1) generator from a 32-bit seed (mulberry32)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleNormal(random: RandomSource): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Lognormal multiplier with mean 1 and the given coefficient of variation
+ */
+export function sampleLognormalFactor(random: RandomSource, cv: number): number {
+  if (cv <= 0) return 1;
+  const sigma = Math.sqrt(Math.log(1 + cv * cv));
+  return Math.exp(-sigma * sigma / 2 + sigma * sampleNormal(random));
+}
+
+/**
+ * Poisson count; large means use the normal approximation
+ */
+export function samplePoisson(random: RandomSource, mean: number): number {
+  if (mean <= 0) return 0;
+  if (mean > 30) return Math.max(0, Math.round(mean + Math.sqrt(mean) * sampleNormal(random)));
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
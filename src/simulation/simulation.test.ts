@@ -0,0 +1,79 @@
+import { createRandom, fitSimulationModel, percentile, runSimulation, simulateExperience } from '.';
+import { prepareProjection } from '../utils/projectionRunner';
+
+describe('renewal simulation', () => {
+  // A small group with volatile months and two large claimants in the latest year
+  const rows = [
+    { caseId: 'SIM-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': i % 3 === 0 ? 60000 : 40000,
+      'Pharmacy Claims': 10000,
+      memberMonthsMedical: 100,
+      memberMonthsRx: 100
+    })),
+    { 'Claimant Number': 'LC1', 'Total Claims': 150000, 'Medical Claims': 150000, 'Pharmacy Claims': 0 },
+    { 'Claimant Number': 'LC2', 'Total Claims': 90000, 'Medical Claims': 60000, 'Pharmacy Claims': 30000 }
+  ];
+
+  test('fits attritional claims and large-claimant frequency from the experience', () => {
+    const { input } = prepareProjection(rows, 'UHC');
+    const model = fitSimulationModel(input);
+    const attritionalTotal = model.attritional.reduce((sum, month) => sum + month.incurredClaims.total!, 0);
+
+    expect(model.largeClaimantFrequency).toBeCloseTo(2 / 1200);
+    expect(attritionalTotal).toBeCloseTo(12 * 10000 + 4 * 60000 + 8 * 40000 - 240000);
+    expect(model.attritionalVolatility).toBeGreaterThan(0);
+
+    const experience = simulateExperience(model, createRandom(7));
+    expect(experience.monthlyClaimsData).toHaveLength(12);
+    expect(experience.monthlyClaimsData.every(month => month.paidClaims === undefined)).toBe(true);
+    experience.largeClaimantsData.forEach(claimant => expect([150000, 90000]).toContain(claimant.totalAmount));
+  });
+
+  test('simulates large claimants only in the listing months of a longer history', () => {
+    const older = Array.from({ length: 12 }, (_, i) => ({
+      Month: `2023-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 50000,
+      'Pharmacy Claims': 10000,
+      memberMonthsMedical: 100,
+      memberMonthsRx: 100
+    }));
+    const { input } = prepareProjection([rows[0], ...older, ...rows.slice(1)], 'UHC');
+    const model = fitSimulationModel(input);
+
+    // The older year keeps its actual claims, so the simulation must not add claimants to it
+    expect(model.attritional.slice(0, 12).every(month => month.incurredClaims.total === 60000)).toBe(true);
+    expect(model.listingMonths).toBe(12);
+    expect(model.listingMemberMonths).toBe(1200);
+    expect(model.memberMonths).toBe(2400);
+
+    const claimants = [1, 2, 3, 4, 5, 6, 7, 8].flatMap(seed => simulateExperience(model, createRandom(seed)).largeClaimantsData);
+    expect(claimants.length).toBeGreaterThan(0);
+    claimants.forEach(claimant => expect(claimant.incurredDate.getFullYear()).toBe(2024));
+  });
+
+  test('reports reproducible P10/P50/P90 rate actions around the deterministic result', async () => {
+    const options = { scenarios: 150, seed: 42, carriers: ['UHC', 'HUMANA'] };
+    const first = await runSimulation(rows, options);
+    const second = await runSimulation(rows, options);
+    const uhc = first.carriers[0];
+
+    expect(second.carriers).toEqual(first.carriers);
+    expect(first.carriers.map(carrier => carrier.carrierId)).toEqual(['UHC', 'HUMANA']);
+    expect(uhc.failedScenarios).toBe(0);
+    expect(uhc.rateAction!.p10).toBeLessThan(uhc.rateAction!.p50);
+    expect(uhc.rateAction!.p50).toBeLessThan(uhc.rateAction!.p90);
+    expect(uhc.deterministicRateAction!).toBeGreaterThan(uhc.rateAction!.p10);
+    expect(uhc.deterministicRateAction!).toBeLessThan(uhc.rateAction!.p90);
+
+    const reseeded = await runSimulation(rows, { ...options, seed: 43 });
+    expect(reseeded.carriers[0].rateAction!.p50).not.toBe(uhc.rateAction!.p50);
+    await expect(runSimulation(rows, { scenarios: 0 })).rejects.toThrow('Scenario count must be a positive whole number');
+  });
+
+  test('interpolates percentiles', () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.1)).toBeCloseTo(1);
+  });
+});
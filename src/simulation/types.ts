@@ -0,0 +1,50 @@
+import { IMonthlyClaimsData, LargeClaimant } from '../types/common';
+
+export interface SimulationOptions {
+  scenarios?: number; // Defaults to 1,000
+  seed?: number; // Same seed, same scenarios
+  carriers?: string[]; // Defaults to every registered carrier
+  attritionalVolatility?: number; // Coefficient of variation of monthly attritional PMPM; measured from the data when omitted
+}
+
+// Claims model fitted to the group's experience
+export interface SimulationModel {
+  attritional: IMonthlyClaimsData[]; // Expected claims per month with large claimants removed
+  attritionalVolatility: number;
+  largeClaimantFrequency: number; // Expected large claimants per member month
+  largeClaimantSeverities: LargeClaimant[]; // Observed claimants, resampled for severity and medical/Rx split
+  listingMonths: number; // Latest months the claimant listing covers; simulated claimants arrive only in these
+  listingMemberMonths: number;
+  memberMonths: number;
+}
+
+// One simulated experience: monthly claims with its large claimants included, and the claimant list
+export interface SimulatedExperience {
+  monthlyClaimsData: IMonthlyClaimsData[];
+  largeClaimantsData: LargeClaimant[];
+}
+
+export interface SimulationPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+// One carrier's results across the scenarios; failed scenarios are counted and left out of the percentiles
+export interface CarrierSimulationSummary {
+  carrierId: string;
+  label: string;
+  deterministicRateAction: number | null;
+  rateAction: SimulationPercentiles | null;
+  projectedPremiumPMPM: SimulationPercentiles | null;
+  failedScenarios: number;
+  error?: string;
+}
+
+export interface SimulationResult {
+  seed: number;
+  scenarios: number;
+  model: SimulationModel;
+  carriers: CarrierSimulationSummary[];
+}
@@ -0,0 +1,141 @@
+import { CalculationResult, UniversalInput } from '../types/common';
+import { validateParameters, formatCarrierParameterErrors } from '../components/carriers';
+import { mapToUniversalInput } from '../ingest';
+import { RateTier, TierEnrollmentSource, TierRate, TierRatingResult, TierRatingSettings } from './types';
+import {
+  DEFAULT_MEMBERS_PER_SUBSCRIBER,
+  DEFAULT_TIER_MIX,
+  RATE_TIERS,
+  TIER_RATING_DEFAULTS,
+  TIER_RATING_PARAMETER_SCHEMA
+} from './schema';
+
+function roundToCent(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Covered lives in the latest month, preferring reported enrollment over claims member months
+function currentMembers(input: UniversalInput): number {
+  const enrollment = [...(input.enrollmentData ?? [])].sort((a, b) => a.month.localeCompare(b.month));
+  const latestEnrollment = enrollment[enrollment.length - 1];
+  if (latestEnrollment?.members > 0) return latestEnrollment.members;
+
+  const months = [...input.monthlyClaimsData].sort((a, b) => a.month.localeCompare(b.month));
+  return months[months.length - 1]?.memberMonths.total ?? 0;
+}
+
+function latestSubscribers(input: UniversalInput): number {
+  const enrollment = [...(input.enrollmentData ?? [])].sort((a, b) => a.month.localeCompare(b.month));
+  return enrollment[enrollment.length - 1]?.subscribers ?? 0;
+}
+
+// Monthly tier rates that reproduce a composite PMPM across the members, before rounding
+function spreadComposite(
+  compositePMPM: number,
+  members: number,
+  enrollment: Record<RateTier, number>,
+  settings: TierRatingSettings
+): Record<RateTier, number> {
+  const weighted = RATE_TIERS.reduce((sum, tier) => sum + enrollment[tier.tier] * settings[tier.ratio], 0);
+  const baseRate = weighted > 0 ? (compositePMPM * members) / weighted : 0;
+  return Object.fromEntries(RATE_TIERS.map(tier => [tier.tier, baseRate * settings[tier.ratio]])) as Record<RateTier, number>;
+}
+
+/**
+ * Convert a carrier's composite PMPM into monthly tier rates using tier ratios and the group's tier enrollment
+ * Renewal rates are balanced so enrollment × rate reproduces the composite premium, apart from rounding to the cent
+ */
+export function calculateTierRates(
+  input: UniversalInput,
+  result: CalculationResult,
+  settings: TierRatingSettings
+): TierRatingResult {
+  const warnings: string[] = [];
+  const members = currentMembers(input);
+  if (members <= 0) {
+    throw new Error('Tier rating needs current members; the latest month has no member months or enrollment');
+  }
+
+  let enrollmentSource: TierEnrollmentSource = 'uploaded';
+  let enrollment = Object.fromEntries(RATE_TIERS.map(tier => [tier.tier, settings[tier.enrollment]])) as Record<RateTier, number>;
+  if (RATE_TIERS.every(tier => enrollment[tier.tier] === 0)) {
+    enrollmentSource = 'estimated';
+    const subscribers = latestSubscribers(input) || members / DEFAULT_MEMBERS_PER_SUBSCRIBER;
+    enrollment = Object.fromEntries(RATE_TIERS.map(tier => [tier.tier, subscribers * DEFAULT_TIER_MIX[tier.tier]])) as Record<RateTier, number>;
+    const mix = RATE_TIERS.map(tier => `${(DEFAULT_TIER_MIX[tier.tier] * 100).toFixed(0)}% ${tier.tier}`).join(', ');
+    warnings.push(`No tier enrollment uploaded; ${subscribers.toFixed(0)} subscribers are split ${mix}`);
+  }
+  const subscribers = RATE_TIERS.reduce((sum, tier) => sum + enrollment[tier.tier], 0);
+
+  const renewalRates = spreadComposite(result.projectedPremiumPMPM, members, enrollment, settings);
+
+  let currentRatesSource: TierEnrollmentSource = 'uploaded';
+  let currentRates = Object.fromEntries(RATE_TIERS.map(tier => [tier.tier, settings[tier.currentRate]])) as Record<RateTier, number>;
+  if (RATE_TIERS.every(tier => currentRates[tier.tier] === 0)) {
+    currentRatesSource = 'estimated';
+    currentRates = spreadComposite(result.currentPremiumPMPM, members, enrollment, settings);
+  } else {
+    const missing = RATE_TIERS.filter(tier => enrollment[tier.tier] > 0 && currentRates[tier.tier] === 0).map(tier => tier.tier);
+    if (missing.length > 0) {
+      throw new Error(`Current tier rates are missing for enrolled tiers: ${missing.join(', ')}`);
+    }
+  }
+
+  const tiers: TierRate[] = RATE_TIERS.map(tier => {
+    const currentRate = roundToCent(currentRates[tier.tier]);
+    const renewalRate = roundToCent(renewalRates[tier.tier]);
+    return {
+      tier: tier.tier,
+      label: tier.label,
+      ratio: settings[tier.ratio],
+      enrollment: enrollment[tier.tier],
+      currentRate,
+      renewalRate,
+      change: currentRate > 0 ? renewalRate / currentRate - 1 : 0
+    };
+  });
+
+  const currentPMPM = currentRatesSource === 'uploaded'
+    ? tiers.reduce((sum, tier) => sum + tier.enrollment * tier.currentRate, 0) / members
+    : result.currentPremiumPMPM;
+  if (currentRatesSource === 'uploaded' && result.currentPremiumPMPM > 0 &&
+    Math.abs(currentPMPM / result.currentPremiumPMPM - 1) > 0.01) {
+    warnings.push(`Uploaded current tier rates give $${currentPMPM.toFixed(2)} PMPM against the carrier's current ` +
+      `$${result.currentPremiumPMPM.toFixed(2)} PMPM`);
+  }
+
+  const composite = result.projectedPremiumPMPM * members;
+  const tiered = tiers.reduce((sum, tier) => sum + tier.enrollment * tier.renewalRate, 0);
+
+  return {
+    carrier: result.carrier,
+    tiers,
+    members,
+    subscribers,
+    enrollmentSource,
+    currentRatesSource,
+    composite: { currentPMPM, renewalPMPM: result.projectedPremiumPMPM },
+    monthlyPremium: { composite, tiered, offBalance: tiered - composite },
+    warnings
+  };
+}
+
+/**
+ * Tier rates for a calculated projection, reading ratios, enrollment and current rates from the upload and overrides
+ * Throws with every invalid setting listed
+ */
+export function runTierRating(
+  rows: any[],
+  result: CalculationResult,
+  settingsOverrides: Record<string, any> = {}
+): TierRatingResult {
+  const uploaded = validateParameters(TIER_RATING_PARAMETER_SCHEMA, rows[0] || {}, { ...TIER_RATING_DEFAULTS });
+  const overridden = validateParameters(TIER_RATING_PARAMETER_SCHEMA, settingsOverrides, uploaded.params);
+  const invalid = [...uploaded.errors, ...overridden.errors];
+  if (invalid.length > 0) {
+    throw new Error(formatCarrierParameterErrors('tier rating', invalid));
+  }
+
+  const input = mapToUniversalInput(rows, result.carrier);
+  return calculateTierRates(input, result, overridden.params as unknown as TierRatingSettings);
+}
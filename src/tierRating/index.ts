@@ -0,0 +1,10 @@
+// Tier rating: composite PMPM converted to EE/ES/EC/Family rates that balance back to the composite
+export * from './types';
+export {
+  TIER_RATING_DEFAULTS,
+  TIER_RATING_PARAMETER_SCHEMA,
+  RATE_TIERS,
+  DEFAULT_TIER_MIX,
+  DEFAULT_MEMBERS_PER_SUBSCRIBER
+} from './schema';
+export { calculateTierRates, runTierRating } from './calculator';
@@ -0,0 +1,51 @@
+import { CarrierParameterField } from '../components/carriers';
+import { BCBS_TIER_FACTORS } from '../types/bcbs';
+import { RateTier, TierRatingSettings } from './types';
+
+export const TIER_RATING_DEFAULTS: TierRatingSettings = {
+  eeRatio: BCBS_TIER_FACTORS.single,
+  esRatio: BCBS_TIER_FACTORS.couple,
+  ecRatio: BCBS_TIER_FACTORS.spmd,
+  familyRatio: BCBS_TIER_FACTORS.family,
+  eeEnrollment: 0,
+  esEnrollment: 0,
+  ecEnrollment: 0,
+  familyEnrollment: 0,
+  eeCurrentRate: 0,
+  esCurrentRate: 0,
+  ecCurrentRate: 0,
+  familyCurrentRate: 0
+};
+
+// Tier order and the settings each tier reads
+export const RATE_TIERS: {
+  tier: RateTier;
+  label: string;
+  ratio: keyof TierRatingSettings;
+  enrollment: keyof TierRatingSettings;
+  currentRate: keyof TierRatingSettings;
+}[] = [
+  { tier: 'EE', label: 'Employee Only', ratio: 'eeRatio', enrollment: 'eeEnrollment', currentRate: 'eeCurrentRate' },
+  { tier: 'ES', label: 'Employee + Spouse', ratio: 'esRatio', enrollment: 'esEnrollment', currentRate: 'esCurrentRate' },
+  { tier: 'EC', label: 'Employee + Child(ren)', ratio: 'ecRatio', enrollment: 'ecEnrollment', currentRate: 'ecCurrentRate' },
+  { tier: 'Family', label: 'Family', ratio: 'familyRatio', enrollment: 'familyEnrollment', currentRate: 'familyCurrentRate' }
+];
+
+// Subscriber mix and members per subscriber used when the upload carries no tier enrollment
+export const DEFAULT_TIER_MIX: Record<RateTier, number> = { EE: 0.4, ES: 0.3, EC: 0.1, Family: 0.2 };
+export const DEFAULT_MEMBERS_PER_SUBSCRIBER = 2.2;
+
+export const TIER_RATING_PARAMETER_SCHEMA: CarrierParameterField[] = [
+  { key: 'eeRatio', label: 'EE Tier Ratio', unit: 'factor', min: 0.5, max: 2, description: 'Ratios are relative to one another; employee only is normally 1.00' },
+  { key: 'esRatio', label: 'ES Tier Ratio', unit: 'factor', min: 1, max: 5, aliases: ['Employee + Spouse Ratio'] },
+  { key: 'ecRatio', label: 'EC Tier Ratio', unit: 'factor', min: 1, max: 5, aliases: ['Employee + Child Ratio'] },
+  { key: 'familyRatio', label: 'Family Tier Ratio', unit: 'factor', min: 1, max: 6 },
+  { key: 'eeEnrollment', label: 'EE Enrollment', unit: 'count', min: 0, max: 100000, aliases: ['EE Count'] },
+  { key: 'esEnrollment', label: 'ES Enrollment', unit: 'count', min: 0, max: 100000, aliases: ['ES Count'] },
+  { key: 'ecEnrollment', label: 'EC Enrollment', unit: 'count', min: 0, max: 100000, aliases: ['EC Count'] },
+  { key: 'familyEnrollment', label: 'Family Enrollment', unit: 'count', min: 0, max: 100000, aliases: ['Family Count'] },
+  { key: 'eeCurrentRate', label: 'EE Current Rate', unit: 'currency', min: 0, max: 10000, aliases: ['EE Rate'] },
+  { key: 'esCurrentRate', label: 'ES Current Rate', unit: 'currency', min: 0, max: 20000, aliases: ['ES Rate'] },
+  { key: 'ecCurrentRate', label: 'EC Current Rate', unit: 'currency', min: 0, max: 20000, aliases: ['EC Rate'] },
+  { key: 'familyCurrentRate', label: 'Family Current Rate', unit: 'currency', min: 0, max: 30000, aliases: ['Family Rate'] }
+];
@@ -0,0 +1,59 @@
+import { runProjection } from '../utils/projectionRunner';
+import { runTierRating } from '.';
+
+describe('tier rating', () => {
+  const rows = [
+    { caseId: 'TIER-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31', 'EE Count': 200, 'ES Count': 100, 'EC Count': 50, 'Family Count': 100 },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  test('spreads the composite over tiers by ratio and balances back to it', async () => {
+    for (const carrier of ['AETNA', 'UHC', 'CIGNA', 'BCBS', 'HUMANA']) {
+      const { result } = await runProjection(rows, carrier);
+      const rating = runTierRating(rows, result);
+      const [ee, es, ec, family] = rating.tiers;
+
+      expect(rating.enrollmentSource).toBe('uploaded');
+      expect(rating.members).toBe(1000);
+      expect(rating.subscribers).toBe(450);
+      expect(es.renewalRate / ee.renewalRate).toBeCloseTo(2, 2);
+      expect(ec.renewalRate / ee.renewalRate).toBeCloseTo(1.8, 2);
+      expect(family.renewalRate / ee.renewalRate).toBeCloseTo(3, 2);
+      expect(rating.monthlyPremium.composite).toBeCloseTo(result.projectedPremiumPMPM * 1000);
+      expect(Math.abs(rating.monthlyPremium.offBalance)).toBeLessThanOrEqual(0.005 * rating.subscribers);
+    }
+  });
+
+  test('shows current versus renewal rates with change percentages', async () => {
+    const { result } = await runProjection(rows, 'UHC');
+    const derived = runTierRating(rows, result);
+    derived.tiers.forEach(tier => {
+      expect(tier.change).toBeCloseTo(result.projectedPremiumPMPM / result.currentPremiumPMPM - 1, 3);
+    });
+
+    const uploaded = runTierRating(rows, result, { eeCurrentRate: 500, esCurrentRate: 1000, ecCurrentRate: 900, familyCurrentRate: 1500 });
+    expect(uploaded.currentRatesSource).toBe('uploaded');
+    expect(uploaded.tiers[0].change).toBeCloseTo(uploaded.tiers[0].renewalRate / 500 - 1);
+    expect(uploaded.composite.currentPMPM).toBeCloseTo((200 * 500 + 100 * 1000 + 50 * 900 + 100 * 1500) / 1000);
+    expect(() => runTierRating(rows, result, { eeCurrentRate: 500 }))
+      .toThrow('Current tier rates are missing for enrolled tiers: ES, EC, Family');
+  });
+
+  test('estimates the enrollment mix when none is uploaded and rejects invalid ratios', async () => {
+    const withoutTiers = [{ caseId: 'TIER-2' }, ...rows.slice(1)];
+    const { result } = await runProjection(withoutTiers, 'AETNA');
+    const rating = runTierRating(withoutTiers, result);
+
+    expect(rating.enrollmentSource).toBe('estimated');
+    [0.4, 0.3, 0.1, 0.2].forEach((share, index) => expect(rating.tiers[index].enrollment / rating.subscribers).toBeCloseTo(share));
+    expect(rating.warnings[0]).toMatch(/^No tier enrollment uploaded/);
+    expect(() => runTierRating(withoutTiers, result, { familyRatio: 8 }))
+      .toThrow('Invalid tier rating parameters: Family Tier Ratio must be between 1 and 6, got 8');
+  });
+});
@@ -0,0 +1,49 @@
+// Standard four-tier structure: employee only, employee + spouse, employee + child(ren), family
+export type RateTier = 'EE' | 'ES' | 'EC' | 'Family';
+
+// Tier ratios, enrollment and current rates; see TIER_RATING_PARAMETER_SCHEMA for units and ranges
+export interface TierRatingSettings {
+  eeRatio: number;
+  esRatio: number;
+  ecRatio: number;
+  familyRatio: number;
+  // Subscribers by tier; all zero means the enrollment mix is estimated
+  eeEnrollment: number;
+  esEnrollment: number;
+  ecEnrollment: number;
+  familyEnrollment: number;
+  // Current monthly tier rates; all zero means they are derived from the current composite PMPM
+  eeCurrentRate: number;
+  esCurrentRate: number;
+  ecCurrentRate: number;
+  familyCurrentRate: number;
+}
+
+// Where the tier enrollment mix came from
+export type TierEnrollmentSource = 'uploaded' | 'estimated';
+
+export interface TierRate {
+  tier: RateTier;
+  label: string;
+  ratio: number;
+  enrollment: number;
+  currentRate: number; // Monthly, per subscriber
+  renewalRate: number;
+  change: number; // Renewal over current, e.g. 0.08 = +8%
+}
+
+export interface TierRatingResult {
+  carrier: string;
+  tiers: TierRate[];
+  members: number; // Covered lives the composite PMPM is applied to
+  subscribers: number;
+  enrollmentSource: TierEnrollmentSource;
+  currentRatesSource: TierEnrollmentSource;
+  composite: { currentPMPM: number; renewalPMPM: number };
+  monthlyPremium: {
+    composite: number; // Renewal composite PMPM × members
+    tiered: number; // Σ tier enrollment × rounded renewal tier rate
+    offBalance: number; // Tiered less composite; rounding to the cent only
+  };
+  warnings: string[];
+}
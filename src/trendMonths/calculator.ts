@@ -0,0 +1,89 @@
+import { ExperiencePeriodRule, Period, UniversalInput } from '../types/common';
+import { getCarrierPlugin, isParameterSupplied } from '../components/carriers';
+import {
+  DEFAULT_EXPERIENCE_PERIOD_RULE,
+  determineExperiencePeriods,
+  monthsBetweenMidpoints,
+  renewalPeriodAfter
+} from '../utils/periodHandling';
+import { TrendMonths, TrendMonthsApplication, TrendMonthsParameter, TrendPeriod, TrendPeriodMonths } from './types';
+
+// Explicit trend months within this many months of the computed value are not flagged
+export const TREND_MONTHS_TOLERANCE = 0.5;
+
+function roundMonths(months: number): number {
+  return Math.round(months * 10) / 10;
+}
+
+/**
+ * Months from the current and prior experience period midpoints to the renewal midpoint
+ * Periods follow the carrier's period rule; the renewal is the uploaded renewal year, or the year after the experience
+ */
+export function calculateTrendMonths(
+  input: UniversalInput,
+  rule: ExperiencePeriodRule = DEFAULT_EXPERIENCE_PERIOD_RULE
+): TrendMonths {
+  // determineExperiencePeriods sorts the claims it is given
+  const periods = determineExperiencePeriods([...input.monthlyClaimsData], input.effectiveDates.renewalStart, rule);
+  const renewal = renewalPeriodAfter(input.renewalDates ?? input.effectiveDates, periods.current.end);
+  const entry = (period: TrendPeriod, dates: Period): TrendPeriodMonths => ({
+    period,
+    start: dates.start,
+    end: dates.end,
+    months: roundMonths(monthsBetweenMidpoints(dates, renewal))
+  });
+
+  return {
+    renewal,
+    periods: [entry('current', periods.current), ...(periods.prior ? [entry('prior', periods.prior)] : [])]
+  };
+}
+
+/**
+ * Fill the carrier's trend month parameters from the period midpoints, unless an explicit source sets them
+ * Explicit months more than TREND_MONTHS_TOLERANCE from the computed months are flagged in the warnings
+ */
+export function applyTrendMonths(
+  input: UniversalInput,
+  carrier: string,
+  params: Record<string, any>,
+  explicitSources: Record<string, any>[]
+): { params: Record<string, any>; trendMonths: TrendMonthsApplication | null } {
+  const fields = getCarrierPlugin(carrier).parameterSchema.filter(field => field.trendMonths);
+  if (fields.length === 0) {
+    return { params, trendMonths: null };
+  }
+
+  const trendMonths = calculateTrendMonths(input, params.experiencePeriodRule);
+  const parameters: TrendMonthsParameter[] = fields.flatMap(field => {
+    const period = trendMonths.periods.find(candidate => candidate.period === field.trendMonths);
+    if (!period) return []; // No prior period in the data; the parameter keeps its value
+    const explicit = isParameterSupplied(field, explicitSources);
+    return [{
+      key: field.key,
+      label: field.label,
+      period: period.period,
+      computed: period.months,
+      value: explicit ? Number(params[field.key]) : period.months,
+      applied: !explicit
+    }];
+  });
+
+  const warnings = parameters
+    .filter(parameter => Math.abs(parameter.value - parameter.computed) > TREND_MONTHS_TOLERANCE)
+    .map(parameter => ({
+      message: `${parameter.label} of ${parameter.value} differs from the ${parameter.computed} months between the ` +
+        `${parameter.period} experience and renewal midpoints`,
+      field: parameter.key,
+      severity: 'warning' as const,
+      category: 'assumption' as const
+    }));
+
+  return {
+    params: {
+      ...params,
+      ...Object.fromEntries(parameters.filter(parameter => parameter.applied).map(parameter => [parameter.key, parameter.value]))
+    },
+    trendMonths: { ...trendMonths, parameters, warnings }
+  };
+}
@@ -0,0 +1,3 @@
+// Trend months measured from the experience period midpoints to the renewal midpoint
+export * from './types';
+export { TREND_MONTHS_TOLERANCE, calculateTrendMonths, applyTrendMonths } from './calculator';
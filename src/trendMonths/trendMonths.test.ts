@@ -0,0 +1,58 @@
+import { runProjection } from '../utils/projectionRunner';
+import { ingestUniversalInput } from '../ingest';
+import { getCarrierPlugin } from '../components/carriers';
+import { calculateTrendMonths } from '.';
+
+describe('trend months', () => {
+  const monthly = Array.from({ length: 24 }, (_, i) => ({
+    Month: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+    'Medical Claims': 400000,
+    'Pharmacy Claims': 100000,
+    memberMonthsMedical: 1000,
+    memberMonthsRx: 1000
+  }));
+  const rows = [{ caseId: 'TREND-1', renewalStart: '2025-07-01', renewalEnd: '2026-06-30' }, ...monthly];
+
+  test('measures each experience period midpoint to the uploaded renewal midpoint', () => {
+    const { input } = ingestUniversalInput(rows, 'UHC');
+    const trend = calculateTrendMonths(input);
+
+    expect(trend.renewal.start).toEqual(new Date(2025, 6, 1));
+    expect(trend.periods.map(period => [period.period, period.months])).toEqual([['current', 18], ['prior', 30]]);
+  });
+
+  test('follows the experience when no renewal dates are uploaded', () => {
+    const { input } = ingestUniversalInput([{ caseId: 'TREND-2' }, ...monthly], 'UHC');
+
+    expect(calculateTrendMonths(input).periods.map(period => period.months)).toEqual([12, 24]);
+  });
+
+  test('fills each carrier\'s trend months and compounds the BCBS trend over them', async () => {
+    const uhc = await runProjection(rows, 'UHC');
+    expect(uhc.params.projectionMonthsCurrent).toBe(18);
+    expect(uhc.params.projectionMonthsPrior).toBe(30);
+    expect(uhc.trendMonths!.warnings).toEqual([]);
+
+    const cigna = await runProjection(rows, 'CIGNA');
+    expect(cigna.params.trendMonths).toBe(18);
+
+    const bcbs = await runProjection(rows, 'BCBS');
+    expect(bcbs.params.trendMonthsRenewal).toBe(18);
+    expect(bcbs.params.trendMonthsCurrent).toBe(30);
+    const plan = getCarrierPlugin('BCBS').adaptInput(bcbs.input, bcbs.params).carrierSpecificParameters.plans[0];
+    expect(plan.trendFactors.medical.compoundedRenewal).toBeCloseTo(Math.pow(plan.trendFactors.medical.annualRenewal, 18 / 12));
+  });
+
+  test('keeps explicit trend months and flags those that disagree', async () => {
+    const { params, result, trendMonths } = await runProjection(rows, 'HUMANA', { trendMonthsCurrent: 24, trendMonthsPrior: 30.2 });
+
+    expect(params.trendMonthsCurrent).toBe(24);
+    expect(trendMonths!.parameters.map(parameter => parameter.applied)).toEqual([false, false]);
+    expect(result.warnings).toContainEqual(expect.objectContaining({
+      field: 'trendMonthsCurrent',
+      category: 'assumption',
+      message: 'Trend Months Current of 24 differs from the 18 months between the current experience and renewal midpoints'
+    }));
+    expect(result.warnings.filter(warning => warning.field === 'trendMonthsPrior')).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { ValidationWarning } from '../types/common';
+
+// Which experience period trend is measured from: the latest period ('current') or the one before it ('prior')
+export type TrendPeriod = 'current' | 'prior';
+
+// An experience period and the months from its midpoint to the renewal midpoint
+export interface TrendPeriodMonths {
+  period: TrendPeriod;
+  start: Date;
+  end: Date;
+  months: number; // Rounded to a tenth of a month
+}
+
+export interface TrendMonths {
+  renewal: { start: Date; end: Date };
+  periods: TrendPeriodMonths[]; // The current period, then the prior period when the data has one
+}
+
+// How the computed months were applied to one of a carrier's trend month parameters
+export interface TrendMonthsParameter {
+  key: string;
+  label: string;
+  period: TrendPeriod;
+  computed: number;
+  value: number; // Months rated: the computed months unless uploaded or overridden
+  applied: boolean; // False when the parameter was uploaded or overridden explicitly
+}
+
+export interface TrendMonthsApplication extends TrendMonths {
+  parameters: TrendMonthsParameter[];
+  warnings: ValidationWarning[]; // Explicit trend months that disagree with the computed months
+}
@@ -1,4 +1,4 @@
-import { UniversalInput, ExperiencePeriods, CoverageAmounts } from './common';
+import { UniversalInput, ExperiencePeriods, CoverageAmounts, ExperiencePeriodRule, IBNRSettings, PoolingSplit, PooledClaimsExhibit, LargeClaimAdjustment, LineTrace, CalculationTrace, CredibilitySettings, CredibilityResult } from './common';
 
 export interface AetnaParameters {
   // Deductible and pooling settings (Line 2 & 4-5)
@@ -19,6 +19,12 @@ export interface AetnaParameters {
     months: number; // Number of months from experience midpoint to renewal midpoint
   };
   
+  // Experience period split; defaults to AETNA_EXPERIENCE_PERIOD_RULE
+  experiencePeriodRule?: ExperiencePeriodRule;
+  // Medical/Rx split of each claimant's pooled excess; defaults to AETNA_POOLING_SPLIT
+  poolingSplit?: PoolingSplit;
+  ibnr?: IBNRSettings; // Completes immature months before periods are determined
+  
   // Experience period weighting (Line 14)
   periodWeighting: {
     current: number; // Typically 0.75 (75%)
@@ -31,6 +37,8 @@ export interface AetnaParameters {
     fullCredibilityMemberMonths: number; // E.g., 12000
     credibilityFormula: 'sqrt' | 'linear'; // sqrt(memberMonths / fullCredibilityMM)
   };
+  // Replaces credibilityParameters, e.g. with a Bühlmann k or a published table
+  credibilitySettings?: CredibilitySettings;
   
   // Manual rates (Line 17) - can be calculated from experience if not provided
   manualRates?: {
@@ -38,7 +46,7 @@ export interface AetnaParameters {
     rx: number;
   };
   
-  // Large claim adjustment (Line 19) - optional, typically 0
+  // Large claim adjustment PMPM (Line 19) - optional; defaults to the claimant status markings
   largeClaimAdjustment?: number;
   
   // Non-benefit expenses (Line 20) - can be calculated as % of retention if not provided
@@ -80,6 +88,10 @@ export interface AetnaResult {
   
   // The detailed 28-line calculation breakdown
   calculations: AetnaCalculationLine[];
+  trace: CalculationTrace;
+  poolingExhibit: PooledClaimsExhibit;
+  largeClaimAdjustment: LargeClaimAdjustment;
+  credibility: CredibilityResult;
   
   // Experience periods used
   periods: ExperiencePeriods;
@@ -112,8 +124,19 @@ export interface AetnaCalculationLine {
   prior: CoverageAmounts;
   calculation?: string; // Formula description
   notes?: string;
+  trace?: LineTrace;
 }
 
+// AETNA weights the latest 12 months against up to 12 months of prior experience (Line 14)
+export const AETNA_EXPERIENCE_PERIOD_RULE: ExperiencePeriodRule = {
+  currentMonths: 12,
+  priorMonths: 12,
+  minimumPriorMonths: 1
+};
+
+// Pooled excess follows each claimant's medical/Rx mix
+export const AETNA_POOLING_SPLIT: PoolingSplit = 'proportional';
+
 // Standard Aetna calculation flow lines
 export const AETNA_CALCULATION_LINES = [
   { line: '1', description: 'Incurred Claims' },
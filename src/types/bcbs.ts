@@ -1,4 +1,4 @@
-import { UniversalInput, CoverageAmounts, ExperiencePeriods, CalculationResult } from './common';
+import { UniversalInput, CoverageAmounts, ExperiencePeriods, CalculationResult, CredibilityResult, IBNREstimate, LargeClaimAdjustment, PoolingSplit, PooledClaimsExhibit } from './common';
 
 export interface BCBSSpecificInput extends UniversalInput {
   carrierSpecificParameters: BCBSParameters;
@@ -20,7 +20,8 @@ export interface BCBSPlanParameters {
     renewal: number;              // e.g., 0.67 for Plan 1
   };
   credibilityFactor: number;      // e.g., 1.00
-  ibnrFactors: {
+  credibility?: CredibilityResult; // How credibilityFactor was computed, shown at Line 21
+  ibnrFactors: {                  // Completed-to-reported claims when the case opts into IBNR
     medical: {
       current: number;            // e.g., 1.0000
       renewal: number;            // e.g., 1.0240
@@ -57,6 +58,7 @@ export interface BCBSPlanParameters {
     underwriterAdjustment: number; // e.g., 1.0000
     pathwayToSavings: number;     // e.g., 0.9950
   };
+  largeClaimAdjustment?: LargeClaimAdjustment; // From claimant status markings, trended and added at Line 13a
   retentionComponents: {
     retentionPMPM: {
       current: number;            // e.g., $93.49
@@ -94,6 +96,8 @@ export interface BCBSGlobalSettings {
 export interface BCBSMultiPlanData {
   plans: BCBSPlanData[];
   totalMemberMonths: number;      // e.g., 3248
+  poolingExhibit?: PooledClaimsExhibit; // Claimant-level pooling behind the plans' pooled claims
+  ibnrEstimate?: IBNREstimate; // Opt-in IBNR behind the plans' Line 6 factors
 }
 
 export interface BCBSPlanData {
@@ -179,10 +183,12 @@ export interface BCBSCalculationStep {
   lineNumber: string;
   description: string;
   formula: string;
+  dependsOn?: string[];            // Line numbers within the same plan that feed this line
   inputs: Record<string, any>;
   result: number;
   unit: string;
   section?: 'medical' | 'pharmacy' | 'total';
+  sources?: string[];              // Data behind the step, shown on the trace
 }
 
 export interface BCBSCompositeResult {
@@ -276,6 +282,9 @@ export const BCBS_CALCULATION_LINES = [
 export type BCBSInput = BCBSSpecificInput;
 export type BCBSResult = BCBSCalculationResult;
 
+// Pooled excess follows each claimant's medical/pharmacy mix
+export const BCBS_POOLING_SPLIT: PoolingSplit = 'proportional';
+
 // Standard BCBS plan types (can be customized)
 export const BCBS_PLAN_TYPES = [
   'Silver 3000',
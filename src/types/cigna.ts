@@ -1,4 +1,4 @@
-import { UniversalInput, ExperiencePeriods } from './common';
+import { UniversalInput, ExperiencePeriods, ExperiencePeriodRule, IBNRSettings, PoolingSplit, PooledClaimsExhibit, LargeClaimAdjustment, LineTrace, CalculationTrace, CredibilitySettings, CredibilityResult } from './common';
 
 export interface CignaParameters {
   // Pooling settings (lowest threshold)
@@ -7,6 +7,12 @@ export interface CignaParameters {
   // Demographic adjustment
   demographicAdjustment: number; // e.g., 0.9697
   
+  // Experience period split; defaults to CIGNA_EXPERIENCE_PERIOD_RULE
+  experiencePeriodRule?: ExperiencePeriodRule;
+  // Medical/Rx split of each claimant's pooled excess; defaults to CIGNA_POOLING_SPLIT
+  poolingSplit?: PoolingSplit;
+  ibnr?: IBNRSettings; // Completes immature months before periods are determined
+  
   // Trend settings
   trendFactor: {
     annual: number; // Annual trend rate
@@ -28,6 +34,8 @@ export interface CignaParameters {
   
   // Experience vs Manual weighting
   experienceWeight: number; // e.g., 0.80 (80% experience, 20% manual)
+  // Computes the experience weight in place of the supplied one
+  credibilitySettings?: CredibilitySettings;
   
   // Claims Fluctuation Corridor (CFC)
   claimsFluctuationCorridor: {
@@ -44,9 +52,14 @@ export interface CignaParameters {
     profitAndContingency?: number; // Will be calculated as % of claims if not provided
     other?: number; // Will be calculated as % of claims if not provided
   };
+  // Shares used for the loadings not given in PMPM; defaults to CIGNA_EXPENSE_RATES
+  expenseRates?: Partial<CignaExpenseRates>;
   
   // Current premium for comparison - optional since it can be calculated
   currentPremiumPMPM?: number; // Will be calculated from experience if not provided
+
+  // Claims cost built into the current rates, the centre of the fluctuation corridor
+  priorClaimsBasisPMPM?: number; // Current premium less the estimated retention if not provided
   
   // Projected membership for annual calculations - optional since it can be calculated
   projectedMemberMonths?: number; // Will be calculated from current data if not provided
@@ -59,6 +72,15 @@ export interface CignaParameters {
   };
 }
 
+// Expense loadings as shares of the final claims cost; premium tax is a share of claims plus administration and commissions
+export interface CignaExpenseRates {
+  administration: number;
+  commissions: number;
+  premiumTax: number;
+  profitAndContingency: number;
+  other: number;
+}
+
 export interface CignaInput extends UniversalInput {
   carrierSpecificParameters: CignaParameters;
 }
@@ -73,6 +95,10 @@ export interface CignaResult {
   
   // The dual PMPM/Annual calculation breakdown
   calculations: CignaCalculationLine[];
+  trace: CalculationTrace;
+  poolingExhibit: PooledClaimsExhibit;
+  largeClaimAdjustment: LargeClaimAdjustment;
+  credibility: CredibilityResult;
   
   // Experience period used (single 12-month period)
   period: {
@@ -108,6 +134,11 @@ export interface CignaResult {
     adjustedPremium: number;
     adjustmentApplied: boolean;
     adjustmentPercent: number;
+    priorClaimsBasisPMPM: number;
+    corridorLowPMPM: number;
+    corridorHighPMPM: number;
+    blendedClaimsPMPM: number; // Claims cost before the corridor
+    finalClaimsPMPM: number; // Claims cost held inside the corridor
   };
   
   // Validation results
@@ -124,8 +155,27 @@ export interface CignaCalculationLine {
   annual: number | string;
   calculation?: string; // Formula description
   notes?: string;
+  trace?: LineTrace;
 }
 
+// CIGNA rates on a single 12-month experience period; older months are not used
+export const CIGNA_EXPERIENCE_PERIOD_RULE: ExperiencePeriodRule = {
+  currentMonths: 12,
+  priorMonths: 0,
+  minimumPriorMonths: 0
+};
+
+// Pooled excess follows each claimant's medical/Rx mix
+export const CIGNA_POOLING_SPLIT: PoolingSplit = 'proportional';
+
+export const CIGNA_EXPENSE_RATES: CignaExpenseRates = {
+  administration: 0.10,
+  commissions: 0.04,
+  premiumTax: 0.025,
+  profitAndContingency: 0.05,
+  other: 0.02
+};
+
 // Standard CIGNA calculation flow
 export const CIGNA_CALCULATION_LINES = [
   'Total Paid Claims',
@@ -143,6 +193,7 @@ export const CIGNA_CALCULATION_LINES = [
   'Manual Claim Cost',
   'Manual Weight',
   'Blended Claims Cost',
+  'Prior Year Claims Basis',
   'Claims Fluctuation Corridor',
   'Final Claims Cost',
   'Administration Expense',
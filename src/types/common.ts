@@ -1,15 +1,28 @@
+// Carrier ids are registered at runtime via the carrier plugin registry (e.g. 'UHC', 'AETNA')
+export type CarrierId = string;
+
 export interface UniversalInput {
-  carrier: 'AETNA' | 'UHC' | 'CIGNA' | 'BCBS';
+  carrier: CarrierId;
   caseId: string;
   effectiveDates: {
     renewalStart: Date;
     renewalEnd: Date;
   };
+  // Renewal dates as uploaded; effectiveDates is the experience range whenever monthly claims are given
+  renewalDates?: {
+    renewalStart: Date;
+    renewalEnd: Date;
+  };
   monthlyClaimsData: IMonthlyClaimsData[];
   largeClaimantsData: LargeClaimant[];
+  // Experience the manual rate and current premium estimates are based on when it differs from the rated claims (simulated scenarios)
+  estimationClaimsData?: IMonthlyClaimsData[];
+  // Loads over experience for the manual rate and current premium estimates, from the assumption library
+  estimateLoads?: ExperienceEstimateLoads;
   manualRates: ManualRates;
-  carrierSpecificParameters: any; // Will be typed per carrier
+  carrierSpecificParameters: unknown; // Validated against the carrier schema, then typed per carrier by adaptInput
   enrollmentData?: EnrollmentData[]; // Required for BCBS
+  census?: CensusMember[]; // Employee census, for age/sex demographic factors
   currentMembers?: number; // For projection calculations
 }
 
@@ -26,6 +39,7 @@ export interface IMonthlyClaimsData {
     rx: number;
     total?: number;
   };
+  // Paid in the month, whatever month the claims were incurred; feeds paid-vs-incurred IBNR
   paidClaims?: {
     medical: number;
     rx: number;
@@ -38,6 +52,38 @@ export interface IMonthlyClaimsData {
   };
 }
 
+// Cumulative paid claims by incurred month (YYYY-MM), indexed by lag in months from the incurred month
+export type LagTriangle = Record<string, number[]>;
+
+// Opt-in IBNR completion of immature months before experience periods are determined
+export interface IBNRSettings {
+  method: 'paidVsIncurred' | 'lagTriangle';
+  lagTriangle?: LagTriangle; // Required for the lagTriangle method
+  maturityMonths?: number; // Lag at which paid-vs-incurred months are treated as fully paid (default 3)
+}
+
+export interface IBNRMonthEstimate {
+  month: string;
+  lag: number; // Months between this month and the latest month in the data
+  completionFactor: { medical: number; rx: number }; // Share of ultimate reported (lag triangle) or paid-to-incurred ratio (paid vs incurred)
+  ibnr: { medical: number; rx: number; total: number };
+}
+
+export interface IBNREstimate {
+  method: IBNRSettings['method'];
+  evaluationMonth: string; // Latest month in the data
+  completionFactors: { medical: number[]; rx: number[] }; // By lag; lags beyond the arrays are complete
+  months: IBNRMonthEstimate[]; // Months that received an IBNR load
+  totalIBNR: { medical: number; rx: number; total: number };
+}
+
+// Overrides saved on a case or scenario: numeric schema parameters plus the structured settings the dashboard sets
+export interface ParameterOverrides {
+  [key: string]: number | IBNRSettings | CredibilitySettings | undefined;
+  ibnr?: IBNRSettings;
+  credibilitySettings?: CredibilitySettings;
+}
+
 // Legacy alias for backward compatibility
 export interface MonthlyClaimsData extends IMonthlyClaimsData {}
 
@@ -52,6 +98,100 @@ export interface LargeClaimant {
   // Additional fields for carrier-specific calculations
   memberSequence?: string;
   claimType?: 'medical' | 'pharmacy' | 'combined';
+  planName?: string; // Plan the claimant belongs to in multi-plan data
+  laser?: number; // Claimant-specific pooling level, replacing the carrier pooling level
+  status?: ClaimantStatus; // Underwriter's marking; unmarked claimants are not adjusted
+  expectedFutureCost?: number; // Underwriter's expected claims for the renewal year
+  statusNote?: string;
+}
+
+// Whether a large claimant's costs are expected to continue into the renewal year
+export type ClaimantStatus = 'ongoing' | 'resolved' | 'terminated' | 'deceased';
+
+// A marked claimant's expected renewal-year claims in place of their retained experience claims
+export interface LargeClaimAdjustmentEntry {
+  claimantId: string;
+  status: ClaimantStatus;
+  diagnosis?: string;
+  retainedClaims: number; // Experience claims up to the pooling level or laser
+  expectedCost: number; // Expected claims, capped at the pooling level or laser
+  adjustment: number; // Expected cost less retained claims
+  justification: string;
+}
+
+export interface LargeClaimAdjustment {
+  entries: LargeClaimAdjustmentEntry[];
+  total: number;
+  memberMonths: number;
+  pmpm: number;
+}
+
+// How a claimant's pooled excess is split between medical and Rx
+export type PoolingSplit = 'proportional' | 'medical';
+
+export interface PooledAmounts {
+  medical: number;
+  rx: number;
+  total: number;
+}
+
+// One large claimant's claims above their pooling level in one experience period
+export interface PooledClaimant {
+  claimantId: string;
+  period: 'current' | 'prior';
+  incurredDate: Date;
+  claims: PooledAmounts;
+  poolingLevel: number; // The laser when the claimant has one
+  lasered: boolean;
+  pooled: PooledAmounts;
+  retained: PooledAmounts;
+}
+
+// Claimant-by-claimant pooled claims exhibit with the pooled totals for each period
+export interface PooledClaimsExhibit {
+  poolingLevel: number;
+  split: PoolingSplit;
+  claimants: PooledClaimant[];
+  totals: {
+    current: PooledAmounts;
+    prior: PooledAmounts | null;
+  };
+}
+
+// How experience credibility is derived; 'supplied' takes a carrier-set credibility as given
+export type CredibilityMethod = 'limitedFluctuation' | 'linear' | 'buhlmann' | 'table' | 'supplied';
+
+// Groups at or above the exposure get the credibility
+export interface CredibilityTableRow {
+  exposure: number;
+  credibility: number;
+}
+
+// A carrier-published credibility table by member months or group size (employees)
+export interface CredibilityTable {
+  name: string;
+  basis: 'memberMonths' | 'employees';
+  rows: CredibilityTableRow[];
+  interpolate?: boolean; // Interpolate between rows rather than stepping down to the row at or below
+}
+
+// How to compute credibility; only the fields the method reads need to be set
+export interface CredibilitySettings {
+  method: CredibilityMethod;
+  fullCredibilityMemberMonths?: number; // limitedFluctuation and linear
+  buhlmannK?: number; // buhlmann: expected process variance ÷ variance of hypothetical means, in member months
+  table?: CredibilityTable; // table
+  credibility?: number; // supplied
+  minimumCredibility?: number; // Floor on the result, for any method
+}
+
+// Experience credibility with the formula and the inputs it was computed from
+export interface CredibilityResult {
+  method: CredibilityMethod;
+  credibility: number;
+  formula: string;
+  inputs: Record<string, number>; // Keyed by label, e.g. 'Experience member months'
+  table?: string; // Name of the table looked up
 }
 
 export interface ManualRates {
@@ -64,6 +204,7 @@ export interface EnrollmentData {
   month: string;
   subscribers: number;
   members: number;
+  planName?: string; // Plan the row belongs to in multi-plan data
   // Additional enrollment breakdown for BCBS multi-plan
   planBreakdown?: {
     [planId: string]: {
@@ -75,12 +216,29 @@ export interface EnrollmentData {
   };
 }
 
+// One enrolled employee from an uploaded census; dependents are counted, not listed
+export interface CensusMember {
+  employeeId: string;
+  dateOfBirth: Date;
+  gender: 'M' | 'F';
+  tier?: 'EE' | 'ES' | 'EC' | 'Family';
+  zip?: string;
+  dependents: number;
+}
+
 // New interfaces for period handling
 export interface ExperiencePeriods {
   current: Period;
   prior: Period | null;
 }
 
+// How a carrier splits the available months into current and prior experience periods
+export interface ExperiencePeriodRule {
+  currentMonths: number; // Most recent months used as the current period
+  priorMonths: number; // Maximum months in the prior period; 0 for a single period
+  minimumPriorMonths: number; // A shorter remainder is not used as a prior period
+}
+
 export interface Period {
   start: Date;
   end: Date;
@@ -88,6 +246,19 @@ export interface Period {
   label?: string; // For display purposes
 }
 
+// Loads over experience claims by line of coverage, e.g. 0.15 estimates manual rates 15% above experience
+export interface ExperienceEstimateLoads {
+  manual: { medical: number; rx: number };
+  retention: { medical: number; rx: number };
+}
+
+// The assumption library set a calculation read its defaults from
+export interface AssumptionSetReference {
+  version: string; // e.g. '2025-Q3.2', the second set published for 2025-Q3
+  effectiveQuarter: string;
+  segment: string;
+}
+
 // Enhanced calculation result interfaces
 export interface CalculationResult {
   carrier: string;
@@ -97,6 +268,7 @@ export interface CalculationResult {
   proposedRateChange: number;
   calculationSteps: CalculationStep[];
   warnings: ValidationWarning[];
+  assumptionSet?: AssumptionSetReference;
   // Enhanced with carrier-specific detailed results
   detailedResults?: CarrierSpecificResults;
   experiencePeriods?: ExperiencePeriods;
@@ -105,6 +277,11 @@ export interface CalculationResult {
     prior?: number;
     projected: number;
   };
+  // How each calculation line was produced, for drilling into a challenged number
+  trace?: CalculationTrace;
+  poolingExhibit?: PooledClaimsExhibit;
+  largeClaimAdjustment?: LargeClaimAdjustment;
+  credibility?: CredibilityResult;
 }
 
 // New interfaces for detailed carrier calculations
@@ -114,6 +291,7 @@ export interface CarrierSpecificResults {
   uhc?: any; // Will be UHCResult
   cigna?: any; // Will be CignaResult  
   bcbs?: any; // Will be BCBSResult
+  humana?: any; // Will be HumanaResult
 }
 
 export interface AetnaCalculationRow {
@@ -207,6 +385,34 @@ export interface CalculationStep {
   lineNumber?: string; // For carrier-specific line references
 }
 
+// One value used by a calculation line; `line` is set when the value is another line's result
+export interface TraceOperand {
+  label: string;
+  value: number | string;
+  line?: string;
+}
+
+// How a calculation line was produced: its formula, the values it used and the raw data it read
+export interface LineTrace {
+  formula: string;
+  operands: TraceOperand[];
+  sources?: string[];
+}
+
+export interface TraceNode {
+  id: string;
+  description: string;
+  value: number | string;
+  formula: string;
+  operands: TraceOperand[];
+  dependsOn: string[]; // Upstream line ids
+  sources: string[];
+}
+
+export interface CalculationTrace {
+  nodes: TraceNode[];
+}
+
 export interface ValidationWarning {
   message: string;
   field?: string;
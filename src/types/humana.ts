@@ -0,0 +1,177 @@
+import { UniversalInput, ExperiencePeriods, ExperiencePeriodRule, IBNRSettings, PoolingSplit, PooledClaimsExhibit, LineTrace, CalculationTrace, CredibilitySettings, CredibilityResult } from './common';
+
+export interface HumanaParameters {
+  // Pooling settings (Lines 4 & 6)
+  poolingLevel: number; // $150,000 per-claimant threshold
+  poolingChargePercent: number; // Pooling charge as % of net claims (e.g., 8.5)
+
+  // Adjustment factors (Lines 8-9)
+  benefitAdjustment: number; // Line 8: Benefit/plan change factor
+  demographicAdjustment: number; // Line 9: Age/sex/area factor
+
+  // Trend settings (Line 10)
+  trendRates: {
+    medical: number; // Annual medical trend rate (e.g., 0.085 for 8.5%)
+    rx: number; // Annual Rx trend rate
+  };
+  trendMonths: {
+    current: number; // Months from current period midpoint to renewal midpoint (typically 18)
+    prior: number; // Months from prior period midpoint to renewal midpoint (typically 30)
+  };
+
+  // Experience period split; defaults to HUMANA_EXPERIENCE_PERIOD_RULE
+  experiencePeriodRule?: ExperiencePeriodRule;
+  // Medical/Rx split of each claimant's pooled excess; defaults to HUMANA_POOLING_SPLIT
+  poolingSplit?: PoolingSplit;
+  ibnr?: IBNRSettings; // Completes immature months before periods are determined
+
+  // Experience period weighting (Line 12)
+  experienceWeights: {
+    current: number; // Typically 0.65
+    prior: number; // Typically 0.35
+  };
+
+  // Credibility settings (Line 13)
+  credibility: {
+    fullCredibilityMemberMonths: number; // E.g., 15000
+    minimumCredibility: number; // Floor applied to sqrt(MM / full)
+  };
+  // Replaces the square root credibility, e.g. with a Bühlmann k or a published table
+  credibilitySettings?: CredibilitySettings;
+
+  // Manual claims (Line 14)
+  manualClaimsPMPM: {
+    medical: number;
+    rx: number;
+  };
+
+  // Retention components (Line 16) - percentages of premium
+  retentionComponents: {
+    administrative: number;
+    commission: number;
+    premiumTax: number;
+    riskMargin: number;
+  };
+
+  // Current premium for comparison (Line 18)
+  currentPremiumPMPM: number;
+}
+
+export interface HumanaInput extends UniversalInput {
+  carrierSpecificParameters: HumanaParameters;
+}
+
+export interface HumanaCalculationLine {
+  line: string; // 1, 2, 3, etc.
+  description: string;
+  current: {
+    medical: number;
+    rx: number;
+    total: number;
+  };
+  prior: {
+    medical: number;
+    rx: number;
+    total: number;
+  } | null; // Prior column only applies to the experience lines
+  calculation?: string; // Formula description
+  notes?: string;
+  trace?: LineTrace;
+}
+
+export interface HumanaResult {
+  carrier: 'HUMANA';
+  requiredPremium: {
+    medical: number;
+    rx: number;
+    total: number;
+  };
+  rateChange: number;
+
+  // The 19-line calculation breakdown
+  calculations: HumanaCalculationLine[];
+  trace: CalculationTrace;
+  poolingExhibit: PooledClaimsExhibit;
+  credibility: CredibilityResult;
+
+  // Experience periods used
+  periods: ExperiencePeriods;
+
+  // Summary metrics
+  summary: {
+    weightedProjectedClaims: {
+      medical: number;
+      rx: number;
+      total: number;
+    };
+    credibilityFactor: number;
+    totalRetention: number;
+    projectedAnnualPremium: number;
+  };
+
+  // Period analysis
+  periodAnalysis: {
+    current: {
+      memberMonths: number;
+      medicalPMPM: number;
+      rxPMPM: number;
+      totalPMPM: number;
+    };
+    prior: {
+      memberMonths: number;
+      medicalPMPM: number;
+      rxPMPM: number;
+      totalPMPM: number;
+    } | null;
+  };
+
+  // Validation results
+  warnings: string[];
+  dataQuality: {
+    dataCompleteness: number;
+    annualizationApplied: boolean;
+    credibilityScore: number;
+  };
+}
+
+// HUMANA blends the latest 12 months with up to 12 months of prior experience (Line 12)
+export const HUMANA_EXPERIENCE_PERIOD_RULE: ExperiencePeriodRule = {
+  currentMonths: 12,
+  priorMonths: 12,
+  minimumPriorMonths: 1
+};
+
+// Pooled excess follows each claimant's medical/Rx mix
+export const HUMANA_POOLING_SPLIT: PoolingSplit = 'proportional';
+
+// Humana Lines 1-19 calculation flow
+export const HUMANA_CALCULATION_LINES = [
+  // Experience Claims Section (Lines 1-7)
+  { line: '1', description: 'Incurred Medical Claims PMPM' },
+  { line: '2', description: 'Incurred Rx Claims PMPM' },
+  { line: '3', description: 'Total Incurred Claims PMPM (1 + 2)' },
+  { line: '4', description: 'Claims Over Pooling Level PMPM' },
+  { line: '5', description: 'Net Claims PMPM (3 - 4)' },
+  { line: '6', description: 'Pooling Charge PMPM' },
+  { line: '7', description: 'Pooled Claims PMPM (5 + 6)' },
+
+  // Projection Section (Lines 8-12)
+  { line: '8', description: 'Benefit Adjustment' },
+  { line: '9', description: 'Demographic Adjustment' },
+  { line: '10', description: 'Trend Factor' },
+  { line: '11', description: 'Projected Claims PMPM (7 × 8 × 9 × 10)' },
+  { line: '12', description: 'Experience Period Weighting' },
+
+  // Credibility Section (Lines 13-15)
+  { line: '13', description: 'Experience Credibility' },
+  { line: '14', description: 'Manual Claims PMPM' },
+  { line: '15', description: 'Blended Claims PMPM (12 × 13 + 14 × (1 - 13))' },
+
+  // Premium Section (Lines 16-19)
+  { line: '16', description: 'Total Retention %' },
+  { line: '17', description: 'Required Premium PMPM (15 / (1 - 16))' },
+  { line: '18', description: 'Current Premium PMPM' },
+  { line: '19', description: 'Required Rate Change ((17 - 18) / 18)' }
+] as const;
+
+export type HumanaLineType = typeof HUMANA_CALCULATION_LINES[number]['line'];
@@ -1,4 +1,4 @@
-import { UniversalInput, ExperiencePeriods } from './common';
+import { UniversalInput, ExperiencePeriods, ExperiencePeriodRule, IBNRSettings, PoolingSplit, PooledClaimsExhibit, LargeClaimAdjustment, LineTrace, CalculationTrace, CredibilitySettings, CredibilityResult } from './common';
 
 export interface UHCParameters {
   // Pooling settings
@@ -19,6 +19,12 @@ export interface UHCParameters {
     prior: number; // Months from prior period midpoint to renewal (typically 28)
   };
   
+  // Experience period split; defaults to UHC_EXPERIENCE_PERIOD_RULE
+  experiencePeriodRule?: ExperiencePeriodRule;
+  // Medical/Rx split of each claimant's pooled excess; defaults to UHC_POOLING_SPLIT
+  poolingSplit?: PoolingSplit;
+  ibnr?: IBNRSettings; // Completes immature months before periods are determined
+  
   // Experience period weighting (Line J)
   experienceWeights: [number, number]; // [current, prior] typically [0.70, 0.30]
   
@@ -27,6 +33,8 @@ export interface UHCParameters {
     experience: number; // Experience credibility weight (e.g., 0.42)
     manual: number; // Manual credibility weight (e.g., 0.58)
   };
+  // Computes the experience credibility in place of the supplied weights; the manual weight is the remainder
+  credibilitySettings?: CredibilitySettings;
   
   // Manual rates for credibility blending (Lines S-V)
   manualRates: {
@@ -86,6 +94,7 @@ export interface UHCCalculationLine {
   } | null; // Prior period may not exist for some lines
   calculation?: string; // Formula description
   notes?: string;
+  trace?: LineTrace;
 }
 
 export interface UHCResult {
@@ -99,6 +108,10 @@ export interface UHCResult {
   
   // The A-Y line calculation breakdown
   calculations: UHCCalculationLine[];
+  trace: CalculationTrace;
+  poolingExhibit: PooledClaimsExhibit;
+  credibility: CredibilityResult;
+  largeClaimAdjustment: LargeClaimAdjustment;
   
   // Experience periods used
   periods: ExperiencePeriods;
@@ -144,6 +157,16 @@ export interface UHCResult {
   };
 }
 
+// UHC rates on two periods: the latest 12 months plus up to 12 months of prior (13-23 months split 12 + remainder)
+export const UHC_EXPERIENCE_PERIOD_RULE: ExperiencePeriodRule = {
+  currentMonths: 12,
+  priorMonths: 12,
+  minimumPriorMonths: 1
+};
+
+// UHC pools a claimant's whole excess against medical
+export const UHC_POOLING_SPLIT: PoolingSplit = 'medical';
+
 // UHC Lines A-AM calculation flow (based on actual UHC document)
 export const UHC_CALCULATION_LINES = [
   // Experience Rating PMPM Section (Lines A-R)
@@ -0,0 +1,46 @@
+import { runProjection } from './projectionRunner';
+import { collectSources, collectUpstream, explainTraceNode, getTraceNode } from './calculationTrace';
+
+describe('calculation trace', () => {
+  const rows = [
+    { caseId: 'TRACE-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31' },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    }))
+  ];
+
+  test('every carrier explains each line with a formula and known dependencies', async () => {
+    for (const carrier of ['AETNA', 'UHC', 'CIGNA', 'BCBS', 'HUMANA']) {
+      const { result } = await runProjection(rows, carrier);
+      const trace = result.trace!;
+      const ids = trace.nodes.map(node => node.id);
+
+      expect(trace.nodes.length).toBeGreaterThan(10);
+      trace.nodes.forEach(node => {
+        expect(node.formula).not.toBe('');
+        node.dependsOn.forEach(dependency => expect(ids).toContain(dependency));
+      });
+    }
+  });
+
+  test('walks a UHC line back to the lines and raw data behind it', async () => {
+    const { result } = await runProjection(rows, 'UHC');
+    const trace = result.trace!;
+    const lineC = getTraceNode(trace, 'C')!;
+
+    expect(lineC.dependsOn).toEqual(['A', 'B']);
+    expect(lineC.value).toBeCloseTo(getTraceNode(trace, 'A')!.value as number - (getTraceNode(trace, 'B')!.value as number));
+    expect(explainTraceNode(lineC)).toMatch(/^C .+ = Line A − Line B with Line A [\d.,]+, Line B [\d.,]+ = [\d.,]+$/);
+
+    const upstream = collectUpstream(trace, 'C').map(node => node.id);
+    expect(upstream).toEqual(['A', 'B']);
+    expect(collectSources(trace, 'C')).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Current period claims 2024-01 to 2024-12 \(12 months, 12,000 member months\)$/),
+      expect.stringMatching(/^Large claimants .* none$/)
+    ]));
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  CalculationTrace,
+  CredibilityResult,
+  IMonthlyClaimsData,
+  LineTrace,
+  Period,
+  PooledClaimsExhibit,
+  TraceNode,
+  TraceOperand
+} from '../types/common';
+import { getMemberMonthsForPeriod } from './periodHandling';
+
+// A calculation line as seen by the trace: its id, label, headline value and how it was produced
+export interface TracedLine {
+  id: string;
+  description: string;
+  value: number | string;
+  trace?: LineTrace;
+}
+
+export function lineOperand(line: string, value: number | string, label: string = `Line ${line}`): TraceOperand {
+  return { label, value, line };
+}
+
+export function inputOperand(label: string, value: number | string | undefined | null): TraceOperand {
+  return { label, value: value ?? 'not set' };
+}
+
+// The inputs a credibility result was computed from, as trace operands
+export function credibilityOperands(credibility: CredibilityResult): TraceOperand[] {
+  return Object.entries(credibility.inputs).map(([label, value]) => inputOperand(label, value));
+}
+
+function formatPeriodMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Describe the monthly experience a line reads, e.g. "Current period claims 2024-01 to 2024-12 (12 months, 12,000 member months)"
+ */
+export function periodSource(label: string, monthlyData: IMonthlyClaimsData[], period: Period): string {
+  const memberMonths = getMemberMonthsForPeriod(monthlyData, period);
+  return `${label} claims ${formatPeriodMonth(period.start)} to ${formatPeriodMonth(period.end)} ` +
+    `(${period.months} months, ${memberMonths.toLocaleString()} member months)`;
+}
+
+/**
+ * Describe the large claimants a pooling line reads, listing the claimants over their pooling level and any lasers
+ */
+export function largeClaimantSource(exhibit: PooledClaimsExhibit, period: Period): string {
+  const pooled = exhibit.claimants.filter(claimant =>
+    claimant.incurredDate >= period.start && claimant.incurredDate <= period.end && claimant.pooled.total > 0);
+  const ids = pooled
+    .map(claimant => claimant.lasered
+      ? `${claimant.claimantId} lasered at $${claimant.poolingLevel.toLocaleString()}`
+      : claimant.claimantId)
+    .join(', ');
+  return `Large claimants ${formatPeriodMonth(period.start)} to ${formatPeriodMonth(period.end)} over $${exhibit.poolingLevel.toLocaleString()}: ` +
+    (pooled.length > 0 ? `${pooled.length} (${ids})` : 'none');
+}
+
+/**
+ * Build the line dependency graph from traced calculation lines; untraced lines appear as inputs with no formula
+ */
+export function buildCalculationTrace(lines: TracedLine[]): CalculationTrace {
+  const ids = new Set(lines.map(line => line.id));
+  return {
+    nodes: lines.map(line => {
+      const operands = line.trace?.operands ?? [];
+      const dependsOn = Array.from(new Set(
+        operands.map(operand => operand.line).filter((id): id is string => !!id && ids.has(id))
+      ));
+      return {
+        id: line.id,
+        description: line.description,
+        value: line.value,
+        formula: line.trace?.formula ?? '',
+        operands,
+        dependsOn,
+        sources: line.trace?.sources ?? []
+      };
+    })
+  };
+}
+
+export function getTraceNode(trace: CalculationTrace, id: string): TraceNode | undefined {
+  return trace.nodes.find(node => node.id === id);
+}
+
+/**
+ * Every line a value depends on, directly or through other lines, nearest first
+ */
+export function collectUpstream(trace: CalculationTrace, id: string): TraceNode[] {
+  const seen = new Set<string>([id]);
+  const upstream: TraceNode[] = [];
+  let frontier = getTraceNode(trace, id)?.dependsOn ?? [];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach(dependency => {
+      const node = getTraceNode(trace, dependency);
+      if (!node || seen.has(dependency)) return;
+      seen.add(dependency);
+      upstream.push(node);
+      next.push(...node.dependsOn);
+    });
+    frontier = next;
+  }
+  return upstream;
+}
+
+/**
+ * Raw data sources behind a value, including those read by its upstream lines
+ */
+export function collectSources(trace: CalculationTrace, id: string): string[] {
+  const node = getTraceNode(trace, id);
+  const nodes = node ? [node, ...collectUpstream(trace, id)] : [];
+  return Array.from(new Set(nodes.flatMap(entry => entry.sources)));
+}
+
+export function formatTraceValue(value: number | string): string {
+  if (typeof value === 'string') return value;
+  return Math.abs(value) >= 100 ? value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : value.toFixed(4);
+}
+
+/**
+ * One-line explanation of a traced value, e.g. "C Adjusted Medical Claims (A - B) = Line A − Line B with Line A 400.00, Line B 25.0000 = 375.00"
+ */
+export function explainTraceNode(node: TraceNode): string {
+  const label = `${node.id} ${node.description}`;
+  if (!node.formula) return `${label} = ${formatTraceValue(node.value)}`;
+  const operands = node.operands.map(operand => `${operand.label} ${formatTraceValue(operand.value)}`).join(', ');
+  return `${label} = ${node.formula}` + (operands ? ` with ${operands}` : '') + ` = ${formatTraceValue(node.value)}`;
+}
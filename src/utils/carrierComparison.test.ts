@@ -0,0 +1,44 @@
+import { runCarrierComparison, findLowestPremiumCarrier } from './carrierComparison';
+
+describe('multi-carrier comparison', () => {
+  const rows = [
+    { caseId: 'CMP-1', renewalStart: '2025-01-01', renewalEnd: '2025-12-31', manualRateMedical: 450, manualRateRx: 110 },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      Month: `2024-${String(i + 1).padStart(2, '0')}`,
+      'Medical Claims': 400000,
+      'Pharmacy Claims': 100000,
+      memberMonthsMedical: 1000,
+      memberMonthsRx: 1000
+    })),
+    { 'Claimant Number': 'LC-1', 'Total Claims': 300000, 'Medical Claims': 280000, 'Pharmacy Claims': 20000, incurredDate: '2024-06-15' }
+  ];
+
+  test('rates one case with every registered carrier and summarizes pooling and credibility', async () => {
+    const entries = await runCarrierComparison(rows);
+    expect(entries.map(entry => entry.carrierId)).toEqual(['AETNA', 'UHC', 'CIGNA', 'BCBS', 'HUMANA']);
+
+    for (const entry of entries) {
+      expect(entry.error).toBeUndefined();
+      expect(entry.result?.carrier).toBe(entry.carrierId);
+      expect(entry.projectedPremiumPMPM).toBeGreaterThan(0);
+      expect(entry.rateAction).toBe(entry.result!.requiredRateChange);
+      expect(entry.credibility ?? 0).toBeGreaterThanOrEqual(0);
+      expect(entry.credibility ?? 0).toBeLessThanOrEqual(1);
+    }
+
+    const humana = entries.find(entry => entry.carrierId === 'HUMANA')!;
+    expect(humana.pooledClaimsPMPM).toBeGreaterThan(0);
+    expect(humana.poolingImpactPMPM).toBeCloseTo(humana.poolingChargePMPM! - humana.pooledClaimsPMPM!);
+
+    const lowest = findLowestPremiumCarrier(entries)!;
+    expect(entries.every(entry => entry.projectedPremiumPMPM! >= lowest.projectedPremiumPMPM!)).toBe(true);
+  });
+
+  test('keeps comparing when one carrier cannot rate the case', async () => {
+    const entries = await runCarrierComparison(rows, ['HUMANA', 'NOPE']);
+    expect(entries).toHaveLength(2);
+    expect(entries[0].error).toBeUndefined();
+    expect(entries[1]).toMatchObject({ carrierId: 'NOPE', result: null, projectedPremiumPMPM: null, poolingImpactPMPM: null });
+    expect(entries[1].error).toContain('Unsupported carrier');
+  });
+});
@@ -0,0 +1,71 @@
+import { CalculationResult } from '../types/common';
+import { listCarrierPlugins } from '../components/carriers';
+import { runProjection } from './projectionRunner';
+
+// One carrier's calculation of the shared case; failed carriers keep the error instead of a result
+export interface CarrierComparisonEntry {
+  carrierId: string;
+  label: string;
+  result: CalculationResult | null;
+  error?: string;
+  currentPremiumPMPM: number | null;
+  projectedPremiumPMPM: number | null;
+  rateAction: number | null;
+  pooledClaimsPMPM: number | null;
+  poolingChargePMPM: number | null;
+  poolingImpactPMPM: number | null; // Pooling charge less pooled claims: the net effect of pooling on claims
+  credibility: number | null;
+}
+
+function toEntry(carrierId: string, result: CalculationResult | null, error?: string): CarrierComparisonEntry {
+  const plugin = listCarrierPlugins().find(p => p.id.toUpperCase() === carrierId.toUpperCase());
+  const summary = result && plugin?.summarizeResult ? plugin.summarizeResult(result) : null;
+  const pooledClaimsPMPM = summary?.pooledClaimsPMPM ?? null;
+  const poolingChargePMPM = summary?.poolingChargePMPM ?? null;
+
+  return {
+    carrierId: plugin?.id ?? carrierId,
+    label: plugin?.label ?? carrierId,
+    result,
+    ...(error && { error }),
+    currentPremiumPMPM: result?.currentPremiumPMPM ?? null,
+    projectedPremiumPMPM: result?.projectedPremiumPMPM ?? null,
+    rateAction: result?.requiredRateChange ?? null,
+    pooledClaimsPMPM,
+    poolingChargePMPM,
+    poolingImpactPMPM: pooledClaimsPMPM !== null && poolingChargePMPM !== null
+      ? poolingChargePMPM - pooledClaimsPMPM
+      : null,
+    credibility: summary?.credibility ?? null
+  };
+}
+
+/**
+ * Run one uploaded case through every registered carrier (or the given ones) with each carrier's calculated parameters
+ * A carrier that cannot rate the case is reported on its entry rather than aborting the comparison
+ */
+export async function runCarrierComparison(
+  rows: any[],
+  carrierIds: string[] = listCarrierPlugins().map(plugin => plugin.id)
+): Promise<CarrierComparisonEntry[]> {
+  const entries: CarrierComparisonEntry[] = [];
+  for (const carrierId of carrierIds) {
+    try {
+      const { result } = await runProjection(rows, carrierId);
+      entries.push(toEntry(carrierId, result));
+    } catch (error) {
+      entries.push(toEntry(carrierId, null, (error as Error).message));
+    }
+  }
+  return entries;
+}
+
+/**
+ * The successfully rated entry with the lowest projected premium PMPM
+ */
+export function findLowestPremiumCarrier(entries: CarrierComparisonEntry[]): CarrierComparisonEntry | null {
+  return entries
+    .filter(entry => entry.projectedPremiumPMPM !== null)
+    .reduce<CarrierComparisonEntry | null>((lowest, entry) =>
+      !lowest || entry.projectedPremiumPMPM! < lowest.projectedPremiumPMPM! ? entry : lowest, null);
+}
@@ -0,0 +1,82 @@
+import { ExperienceEstimateLoads, IMonthlyClaimsData, UniversalInput } from '../types/common';
+
+// Loads used when the assumption library supplies none: manual rates 15% above experience, premium at 16% retention
+export const DEFAULT_ESTIMATE_LOADS: ExperienceEstimateLoads = {
+  manual: { medical: 0.15, rx: 0.15 },
+  retention: { medical: 0.16, rx: 0.16 }
+};
+
+/**
+ * The monthly experience estimates are based on: the case's own claims unless the input pins a different basis
+ */
+export function estimationClaimsData(input: UniversalInput): IMonthlyClaimsData[] {
+  return input.estimationClaimsData ?? input.monthlyClaimsData;
+}
+
+/**
+ * Estimate manual rates from experience data (experience PMPM with the manual load, 15% by default)
+ */
+export function calculateManualRatesFromExperience(input: UniversalInput): { medical: number; rx: number; total: number } {
+  // Calculate average PMPM from experience data
+  const totalMedical = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.medical || 0), 0);
+  const totalRx = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.rx || 0), 0);
+  const totalMM = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+
+  if (totalMM === 0) {
+    // Fallback to provided manual rates if no member months
+    return {
+      medical: input.manualRates.medical,
+      rx: input.manualRates.rx,
+      total: input.manualRates.total || (input.manualRates.medical + input.manualRates.rx)
+    };
+  }
+
+  const medicalPMPM = totalMedical / totalMM;
+  const rxPMPM = totalRx / totalMM;
+
+  // Manual rates typically run 1.1-1.2x experience
+  const { manual } = input.estimateLoads ?? DEFAULT_ESTIMATE_LOADS;
+  const medical = medicalPMPM * (1 + manual.medical);
+  const rx = rxPMPM * (1 + manual.rx);
+
+  return { medical, rx, total: medical + rx };
+}
+
+/**
+ * Estimate current premium PMPM from experience data (experience PMPM plus retention, 16% by default)
+ */
+export function calculateCurrentPremiumFromExperience(input: UniversalInput): number {
+  const totalMedical = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.medical || 0), 0);
+  const totalRx = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.rx || 0), 0);
+  const totalMM = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.memberMonths?.total || month.memberMonths?.medical || 0), 0);
+
+  if (totalMM === 0) {
+    return 0;
+  }
+
+  // Retention is typically 15-17% for UHC
+  const { retention } = input.estimateLoads ?? DEFAULT_ESTIMATE_LOADS;
+  return (totalMedical * (1 + retention.medical) + totalRx * (1 + retention.rx)) / totalMM;
+}
+
+/**
+ * Ratio of the estimated current premium to experience claims: 1 plus the retention load, weighted by the claims mix
+ */
+export function estimatedRetentionFactor(input: UniversalInput): number {
+  const totalMedical = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.medical || 0), 0);
+  const totalRx = estimationClaimsData(input).reduce((sum, month) =>
+    sum + (month.incurredClaims?.rx || 0), 0);
+
+  const { retention } = input.estimateLoads ?? DEFAULT_ESTIMATE_LOADS;
+  if (totalMedical + totalRx === 0) {
+    return 1 + retention.medical;
+  }
+  return (totalMedical * (1 + retention.medical) + totalRx * (1 + retention.rx)) / (totalMedical + totalRx);
+}
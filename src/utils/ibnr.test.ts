@@ -0,0 +1,109 @@
+import {
+  buildTriangleCompletionFactors,
+  buildPaidVsIncurredCompletionFactors,
+  completeClaimsData,
+  summarizeIBNR,
+  MINIMUM_COMPLETION_FACTOR
+} from './ibnr';
+import { dispatchCarrierCalculation } from './carrierDispatcher';
+import { IMonthlyClaimsData, UniversalInput } from '../types/common';
+
+describe('IBNR completion', () => {
+  // 2024 at $100 medical / $20 Rx PMPM, paid steadily each month; the last two months have only 60% and 90% of it reported
+  const createMonths = (): IMonthlyClaimsData[] =>
+    Array.from({ length: 12 }, (_, i) => {
+      const reported = i === 11 ? 60000 : i === 10 ? 90000 : 100000;
+      return {
+        month: `2024-${String(i + 1).padStart(2, '0')}`,
+        memberMonths: { medical: 1000, rx: 1000, total: 1000 },
+        incurredClaims: { medical: reported, rx: 20000, total: reported + 20000 },
+        paidClaims: { medical: 100000, rx: 20000 }
+      };
+    });
+
+  test('builds chain-ladder completion factors from a lag triangle', () => {
+    const factors = buildTriangleCompletionFactors({
+      '2024-01': [50, 90, 100],
+      '2024-02': [60, 108, 120],
+      '2024-03': [40, 72]
+    });
+    expect(factors[0]).toBeCloseTo(0.5);
+    expect(factors[1]).toBeCloseTo(0.9);
+    expect(factors[2]).toBe(1);
+    expect(() => buildTriangleCompletionFactors({})).toThrow('no paid claims');
+  });
+
+  test('takes each immature lag\'s paid-to-incurred ratio from the mature months', () => {
+    const months = createMonths();
+    months[0].paidClaims!.medical = 64000; // The mature months paid 8% less than they incurred
+    const factors = buildPaidVsIncurredCompletionFactors(months);
+    expect(factors.medical).toHaveLength(3);
+    factors.medical.forEach(factor => expect(factor).toBeCloseTo(864000 / 900000));
+    expect(factors.rx).toEqual([1, 1, 1]);
+
+    // With a two month maturity lag the third month back joins the mature months
+    expect(buildPaidVsIncurredCompletionFactors(createMonths(), 2).medical).toEqual([1, 1]);
+  });
+
+  test('floors lag triangle factors and requires paid claims', () => {
+    expect(buildTriangleCompletionFactors({ '2024-01': [1, 100] })[0]).toBe(MINIMUM_COMPLETION_FACTOR);
+    expect(() => buildPaidVsIncurredCompletionFactors(createMonths().map(({ paidClaims, ...month }) => month)))
+      .toThrow('requires paid claims');
+  });
+
+  test('keeps an immature month\'s own experience when completing it', () => {
+    const months = createMonths();
+    months[11].paidClaims!.medical = 300000;
+    const { claimsData, estimate } = completeClaimsData(months, { method: 'paidVsIncurred' });
+    expect(claimsData[11].incurredClaims.medical).toBeCloseTo(300000);
+    expect(claimsData[10].incurredClaims.medical).toBeCloseTo(100000);
+    expect(estimate?.months[1]).toEqual(expect.objectContaining({ month: '2024-12', lag: 0, ibnr: { medical: 240000, rx: 0, total: 240000 } }));
+  });
+
+  test('completes only immature months and reports the IBNR load', () => {
+    const months = createMonths();
+    const { claimsData, estimate } = completeClaimsData(months, { method: 'paidVsIncurred' });
+    expect(claimsData[11].incurredClaims.medical).toBeCloseTo(100000);
+    expect(claimsData[11].incurredClaims.total).toBeCloseTo(120000);
+    expect(claimsData[0]).toBe(months[0]);
+    expect(months[11].incurredClaims.medical).toBe(60000);
+    expect(estimate?.evaluationMonth).toBe('2024-12');
+    expect(estimate?.months.map(m => m.month)).toEqual(['2024-11', '2024-12']);
+    expect(estimate?.totalIBNR.total).toBeCloseTo(50000);
+    expect(summarizeIBNR(estimate!)).toBe('IBNR (paid vs incurred): added $50,000 to 2 immature month(s) through 2024-12');
+  });
+
+  test('leaves data untouched unless a carrier opts in', () => {
+    const months = createMonths();
+    expect(completeClaimsData(months)).toEqual({ claimsData: months, estimate: null });
+    expect(() => completeClaimsData(months, { method: 'lagTriangle' })).toThrow('requires a lag triangle');
+  });
+
+  test('carrier calculators rate on completed claims when IBNR is configured', async () => {
+    const input: UniversalInput = {
+      carrier: 'UHC',
+      caseId: 'ibnr-test',
+      effectiveDates: { renewalStart: new Date('2025-01-01'), renewalEnd: new Date('2025-12-31') },
+      monthlyClaimsData: createMonths(),
+      largeClaimantsData: [],
+      manualRates: { medical: 400, rx: 100 },
+      carrierSpecificParameters: {}
+    };
+
+    const base = await dispatchCarrierCalculation(input);
+    const completed = await dispatchCarrierCalculation(input, { ibnr: { method: 'paidVsIncurred' } });
+    const lineA = (result: typeof base) =>
+      result.detailedResults?.uhc?.calculations.find((line: any) => line.line === 'A').current.medical;
+
+    expect(lineA(completed)).toBeCloseTo(100);
+    expect(lineA(completed)).toBeGreaterThan(lineA(base));
+    expect(completed.warnings.map(w => w.message)).toEqual(expect.arrayContaining([expect.stringContaining('IBNR')]));
+
+    // BCBS carries the completed-to-reported ratio at Line 6 instead of its standard factors
+    const bcbs = await dispatchCarrierCalculation({ ...input, carrier: 'BCBS' }, { ibnr: { method: 'paidVsIncurred' } });
+    const line6 = bcbs.detailedResults?.bcbs.individualPlans[0].calculations.find((step: any) => step.lineNumber === '6-Med-IBNR');
+    expect(line6.inputs.currentIBNR).toBeCloseTo(1200000 / 1150000);
+    expect(line6.inputs.renewalIBNR).toBeCloseTo(1200000 / 1150000);
+    expect(bcbs.warnings.map(w => w.message)).toEqual(expect.arrayContaining([expect.stringContaining('IBNR')]));
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  IMonthlyClaimsData,
+  IBNRSettings,
+  IBNREstimate,
+  IBNRMonthEstimate,
+  LagTriangle
+} from '../types/common';
+
+export const DEFAULT_IBNR_MATURITY_MONTHS = 3;
+
+// Floor so a nearly empty latest month cannot blow up to several times its reported claims
+export const MINIMUM_COMPLETION_FACTOR = 0.25;
+
+function monthIndex(month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return year * 12 + monthNumber - 1;
+}
+
+function clampCompletion(factor: number): number {
+  if (!isFinite(factor)) return 1;
+  return Math.min(1, Math.max(MINIMUM_COMPLETION_FACTOR, factor));
+}
+
+/**
+ * Chain-ladder completion factors by lag from a cumulative paid lag triangle
+ * Lag k's factor is the share of ultimate claims paid by k months after the incurred month
+ */
+export function buildTriangleCompletionFactors(triangle: LagTriangle): number[] {
+  const rows = Object.values(triangle).filter(row => row.length > 0);
+  if (rows.length === 0) {
+    throw new Error('Lag triangle has no paid claims');
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+
+  // Age-to-age development factors from every incurred month observed at both lags
+  const development: number[] = [];
+  for (let lag = 0; lag < width - 1; lag++) {
+    const developed = rows.filter(row => row.length > lag + 1);
+    const from = developed.reduce((sum, row) => sum + row[lag], 0);
+    const to = developed.reduce((sum, row) => sum + row[lag + 1], 0);
+    development.push(from > 0 ? to / from : 1);
+  }
+
+  const factors: number[] = new Array(width).fill(1);
+  let cumulative = 1;
+  for (let lag = width - 2; lag >= 0; lag--) {
+    cumulative *= development[lag];
+    factors[lag] = clampCompletion(1 / cumulative);
+  }
+  return factors;
+}
+
+/**
+ * Paid-to-incurred ratios by lag from paid-versus-incurred experience
+ * Each month's paid claims are those paid in the month, whatever month they were incurred, so they are complete
+ * when the month is; incurred claims are only run out once a month is past the maturity lag
+ * Every immature lag takes the mature months' ratio of paid to incurred claims
+ */
+export function buildPaidVsIncurredCompletionFactors(
+  claimsData: IMonthlyClaimsData[],
+  maturityMonths: number = DEFAULT_IBNR_MATURITY_MONTHS
+): { medical: number[]; rx: number[] } {
+  const latest = Math.max(...claimsData.map(month => monthIndex(month.month)));
+  const lagOf = (month: IMonthlyClaimsData) => latest - monthIndex(month.month);
+
+  const matureMonths = claimsData.filter(month => month.paidClaims && lagOf(month) >= maturityMonths);
+  if (matureMonths.length === 0) {
+    throw new Error(`Paid-vs-incurred IBNR requires paid claims for at least one month ${maturityMonths} or more months old`);
+  }
+
+  const ratio = (line: 'medical' | 'rx') => {
+    const paid = matureMonths.reduce((sum, month) => sum + month.paidClaims![line], 0);
+    const incurred = matureMonths.reduce((sum, month) => sum + month.incurredClaims[line], 0);
+    return paid > 0 && incurred > 0 ? paid / incurred : 1;
+  };
+
+  return {
+    medical: new Array(maturityMonths).fill(ratio('medical')),
+    rx: new Array(maturityMonths).fill(ratio('rx'))
+  };
+}
+
+/**
+ * Completes immature months with IBNR so experience periods see ultimate incurred claims
+ * Lag triangle factors develop the reported incurred claims; paid-vs-incurred ratios turn the month's paid claims
+ * into ultimate incurred claims, and only the ultimate above what is already reported is added
+ * Returns the data unchanged (and no estimate) when IBNR is not configured
+ */
+export function completeClaimsData(
+  claimsData: IMonthlyClaimsData[],
+  settings?: IBNRSettings
+): { claimsData: IMonthlyClaimsData[]; estimate: IBNREstimate | null } {
+  if (!settings || claimsData.length === 0) {
+    return { claimsData, estimate: null };
+  }
+
+  let completionFactors: { medical: number[]; rx: number[] };
+  if (settings.method === 'lagTriangle') {
+    if (!settings.lagTriangle) {
+      throw new Error('Lag triangle IBNR requires a lag triangle');
+    }
+    const factors = buildTriangleCompletionFactors(settings.lagTriangle);
+    completionFactors = { medical: factors, rx: factors };
+  } else {
+    completionFactors = buildPaidVsIncurredCompletionFactors(claimsData, settings.maturityMonths);
+  }
+
+  const latest = Math.max(...claimsData.map(month => monthIndex(month.month)));
+  const evaluationMonth = claimsData.find(month => monthIndex(month.month) === latest)!.month;
+  const months: IBNRMonthEstimate[] = [];
+
+  const completed = claimsData.map(month => {
+    const lag = latest - monthIndex(month.month);
+    if (lag >= completionFactors.medical.length) {
+      return month;
+    }
+    const completionFactor = {
+      medical: completionFactors.medical[lag],
+      rx: completionFactors.rx[lag]
+    };
+
+    const developed = settings.method === 'lagTriangle' ? month.incurredClaims : month.paidClaims ?? month.incurredClaims;
+    const medical = Math.max(0, developed.medical / completionFactor.medical - month.incurredClaims.medical);
+    const rx = Math.max(0, developed.rx / completionFactor.rx - month.incurredClaims.rx);
+    if (medical === 0 && rx === 0) {
+      return month;
+    }
+    const ibnr = { medical, rx, total: medical + rx };
+    months.push({ month: month.month, lag, completionFactor, ibnr });
+
+    return {
+      ...month,
+      incurredClaims: {
+        medical: month.incurredClaims.medical + medical,
+        rx: month.incurredClaims.rx + rx,
+        total: (month.incurredClaims.total ?? month.incurredClaims.medical + month.incurredClaims.rx) + ibnr.total
+      }
+    };
+  });
+
+  const totalIBNR = months.reduce((sum, month) => ({
+    medical: sum.medical + month.ibnr.medical,
+    rx: sum.rx + month.ibnr.rx,
+    total: sum.total + month.ibnr.total
+  }), { medical: 0, rx: 0, total: 0 });
+
+  return {
+    claimsData: completed,
+    estimate: { method: settings.method, evaluationMonth, completionFactors, months, totalIBNR }
+  };
+}
+
+/**
+ * IBNR settings read back from a saved scenario or case; rejects an unknown method, a fractional maturity or a malformed triangle
+ */
+export function parseIBNRSettings(value: any): IBNRSettings {
+  if (!value || (value.method !== 'paidVsIncurred' && value.method !== 'lagTriangle')) {
+    throw new Error('IBNR method must be paidVsIncurred or lagTriangle');
+  }
+  const { method, maturityMonths, lagTriangle } = value;
+  if (maturityMonths !== undefined && !(Number.isInteger(maturityMonths) && maturityMonths > 0)) {
+    throw new Error('IBNR maturity months must be a positive whole number');
+  }
+  if (lagTriangle !== undefined && (typeof lagTriangle !== 'object' || Array.isArray(lagTriangle) ||
+    !Object.values(lagTriangle).every(row => Array.isArray(row) && row.every(paid => typeof paid === 'number' && isFinite(paid))))) {
+    throw new Error('IBNR lag triangle must list cumulative paid claims by incurred month');
+  }
+  return {
+    method,
+    ...(maturityMonths !== undefined && { maturityMonths }),
+    ...(lagTriangle !== undefined && { lagTriangle })
+  };
+}
+
+// Short label for the settings, e.g. "paid vs incurred, mature after 3 months"
+export function describeIBNRSettings(settings: IBNRSettings): string {
+  if (settings.method === 'lagTriangle') return 'lag triangle';
+  return `paid vs incurred, mature after ${settings.maturityMonths ?? DEFAULT_IBNR_MATURITY_MONTHS} months`;
+}
+
+/**
+ * One-line description of an IBNR estimate for calculator warnings
+ */
+export function summarizeIBNR(estimate: IBNREstimate): string {
+  const method = estimate.method === 'lagTriangle' ? 'lag triangle' : 'paid vs incurred';
+  return `IBNR (${method}): added $${Math.round(estimate.totalIBNR.total).toLocaleString()} ` +
+    `to ${estimate.months.length} immature month(s) through ${estimate.evaluationMonth}`;
+}
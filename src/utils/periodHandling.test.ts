@@ -0,0 +1,93 @@
+import { determineExperiencePeriods, validateLargeClaimantPeriods } from './periodHandling';
+import { dispatchCarrierCalculation } from './carrierDispatcher';
+import { IMonthlyClaimsData, UniversalInput } from '../types/common';
+import { CIGNA_EXPERIENCE_PERIOD_RULE } from '../types/cigna';
+
+describe('experience period determination', () => {
+  // Consecutive months ending 2024-12, with the oldest months carrying lower claims
+  const createMonths = (count: number): IMonthlyClaimsData[] =>
+    Array.from({ length: count }, (_, i) => {
+      const date = new Date(2024, 12 - count + i, 1);
+      return {
+        month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+        memberMonths: { medical: 500, rx: 500, total: 500 },
+        incurredClaims: { medical: i < count - 12 ? 150000 : 200000, rx: 50000 }
+      };
+    });
+
+  const createInput = (carrier: string, months: number): UniversalInput => ({
+    carrier,
+    caseId: 'period-test',
+    effectiveDates: {
+      renewalStart: new Date('2025-01-01'),
+      renewalEnd: new Date('2025-12-31')
+    },
+    monthlyClaimsData: createMonths(months),
+    largeClaimantsData: [],
+    manualRates: { medical: 400, rx: 100 },
+    carrierSpecificParameters: {}
+  });
+
+  const renewalStart = new Date('2025-01-01');
+
+  test('splits 13-23 months into the latest 12 plus the remainder as prior', () => {
+    const periods = determineExperiencePeriods(createMonths(18), renewalStart);
+    expect(periods.current.months).toBe(12);
+    expect(periods.current.start).toEqual(new Date(2024, 0, 1));
+    expect(periods.prior).toEqual({
+      start: new Date(2023, 6, 1),
+      end: new Date(2023, 11, 31),
+      months: 6
+    });
+  });
+
+  test('caps the prior period at the rule length and keeps short data as one period', () => {
+    expect(determineExperiencePeriods(createMonths(30), renewalStart).prior?.months).toBe(12);
+    expect(determineExperiencePeriods(createMonths(9), renewalStart)).toMatchObject({
+      current: { months: 9 },
+      prior: null
+    });
+  });
+
+  test('honours carrier rules for a single period and a minimum prior length', () => {
+    const cigna = determineExperiencePeriods(createMonths(24), renewalStart, CIGNA_EXPERIENCE_PERIOD_RULE);
+    expect(cigna.current.months).toBe(12);
+    expect(cigna.prior).toBeNull();
+
+    const minimumSix = { currentMonths: 12, priorMonths: 12, minimumPriorMonths: 6 };
+    expect(determineExperiencePeriods(createMonths(15), renewalStart, minimumSix).prior).toBeNull();
+    expect(determineExperiencePeriods(createMonths(18), renewalStart, minimumSix).prior?.months).toBe(6);
+  });
+
+  test('warns about claimants older than the experience window instead of failing', () => {
+    const periods = determineExperiencePeriods(createMonths(24), renewalStart, CIGNA_EXPERIENCE_PERIOD_RULE);
+    const result = validateLargeClaimantPeriods(
+      [{ claimantId: 'LC1', totalAmount: 90000, incurredDate: new Date('2023-03-15') }],
+      periods
+    );
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([expect.stringContaining('LC1')]);
+  });
+
+  test('UHC Line J weights the partial prior period', async () => {
+    const result = await dispatchCarrierCalculation(createInput('UHC', 18));
+    const lines = result.detailedResults?.uhc?.calculations || [];
+    const lineI = lines.find((line: any) => line.line === 'I');
+    const lineJ = lines.find((line: any) => line.line === 'J');
+    expect(lineI.prior).not.toBeNull();
+    expect(lineJ.current.total).toBeCloseTo(lineI.current.total * 0.7 + lineI.prior.total * 0.3);
+    expect(lineJ.current.total).toBeLessThan(lineI.current.total);
+  });
+
+  test('AETNA Line 14 gives full weight to current experience without a prior period', async () => {
+    const single = await dispatchCarrierCalculation(createInput('AETNA', 12));
+    const singleLine14 = single.detailedResults?.aetna?.calculations.find((line: any) => line.lineNumber === '14');
+    expect(singleLine14.current.total).toBe(1);
+    expect(singleLine14.prior.total).toBe(0);
+
+    const split = await dispatchCarrierCalculation(createInput('AETNA', 18));
+    const splitLine14 = split.detailedResults?.aetna?.calculations.find((line: any) => line.lineNumber === '14');
+    expect(splitLine14.current.total).toBe(0.75);
+    expect(splitLine14.notes).toBe('Prior period: 6 months');
+  });
+});
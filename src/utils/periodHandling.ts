@@ -4,16 +4,53 @@ import {
   ExperiencePeriods, 
   Period, 
   ValidationResult,
-  AnnualizedClaims 
+  AnnualizedClaims,
+  ExperiencePeriodRule
 } from '../types/common';
 
+// 12-month current period with up to 12 months of prior: 13-23 months split 12 + remainder
+export const DEFAULT_EXPERIENCE_PERIOD_RULE: ExperiencePeriodRule = {
+  currentMonths: 12,
+  priorMonths: 12,
+  minimumPriorMonths: 1
+};
+
+/**
+ * The renewal year priced from experience ending on experienceEnd
+ * Effective dates that overlap the experience are the data range rather than a renewal; the renewal year then follows the experience
+ */
+export function renewalPeriodAfter(
+  effectiveDates: { renewalStart: Date; renewalEnd: Date },
+  experienceEnd: Date
+): { start: Date; end: Date } {
+  const { renewalStart, renewalEnd } = effectiveDates;
+  if (renewalStart > experienceEnd) {
+    return { start: renewalStart, end: renewalEnd };
+  }
+  return {
+    start: new Date(experienceEnd.getFullYear(), experienceEnd.getMonth() + 1, 1),
+    end: new Date(experienceEnd.getFullYear() + 1, experienceEnd.getMonth() + 1, 0)
+  };
+}
+
+const MS_PER_MONTH = 365.25 / 12 * 86400000;
+
+/**
+ * Months of trend from the midpoint of one period to the midpoint of a later one
+ */
+export function monthsBetweenMidpoints(from: { start: Date; end: Date }, to: { start: Date; end: Date }): number {
+  const midpoint = (period: { start: Date; end: Date }) => (period.start.getTime() + period.end.getTime()) / 2;
+  return (midpoint(to) - midpoint(from)) / MS_PER_MONTH;
+}
+
 /**
  * Universal period determination logic for all carriers
- * Determines current and prior experience periods based on available data
+ * Determines current and prior experience periods based on available data and the carrier's period rule
  */
 export function determineExperiencePeriods(
   claimsData: IMonthlyClaimsData[], 
-  renewalEffectiveDate: Date
+  renewalEffectiveDate: Date,
+  rule: ExperiencePeriodRule = DEFAULT_EXPERIENCE_PERIOD_RULE
 ): ExperiencePeriods {
   if (!claimsData || claimsData.length === 0) {
     throw new Error('No claims data provided');
@@ -47,44 +84,28 @@ export function determineExperiencePeriods(
     return firstDay;
   };
 
-  // Determine current experience period
-  const mostRecentMonth = sortedData[0].month;  // e.g. "2024-05"
-  const oldestMonth = sortedData[totalMonths - 1].month;  // e.g. "2023-07"
-
-  // Calculate experience periods based on data length
-  if (totalMonths >= 24) {
-    // 24+ months: Use most recent 12 as current, prior 12 as prior
-    const currentPeriodStart = getFirstDayOfMonth(sortedData[11].month);
-    const currentPeriodEnd = getLastDayOfMonth(mostRecentMonth);
-    const priorPeriodStart = getFirstDayOfMonth(sortedData[23].month);
-    const priorPeriodEnd = getLastDayOfMonth(sortedData[12].month);
-
-    return {
-      current: {
-        start: currentPeriodStart,
-        end: currentPeriodEnd,
-        months: 12
-      },
-      prior: {
-        start: priorPeriodStart,
-        end: priorPeriodEnd,
-        months: 12
-      }
-    };
-  } else {
-    // 4-23 months: Use all as current period only (will be annualized)
-    const currentPeriodStart = getFirstDayOfMonth(oldestMonth);
-    const currentPeriodEnd = getLastDayOfMonth(mostRecentMonth);
+  // Current period: the most recent months (fewer than a full period will be annualized)
+  const currentMonths = Math.min(totalMonths, rule.currentMonths);
+  const current: Period = {
+    start: getFirstDayOfMonth(sortedData[currentMonths - 1].month),
+    end: getLastDayOfMonth(sortedData[0].month),
+    months: currentMonths
+  };
 
-    return {
-      current: {
-        start: currentPeriodStart,
-        end: currentPeriodEnd,
-        months: totalMonths
-      },
-      prior: null
-    };
+  // Prior period: the next older months up to the rule's limit; older data is not used
+  const priorMonths = Math.min(totalMonths - currentMonths, rule.priorMonths);
+  if (priorMonths === 0 || priorMonths < rule.minimumPriorMonths) {
+    return { current, prior: null };
   }
+
+  return {
+    current,
+    prior: {
+      start: getFirstDayOfMonth(sortedData[currentMonths + priorMonths - 1].month),
+      end: getLastDayOfMonth(sortedData[currentMonths].month),
+      months: priorMonths
+    }
+  };
 }
 
 /**
@@ -115,8 +136,15 @@ export function validateLargeClaimantPeriods(
       inPriorPeriod = claimantDateStr >= priorStart && claimantDateStr <= priorEnd;
     }
 
+    // Claims older than the carrier's experience window are simply not rated
+    const earliestStart = (periods.prior || periods.current).start.toISOString().split('T')[0];
+
     if (!inCurrentPeriod && !inPriorPeriod) {
-      errors.push(`Claimant ${claimant.claimantId} with incurred date ${claimantDateStr} falls outside experience periods`);
+      if (claimantDateStr < earliestStart) {
+        warnings.push(`Claimant ${claimant.claimantId} with incurred date ${claimantDateStr} predates the experience periods and is excluded`);
+      } else {
+        errors.push(`Claimant ${claimant.claimantId} with incurred date ${claimantDateStr} falls outside experience periods`);
+      }
     }
   });
 
@@ -216,41 +244,6 @@ export function getClaimantsForPeriod(
   });
 }
 
-/**
- * Calculates pooled claims over a threshold for a specific period
- */
-export function calculatePooledClaimsForPeriod(
-  claimants: LargeClaimant[],
-  period: Period,
-  poolingThreshold: number
-): { medical: number; rx: number; total: number } {
-  const periodClaimants = getClaimantsForPeriod(claimants, period);
-  
-  console.log(`🏊 Pooling Calculation Debug:`);
-  console.log(`   Pooling threshold: $${poolingThreshold.toLocaleString()}`);
-  console.log(`   Period: ${period.start.toISOString().split('T')[0]} to ${period.end.toISOString().split('T')[0]}`);
-  console.log(`   All claimants: ${claimants.length}`);
-  console.log(`   Period claimants: ${periodClaimants.length}`);
-  
-  return periodClaimants.reduce((sum, claimant) => {
-    const excessAmount = Math.max(0, claimant.totalAmount - poolingThreshold);
-    
-    // If we have medical/rx breakdown, use it; otherwise assume all medical
-    const medicalExcess = claimant.medicalAmount ? 
-      Math.max(0, claimant.medicalAmount - poolingThreshold) : excessAmount;
-    const rxExcess = claimant.rxAmount ? 
-      Math.max(0, claimant.rxAmount - poolingThreshold) : 0;
-    
-    console.log(`   Claimant ${claimant.claimantId}: Total=$${claimant.totalAmount.toLocaleString()}, Excess=$${excessAmount.toLocaleString()}, MedExcess=$${medicalExcess.toLocaleString()}, RxExcess=$${rxExcess.toLocaleString()}`);
-    
-    return {
-      medical: sum.medical + medicalExcess,
-      rx: sum.rx + rxExcess,
-      total: sum.total + excessAmount
-    };
-  }, { medical: 0, rx: 0, total: 0 });
-}
-
 /**
  * Validates the overall data quality for renewal calculations
  */
@@ -0,0 +1,123 @@
+import { UniversalInput, CalculationResult } from '../types/common';
+import { ingestUniversalInput, autoCalculateParams, IngestDiagnostic } from '../ingest';
+import { dispatchCarrierCalculation } from './carrierDispatcher';
+import { validateCarrierParameters, formatCarrierParameterErrors, CarrierParameterError } from '../components/carriers';
+import { validateCredibilitySettings } from '../credibility';
+import { applyCensusDemographics, CensusDemographics } from '../demographics';
+import { applyPlanDesign, attachPlanDesignTrace, PlanDesignApplication } from '../planDesign';
+import { applyTrendMonths, TrendMonthsApplication } from '../trendMonths';
+import { applyAssumptionSet, AssumptionApplication } from '../assumptions';
+
+export interface ProjectionRun {
+  input: UniversalInput;
+  params: any;
+  result: CalculationResult;
+  diagnostics: IngestDiagnostic[];
+  demographics: CensusDemographics | null;
+  planDesign: PlanDesignApplication | null;
+  trendMonths: TrendMonthsApplication | null;
+  assumptions: AssumptionApplication;
+}
+
+export const MISSING_MONTHLY_DATA_MESSAGE =
+  'Missing required monthly claims data. Please ensure your data includes rows with Month, Medical Claims, and Pharmacy Claims columns.';
+
+/**
+ * Whether any uploaded row carries monthly claims (a Month plus medical or pharmacy claims)
+ */
+export function hasMonthlyClaimsRows(rows: any[]): boolean {
+  return rows.some(row =>
+    row.Month && (row['Medical Claims'] !== undefined || row['Pharmacy Claims'] !== undefined)
+  );
+}
+
+/**
+ * Problems with the structured credibility settings in an override set, reported like parameter errors
+ */
+export function credibilitySettingsErrors(overrides: any): CarrierParameterError[] {
+  if (overrides.credibilitySettings === undefined) return [];
+  return validateCredibilitySettings(overrides.credibilitySettings).errors.map(message => ({
+    key: 'credibilitySettings',
+    label: 'Credibility',
+    value: overrides.credibilitySettings,
+    message
+  }));
+}
+
+// A case ready to rate: the universal input plus validated parameters, before the carrier calculation runs
+export interface PreparedProjection {
+  input: UniversalInput;
+  params: any;
+  diagnostics: IngestDiagnostic[];
+  demographics: CensusDemographics | null; // Census age/sex factors, when a census is uploaded
+  planDesign: PlanDesignApplication | null; // Current versus proposed plan relativity, when plan designs are given
+  trendMonths: TrendMonthsApplication | null; // Months from the experience to the renewal midpoints
+  assumptions: AssumptionApplication; // The assumption library set the defaults came from
+}
+
+/**
+ * Map uploaded rows to a universal input and auto-calculate parameters (with overrides)
+ * Rejects with every invalid uploaded or overridden parameter listed
+ */
+export function prepareProjection(rows: any[], carrier: string, overrides: any = {}): PreparedProjection {
+  if (!hasMonthlyClaimsRows(rows)) {
+    throw new Error(MISSING_MONTHLY_DATA_MESSAGE);
+  }
+
+  const ingested = ingestUniversalInput(rows, carrier);
+  const { params: carrierParams, errors } = autoCalculateParams(rows, carrier);
+  // Overrides are checked against the same schema; structured settings (period rule, IBNR) pass through untouched,
+  // apart from credibility settings, which are checked on their own
+  const overrideCheck = validateCarrierParameters(carrier, overrides, {});
+  const invalid = [...errors, ...overrideCheck.errors, ...credibilitySettingsErrors(overrides)];
+  if (invalid.length > 0) {
+    throw new Error(formatCarrierParameterErrors(carrier, invalid));
+  }
+
+  // The assumption set in force at renewal replaces the carrier defaults that no upload or override sets
+  const library = applyAssumptionSet(ingested.input, carrier, carrierParams, [rows[0] || {}, overrides], {
+    segment: overrides.marketSegment ?? (rows[0]?.marketSegment || undefined),
+    version: overrides.assumptionSet ?? (rows[0]?.assumptionSet || undefined)
+  });
+  const { input, params } = library;
+
+  // An uploaded census fills the carrier's demographic line unless the upload or an override sets it
+  const census = applyCensusDemographics(
+    input,
+    carrier,
+    { ...params, ...overrides, ...overrideCheck.params },
+    [rows[0] || {}, overrides],
+    overrides.ageSexTable ?? (rows[0]?.ageSexTable || undefined)
+  );
+  // Likewise current and proposed plan designs fill the plan change line
+  const plan = applyPlanDesign(carrier, census.params, [rows[0] || {}, overrides]);
+  // And the experience and renewal dates fill the trend months
+  const trend = applyTrendMonths(input, carrier, plan.params, [rows[0] || {}, overrides]);
+  return {
+    input,
+    params: trend.params,
+    diagnostics: ingested.diagnostics,
+    demographics: census.demographics,
+    planDesign: plan.planDesign,
+    trendMonths: trend.trendMonths,
+    assumptions: library.assumptions
+  };
+}
+
+/**
+ * Prepare the uploaded rows and dispatch them to the carrier
+ */
+export async function runProjection(rows: any[], carrier: string, overrides: any = {}): Promise<ProjectionRun> {
+  const prepared = prepareProjection(rows, carrier, overrides);
+  const { input, params, diagnostics, demographics, planDesign, trendMonths, assumptions } = prepared;
+  const result = await dispatchCarrierCalculation(input, params);
+  result.assumptionSet = { version: assumptions.version, effectiveQuarter: assumptions.effectiveQuarter, segment: assumptions.segment };
+  if (planDesign && result.trace) {
+    result.trace = attachPlanDesignTrace(result.trace, planDesign);
+  }
+  if (trendMonths) {
+    result.warnings = [...(result.warnings ?? []), ...trendMonths.warnings];
+  }
+
+  return { input, params, result, diagnostics, demographics, planDesign, trendMonths, assumptions };
+}